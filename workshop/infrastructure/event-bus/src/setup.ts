@@ -35,6 +35,12 @@ const TOPICS = [
   'sample.resources.created',
   'sample.resources.updated',
   'sample.resources.deleted',
+
+  // Service registry events
+  'registry.service.registered',
+  'registry.service.updated',
+  'registry.service.deregistered',
+  'registry.service.evicted',
 ];
 
 /**
@@ -1,34 +1,66 @@
 import jwt from 'jsonwebtoken';
-
-// Secret key for JWT signing - in a real system, this would be stored securely
-// and potentially be a private key for asymmetric signing
-const JWT_SECRET = process.env.JWT_SECRET || 'workshop-secret-key';
+import { randomBytes, randomUUID } from 'crypto';
+import path from 'path';
+import { KeyStore, SigningAlgorithm } from './keys';
 
 // Token expiration time in seconds
-const TOKEN_EXPIRATION = 14400; // 4 hours
+export const TOKEN_EXPIRATION = 14400; // 4 hours
 
 // Interface for token payload
-interface TokenPayload {
+export interface TokenPayload {
   client_id: string;
   scope: string;
+  // Unique token ID, so a single token can be revoked
+  jti?: string;
   exp?: number;
   iat?: number;
 }
 
+let keyStore: KeyStore | undefined;
+
 /**
- * Generate a JWT token with the given payload
+ * The key pairs tokens are signed with, loaded from disk on first use
+ *
+ * RS256 by default, ES256 when JWT_ALGORITHM says so. A new key takes over
+ * signing every KEY_ROTATION_INTERVAL seconds (a week by default), the one it
+ * replaces stays in the JWKS for KEY_ROTATION_OVERLAP seconds, at least as
+ * long as a token lives.
  */
-export function generateToken(payload: Omit<TokenPayload, 'exp' | 'iat'>): string {
+export function signingKeys(): KeyStore {
+  if (!keyStore) {
+    const algorithm = (process.env.JWT_ALGORITHM || 'RS256') as SigningAlgorithm;
+    if (algorithm !== 'RS256' && algorithm !== 'ES256') {
+      throw new Error(`Unsupported JWT_ALGORITHM ${algorithm}, use RS256 or ES256`);
+    }
+    const overlap = Number(process.env.KEY_ROTATION_OVERLAP || TOKEN_EXPIRATION);
+
+    keyStore = new KeyStore({
+      directory: process.env.IAM_KEYS_DIR || path.join(process.cwd(), 'data', 'keys'),
+      algorithm,
+      rotationInterval: Number(process.env.KEY_ROTATION_INTERVAL || 7 * 24 * 3600) * 1000,
+      overlap: Math.max(overlap, TOKEN_EXPIRATION) * 1000,
+    });
+    keyStore.load();
+  }
+  return keyStore;
+}
+
+/**
+ * Generate a JWT token with the given payload, signed with the current key
+ */
+export function generateToken(payload: Omit<TokenPayload, 'jti' | 'exp' | 'iat'>): string {
   // Add expiration and issued at timestamps
   const now = Math.floor(Date.now() / 1000);
   const tokenPayload: TokenPayload = {
     ...payload,
+    jti: randomUUID(),
     iat: now,
     exp: now + TOKEN_EXPIRATION,
   };
 
-  // Sign the token
-  return jwt.sign(tokenPayload, JWT_SECRET);
+  // Sign the token, the kid header tells verifiers which published key to use
+  const key = signingKeys().current;
+  return jwt.sign(tokenPayload, key.privateKey, { algorithm: key.alg, keyid: key.kid });
 }
 
 /**
@@ -36,8 +68,15 @@ export function generateToken(payload: Omit<TokenPayload, 'exp' | 'iat'>): strin
  */
 export function verifyToken(token: string): TokenPayload {
   try {
+    // Look up the key the token was signed with, it must still be published
+    const kid = jwt.decode(token, { complete: true })?.header.kid;
+    const key = kid ? signingKeys().find(kid) : undefined;
+    if (!key) {
+      throw new Error('Unknown signing key');
+    }
+
     // Verify and decode the token
-    const decoded = jwt.verify(token, JWT_SECRET) as TokenPayload;
+    const decoded = jwt.verify(token, key.publicKey, { algorithms: [key.alg] }) as TokenPayload;
     return decoded;
   } catch (error) {
     // In a real system, you would log the error
@@ -46,9 +85,8 @@ export function verifyToken(token: string): TokenPayload {
 }
 
 /**
- * Generate a refresh token (for the workshop we'll use a simple UUID)
- * In a real system, you would use a more secure method
+ * Generate an opaque refresh token from 32 random bytes
  */
 export function generateRefreshToken(): string {
-  return `refresh-${Math.random().toString(36).substring(2, 15)}`;
+  return `refresh-${randomBytes(32).toString('base64url')}`;
 }
@@ -0,0 +1,307 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt);
+
+// A client secret as stored, never the secret itself
+interface StoredSecret {
+  // scrypt$<salt>$<hash>, both base64url
+  hash: string;
+  created_at: number;
+  // Set on the previous secret when a new one replaces it
+  expires_at?: number;
+}
+
+interface StoredClient {
+  client_id: string;
+  name?: string;
+  enabled: boolean;
+  // Interactive clients act for a signed in user and get refresh tokens
+  interactive: boolean;
+  // Scopes the client can request, from the scope catalog
+  scopes: string[];
+  secrets: StoredSecret[];
+  created_at: number;
+  updated_at: number;
+}
+
+// A client as returned by the API, without secret hashes. Times are in seconds.
+export interface Client {
+  client_id: string;
+  name?: string;
+  enabled: boolean;
+  interactive: boolean;
+  scopes: string[];
+  secrets: { created_at: number; expires_at?: number }[];
+  created_at: number;
+  updated_at: number;
+}
+
+export interface ClientSettings {
+  name?: string;
+  enabled?: boolean;
+  interactive?: boolean;
+}
+
+// A client created from configuration, with a secret known up front or one
+// generated when it is seeded
+export interface SeedClient extends ClientSettings {
+  client_id: string;
+  client_secret?: string;
+  scopes?: string[];
+}
+
+// Client IDs double as service names, e.g. emergency-fire-service
+const CLIENT_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,62}$/;
+
+/**
+ * OAuth clients of the IAM service
+ *
+ * Secrets are only kept as salted scrypt hashes. A client has one secret,
+ * or two while a rotated secret is in its grace period. The clients are
+ * persisted to a JSON file, written on every change.
+ */
+export class ClientStore {
+  private clients: Map<string, StoredClient> = new Map();
+
+  constructor(private file: string) {}
+
+  /**
+   * Load the persisted clients, creating the seed clients on first start
+   *
+   * Returns the secrets generated for seed clients without one, by client ID.
+   * They are only known at this point.
+   */
+  async load(seed: SeedClient[] = []): Promise<Record<string, string>> {
+    if (fs.existsSync(this.file)) {
+      const stored: StoredClient[] = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+      // Clients stored before scopes were granted per client get their seed scopes
+      const seedScopes = new Map(seed.map((client) => [client.client_id, client.scopes]));
+      this.clients = new Map(
+        stored.map((client) => [
+          client.client_id,
+          { ...client, scopes: client.scopes ?? seedScopes.get(client.client_id) ?? [] },
+        ])
+      );
+      return {};
+    }
+
+    const generated: Record<string, string> = {};
+    for (const { client_id, client_secret, scopes, ...settings } of seed) {
+      const secret = client_secret ?? (generated[client_id] = generateSecret());
+      const client = await newClient(client_id, settings, secret, Date.now());
+      this.clients.set(client_id, { ...client, scopes: scopes ?? [] });
+    }
+    this.save();
+    return generated;
+  }
+
+  list(): Client[] {
+    return Array.from(this.clients.values(), toClient);
+  }
+
+  get(client_id: string): Client | undefined {
+    const client = this.clients.get(client_id);
+    return client && toClient(client);
+  }
+
+  /**
+   * Register a client, returning it with its generated secret
+   *
+   * Throws when the client ID is malformed or taken.
+   */
+  async create(
+    client_id: string,
+    settings: ClientSettings = {},
+    now = Date.now()
+  ): Promise<{ client: Client; client_secret: string }> {
+    if (!CLIENT_ID_PATTERN.test(client_id)) {
+      throw new Error('client_id must be 2 to 63 lowercase letters, digits or dashes');
+    }
+    if (this.clients.has(client_id)) {
+      throw new Error(`Client ${client_id} already exists`);
+    }
+
+    const client_secret = generateSecret();
+    const client = await newClient(client_id, settings, client_secret, now);
+    // Another request may have created the client while the secret was hashed
+    if (this.clients.has(client_id)) {
+      throw new Error(`Client ${client_id} already exists`);
+    }
+    this.clients.set(client_id, client);
+    this.save();
+    return { client: toClient(client), client_secret };
+  }
+
+  /**
+   * Change the name, interactivity or enable/disable a client
+   */
+  update(client_id: string, settings: ClientSettings, now = Date.now()): Client | undefined {
+    const client = this.clients.get(client_id);
+    if (!client) return undefined;
+
+    if (settings.name !== undefined) client.name = settings.name;
+    if (settings.enabled !== undefined) client.enabled = settings.enabled;
+    if (settings.interactive !== undefined) client.interactive = settings.interactive;
+    client.updated_at = seconds(now);
+    this.save();
+    return toClient(client);
+  }
+
+  /**
+   * Allow a client to request a scope
+   */
+  grant(client_id: string, scope: string, now = Date.now()): Client | undefined {
+    const client = this.clients.get(client_id);
+    if (!client) return undefined;
+
+    if (!client.scopes.includes(scope)) {
+      client.scopes = [...client.scopes, scope];
+      client.updated_at = seconds(now);
+      this.save();
+    }
+    return toClient(client);
+  }
+
+  /**
+   * Stop a client from requesting a scope. Tokens already issued keep the
+   * scope until they expire.
+   */
+  revokeScope(client_id: string, scope: string, now = Date.now()): Client | undefined {
+    const client = this.clients.get(client_id);
+    if (!client) return undefined;
+
+    if (client.scopes.includes(scope)) {
+      client.scopes = client.scopes.filter((granted) => granted !== scope);
+      client.updated_at = seconds(now);
+      this.save();
+    }
+    return toClient(client);
+  }
+
+  /**
+   * Revoke a scope from every client, when it is removed from the catalog
+   */
+  removeScope(scope: string, now = Date.now()): void {
+    for (const client of this.clients.values()) {
+      if (client.scopes.includes(scope)) {
+        client.scopes = client.scopes.filter((granted) => granted !== scope);
+        client.updated_at = seconds(now);
+      }
+    }
+    this.save();
+  }
+
+  delete(client_id: string): boolean {
+    const deleted = this.clients.delete(client_id);
+    if (deleted) this.save();
+    return deleted;
+  }
+
+  /**
+   * Replace the secret of a client
+   *
+   * The current secret stays valid for the grace period, in seconds, so the
+   * client can be redeployed with the new one. A secret still in its grace
+   * period from an earlier rotation is dropped.
+   */
+  async rotateSecret(
+    client_id: string,
+    gracePeriod: number,
+    now = Date.now()
+  ): Promise<{ client: Client; client_secret: string } | undefined> {
+    if (!this.clients.has(client_id)) return undefined;
+
+    const client_secret = generateSecret();
+    const hash = await hashSecret(client_secret);
+    // The client may have been deleted while the secret was hashed
+    const client = this.clients.get(client_id);
+    if (!client) return undefined;
+
+    const current = client.secrets.find((secret) => secret.expires_at === undefined);
+    client.secrets = [
+      ...(current && gracePeriod > 0
+        ? [{ ...current, expires_at: seconds(now) + gracePeriod }]
+        : []),
+      { hash, created_at: seconds(now) },
+    ];
+    client.updated_at = seconds(now);
+    this.save();
+    return { client: toClient(client), client_secret };
+  }
+
+  /**
+   * Whether the secret is valid for an enabled client
+   *
+   * Hashing the secret takes a while, so it runs off the event loop.
+   */
+  async authenticate(client_id: string, client_secret: string, now = Date.now()): Promise<boolean> {
+    const client = this.clients.get(client_id);
+    if (!client || !client.enabled) return false;
+
+    for (const secret of client.secrets) {
+      if (secret.expires_at !== undefined && secret.expires_at <= seconds(now)) continue;
+      if (await verifySecret(client_secret, secret.hash)) return true;
+    }
+    return false;
+  }
+
+  // Write the clients readable only by the service's own user
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true, mode: 0o700 });
+    const stored = JSON.stringify(Array.from(this.clients.values()), null, 2);
+    fs.writeFileSync(`${this.file}.tmp`, stored, { mode: 0o600 });
+    fs.renameSync(`${this.file}.tmp`, this.file);
+  }
+}
+
+async function newClient(
+  client_id: string,
+  settings: ClientSettings,
+  client_secret: string,
+  now: number
+): Promise<StoredClient> {
+  return {
+    client_id,
+    name: settings.name,
+    enabled: settings.enabled ?? true,
+    interactive: settings.interactive ?? false,
+    scopes: [],
+    secrets: [{ hash: await hashSecret(client_secret), created_at: seconds(now) }],
+    created_at: seconds(now),
+    updated_at: seconds(now),
+  };
+}
+
+function toClient({ secrets, ...client }: StoredClient): Client {
+  return {
+    ...client,
+    secrets: secrets.map(({ created_at, expires_at }) => ({ created_at, expires_at })),
+  };
+}
+
+function seconds(ms: number): number {
+  return Math.floor(ms / 1000);
+}
+
+function generateSecret(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+async function hashSecret(secret: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = (await scryptAsync(secret, salt, 32)) as Buffer;
+  return `scrypt$${salt.toString('base64url')}$${hash.toString('base64url')}`;
+}
+
+async function verifySecret(secret: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64url');
+  const salted = Buffer.from(salt, 'base64url');
+  const actual = (await scryptAsync(secret, salted, expected.length)) as Buffer;
+  return timingSafeEqual(actual, expected);
+}
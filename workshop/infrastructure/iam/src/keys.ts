@@ -0,0 +1,200 @@
+import {
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  KeyObject,
+  randomUUID,
+} from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Algorithms tokens can be signed with
+export type SigningAlgorithm = 'RS256' | 'ES256';
+
+export interface KeyStoreOptions {
+  // Directory the key pairs are persisted in
+  directory: string;
+  algorithm: SigningAlgorithm;
+  // Time after which a new key takes over signing, in milliseconds
+  rotationInterval: number;
+  // Time a replaced key stays published for verification, in milliseconds.
+  // Should be at least the token lifetime so no valid token loses its key.
+  overlap: number;
+}
+
+export interface SigningKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  createdAt: number;
+  // When a newer key took over signing
+  retiredAt?: number;
+}
+
+// Shape of a key in the key file, with the private key as PEM
+interface StoredKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  privateKey: string;
+  createdAt: number;
+  retiredAt?: number;
+}
+
+// A public key as published in the JWKS
+export interface PublicJwk {
+  kid: string;
+  kty: string;
+  use: 'sig';
+  alg: SigningAlgorithm;
+  [parameter: string]: unknown;
+}
+
+const KEY_FILE = 'signing-keys.json';
+
+/**
+ * Signing keys of the IAM service
+ *
+ * Keeps the key pair tokens are signed with and the keys it replaced, which
+ * stay published in the JWKS for the overlap window so tokens they signed can
+ * still be verified. Keys are persisted so tokens survive a restart.
+ */
+export class KeyStore {
+  // Newest key last
+  private keys: SigningKey[] = [];
+  private timer?: NodeJS.Timeout;
+
+  constructor(private options: KeyStoreOptions) {}
+
+  /**
+   * Load the persisted keys, generating a key when there is none or the
+   * current one is due for rotation
+   */
+  load(now = Date.now()): void {
+    const file = path.join(this.options.directory, KEY_FILE);
+    if (fs.existsSync(file)) {
+      const stored: StoredKey[] = JSON.parse(fs.readFileSync(file, 'utf8'));
+      this.keys = stored.map((key) => {
+        const privateKey = createPrivateKey(key.privateKey);
+        return { ...key, privateKey, publicKey: createPublicKey(privateKey) };
+      });
+    }
+    this.rotateIfDue(now);
+  }
+
+  /**
+   * The key new tokens are signed with
+   */
+  get current(): SigningKey {
+    if (this.keys.length === 0) {
+      throw new Error('No signing key, load the key store first');
+    }
+    return this.keys[this.keys.length - 1];
+  }
+
+  /**
+   * A key that is still published, by its ID
+   */
+  find(kid: string, now = Date.now()): SigningKey | undefined {
+    return this.published(now).find((key) => key.kid === kid);
+  }
+
+  /**
+   * Replace the signing key with a new one
+   *
+   * The replaced key stays published for the overlap window, keys past it are
+   * dropped.
+   */
+  rotate(now = Date.now()): SigningKey {
+    const previous = this.keys[this.keys.length - 1];
+    if (previous) previous.retiredAt = now;
+
+    const key = generateKey(this.options.algorithm, now);
+    this.keys = [...this.published(now), key];
+    this.save();
+    return key;
+  }
+
+  /**
+   * Rotate when the current key is older than the rotation interval
+   */
+  rotateIfDue(now = Date.now()): boolean {
+    const current = this.keys[this.keys.length - 1];
+    if (
+      current &&
+      current.alg === this.options.algorithm &&
+      now - current.createdAt < this.options.rotationInterval
+    ) {
+      return false;
+    }
+    this.rotate(now);
+    return true;
+  }
+
+  /**
+   * The public keys tokens can be verified with, as a JSON Web Key Set
+   */
+  jwks(now = Date.now()): { keys: PublicJwk[] } {
+    return {
+      keys: this.published(now).map((key) => ({
+        ...(key.publicKey.export({ format: 'jwk' }) as Record<string, unknown>),
+        kid: key.kid,
+        kty: key.alg === 'RS256' ? 'RSA' : 'EC',
+        use: 'sig',
+        alg: key.alg,
+      })),
+    };
+  }
+
+  /**
+   * Check every minute whether the signing key is due for rotation
+   */
+  start(checkInterval = 60000): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      try {
+        if (this.rotateIfDue()) {
+          console.log(`Rotated the signing key, new key ${this.current.kid}`);
+        }
+      } catch (error) {
+        console.error('Failed to rotate the signing key:', error);
+      }
+    }, checkInterval);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  // The current key and replaced keys still inside the overlap window
+  private published(now: number): SigningKey[] {
+    return this.keys.filter(
+      (key) => key.retiredAt === undefined || now - key.retiredAt < this.options.overlap
+    );
+  }
+
+  // Write the keys readable only by the service's own user
+  private save(): void {
+    fs.mkdirSync(this.options.directory, { recursive: true, mode: 0o700 });
+    const stored: StoredKey[] = this.keys.map(({ kid, alg, privateKey, createdAt, retiredAt }) => ({
+      kid,
+      alg,
+      privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }).toString(),
+      createdAt,
+      retiredAt,
+    }));
+    const file = path.join(this.options.directory, KEY_FILE);
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(stored, null, 2), { mode: 0o600 });
+    fs.renameSync(`${file}.tmp`, file);
+  }
+}
+
+function generateKey(alg: SigningAlgorithm, now: number): SigningKey {
+  const { privateKey, publicKey } =
+    alg === 'RS256'
+      ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  return { kid: randomUUID(), alg, privateKey, publicKey, createdAt: now };
+}
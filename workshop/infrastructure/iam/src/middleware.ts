@@ -0,0 +1,45 @@
+import express from 'express';
+import { TokenPayload, verifyToken } from './auth';
+
+/**
+ * Require a bearer token issued by this service that carries the given scope
+ *
+ * `isActive` rejects tokens that verify but were revoked since. The verified
+ * token is available to later handlers as `res.locals.token`.
+ */
+export function requireScope(
+  scope: string,
+  isActive: (token: TokenPayload) => boolean
+): express.RequestHandler {
+  return (req, res, next) => {
+    const [type, token] = (req.headers.authorization || '').split(' ');
+    if (type?.toLowerCase() !== 'bearer' || !token) {
+      return res
+        .status(401)
+        .json({ error: 'invalid_token', error_description: 'Missing bearer token' });
+    }
+
+    let decoded: TokenPayload;
+    try {
+      decoded = verifyToken(token);
+    } catch (err) {
+      return res
+        .status(401)
+        .json({ error: 'invalid_token', error_description: 'Invalid or expired token' });
+    }
+    if (!isActive(decoded)) {
+      return res
+        .status(401)
+        .json({ error: 'invalid_token', error_description: 'Token was revoked' });
+    }
+
+    if (!decoded.scope.split(' ').includes(scope)) {
+      return res
+        .status(403)
+        .json({ error: 'insufficient_scope', error_description: `Requires scope ${scope}` });
+    }
+
+    res.locals.token = decoded;
+    next();
+  };
+}
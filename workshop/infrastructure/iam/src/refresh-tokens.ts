@@ -0,0 +1,156 @@
+import { createHash, randomUUID } from 'crypto';
+import { generateRefreshToken } from './auth';
+
+// A refresh token as stored on the server, by the hash of the token
+interface StoredRefreshToken {
+  // All tokens rotated from the same grant share a family
+  family: string;
+  client_id: string;
+  scope: string;
+  expiresAt: number;
+  // Set once the token was exchanged, a second exchange is a replay
+  usedAt?: number;
+}
+
+interface TokenFamily {
+  client_id: string;
+  revokedAt?: number;
+}
+
+// A newly issued refresh token and what it grants
+export interface IssuedRefreshToken {
+  refresh_token: string;
+  client_id: string;
+  scope: string;
+  expires_in: number;
+}
+
+/**
+ * Refresh tokens issued to interactive clients
+ *
+ * Every refresh token can be exchanged once: the exchange marks it used and
+ * issues its successor in the same family. When a used token comes back it
+ * was copied by someone, so the whole family is revoked, including the
+ * successor the legitimate client holds.
+ *
+ * Only hashes of the tokens are kept, in memory, so clients sign in again
+ * after the IAM service restarts.
+ */
+export class RefreshTokenStore {
+  private tokens: Map<string, StoredRefreshToken> = new Map();
+  private families: Map<string, TokenFamily> = new Map();
+
+  // Lifetime of a refresh token in seconds, renewed on every rotation
+  constructor(private lifetime: number) {}
+
+  /**
+   * Issue the first refresh token of a new family
+   */
+  issue(client_id: string, scope: string, now = Date.now()): IssuedRefreshToken {
+    this.prune(now);
+    const family = randomUUID();
+    this.families.set(family, { client_id });
+    return this.add(family, client_id, scope, now);
+  }
+
+  /**
+   * Check that a refresh token can be exchanged and return its scope
+   *
+   * Throws when the token is unknown, expired, revoked, issued to another
+   * client, or was already exchanged. The last case revokes its family.
+   */
+  verify(token: string, client_id: string, now = Date.now()): string {
+    return this.validate(token, client_id, now).scope;
+  }
+
+  /**
+   * Exchange a refresh token for its successor, throwing like verify()
+   */
+  rotate(token: string, client_id: string, now = Date.now()): IssuedRefreshToken {
+    const stored = this.validate(token, client_id, now);
+    stored.usedAt = now;
+    this.prune(now);
+    return this.add(stored.family, client_id, stored.scope, now);
+  }
+
+  /**
+   * Revoke every refresh token descending from the same grant
+   */
+  revokeFamily(family: string, now = Date.now()): void {
+    const stored = this.families.get(family);
+    if (stored && stored.revokedAt === undefined) {
+      stored.revokedAt = now;
+    }
+  }
+
+  /**
+   * Revoke the family of a refresh token for the client it was issued to
+   *
+   * Returns whether the token is a refresh token at all, tokens of other
+   * clients are left alone.
+   */
+  revoke(token: string, client_id: string, now = Date.now()): boolean {
+    const stored = this.tokens.get(hash(token));
+    if (!stored) return false;
+    if (stored.client_id === client_id) this.revokeFamily(stored.family, now);
+    return true;
+  }
+
+  /**
+   * Revoke every refresh token issued to a client
+   */
+  revokeClient(client_id: string, now = Date.now()): void {
+    for (const [family, stored] of this.families) {
+      if (stored.client_id === client_id) this.revokeFamily(family, now);
+    }
+  }
+
+  private validate(token: string, client_id: string, now: number): StoredRefreshToken {
+    const stored = this.tokens.get(hash(token));
+    const family = stored && this.families.get(stored.family);
+    if (!stored || !family || stored.client_id !== client_id) {
+      throw new Error('Invalid refresh token');
+    }
+    if (family.revokedAt !== undefined) {
+      throw new Error('Refresh token was revoked');
+    }
+    if (stored.usedAt !== undefined) {
+      this.revokeFamily(stored.family, now);
+      throw new Error('Refresh token was already used, all tokens of this grant are revoked');
+    }
+    if (stored.expiresAt <= now) {
+      throw new Error('Refresh token expired');
+    }
+    return stored;
+  }
+
+  private add(family: string, client_id: string, scope: string, now: number): IssuedRefreshToken {
+    const refresh_token = generateRefreshToken();
+    this.tokens.set(hash(refresh_token), {
+      family,
+      client_id,
+      scope,
+      expiresAt: now + this.lifetime * 1000,
+    });
+    return { refresh_token, client_id, scope, expires_in: this.lifetime };
+  }
+
+  // Forget expired tokens, and families once none of their tokens is left
+  private prune(now: number): void {
+    const alive = new Set<string>();
+    for (const [key, stored] of this.tokens) {
+      if (stored.expiresAt <= now) {
+        this.tokens.delete(key);
+      } else {
+        alive.add(stored.family);
+      }
+    }
+    for (const family of this.families.keys()) {
+      if (!alive.has(family)) this.families.delete(family);
+    }
+  }
+}
+
+function hash(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import path from 'path';
+
+// Claims of an access token revocation looks at
+interface RevocableToken {
+  client_id: string;
+  jti?: string;
+  iat?: number;
+  exp?: number;
+}
+
+// Shape of the revocation file, times in seconds
+interface StoredRevocations {
+  tokens: Record<string, number>;
+  clients: Record<string, number>;
+}
+
+/**
+ * Access tokens revoked before they expired
+ *
+ * Single tokens are revoked by their `jti` and remembered until they would
+ * have expired anyway. Revoking a client revokes every token it was issued
+ * up to that second, for when its credentials leaked, and is remembered until
+ * the last of those tokens expired.
+ *
+ * The revocations are persisted to a JSON file, written on every change.
+ */
+export class RevocationStore {
+  // Expiry in seconds by the jti of a revoked token
+  private revoked: Map<string, number> = new Map();
+  // Second up to which every token of a client is revoked
+  private clients: Map<string, number> = new Map();
+
+  // Lifetime of an access token in seconds
+  constructor(private file: string, private tokenLifetime: number) {}
+
+  /**
+   * Load the persisted revocations, leaving out those that ran out
+   */
+  load(now = Date.now()): void {
+    if (!fs.existsSync(this.file)) return;
+
+    const stored: StoredRevocations = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+    this.revoked = new Map(Object.entries(stored.tokens));
+    this.clients = new Map(Object.entries(stored.clients));
+    this.prune(now);
+  }
+
+  /**
+   * Revoke a single access token
+   */
+  revoke(token: RevocableToken, now = Date.now()): void {
+    if (!token.jti) return;
+    this.prune(now);
+    this.revoked.set(token.jti, token.exp ?? Math.floor(now / 1000));
+    this.save();
+  }
+
+  /**
+   * Revoke every access token issued to a client so far
+   *
+   * Returns the cutoff in seconds. Tokens carry their issue time in whole
+   * seconds, so tokens issued in that second or earlier are revoked, even
+   * when issued just after the revocation.
+   */
+  revokeClient(client_id: string, now = Date.now()): number {
+    this.prune(now);
+    const cutoff = Math.floor(now / 1000);
+    this.clients.set(client_id, cutoff);
+    this.save();
+    return cutoff;
+  }
+
+  isRevoked(token: RevocableToken): boolean {
+    if (token.jti && this.revoked.has(token.jti)) return true;
+    const cutoff = this.clients.get(token.client_id);
+    return cutoff !== undefined && (token.iat === undefined || token.iat <= cutoff);
+  }
+
+  // Forget revoked tokens that expired since, and client revocations once
+  // every token issued before them expired
+  private prune(now: number): void {
+    const seconds = Math.floor(now / 1000);
+    for (const [jti, exp] of this.revoked) {
+      if (exp < seconds) this.revoked.delete(jti);
+    }
+    for (const [client_id, cutoff] of this.clients) {
+      if (cutoff + this.tokenLifetime < seconds) this.clients.delete(client_id);
+    }
+  }
+
+  // Write the revocations readable only by the service's own user
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true, mode: 0o700 });
+    const stored: StoredRevocations = {
+      tokens: Object.fromEntries(this.revoked),
+      clients: Object.fromEntries(this.clients),
+    };
+    fs.writeFileSync(`${this.file}.tmp`, JSON.stringify(stored, null, 2), { mode: 0o600 });
+    fs.renameSync(`${this.file}.tmp`, this.file);
+  }
+}
@@ -0,0 +1,141 @@
+import fs from 'fs';
+import path from 'path';
+
+// A scope in the catalog. Times are in seconds.
+export interface Scope {
+  name: string;
+  description: string;
+  // Service the scope protects, e.g. emergency-fire-service
+  service: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface ScopeDefinition {
+  name: string;
+  description: string;
+  service: string;
+}
+
+// Scopes like read:permits, write:permit-types or registry:admin
+const SCOPE_PATTERN = /^[a-z][a-z0-9-]*:[a-z][a-z0-9-]*$/;
+
+/**
+ * The scopes clients can be granted
+ *
+ * Every scope belongs to the service it protects. Admins can define any
+ * scope, services known to the catalog register further scopes of their own
+ * when they come online.
+ * The catalog is persisted to a JSON file, written on every change.
+ */
+export class ScopeCatalog {
+  private scopes: Map<string, Scope> = new Map();
+
+  constructor(private file: string) {}
+
+  /**
+   * Load the persisted catalog, defining the seed scopes on first start
+   */
+  load(seed: ScopeDefinition[] = []): void {
+    if (fs.existsSync(this.file)) {
+      const stored: Scope[] = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+      this.scopes = new Map(stored.map((scope) => [scope.name, scope]));
+      return;
+    }
+
+    for (const definition of seed) {
+      this.set(definition, Date.now());
+    }
+    this.save();
+  }
+
+  /**
+   * All scopes, or the scopes of one service
+   */
+  list(service?: string): Scope[] {
+    return Array.from(this.scopes.values()).filter(
+      (scope) => service === undefined || scope.service === service
+    );
+  }
+
+  get(name: string): Scope | undefined {
+    return this.scopes.get(name);
+  }
+
+  /**
+   * Create or replace a scope
+   *
+   * Throws when the scope name is malformed.
+   */
+  define(definition: ScopeDefinition, now = Date.now()): Scope {
+    validate(definition);
+    const scope = this.set(definition, now);
+    this.save();
+    return scope;
+  }
+
+  /**
+   * Define the scopes of a service, as it announces them when it comes online
+   *
+   * Nothing is changed when any of the scopes belongs to another service,
+   * their names are returned as conflicts instead. Throws when a scope name is
+   * malformed.
+   */
+  register(
+    service: string,
+    definitions: Omit<ScopeDefinition, 'service'>[],
+    now = Date.now()
+  ): { scopes: Scope[]; conflicts: string[] } {
+    definitions.forEach((definition) => validate({ ...definition, service }));
+
+    const conflicts = definitions
+      .filter((definition) => {
+        const existing = this.scopes.get(definition.name);
+        return existing !== undefined && existing.service !== service;
+      })
+      .map((definition) => definition.name);
+    if (conflicts.length > 0) {
+      return { scopes: [], conflicts };
+    }
+
+    const scopes = definitions.map((definition) => this.set({ ...definition, service }, now));
+    this.save();
+    return { scopes, conflicts };
+  }
+
+  delete(name: string): boolean {
+    const deleted = this.scopes.delete(name);
+    if (deleted) this.save();
+    return deleted;
+  }
+
+  private set(definition: ScopeDefinition, now: number): Scope {
+    const existing = this.scopes.get(definition.name);
+    const scope: Scope = {
+      name: definition.name,
+      description: definition.description,
+      service: definition.service,
+      created_at: existing?.created_at ?? Math.floor(now / 1000),
+      updated_at: Math.floor(now / 1000),
+    };
+    this.scopes.set(scope.name, scope);
+    return scope;
+  }
+
+  // Write the catalog readable only by the service's own user
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true, mode: 0o700 });
+    const stored = JSON.stringify(Array.from(this.scopes.values()), null, 2);
+    fs.writeFileSync(`${this.file}.tmp`, stored, { mode: 0o600 });
+    fs.renameSync(`${this.file}.tmp`, this.file);
+  }
+}
+
+function validate({ name, description, service }: ScopeDefinition): void {
+  if (typeof name !== 'string' || !SCOPE_PATTERN.test(name)) {
+    throw new Error(`Malformed scope ${name}, expected e.g. read:permits`);
+  }
+  if (typeof description !== 'string' || typeof service !== 'string' || !service) {
+    throw new Error(`Scope ${name} needs a description and a service`);
+  }
+}
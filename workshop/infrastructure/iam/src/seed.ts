@@ -0,0 +1,226 @@
+import { SeedClient } from './clients';
+import { ScopeDefinition } from './scopes';
+
+/**
+ * Clients and scopes of the workshop services, created on the first start of
+ * the IAM service. Later changes go through the /clients and /scopes APIs,
+ * and services with a scope in the catalog can register more of their own.
+ */
+
+// Scopes every service needs to register itself with the service registry
+const REGISTRY_SCOPES = ['registry:read', 'registry:write'];
+
+export const SEED_SCOPES: ScopeDefinition[] = [
+  { name: 'read:sample', description: 'Read sample resources', service: 'sample-service' },
+  { name: 'write:sample', description: 'Change sample resources', service: 'sample-service' },
+  {
+    name: 'read:incidents',
+    description: 'Read police and traffic incidents',
+    service: 'emergency-police-service',
+  },
+  {
+    name: 'write:incidents',
+    description: 'Report and update incidents',
+    service: 'emergency-police-service',
+  },
+  {
+    name: 'read:emergency',
+    description: 'Read the shared emergency status',
+    service: 'emergency-police-service',
+  },
+  {
+    name: 'read:emergencies',
+    description: 'Read fire emergencies',
+    service: 'emergency-fire-service',
+  },
+  {
+    name: 'write:emergencies',
+    description: 'Report and dispatch fire emergencies',
+    service: 'emergency-fire-service',
+  },
+  {
+    name: 'read:outages',
+    description: 'Read water and power outages',
+    service: 'utilities-water-service',
+  },
+  {
+    name: 'write:outages',
+    description: 'Report and resolve outages',
+    service: 'utilities-water-service',
+  },
+  { name: 'read:usage', description: 'Read water usage', service: 'utilities-water-service' },
+  {
+    name: 'read:consumption',
+    description: 'Read power consumption',
+    service: 'utilities-electric-service',
+  },
+  {
+    name: 'read:grid',
+    description: 'Read the state of the power grid',
+    service: 'utilities-electric-service',
+  },
+  {
+    name: 'read:congestion',
+    description: 'Read traffic congestion',
+    service: 'transportation-traffic-service',
+  },
+  {
+    name: 'read:closures',
+    description: 'Read road closures',
+    service: 'transportation-traffic-service',
+  },
+  {
+    name: 'read:routes',
+    description: 'Read transit routes',
+    service: 'transportation-transit-service',
+  },
+  {
+    name: 'read:vehicles',
+    description: 'Read transit vehicle positions',
+    service: 'transportation-transit-service',
+  },
+  {
+    name: 'read:schedule',
+    description: 'Read transit schedules',
+    service: 'transportation-transit-service',
+  },
+  {
+    name: 'read:delays',
+    description: 'Read transit delays',
+    service: 'transportation-transit-service',
+  },
+  {
+    name: 'read:requests',
+    description: 'Read citizen service requests',
+    service: 'citizen-requests-service',
+  },
+  {
+    name: 'write:requests',
+    description: 'File and update citizen service requests',
+    service: 'citizen-requests-service',
+  },
+  {
+    name: 'read:categories',
+    description: 'Read service request categories',
+    service: 'citizen-requests-service',
+  },
+  { name: 'read:permits', description: 'Read permits', service: 'citizen-permits-service' },
+  {
+    name: 'write:permits',
+    description: 'Apply for and update permits',
+    service: 'citizen-permits-service',
+  },
+  {
+    name: 'read:permit-types',
+    description: 'Read the types of permits',
+    service: 'citizen-permits-service',
+  },
+  {
+    name: 'registry:read',
+    description: 'Discover services in the service registry',
+    service: 'service-registry',
+  },
+  {
+    name: 'registry:write',
+    description: 'Register and deregister own service instances',
+    service: 'service-registry',
+  },
+  {
+    name: 'registry:admin',
+    description: 'Manage every registration in the service registry',
+    service: 'service-registry',
+  },
+  {
+    name: 'iam:admin',
+    description: 'Manage clients, scopes and grants of the IAM service',
+    service: 'iam-service',
+  },
+];
+
+export const SEED_CLIENTS: SeedClient[] = [
+  {
+    client_id: 'sample-service',
+    client_secret: 'sample-service-secret',
+    scopes: ['read:sample', 'write:sample', ...REGISTRY_SCOPES],
+  },
+  {
+    client_id: 'emergency-police-service',
+    client_secret: 'police-service-secret',
+    scopes: ['read:incidents', 'write:incidents', 'read:emergency', ...REGISTRY_SCOPES],
+  },
+  {
+    client_id: 'emergency-fire-service',
+    client_secret: 'fire-service-secret',
+    scopes: ['read:emergencies', 'write:emergencies', 'read:emergency', ...REGISTRY_SCOPES],
+  },
+  {
+    client_id: 'utilities-water-service',
+    client_secret: 'water-service-secret',
+    scopes: ['read:outages', 'write:outages', 'read:usage', ...REGISTRY_SCOPES],
+  },
+  {
+    client_id: 'utilities-electric-service',
+    client_secret: 'electric-service-secret',
+    scopes: ['read:outages', 'write:outages', 'read:consumption', 'read:grid', ...REGISTRY_SCOPES],
+  },
+  {
+    client_id: 'transportation-traffic-service',
+    client_secret: 'traffic-service-secret',
+    scopes: [
+      'read:congestion',
+      'read:incidents',
+      'write:incidents',
+      'read:closures',
+      ...REGISTRY_SCOPES,
+    ],
+  },
+  {
+    client_id: 'transportation-transit-service',
+    client_secret: 'transit-service-secret',
+    scopes: ['read:routes', 'read:vehicles', 'read:schedule', 'read:delays', ...REGISTRY_SCOPES],
+  },
+  {
+    client_id: 'citizen-requests-service',
+    client_secret: 'requests-service-secret',
+    scopes: ['read:requests', 'write:requests', 'read:categories', ...REGISTRY_SCOPES],
+  },
+  {
+    client_id: 'citizen-permits-service',
+    client_secret: 'permits-service-secret',
+    scopes: ['read:permits', 'write:permits', 'read:permit-types', ...REGISTRY_SCOPES],
+  },
+  // Operators manage the clients and scopes of the IAM service, and can grant
+  // themselves registry:admin when they need to manage every registration.
+  // The secret comes from CITY_ADMIN_CLIENT_SECRET or is generated on first start.
+  {
+    client_id: 'city-admin-app',
+    client_secret: process.env.CITY_ADMIN_CLIENT_SECRET || undefined,
+    interactive: true,
+    scopes: ['registry:read', 'registry:write', 'iam:admin'],
+  },
+  // Registry nodes replicate registrations between each other
+  {
+    client_id: 'service-registry',
+    client_secret: 'service-registry-secret',
+    scopes: ['registry:read', 'registry:write', 'registry:admin'],
+  },
+  // Citizens file requests and permits, and follow outages, closures and transit
+  {
+    client_id: 'citizen-app',
+    client_secret: 'citizen-app-secret',
+    interactive: true,
+    scopes: [
+      'read:requests',
+      'write:requests',
+      'read:categories',
+      'read:permits',
+      'write:permits',
+      'read:permit-types',
+      'read:outages',
+      'read:closures',
+      'read:routes',
+      'read:schedule',
+      'read:delays',
+    ],
+  },
+];
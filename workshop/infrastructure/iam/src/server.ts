@@ -1,53 +1,66 @@
 import express from 'express';
-import { generateToken, verifyToken } from './auth';
-import { errorHandler } from '@city-services/common';
+import path from 'path';
+import { generateToken, signingKeys, TOKEN_EXPIRATION, TokenPayload, verifyToken } from './auth';
+import { ClientSettings, ClientStore } from './clients';
+import { requireScope } from './middleware';
+import { RefreshTokenStore } from './refresh-tokens';
+import { RevocationStore } from './revocations';
+import { ScopeCatalog } from './scopes';
+import { SEED_CLIENTS, SEED_SCOPES } from './seed';
+import { errorHandler, Logger } from '@city-services/common';
 import { requestLogger } from '@city-services/common';
 
 const app = express();
 app.use(express.json());
 app.use(requestLogger('iam-service') as express.RequestHandler);
 
-// Define available scopes for all city services
-const AVAILABLE_SCOPES: Record<string, string[]> = {
-  'sample-service': ['read:sample', 'write:sample'],
-  'emergency-police-service': ['read:incidents', 'write:incidents', 'read:emergency'],
-  'emergency-fire-service': ['read:emergencies', 'write:emergencies', 'read:emergency'],
-  'utilities-water-service': ['read:outages', 'write:outages', 'read:usage'],
-  'utilities-electric-service': ['read:outages', 'write:outages', 'read:consumption', 'read:grid'],
-  'transportation-traffic-service': [
-    'read:congestion',
-    'read:incidents',
-    'write:incidents',
-    'read:closures',
-  ],
-  'transportation-transit-service': [
-    'read:routes',
-    'read:vehicles',
-    'read:schedule',
-    'read:delays',
-  ],
-  'citizen-requests-service': ['read:requests', 'write:requests', 'read:categories'],
-  'citizen-permits-service': ['read:permits', 'write:permits', 'read:permit-types'],
-};
+const clients = new ClientStore(
+  process.env.IAM_CLIENTS_FILE || path.join(process.cwd(), 'data', 'clients.json')
+);
+// Seed client secrets are hashed asynchronously, requests wait for them.
+// Secrets generated for seed clients are only shown here, on first start.
+const clientsLoaded = clients.load(SEED_CLIENTS).then((generated) => {
+  for (const [client_id, client_secret] of Object.entries(generated)) {
+    console.log(`Generated secret for ${client_id}: ${client_secret}`);
+  }
+});
+app.use((req, res, next) => {
+  clientsLoaded.then(() => next(), next);
+});
 
-// In a real system, clients would be stored in a database with proper hashing for secrets
-const VALID_CLIENTS: Record<string, string> = {
-  'sample-service': 'sample-service-secret',
-  'emergency-police-service': 'police-service-secret',
-  'emergency-fire-service': 'fire-service-secret',
-  'utilities-water-service': 'water-service-secret',
-  'utilities-electric-service': 'electric-service-secret',
-  'transportation-traffic-service': 'traffic-service-secret',
-  'transportation-transit-service': 'transit-service-secret',
-  'citizen-requests-service': 'requests-service-secret',
-  'citizen-permits-service': 'permits-service-secret',
-  'city-admin-app': 'city-admin-secret',
-  'citizen-app': 'citizen-app-secret',
-};
+const scopes = new ScopeCatalog(
+  process.env.IAM_SCOPES_FILE || path.join(process.cwd(), 'data', 'scopes.json')
+);
+scopes.load(SEED_SCOPES);
+
+// How long a replaced client secret keeps working, in seconds
+const SECRET_GRACE_PERIOD = Number(process.env.CLIENT_SECRET_GRACE_PERIOD || 24 * 3600);
+
+// Refresh token lifetime in seconds, 7 days by default
+const refreshTokens = new RefreshTokenStore(
+  Number(process.env.REFRESH_TOKEN_EXPIRATION || 7 * 24 * 3600)
+);
+
+// Access tokens revoked before they expire
+const revocations = new RevocationStore(
+  process.env.IAM_REVOCATIONS_FILE || path.join(process.cwd(), 'data', 'revocations.json'),
+  TOKEN_EXPIRATION
+);
+revocations.load();
+
+// Whether a verified token is still good: not revoked, and its client enabled
+function isActive(token: TokenPayload): boolean {
+  return !revocations.isRevoked(token) && clients.get(token.client_id)?.enabled === true;
+}
+
+// Helper function to validate client credentials, disabled clients are rejected
+function validateClient(clientId: string, clientSecret: string): Promise<boolean> {
+  return clients.authenticate(clientId, clientSecret);
+}
 
-// Helper function to validate client credentials
-function validateClient(clientId: string, clientSecret: string): boolean {
-  return VALID_CLIENTS[clientId] === clientSecret;
+// The logger requestLogger attaches to a request
+function logger(req: express.Request): Logger | undefined {
+  return (req as express.Request & { logger?: Logger }).logger;
 }
 
 // Health check endpoint
@@ -56,7 +69,7 @@ app.get('/health', (req, res) => {
 });
 
 // OAuth token endpoint
-app.post('/oauth/token', (req, res) => {
+app.post('/oauth/token', async (req, res, next) => {
   const { client_id, client_secret, grant_type, scope } = req.body;
 
   // Validate request parameters
@@ -66,25 +79,33 @@ app.post('/oauth/token', (req, res) => {
       .json({ error: 'invalid_request', error_description: 'Missing client credentials' });
   }
 
-  if (grant_type !== 'client_credentials') {
-    return res
-      .status(400)
-      .json({
-        error: 'unsupported_grant_type',
-        error_description: 'Only client_credentials grant type is supported',
-      });
+  if (grant_type !== 'client_credentials' && grant_type !== 'refresh_token') {
+    return res.status(400).json({
+      error: 'unsupported_grant_type',
+      error_description: 'Only client_credentials and refresh_token grant types are supported',
+    });
   }
 
   // Validate client credentials
-  if (!validateClient(client_id, client_secret)) {
-    return res
-      .status(401)
-      .json({ error: 'invalid_client', error_description: 'Invalid client credentials' });
+  try {
+    if (!(await validateClient(client_id, client_secret))) {
+      return res
+        .status(401)
+        .json({ error: 'invalid_client', error_description: 'Invalid client credentials' });
+    }
+  } catch (err) {
+    return next(err);
+  }
+
+  // Scopes granted to the client that are still in the catalog
+  const allowedScopes = (clients.get(client_id)?.scopes || []).filter((s) => scopes.get(s));
+
+  if (grant_type === 'refresh_token') {
+    return refreshAccessToken(req, res, allowedScopes);
   }
 
   // Parse and validate requested scopes
   const requestedScopes = scope ? scope.split(' ') : [];
-  const allowedScopes = AVAILABLE_SCOPES[client_id] || [];
   const grantedScopes = requestedScopes.filter((s: string) => allowedScopes.includes(s));
 
   if (grantedScopes.length === 0) {
@@ -102,11 +123,72 @@ app.post('/oauth/token', (req, res) => {
   return res.json({
     access_token: token,
     token_type: 'bearer',
-    expires_in: 3600,
+    expires_in: TOKEN_EXPIRATION,
     scope: grantedScopes.join(' '),
+    // Interactive clients act for a signed in user and get a refresh token
+    // with their access token, so they don't need to ask the user again
+    ...(clients.get(client_id)?.interactive && {
+      refresh_token: refreshTokens.issue(client_id, grantedScopes.join(' ')).refresh_token,
+    }),
   });
 });
 
+// Refresh token grant: exchange a refresh token for a new access token and
+// the refresh token that replaces it. The scope can only be narrowed, and
+// loses scopes the client isn't allowed anymore.
+function refreshAccessToken(req: express.Request, res: express.Response, allowedScopes: string[]) {
+  const { client_id, scope, refresh_token } = req.body;
+
+  if (!refresh_token) {
+    return res
+      .status(400)
+      .json({ error: 'invalid_request', error_description: 'Missing refresh_token parameter' });
+  }
+
+  // Check the token and scope before rotating, so a request rejected for
+  // its scope leaves the refresh token usable
+  let originalScopes: string[];
+  try {
+    originalScopes = refreshTokens.verify(refresh_token, client_id).split(' ');
+  } catch (err) {
+    // A replayed token revokes its family, which is worth a trace
+    logger(req)?.warn('Refresh token rejected', { client_id, reason: (err as Error).message });
+    return res
+      .status(400)
+      .json({ error: 'invalid_grant', error_description: (err as Error).message });
+  }
+
+  const requestedScopes: string[] = scope ? scope.split(' ') : originalScopes;
+  if (requestedScopes.some((s) => !originalScopes.includes(s))) {
+    return res.status(400).json({
+      error: 'invalid_scope',
+      error_description: 'Requested scope exceeds the scope originally granted',
+    });
+  }
+
+  const grantedScopes = requestedScopes.filter((s) => allowedScopes.includes(s));
+  if (grantedScopes.length === 0) {
+    return res
+      .status(400)
+      .json({ error: 'invalid_scope', error_description: 'No valid scopes requested' });
+  }
+
+  const rotated = refreshTokens.rotate(refresh_token, client_id);
+
+  const token = generateToken({
+    client_id,
+    scope: grantedScopes.join(' '),
+  });
+
+  return res.json({
+    access_token: token,
+    token_type: 'bearer',
+    expires_in: TOKEN_EXPIRATION,
+    scope: grantedScopes.join(' '),
+    refresh_token: rotated.refresh_token,
+  });
+}
+
 // Token introspection endpoint for gateway validation
 app.post('/oauth/introspect', (req, res) => {
   const token = req.body.token;
@@ -119,10 +201,14 @@ app.post('/oauth/introspect', (req, res) => {
 
   try {
     const decoded = verifyToken(token);
+    if (!isActive(decoded)) {
+      return res.json({ active: false });
+    }
     return res.json({
       active: true,
       scope: decoded.scope,
       client_id: decoded.client_id,
+      jti: decoded.jti,
       exp: decoded.exp,
     });
   } catch (err) {
@@ -130,23 +216,299 @@ app.post('/oauth/introspect', (req, res) => {
   }
 });
 
-// JWKS endpoint for validating tokens
+// Token revocation endpoint (RFC 7009). Clients revoke their own access or
+// refresh tokens; revoking a refresh token revokes its whole family. Unknown,
+// invalid and foreign tokens get the same empty 200 response, so the endpoint
+// tells nothing about tokens the caller doesn't own.
+app.post('/oauth/revoke', async (req, res, next) => {
+  const { client_id, client_secret, token } = req.body;
+
+  if (!client_id || !client_secret) {
+    return res
+      .status(400)
+      .json({ error: 'invalid_request', error_description: 'Missing client credentials' });
+  }
+
+  try {
+    if (!(await validateClient(client_id, client_secret))) {
+      return res
+        .status(401)
+        .json({ error: 'invalid_client', error_description: 'Invalid client credentials' });
+    }
+  } catch (err) {
+    return next(err);
+  }
+
+  if (!token) {
+    return res
+      .status(400)
+      .json({ error: 'invalid_request', error_description: 'Missing token parameter' });
+  }
+
+  // Refresh tokens are looked up first, token_type_hint is not needed
+  if (!refreshTokens.revoke(token, client_id)) {
+    try {
+      const decoded = verifyToken(token);
+      if (decoded.client_id === client_id) {
+        revocations.revoke(decoded);
+      }
+    } catch (err) {
+      // Invalid and expired tokens need no revocation
+    }
+  }
+
+  return res.status(200).end();
+});
+
+// Clients, scopes and grants are managed by admins
+const requireAdmin = requireScope('iam:admin', isActive);
+
+// Revoke every token issued to a client so far, for when its credentials
+// leaked. Tokens carry their issue time in seconds, so tokens issued later in
+// the same second are revoked too.
+app.post('/clients/:clientId/revoke', requireAdmin, (req, res) => {
+  const { clientId } = req.params;
+
+  if (!clients.get(clientId)) {
+    return res.status(404).json({ error: 'not_found', error_description: 'Unknown client' });
+  }
+
+  const revokedAt = revocations.revokeClient(clientId);
+  refreshTokens.revokeClient(clientId);
+  logger(req)?.warn('Revoked all tokens of client', { client_id: clientId });
+
+  return res.json({ client_id: clientId, revoked_at: revokedAt });
+});
+
+// Client management. Secrets are returned once, when a client is created or
+// its secret rotated.
+
+// Read the client settings in a request body, undefined when malformed
+function clientSettings(body: Record<string, unknown>): ClientSettings | undefined {
+  const { name, enabled, interactive } = body;
+  if (name !== undefined && typeof name !== 'string') return undefined;
+  if (enabled !== undefined && typeof enabled !== 'boolean') return undefined;
+  if (interactive !== undefined && typeof interactive !== 'boolean') return undefined;
+  return { name, enabled, interactive };
+}
+
+const invalidSettings = {
+  error: 'invalid_request',
+  error_description: 'name must be a string, enabled and interactive booleans',
+};
+const unknownClient = { error: 'not_found', error_description: 'Unknown client' };
+const unknownScope = { error: 'not_found', error_description: 'Unknown scope' };
+
+app.get('/clients', requireAdmin, (req, res) => {
+  res.json({ clients: clients.list() });
+});
+
+app.post('/clients', requireAdmin, async (req, res) => {
+  const settings = clientSettings(req.body);
+  if (!settings) {
+    return res.status(400).json(invalidSettings);
+  }
+  if (typeof req.body.client_id !== 'string') {
+    return res
+      .status(400)
+      .json({ error: 'invalid_request', error_description: 'Missing client_id' });
+  }
+  if (clients.get(req.body.client_id)) {
+    return res.status(409).json({ error: 'conflict', error_description: 'Client already exists' });
+  }
+
+  try {
+    const { client, client_secret } = await clients.create(req.body.client_id, settings);
+    return res.status(201).json({ ...client, client_secret });
+  } catch (err) {
+    return res
+      .status(400)
+      .json({ error: 'invalid_request', error_description: (err as Error).message });
+  }
+});
+
+app.get('/clients/:clientId', requireAdmin, (req, res) => {
+  const client = clients.get(req.params.clientId);
+  if (!client) {
+    return res.status(404).json(unknownClient);
+  }
+  return res.json(client);
+});
+
+// Change a client. Disabling it rejects its credentials and makes its
+// tokens inactive until it is enabled again.
+app.patch('/clients/:clientId', requireAdmin, (req, res) => {
+  const settings = clientSettings(req.body);
+  if (!settings) {
+    return res.status(400).json(invalidSettings);
+  }
+
+  const client = clients.update(req.params.clientId, settings);
+  if (!client) {
+    return res.status(404).json(unknownClient);
+  }
+  return res.json(client);
+});
+
+// Delete a client and revoke every token it was issued
+app.delete('/clients/:clientId', requireAdmin, (req, res) => {
+  const { clientId } = req.params;
+  if (!clients.delete(clientId)) {
+    return res.status(404).json(unknownClient);
+  }
+
+  revocations.revokeClient(clientId);
+  refreshTokens.revokeClient(clientId);
+  return res.status(204).end();
+});
+
+// Issue a new client secret. The previous one keeps working for the grace
+// period, CLIENT_SECRET_GRACE_PERIOD seconds unless the body sets grace_period.
+app.post('/clients/:clientId/secret', requireAdmin, async (req, res, next) => {
+  const gracePeriod = req.body.grace_period ?? SECRET_GRACE_PERIOD;
+  if (typeof gracePeriod !== 'number' || gracePeriod < 0) {
+    return res.status(400).json({
+      error: 'invalid_request',
+      error_description: 'grace_period must be a number of seconds',
+    });
+  }
+
+  try {
+    const rotated = await clients.rotateSecret(req.params.clientId, gracePeriod);
+    if (!rotated) {
+      return res.status(404).json(unknownClient);
+    }
+    return res.json({ ...rotated.client, client_secret: rotated.client_secret });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Grant a client a scope from the catalog
+app.put('/clients/:clientId/scopes/:scope', requireAdmin, (req, res) => {
+  if (!scopes.get(req.params.scope)) {
+    return res.status(404).json(unknownScope);
+  }
+
+  const client = clients.grant(req.params.clientId, req.params.scope);
+  if (!client) {
+    return res.status(404).json(unknownClient);
+  }
+  return res.json(client);
+});
+
+// Revoke a scope from a client. Tokens already issued with the scope keep it
+// until they expire, refreshing them drops it.
+app.delete('/clients/:clientId/scopes/:scope', requireAdmin, (req, res) => {
+  const client = clients.revokeScope(req.params.clientId, req.params.scope);
+  if (!client) {
+    return res.status(404).json(unknownClient);
+  }
+  return res.json(client);
+});
+
+// The scope catalog, optionally the scopes of one service
+app.get('/scopes', requireAdmin, (req, res) => {
+  const service = typeof req.query.service === 'string' ? req.query.service : undefined;
+  res.json({ scopes: scopes.list(service) });
+});
+
+app.get('/scopes/:scope', requireAdmin, (req, res) => {
+  const scope = scopes.get(req.params.scope);
+  if (!scope) {
+    return res.status(404).json(unknownScope);
+  }
+  return res.json(scope);
+});
+
+// Define or change any scope
+app.put('/scopes/:scope', requireAdmin, (req, res) => {
+  const { description, service } = req.body;
+  try {
+    return res.json(scopes.define({ name: req.params.scope, description, service }));
+  } catch (err) {
+    return res
+      .status(400)
+      .json({ error: 'invalid_request', error_description: (err as Error).message });
+  }
+});
+
+// Remove a scope from the catalog and from every client granted it
+app.delete('/scopes/:scope', requireAdmin, (req, res) => {
+  if (!scopes.delete(req.params.scope)) {
+    return res.status(404).json(unknownScope);
+  }
+  clients.removeScope(req.params.scope);
+  return res.status(204).end();
+});
+
+// Services register the scopes they define when they come online. They
+// authenticate with their client credentials, as they may not be granted
+// any scope yet, and can only define scopes of their own. An admin defines
+// the first scope of a service, so clients can't claim scope names for
+// services that don't exist.
+app.post('/scopes/register', async (req, res, next) => {
+  const { client_id, client_secret, scopes: definitions } = req.body;
+
+  if (!client_id || !client_secret) {
+    return res
+      .status(400)
+      .json({ error: 'invalid_request', error_description: 'Missing client credentials' });
+  }
+
+  try {
+    if (!(await validateClient(client_id, client_secret))) {
+      return res
+        .status(401)
+        .json({ error: 'invalid_client', error_description: 'Invalid client credentials' });
+    }
+  } catch (err) {
+    return next(err);
+  }
+
+  if (clients.get(client_id)?.interactive) {
+    return res.status(403).json({
+      error: 'unauthorized_client',
+      error_description: 'Interactive clients cannot register scopes',
+    });
+  }
+
+  if (scopes.list(client_id).length === 0) {
+    return res.status(403).json({
+      error: 'unauthorized_client',
+      error_description: 'The first scope of a service has to be defined by an admin',
+    });
+  }
+
+  if (!Array.isArray(definitions) || definitions.length === 0) {
+    return res.status(400).json({
+      error: 'invalid_request',
+      error_description: 'scopes must list the name and description of each scope',
+    });
+  }
+
+  let registered;
+  try {
+    registered = scopes.register(client_id, definitions);
+  } catch (err) {
+    return res
+      .status(400)
+      .json({ error: 'invalid_request', error_description: (err as Error).message });
+  }
+
+  if (registered.conflicts.length > 0) {
+    return res.status(409).json({
+      error: 'conflict',
+      error_description: `Scopes belong to another service: ${registered.conflicts.join(', ')}`,
+    });
+  }
+  return res.json({ scopes: registered.scopes });
+});
+
+// JWKS endpoint for validating tokens: the public half of the current
+// signing key and of replaced keys still inside the rotation overlap
 app.get('/.well-known/jwks.json', (req, res) => {
-  // In a real implementation, this would return the public keys used to verify tokens
-  // For the workshop, we'll return a mock JWKS
-  res.json({
-    keys: [
-      {
-        kty: 'RSA',
-        kid: 'workshop-key-1',
-        use: 'sig',
-        alg: 'RS256',
-        // These would be real public key parameters in a production system
-        n: 'mock-modulus',
-        e: 'AQAB',
-      },
-    ],
-  });
+  res.json(signingKeys().jwks());
 });
 
 // Add error handler middleware
@@ -157,8 +519,11 @@ const PORT = process.env.PORT || 3000;
 
 // Only start the server if this file is run directly (not imported for testing)
 if (require.main === module) {
-  app.listen(PORT, () => {
-    console.log(`IAM Service running on port ${PORT}`);
+  signingKeys().start();
+  clientsLoaded.then(() => {
+    app.listen(PORT, () => {
+      console.log(`IAM Service running on port ${PORT}`);
+    });
   });
 }
 
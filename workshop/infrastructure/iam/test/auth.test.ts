@@ -1,25 +1,28 @@
 import jwt from 'jsonwebtoken';
+import { createPublicKey, generateKeyPairSync, JsonWebKey } from 'crypto';
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { generateToken, verifyToken, generateRefreshToken } from '../src/auth';
+import {
+  generateToken,
+  verifyToken,
+  generateRefreshToken,
+  signingKeys,
+  TokenPayload,
+} from '../src/auth';
 
 describe('Auth Module', () => {
   // Store original environment variables
-  let originalJwtSecret: string | undefined;
   let originalTokenExpiration: string | undefined;
 
   beforeEach(() => {
     // Save original env values
-    originalJwtSecret = process.env.JWT_SECRET;
     originalTokenExpiration = process.env.JWT_EXPIRATION;
 
     // Set up test environment variables
-    process.env.JWT_SECRET = 'test-secret-key';
     process.env.JWT_EXPIRATION = '14400';
   });
 
   afterEach(() => {
     // Restore original environment variables
-    process.env.JWT_SECRET = originalJwtSecret;
     process.env.JWT_EXPIRATION = originalTokenExpiration;
   });
 
@@ -38,8 +41,12 @@ describe('Auth Module', () => {
       expect(token).toBeDefined();
       expect(typeof token).toBe('string');
 
-      // Verify the token contents
-      const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as any;
+      // Verify the token contents with the published public key
+      const [jwk] = signingKeys().jwks().keys;
+      const publicKey = createPublicKey({ key: jwk as JsonWebKey, format: 'jwk' });
+      const decoded = jwt.verify(token, publicKey, {
+        algorithms: ['RS256'],
+      }) as Required<TokenPayload>;
       expect(decoded.client_id).toBe(payload.client_id);
       expect(decoded.scope).toBe(payload.scope);
       expect(decoded.iat).toBeDefined();
@@ -47,30 +54,14 @@ describe('Auth Module', () => {
       expect(decoded.exp - decoded.iat).toBe(Number(process.env.JWT_EXPIRATION));
     });
 
-    // This test is separated into two because the JWT verification is tricky
-    it('should use the configured JWT_SECRET environment variable', () => {
-      // Arrange
-      const customSecret = 'different-secret';
-      process.env.JWT_SECRET = customSecret;
-
-      const payload = {
-        client_id: 'test-client',
-        scope: 'read:test',
-      };
-
+    it('should name the current signing key in the token header', () => {
       // Act
-      const token = generateToken(payload);
-
-      // Get the decoded data to verify the content
-      const parts = token.split('.');
-      expect(parts.length).toBe(3); // Header, payload, signature
+      const token = generateToken({ client_id: 'test-client', scope: 'read:test' });
 
-      // Decode the payload part (which is base64url encoded)
-      const decodedPayload = JSON.parse(Buffer.from(parts[1], 'base64').toString());
-
-      // Assert the payload content is correct
-      expect(decodedPayload.client_id).toBe(payload.client_id);
-      expect(decodedPayload.scope).toBe(payload.scope);
+      // Assert
+      const { header } = jwt.decode(token, { complete: true }) as jwt.Jwt;
+      expect(header.alg).toBe('RS256');
+      expect(header.kid).toBe(signingKeys().current.kid);
     });
   });
 
@@ -113,9 +104,14 @@ describe('Auth Module', () => {
       };
 
       const now = Math.floor(Date.now() / 1000);
+      const key = signingKeys().current;
       const expiredToken = jwt.sign(
         { ...payload, iat: now - 7200, exp: now - 3600 },
-        process.env.JWT_SECRET as string
+        key.privateKey,
+        {
+          algorithm: 'RS256',
+          keyid: key.kid,
+        }
       );
 
       // Act & Assert
@@ -124,27 +120,55 @@ describe('Auth Module', () => {
       }).toThrow('Invalid token');
     });
 
-    it('should throw an error for a token signed with a different secret', () => {
+    it('should throw an error for a token signed with a different key', () => {
       // Arrange
       const payload = {
         client_id: 'test-client',
         scope: 'read:test',
       };
 
-      const tokenWithDifferentSecret = jwt.sign(
+      const tokenWithDifferentKey = jwt.sign(
         {
           ...payload,
           iat: Math.floor(Date.now() / 1000),
           exp: Math.floor(Date.now() / 1000) + 3600,
         },
-        'different-secret'
+        generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey,
+        { algorithm: 'RS256', keyid: signingKeys().current.kid }
       );
 
       // Act & Assert
       expect(() => {
-        verifyToken(tokenWithDifferentSecret);
+        verifyToken(tokenWithDifferentKey);
       }).toThrow('Invalid token');
     });
+
+    it('should throw an error for a token without a published key ID', () => {
+      // Arrange
+      const payload = { client_id: 'test-client', scope: 'read:test' };
+      const unsigned = jwt.sign(payload, 'shared-secret');
+      const unknownKey = jwt.sign(payload, signingKeys().current.privateKey, {
+        algorithm: 'RS256',
+        keyid: 'unknown-key',
+      });
+
+      // Act & Assert
+      expect(() => verifyToken(unsigned)).toThrow('Invalid token');
+      expect(() => verifyToken(unknownKey)).toThrow('Invalid token');
+    });
+
+    it('should still verify tokens signed with a key that was rotated out', () => {
+      // Arrange
+      const token = generateToken({ client_id: 'test-client', scope: 'read:test' });
+      const previous = signingKeys().current.kid;
+
+      // Act
+      signingKeys().rotate();
+
+      // Assert
+      expect(signingKeys().current.kid).not.toBe(previous);
+      expect(verifyToken(token).client_id).toBe('test-client');
+    });
   });
 
   describe('generateRefreshToken', () => {
@@ -0,0 +1,211 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ClientStore } from '../src/clients';
+
+const HOUR = 3600 * 1000;
+
+describe('ClientStore', () => {
+  let dir: string;
+  let file: string;
+  let store: ClientStore;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'iam-clients-'));
+    file = path.join(dir, 'clients.json');
+    store = new ClientStore(file);
+    await store.load([
+      { client_id: 'sample-service', client_secret: 'sample-service-secret' },
+      {
+        client_id: 'citizen-app',
+        client_secret: 'citizen-app-secret',
+        interactive: true,
+        scopes: ['read:permits'],
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should create the seed clients on first load and persist only hashes', async () => {
+    // Assert
+    expect(store.list().map((client) => client.client_id)).toEqual([
+      'sample-service',
+      'citizen-app',
+    ]);
+    expect(store.get('citizen-app')).toMatchObject({ enabled: true, interactive: true });
+    expect(await store.authenticate('sample-service', 'sample-service-secret')).toBe(true);
+
+    const stored = fs.readFileSync(file, 'utf8');
+    expect(stored).not.toContain('sample-service-secret');
+    expect(stored).toContain('scrypt$');
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+  });
+
+  it('should keep persisted clients instead of seeding again', async () => {
+    // Arrange
+    const { client_secret } = await store.create('parking-service');
+
+    // Act
+    const reloaded = new ClientStore(file);
+    await reloaded.load([{ client_id: 'other-service', client_secret: 'other-secret' }]);
+
+    // Assert
+    expect(reloaded.get('other-service')).toBeUndefined();
+    expect(await reloaded.authenticate('parking-service', client_secret)).toBe(true);
+  });
+
+  it('should generate the secrets of seed clients without one', async () => {
+    // Act
+    const seeded = new ClientStore(path.join(dir, 'generated.json'));
+    const generated = await seeded.load([
+      { client_id: 'sample-service', client_secret: 'sample-service-secret' },
+      { client_id: 'city-admin-app', interactive: true },
+    ]);
+
+    // Assert
+    expect(Object.keys(generated)).toEqual(['city-admin-app']);
+    expect(generated['city-admin-app'].length).toBeGreaterThanOrEqual(43);
+    expect(await seeded.authenticate('city-admin-app', generated['city-admin-app'])).toBe(true);
+    expect(await new ClientStore(file).load()).toEqual({});
+  });
+
+  it('should reject wrong secrets and unknown clients', async () => {
+    expect(await store.authenticate('sample-service', 'wrong-secret')).toBe(false);
+    expect(await store.authenticate('unknown-service', 'sample-service-secret')).toBe(false);
+  });
+
+  it('should create clients with a generated secret', async () => {
+    // Act
+    const { client, client_secret } = await store.create('parking-service', { name: 'Parking' });
+
+    // Assert
+    expect(client_secret.length).toBeGreaterThanOrEqual(43);
+    expect(client).toMatchObject({
+      client_id: 'parking-service',
+      name: 'Parking',
+      enabled: true,
+      interactive: false,
+    });
+    expect(client).not.toHaveProperty('secrets.0.hash');
+    expect(await store.authenticate('parking-service', client_secret)).toBe(true);
+  });
+
+  it('should refuse malformed and taken client IDs', async () => {
+    await expect(store.create('Parking Service')).rejects.toThrow('lowercase');
+    await expect(store.create('sample-service')).rejects.toThrow('already exists');
+  });
+
+  it('should refuse a client created while its secret was hashed', async () => {
+    const results = await Promise.allSettled([
+      store.create('parking-service'),
+      store.create('parking-service'),
+    ]);
+
+    // Either hash may finish first, only one of them creates the client
+    expect(results.map(({ status }) => status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find(({ status }) => status === 'rejected')).toMatchObject({
+      reason: { message: expect.stringContaining('already exists') },
+    });
+  });
+
+  it('should accept both secrets during the grace period of a rotation', async () => {
+    // Arrange
+    const now = Date.now();
+
+    // Act
+    const rotated = await store.rotateSecret('sample-service', 3600, now);
+
+    // Assert
+    const secret = rotated!.client_secret;
+    expect(rotated!.client.secrets).toHaveLength(2);
+    expect(await store.authenticate('sample-service', 'sample-service-secret', now)).toBe(true);
+    expect(await store.authenticate('sample-service', secret, now)).toBe(true);
+    expect(
+      await store.authenticate('sample-service', 'sample-service-secret', now + 2 * HOUR)
+    ).toBe(false);
+    expect(await store.authenticate('sample-service', secret, now + 2 * HOUR)).toBe(true);
+  });
+
+  it('should keep at most two secrets', async () => {
+    // Act
+    const first = (await store.rotateSecret('sample-service', 3600))!.client_secret;
+    const second = (await store.rotateSecret('sample-service', 3600))!.client_secret;
+
+    // Assert
+    expect(store.get('sample-service')!.secrets).toHaveLength(2);
+    expect(await store.authenticate('sample-service', 'sample-service-secret')).toBe(false);
+    expect(await store.authenticate('sample-service', first)).toBe(true);
+    expect(await store.authenticate('sample-service', second)).toBe(true);
+  });
+
+  it('should drop the old secret right away without a grace period', async () => {
+    // Act
+    await store.rotateSecret('sample-service', 0);
+
+    // Assert
+    expect(await store.authenticate('sample-service', 'sample-service-secret')).toBe(false);
+  });
+
+  it('should reject the credentials of disabled clients', async () => {
+    // Act
+    store.update('sample-service', { enabled: false });
+
+    // Assert
+    expect(await store.authenticate('sample-service', 'sample-service-secret')).toBe(false);
+    store.update('sample-service', { enabled: true });
+    expect(await store.authenticate('sample-service', 'sample-service-secret')).toBe(true);
+  });
+
+  it('should grant and revoke scopes', () => {
+    // Act
+    store.grant('citizen-app', 'write:permits');
+    store.grant('citizen-app', 'write:permits');
+    store.revokeScope('citizen-app', 'read:permits');
+
+    // Assert
+    expect(store.get('citizen-app')!.scopes).toEqual(['write:permits']);
+    expect(store.grant('unknown-app', 'read:permits')).toBeUndefined();
+  });
+
+  it('should remove a scope from every client', () => {
+    // Arrange
+    store.grant('sample-service', 'read:permits');
+
+    // Act
+    store.removeScope('read:permits');
+
+    // Assert
+    expect(store.list().flatMap((client) => client.scopes)).toEqual([]);
+  });
+
+  it('should give clients stored without scopes their seed scopes', async () => {
+    // Arrange
+    const stored = JSON.parse(fs.readFileSync(file, 'utf8'));
+    stored.forEach((client: { scopes?: string[] }) => delete client.scopes);
+    fs.writeFileSync(file, JSON.stringify(stored));
+
+    // Act
+    const reloaded = new ClientStore(file);
+    await reloaded.load([
+      { client_id: 'citizen-app', client_secret: 'ignored', scopes: ['read:requests'] },
+    ]);
+
+    // Assert
+    expect(reloaded.get('citizen-app')!.scopes).toEqual(['read:requests']);
+    expect(reloaded.get('sample-service')!.scopes).toEqual([]);
+  });
+
+  it('should delete clients', async () => {
+    expect(store.delete('sample-service')).toBe(true);
+    expect(store.delete('sample-service')).toBe(false);
+    expect(await store.authenticate('sample-service', 'sample-service-secret')).toBe(false);
+
+    const reloaded = new ClientStore(file);
+    await reloaded.load();
+    expect(reloaded.get('sample-service')).toBeUndefined();
+  });
+});
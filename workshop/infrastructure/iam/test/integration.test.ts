@@ -1,19 +1,19 @@
 import request from 'supertest';
 import express from 'express';
 import jwt from 'jsonwebtoken';
+import { createPublicKey } from 'crypto';
 import { describe, it, expect, beforeAll } from 'vitest';
+import { TokenPayload } from '../src/auth';
+import { PublicJwk } from '../src/keys';
 
 // Import directly from source for integration tests (no mocking)
 // We'll use the actual implementation to test integration scenarios
 
 describe('IAM Service Integration Tests', () => {
   let app: express.Application;
-  let mockJwtSecret: string;
 
   beforeAll(async () => {
     // Setup environment for tests
-    mockJwtSecret = 'integration-test-secret';
-    process.env.JWT_SECRET = mockJwtSecret;
     process.env.PORT = '3000';
 
     // Import the actual server (not mocked)
@@ -48,8 +48,14 @@ describe('IAM Service Integration Tests', () => {
       expect(introspectResponse.body.client_id).toBe('sample-service');
       expect(introspectResponse.body.scope).toBe('read:sample write:sample');
 
-      // Step 3: Verify token directly (simulating API Gateway validation)
-      const decodedToken = jwt.verify(accessToken, mockJwtSecret) as any;
+      // Step 3: Verify token directly with the key from the JWKS (simulating API Gateway validation)
+      const jwksResponse = await request(app).get('/.well-known/jwks.json');
+      const { header } = jwt.decode(accessToken, { complete: true }) as jwt.Jwt;
+      const jwk = jwksResponse.body.keys.find((key: PublicJwk) => key.kid === header.kid);
+      const publicKey = createPublicKey({ key: jwk, format: 'jwk' });
+      const decodedToken = jwt.verify(accessToken, publicKey, {
+        algorithms: ['RS256'],
+      }) as TokenPayload;
       expect(decodedToken.client_id).toBe('sample-service');
       expect(decodedToken.scope).toBe('read:sample write:sample');
     });
@@ -117,6 +123,214 @@ describe('IAM Service Integration Tests', () => {
     });
   });
 
+  describe('Service Registry Scopes', () => {
+    it('should let services obtain registry scopes', async () => {
+      const response = await request(app).post('/oauth/token').send({
+        client_id: 'utilities-water-service',
+        client_secret: 'water-service-secret',
+        grant_type: 'client_credentials',
+        scope: 'registry:read registry:write',
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.body.scope).toBe('registry:read registry:write');
+    });
+
+    it('should only grant registry:admin to the registry nodes', async () => {
+      const serviceResponse = await request(app).post('/oauth/token').send({
+        client_id: 'utilities-water-service',
+        client_secret: 'water-service-secret',
+        grant_type: 'client_credentials',
+        scope: 'registry:write registry:admin',
+      });
+      const adminResponse = await request(app).post('/oauth/token').send({
+        client_id: 'city-admin-app',
+        client_secret: 'city-admin-secret',
+        grant_type: 'client_credentials',
+        scope: 'registry:write registry:admin',
+      });
+      const registryResponse = await request(app).post('/oauth/token').send({
+        client_id: 'service-registry',
+        client_secret: 'service-registry-secret',
+        grant_type: 'client_credentials',
+        scope: 'registry:admin',
+      });
+
+      expect(serviceResponse.body.scope).toBe('registry:write');
+      expect(adminResponse.body.scope).toBe('registry:write');
+      expect(registryResponse.status).toBe(200);
+      expect(registryResponse.body.scope).toBe('registry:admin');
+    });
+  });
+
+  describe('Scope Catalog', () => {
+    it('should let the citizen app get a token', async () => {
+      const response = await request(app).post('/oauth/token').send({
+        client_id: 'citizen-app',
+        client_secret: 'citizen-app-secret',
+        grant_type: 'client_credentials',
+        scope: 'read:requests write:requests read:permits',
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.body.scope).toBe('read:requests write:requests read:permits');
+    });
+
+    it('should onboard a new service from its scopes to its first token', async () => {
+      const admin = await request(app).post('/oauth/token').send({
+        client_id: 'city-admin-app',
+        client_secret: 'city-admin-secret',
+        grant_type: 'client_credentials',
+        scope: 'iam:admin',
+      });
+      const authorization = `Bearer ${admin.body.access_token}`;
+
+      // The admin creates the client and its first scope, the service
+      // registers the others
+      const created = await request(app)
+        .post('/clients')
+        .set('Authorization', authorization)
+        .send({ client_id: 'parking-service', name: 'Parking' });
+      const { client_secret } = created.body;
+      await request(app)
+        .put('/scopes/write:parking')
+        .set('Authorization', authorization)
+        .send({ description: 'Reserve parking spaces', service: 'parking-service' });
+      const registered = await request(app)
+        .post('/scopes/register')
+        .send({
+          client_id: 'parking-service',
+          client_secret,
+          scopes: [{ name: 'read:parking', description: 'Read parking spaces' }],
+        });
+
+      // The citizen app is granted the new scope and can request it
+      await request(app)
+        .put('/clients/citizen-app/scopes/read:parking')
+        .set('Authorization', authorization);
+      const token = await request(app).post('/oauth/token').send({
+        client_id: 'citizen-app',
+        client_secret: 'citizen-app-secret',
+        grant_type: 'client_credentials',
+        scope: 'read:parking',
+      });
+
+      expect(created.status).toBe(201);
+      expect(registered.status).toBe(200);
+      expect(token.status).toBe(200);
+      expect(token.body.scope).toBe('read:parking');
+    });
+  });
+
+  describe('Token Revocation', () => {
+    // Get a token for a client, with the credentials the revoke endpoint needs
+    async function tokenFor(client_id: string, client_secret: string, scope: string) {
+      const response = await request(app)
+        .post('/oauth/token')
+        .send({ client_id, client_secret, grant_type: 'client_credentials', scope });
+      return response.body;
+    }
+
+    async function isActive(token: string): Promise<boolean> {
+      const response = await request(app).post('/oauth/introspect').send({ token });
+      return response.body.active;
+    }
+
+    it('should give every token a unique jti', async () => {
+      const first = await tokenFor('sample-service', 'sample-service-secret', 'read:sample');
+      const second = await tokenFor('sample-service', 'sample-service-secret', 'read:sample');
+
+      const firstJti = (jwt.decode(first.access_token) as TokenPayload).jti;
+      expect(firstJti).toEqual(expect.any(String));
+      expect(firstJti).not.toBe((jwt.decode(second.access_token) as TokenPayload).jti);
+    });
+
+    it('should deactivate a revoked access token and leave others active', async () => {
+      const revoked = await tokenFor('sample-service', 'sample-service-secret', 'read:sample');
+      const other = await tokenFor('sample-service', 'sample-service-secret', 'read:sample');
+
+      const response = await request(app).post('/oauth/revoke').send({
+        client_id: 'sample-service',
+        client_secret: 'sample-service-secret',
+        token: revoked.access_token,
+        token_type_hint: 'access_token',
+      });
+
+      expect(response.status).toBe(200);
+      expect(await isActive(revoked.access_token)).toBe(false);
+      expect(await isActive(other.access_token)).toBe(true);
+    });
+
+    it('should not revoke tokens of another client', async () => {
+      const police = await tokenFor(
+        'emergency-police-service',
+        'police-service-secret',
+        'read:incidents'
+      );
+
+      const response = await request(app).post('/oauth/revoke').send({
+        client_id: 'sample-service',
+        client_secret: 'sample-service-secret',
+        token: police.access_token,
+      });
+
+      expect(response.status).toBe(200);
+      expect(await isActive(police.access_token)).toBe(true);
+    });
+
+    it('should answer 200 for unknown tokens', async () => {
+      const response = await request(app).post('/oauth/revoke').send({
+        client_id: 'sample-service',
+        client_secret: 'sample-service-secret',
+        token: 'not-a-token',
+      });
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should revoke a refresh token and its successors', async () => {
+      const admin = await tokenFor('city-admin-app', 'city-admin-secret', 'registry:read');
+
+      await request(app).post('/oauth/revoke').send({
+        client_id: 'city-admin-app',
+        client_secret: 'city-admin-secret',
+        token: admin.refresh_token,
+        token_type_hint: 'refresh_token',
+      });
+      const refreshResponse = await request(app).post('/oauth/token').send({
+        client_id: 'city-admin-app',
+        client_secret: 'city-admin-secret',
+        grant_type: 'refresh_token',
+        refresh_token: admin.refresh_token,
+      });
+
+      expect(refreshResponse.status).toBe(400);
+      expect(refreshResponse.body.error).toBe('invalid_grant');
+    });
+
+    it('should let admins revoke every token of a compromised client', async () => {
+      const transit = await tokenFor(
+        'transportation-transit-service',
+        'transit-service-secret',
+        'read:routes'
+      );
+      const sample = await tokenFor('sample-service', 'sample-service-secret', 'read:sample');
+      const admin = await tokenFor('city-admin-app', 'city-admin-secret', 'iam:admin');
+
+      const response = await request(app)
+        .post('/clients/transportation-transit-service/revoke')
+        .set('Authorization', `Bearer ${admin.access_token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        client_id: 'transportation-transit-service',
+        revoked_at: expect.any(Number),
+      });
+      expect(await isActive(transit.access_token)).toBe(false);
+      expect(await isActive(sample.access_token)).toBe(true);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle a complete error scenario gracefully', async () => {
       // Step 1: Try with invalid client credentials
@@ -2,7 +2,6 @@
 import 'jest';
 
 // Mock environment variables
-process.env.JWT_SECRET = 'test-secret-key';
 process.env.TOKEN_EXPIRATION = '3600';
 process.env.TOKEN_ISSUER = 'test-issuer';
 process.env.NODE_ENV = 'test';
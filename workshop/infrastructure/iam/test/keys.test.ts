@@ -0,0 +1,162 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import { createPublicKey, JsonWebKey } from 'crypto';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { KeyStore, KeyStoreOptions } from '../src/keys';
+
+const HOUR = 3600 * 1000;
+
+describe('KeyStore', () => {
+  let options: KeyStoreOptions;
+
+  beforeEach(() => {
+    options = {
+      directory: fs.mkdtempSync(path.join(os.tmpdir(), 'iam-keystore-')),
+      algorithm: 'RS256',
+      rotationInterval: 24 * HOUR,
+      overlap: 4 * HOUR,
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(options.directory, { recursive: true, force: true });
+  });
+
+  it('should generate and persist a key on first load', () => {
+    // Arrange
+    const store = new KeyStore(options);
+
+    // Act
+    store.load();
+
+    // Assert
+    const file = path.join(options.directory, 'signing-keys.json');
+    expect(fs.existsSync(file)).toBe(true);
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    expect(store.current.alg).toBe('RS256');
+  });
+
+  it('should keep the persisted key across restarts', () => {
+    // Arrange
+    const first = new KeyStore(options);
+    first.load();
+    const token = jwt.sign({ client_id: 'test' }, first.current.privateKey, {
+      algorithm: 'RS256',
+    });
+
+    // Act
+    const second = new KeyStore(options);
+    second.load();
+
+    // Assert
+    expect(second.current.kid).toBe(first.current.kid);
+    expect(jwt.verify(token, second.current.publicKey)).toMatchObject({ client_id: 'test' });
+  });
+
+  it('should publish verifiable public keys without the private parts', () => {
+    // Arrange
+    const store = new KeyStore(options);
+    store.load();
+    const token = jwt.sign({ client_id: 'test' }, store.current.privateKey, { algorithm: 'RS256' });
+
+    // Act
+    const [jwk] = store.jwks().keys;
+
+    // Assert
+    expect(jwk).toMatchObject({ kty: 'RSA', kid: store.current.kid, use: 'sig', alg: 'RS256' });
+    expect(jwk).not.toHaveProperty('d');
+    const publicKey = createPublicKey({ key: jwk as JsonWebKey, format: 'jwk' });
+    expect(jwt.verify(token, publicKey)).toMatchObject({ client_id: 'test' });
+  });
+
+  it('should generate ES256 keys on the P-256 curve', () => {
+    // Arrange
+    const store = new KeyStore({ ...options, algorithm: 'ES256' });
+
+    // Act
+    store.load();
+
+    // Assert
+    expect(store.jwks().keys[0]).toMatchObject({ kty: 'EC', crv: 'P-256', alg: 'ES256' });
+  });
+
+  it('should rotate once the current key is older than the rotation interval', () => {
+    // Arrange
+    const now = Date.now();
+    const store = new KeyStore(options);
+    store.load(now);
+    const previous = store.current.kid;
+
+    // Act & Assert
+    expect(store.rotateIfDue(now + 23 * HOUR)).toBe(false);
+    expect(store.rotateIfDue(now + 24 * HOUR)).toBe(true);
+    expect(store.current.kid).not.toBe(previous);
+  });
+
+  it('should rotate on load when the persisted key is overdue', () => {
+    // Arrange
+    const now = Date.now();
+    const first = new KeyStore(options);
+    first.load(now);
+
+    // Act
+    const second = new KeyStore(options);
+    second.load(now + 25 * HOUR);
+
+    // Assert
+    expect(second.current.kid).not.toBe(first.current.kid);
+    expect(second.find(first.current.kid, now + 25 * HOUR)).toBeDefined();
+  });
+
+  it('should publish a replaced key until the overlap window ends', () => {
+    // Arrange
+    const now = Date.now();
+    const store = new KeyStore(options);
+    store.load(now);
+    const previous = store.current.kid;
+
+    // Act
+    store.rotate(now + HOUR);
+
+    // Assert
+    const kids = (at: number) => store.jwks(at).keys.map((key) => key.kid);
+    expect(kids(now + 2 * HOUR)).toEqual([previous, store.current.kid]);
+    expect(store.find(previous, now + 2 * HOUR)).toBeDefined();
+    expect(kids(now + 5 * HOUR)).toEqual([store.current.kid]);
+    expect(store.find(previous, now + 5 * HOUR)).toBeUndefined();
+  });
+
+  it('should drop keys past the overlap window on the next rotation', () => {
+    // Arrange
+    const now = Date.now();
+    const store = new KeyStore(options);
+    store.load(now);
+    const first = store.current.kid;
+
+    // Act
+    store.rotate(now + HOUR);
+    store.rotate(now + 10 * HOUR);
+
+    // Assert
+    const stored = JSON.parse(
+      fs.readFileSync(path.join(options.directory, 'signing-keys.json'), 'utf8')
+    );
+    expect(stored.map((key: { kid: string }) => key.kid)).not.toContain(first);
+    expect(stored).toHaveLength(2);
+  });
+
+  it('should rotate when the configured algorithm changes', () => {
+    // Arrange
+    new KeyStore(options).load();
+
+    // Act
+    const store = new KeyStore({ ...options, algorithm: 'ES256' });
+    store.load();
+
+    // Assert
+    expect(store.current.alg).toBe('ES256');
+    expect(store.jwks().keys.map((key) => key.alg)).toEqual(['RS256', 'ES256']);
+  });
+});
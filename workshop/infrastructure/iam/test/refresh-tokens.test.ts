@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RefreshTokenStore } from '../src/refresh-tokens';
+
+const DAY = 24 * 3600;
+
+describe('RefreshTokenStore', () => {
+  let store: RefreshTokenStore;
+
+  beforeEach(() => {
+    store = new RefreshTokenStore(7 * DAY);
+  });
+
+  it('should issue an opaque refresh token with its lifetime', () => {
+    // Act
+    const issued = store.issue('citizen-app', 'read:requests');
+
+    // Assert
+    expect(issued.refresh_token).toMatch(/^refresh-[\w-]{43}$/);
+    expect(issued).toMatchObject({
+      client_id: 'citizen-app',
+      scope: 'read:requests',
+      expires_in: 7 * DAY,
+    });
+    expect(store.verify(issued.refresh_token, 'citizen-app')).toBe('read:requests');
+  });
+
+  it('should replace a refresh token with a new one on every use', () => {
+    // Arrange
+    const first = store.issue('citizen-app', 'read:requests');
+
+    // Act
+    const second = store.rotate(first.refresh_token, 'citizen-app');
+    const third = store.rotate(second.refresh_token, 'citizen-app');
+
+    // Assert
+    expect(new Set([first, second, third].map((t) => t.refresh_token)).size).toBe(3);
+    expect(third.scope).toBe('read:requests');
+  });
+
+  it('should revoke the family when a used token is presented again', () => {
+    // Arrange
+    const first = store.issue('citizen-app', 'read:requests');
+    const second = store.rotate(first.refresh_token, 'citizen-app');
+    const unrelated = store.issue('citizen-app', 'read:requests');
+
+    // Act & Assert
+    expect(() => store.rotate(first.refresh_token, 'citizen-app')).toThrow('already used');
+    expect(() => store.rotate(second.refresh_token, 'citizen-app')).toThrow('revoked');
+    expect(store.verify(unrelated.refresh_token, 'citizen-app')).toBe('read:requests');
+  });
+
+  it('should detect a replay while only verifying', () => {
+    // Arrange
+    const first = store.issue('citizen-app', 'read:requests');
+    const second = store.rotate(first.refresh_token, 'citizen-app');
+
+    // Act & Assert
+    expect(() => store.verify(first.refresh_token, 'citizen-app')).toThrow('already used');
+    expect(() => store.verify(second.refresh_token, 'citizen-app')).toThrow('revoked');
+  });
+
+  it('should reject tokens of another client, unknown and expired tokens', () => {
+    // Arrange
+    const now = Date.now();
+    const issued = store.issue('citizen-app', 'read:requests', now);
+
+    // Act & Assert
+    expect(() => store.rotate(issued.refresh_token, 'city-admin-app')).toThrow(
+      'Invalid refresh token'
+    );
+    expect(() => store.rotate('refresh-unknown', 'citizen-app')).toThrow('Invalid refresh token');
+    expect(() => store.rotate(issued.refresh_token, 'citizen-app', now + 8 * DAY * 1000)).toThrow(
+      'expired'
+    );
+  });
+
+  it('should renew the lifetime with every rotation', () => {
+    // Arrange
+    const now = Date.now();
+    const first = store.issue('citizen-app', 'read:requests', now);
+
+    // Act
+    const second = store.rotate(first.refresh_token, 'citizen-app', now + 6 * DAY * 1000);
+
+    // Assert
+    expect(store.verify(second.refresh_token, 'citizen-app', now + 12 * DAY * 1000)).toBe(
+      'read:requests'
+    );
+  });
+
+  it('should forget expired tokens when issuing new ones', () => {
+    // Arrange
+    const now = Date.now();
+    const old = store.issue('citizen-app', 'read:requests', now);
+
+    // Act
+    store.issue('citizen-app', 'read:requests', now + 8 * DAY * 1000);
+
+    // Assert
+    expect(() => store.verify(old.refresh_token, 'citizen-app', now)).toThrow(
+      'Invalid refresh token'
+    );
+  });
+
+  it('should forget expired tokens when rotating', () => {
+    // Arrange
+    const now = Date.now();
+    const old = store.issue('citizen-app', 'read:requests', now);
+    const current = store.issue('citizen-app', 'read:requests', now + 6 * DAY * 1000);
+
+    // Act
+    store.rotate(current.refresh_token, 'citizen-app', now + 8 * DAY * 1000);
+
+    // Assert
+    expect(() => store.verify(old.refresh_token, 'citizen-app', now)).toThrow(
+      'Invalid refresh token'
+    );
+  });
+});
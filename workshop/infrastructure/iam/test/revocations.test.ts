@@ -0,0 +1,100 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { RevocationStore } from '../src/revocations';
+
+const LIFETIME = 3600;
+
+describe('RevocationStore', () => {
+  let dir: string;
+  let file: string;
+  let store: RevocationStore;
+  const now = Date.now();
+  const seconds = Math.floor(now / 1000);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'iam-revocations-'));
+    file = path.join(dir, 'revocations.json');
+    store = new RevocationStore(file, LIFETIME);
+    store.load(now);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should revoke a single token by its jti', () => {
+    // Act
+    store.revoke({ client_id: 'sample-service', jti: 'a', exp: seconds + 3600 }, now);
+
+    // Assert
+    expect(store.isRevoked({ client_id: 'sample-service', jti: 'a' })).toBe(true);
+    expect(store.isRevoked({ client_id: 'sample-service', jti: 'b' })).toBe(false);
+  });
+
+  it('should forget revoked tokens once they expired', () => {
+    // Arrange
+    store.revoke({ client_id: 'sample-service', jti: 'a', exp: seconds + 60 }, now);
+
+    // Act
+    store.revoke({ client_id: 'sample-service', jti: 'b', exp: seconds + 7200 }, now + 3600000);
+
+    // Assert
+    expect(store.isRevoked({ client_id: 'sample-service', jti: 'a' })).toBe(false);
+    expect(store.isRevoked({ client_id: 'sample-service', jti: 'b' })).toBe(true);
+  });
+
+  it('should revoke every token a client was issued up to the revocation', () => {
+    // Act
+    const cutoff = store.revokeClient('sample-service', now);
+
+    // Assert
+    expect(cutoff).toBe(seconds);
+    expect(store.isRevoked({ client_id: 'sample-service', iat: seconds - 60 })).toBe(true);
+    expect(store.isRevoked({ client_id: 'sample-service', iat: seconds })).toBe(true);
+    expect(store.isRevoked({ client_id: 'sample-service', iat: seconds + 1 })).toBe(false);
+    expect(store.isRevoked({ client_id: 'citizen-app', iat: seconds - 60 })).toBe(false);
+  });
+
+  it('should forget client revocations once every token they cover expired', () => {
+    // Arrange
+    store.revokeClient('sample-service', now);
+
+    // Act
+    store.revokeClient('citizen-app', now + (LIFETIME + 1) * 1000);
+
+    // Assert
+    expect(store.isRevoked({ client_id: 'sample-service', iat: seconds - 60 })).toBe(false);
+    expect(store.isRevoked({ client_id: 'citizen-app', iat: seconds })).toBe(true);
+  });
+
+  it('should keep revocations across restarts', () => {
+    // Arrange
+    store.revoke({ client_id: 'sample-service', jti: 'a', exp: seconds + 3600 }, now);
+    store.revokeClient('citizen-app', now);
+
+    // Act
+    const reloaded = new RevocationStore(file, LIFETIME);
+    reloaded.load(now);
+
+    // Assert
+    expect(reloaded.isRevoked({ client_id: 'sample-service', jti: 'a' })).toBe(true);
+    expect(reloaded.isRevoked({ client_id: 'citizen-app', iat: seconds })).toBe(true);
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+  });
+
+  it('should leave out expired revocations when loading', () => {
+    // Arrange
+    store.revoke({ client_id: 'sample-service', jti: 'a', exp: seconds + 60 }, now);
+    store.revokeClient('citizen-app', now);
+
+    // Act
+    const reloaded = new RevocationStore(file, LIFETIME);
+    reloaded.load(now + (LIFETIME + 1) * 1000);
+
+    // Assert
+    expect(reloaded.isRevoked({ client_id: 'sample-service', jti: 'a' })).toBe(false);
+    expect(reloaded.isRevoked({ client_id: 'citizen-app', iat: seconds })).toBe(false);
+  });
+});
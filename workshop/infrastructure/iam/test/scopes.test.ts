@@ -0,0 +1,97 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ScopeCatalog } from '../src/scopes';
+
+describe('ScopeCatalog', () => {
+  let dir: string;
+  let file: string;
+  let catalog: ScopeCatalog;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'iam-scopes-'));
+    file = path.join(dir, 'scopes.json');
+    catalog = new ScopeCatalog(file);
+    catalog.load([
+      { name: 'read:permits', description: 'Read permits', service: 'citizen-permits-service' },
+      { name: 'registry:read', description: 'Discover services', service: 'service-registry' },
+    ]);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should define the seed scopes on first load', () => {
+    expect(catalog.get('read:permits')).toMatchObject({
+      description: 'Read permits',
+      service: 'citizen-permits-service',
+      created_at: expect.any(Number),
+    });
+    expect(catalog.list('service-registry').map((scope) => scope.name)).toEqual(['registry:read']);
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+  });
+
+  it('should keep the persisted catalog instead of seeding again', () => {
+    // Arrange
+    catalog.delete('read:permits');
+
+    // Act
+    const reloaded = new ScopeCatalog(file);
+    reloaded.load([{ name: 'read:other', description: 'Other', service: 'other-service' }]);
+
+    // Assert
+    expect(reloaded.list().map((scope) => scope.name)).toEqual(['registry:read']);
+  });
+
+  it('should define and replace scopes', () => {
+    // Act
+    catalog.define({ name: 'read:parking', description: 'Read', service: 'parking-service' });
+    const replaced = catalog.define({
+      name: 'read:parking',
+      description: 'Read parking spaces',
+      service: 'parking-service',
+    });
+
+    // Assert
+    expect(replaced.description).toBe('Read parking spaces');
+    expect(catalog.list('parking-service')).toHaveLength(1);
+  });
+
+  it('should refuse malformed scopes', () => {
+    expect(() =>
+      catalog.define({ name: 'parking', description: 'Parking', service: 'parking-service' })
+    ).toThrow('Malformed scope');
+    expect(() =>
+      catalog.define({ name: 'read:parking', description: 'Parking', service: '' })
+    ).toThrow('needs a description and a service');
+  });
+
+  it('should let a service register its own scopes', () => {
+    // Act
+    const result = catalog.register('citizen-permits-service', [
+      { name: 'read:permits', description: 'Read issued permits' },
+      { name: 'write:permits', description: 'Apply for permits' },
+    ]);
+
+    // Assert
+    expect(result.conflicts).toEqual([]);
+    expect(result.scopes).toHaveLength(2);
+    expect(catalog.get('read:permits')!.description).toBe('Read issued permits');
+    expect(catalog.get('write:permits')!.service).toBe('citizen-permits-service');
+  });
+
+  it('should not let a service take over scopes of another service', () => {
+    // Act
+    const result = catalog.register('parking-service', [
+      { name: 'read:parking', description: 'Read parking spaces' },
+      { name: 'registry:read', description: 'Mine now' },
+    ]);
+
+    // Assert
+    expect(result.conflicts).toEqual(['registry:read']);
+    expect(catalog.get('read:parking')).toBeUndefined();
+    expect(catalog.get('registry:read')!.service).toBe('service-registry');
+  });
+});
@@ -1,13 +1,19 @@
 import request from 'supertest';
 import express from 'express';
 import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
-import { generateToken, verifyToken } from '../src/auth';
+import { generateToken, signingKeys, TOKEN_EXPIRATION, verifyToken } from '../src/auth';
+import { KeyStore } from '../src/keys';
+import { Scope } from '../src/scopes';
 
-// Mock the auth module
-vi.mock('../src/auth', () => {
+// Mock the auth module, refresh tokens are still generated for real
+vi.mock('../src/auth', async () => {
+  const actual = await vi.importActual<typeof import('../src/auth')>('../src/auth');
   return {
     generateToken: vi.fn(),
     verifyToken: vi.fn(),
+    signingKeys: vi.fn(),
+    generateRefreshToken: actual.generateRefreshToken,
+    TOKEN_EXPIRATION: actual.TOKEN_EXPIRATION,
   };
 });
 
@@ -24,7 +30,6 @@ describe('IAM Server', () => {
 
   beforeAll(async () => {
     // Save original env vars
-    process.env.JWT_SECRET = 'test-secret';
     process.env.PORT = '3000';
 
     // Clear mocks
@@ -65,7 +70,7 @@ describe('IAM Server', () => {
       expect(response.body).toMatchObject({
         access_token: 'mock-token-123',
         token_type: 'bearer',
-        expires_in: 3600,
+        expires_in: TOKEN_EXPIRATION,
         scope: 'read:sample write:sample',
       });
 
@@ -89,7 +94,7 @@ describe('IAM Server', () => {
       });
     });
 
-    it('should return 400 if grant type is not client_credentials', async () => {
+    it('should return 400 if grant type is not supported', async () => {
       const response = await request(app).post('/oauth/token').send({
         client_id: 'sample-service',
         client_secret: 'sample-service-secret',
@@ -101,7 +106,7 @@ describe('IAM Server', () => {
       expect(response.body).toMatchObject({
         error: 'unsupported_grant_type',
         error_description: expect.stringContaining(
-          'Only client_credentials grant type is supported'
+          'Only client_credentials and refresh_token grant types are supported'
         ),
       });
     });
@@ -121,6 +126,18 @@ describe('IAM Server', () => {
       });
     });
 
+    it('should hand a failed secret check to the error handler', async () => {
+      // A number can't be hashed, the check rejects instead of answering
+      const response = await request(app).post('/oauth/token').send({
+        client_id: 'sample-service',
+        client_secret: 12345,
+        grant_type: 'client_credentials',
+        scope: 'read:sample',
+      });
+
+      expect(response.status).toBe(500);
+    });
+
     it('should return 400 if no valid scopes are requested', async () => {
       const response = await request(app).post('/oauth/token').send({
         client_id: 'sample-service',
@@ -161,6 +178,115 @@ describe('IAM Server', () => {
     });
   });
 
+  describe('Refresh Token Grant', () => {
+    const adminApp = { client_id: 'city-admin-app', client_secret: 'city-admin-secret' };
+
+    beforeEach(() => {
+      vi.resetAllMocks();
+      vi.mocked(generateToken).mockReturnValue('mock-token-789');
+    });
+
+    // Sign in the admin app and return its first refresh token
+    async function signIn(scope = 'registry:read registry:write'): Promise<string> {
+      const response = await request(app)
+        .post('/oauth/token')
+        .send({ ...adminApp, grant_type: 'client_credentials', scope });
+      return response.body.refresh_token;
+    }
+
+    function refresh(refresh_token: string, extra: Record<string, string> = {}) {
+      return request(app)
+        .post('/oauth/token')
+        .send({ ...adminApp, grant_type: 'refresh_token', refresh_token, ...extra });
+    }
+
+    it('should issue a refresh token to interactive clients only', async () => {
+      const service = await request(app).post('/oauth/token').send({
+        client_id: 'sample-service',
+        client_secret: 'sample-service-secret',
+        grant_type: 'client_credentials',
+        scope: 'read:sample',
+      });
+
+      expect(service.body).not.toHaveProperty('refresh_token');
+      expect(await signIn()).toMatch(/^refresh-/);
+    });
+
+    it('should exchange a refresh token for a new access and refresh token', async () => {
+      const refreshToken = await signIn();
+
+      const response = await refresh(refreshToken);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        access_token: 'mock-token-789',
+        token_type: 'bearer',
+        expires_in: TOKEN_EXPIRATION,
+        scope: 'registry:read registry:write',
+      });
+      expect(response.body.refresh_token).toMatch(/^refresh-/);
+      expect(response.body.refresh_token).not.toBe(refreshToken);
+      expect(generateToken).toHaveBeenLastCalledWith({
+        client_id: 'city-admin-app',
+        scope: 'registry:read registry:write',
+      });
+    });
+
+    it('should revoke the whole token family when a used refresh token is replayed', async () => {
+      const first = await signIn();
+      const second = (await refresh(first)).body.refresh_token;
+
+      const replay = await refresh(first);
+      const afterReplay = await refresh(second);
+
+      expect(replay.status).toBe(400);
+      expect(replay.body).toMatchObject({
+        error: 'invalid_grant',
+        error_description: expect.stringContaining('already used'),
+      });
+      expect(afterReplay.status).toBe(400);
+      expect(afterReplay.body).toMatchObject({
+        error: 'invalid_grant',
+        error_description: expect.stringContaining('revoked'),
+      });
+    });
+
+    it('should only narrow the scope of a refresh', async () => {
+      const refreshToken = await signIn('registry:read');
+
+      const wider = await refresh(refreshToken, { scope: 'registry:read registry:admin' });
+      const narrower = await refresh(refreshToken, { scope: 'registry:read' });
+
+      expect(wider.status).toBe(400);
+      expect(wider.body.error).toBe('invalid_scope');
+      // The rejected request didn't use up the refresh token
+      expect(narrower.status).toBe(200);
+      expect(narrower.body.scope).toBe('registry:read');
+    });
+
+    it('should reject refresh tokens of another client or unknown ones', async () => {
+      const refreshToken = await signIn();
+
+      const otherClient = await request(app).post('/oauth/token').send({
+        client_id: 'citizen-app',
+        client_secret: 'citizen-app-secret',
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+      });
+      const unknown = await refresh('refresh-unknown');
+      const missing = await request(app)
+        .post('/oauth/token')
+        .send({ ...adminApp, grant_type: 'refresh_token' });
+
+      expect(otherClient.status).toBe(400);
+      expect(otherClient.body.error).toBe('invalid_grant');
+      expect(unknown.status).toBe(400);
+      expect(unknown.body.error).toBe('invalid_grant');
+      expect(missing.status).toBe(400);
+      expect(missing.body.error).toBe('invalid_request');
+    });
+  });
+
   describe('Token Introspection Endpoint', () => {
     beforeEach(() => {
       vi.resetAllMocks();
@@ -218,8 +344,455 @@ describe('IAM Server', () => {
     });
   });
 
+  describe('Token Revocation Endpoint', () => {
+    beforeEach(() => {
+      vi.resetAllMocks();
+    });
+
+    it('should revoke an access token of the calling client', async () => {
+      vi.mocked(verifyToken).mockReturnValue({
+        client_id: 'sample-service',
+        scope: 'read:sample',
+        jti: 'token-1',
+        exp: Math.floor(Date.now() / 1000) + 3600,
+      });
+
+      const response = await request(app).post('/oauth/revoke').send({
+        client_id: 'sample-service',
+        client_secret: 'sample-service-secret',
+        token: 'valid-token',
+      });
+      const introspection = await request(app)
+        .post('/oauth/introspect')
+        .send({ token: 'valid-token' });
+
+      expect(response.status).toBe(200);
+      expect(response.text).toBe('');
+      expect(introspection.body).toEqual({ active: false });
+    });
+
+    it('should answer 200 for invalid tokens', async () => {
+      vi.mocked(verifyToken).mockImplementation(() => {
+        throw new Error('Invalid token');
+      });
+
+      const response = await request(app).post('/oauth/revoke').send({
+        client_id: 'sample-service',
+        client_secret: 'sample-service-secret',
+        token: 'invalid-token',
+      });
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should require client authentication and a token', async () => {
+      const missingCredentials = await request(app)
+        .post('/oauth/revoke')
+        .send({ token: 'valid-token' });
+      const wrongSecret = await request(app).post('/oauth/revoke').send({
+        client_id: 'sample-service',
+        client_secret: 'wrong-secret',
+        token: 'valid-token',
+      });
+      const missingToken = await request(app).post('/oauth/revoke').send({
+        client_id: 'sample-service',
+        client_secret: 'sample-service-secret',
+      });
+
+      expect(missingCredentials.status).toBe(400);
+      expect(missingCredentials.body.error).toBe('invalid_request');
+      expect(wrongSecret.status).toBe(401);
+      expect(wrongSecret.body.error).toBe('invalid_client');
+      expect(missingToken.status).toBe(400);
+      expect(missingToken.body.error).toBe('invalid_request');
+    });
+  });
+
+  describe('Client Revocation Endpoint', () => {
+    beforeEach(() => {
+      vi.resetAllMocks();
+    });
+
+    function withScope(scope: string) {
+      vi.mocked(verifyToken).mockReturnValue({
+        client_id: 'city-admin-app',
+        scope,
+        jti: `admin-${scope}`,
+        iat: Math.floor(Date.now() / 1000),
+      });
+    }
+
+    it('should require a bearer token', async () => {
+      const response = await request(app).post('/clients/sample-service/revoke');
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('invalid_token');
+    });
+
+    it('should require the iam:admin scope', async () => {
+      withScope('registry:admin');
+
+      const response = await request(app)
+        .post('/clients/sample-service/revoke')
+        .set('Authorization', 'Bearer admin-token');
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('insufficient_scope');
+    });
+
+    it('should return 404 for unknown clients', async () => {
+      withScope('iam:admin');
+
+      const response = await request(app)
+        .post('/clients/unknown-service/revoke')
+        .set('Authorization', 'Bearer admin-token');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should revoke the tokens the client was issued so far', async () => {
+      withScope('iam:admin');
+
+      const response = await request(app)
+        .post('/clients/utilities-electric-service/revoke')
+        .set('Authorization', 'Bearer admin-token');
+      vi.mocked(verifyToken).mockReturnValue({
+        client_id: 'utilities-electric-service',
+        scope: 'read:grid',
+        iat: Math.floor(Date.now() / 1000) - 60,
+      });
+      const introspection = await request(app)
+        .post('/oauth/introspect')
+        .send({ token: 'electric-token' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.client_id).toBe('utilities-electric-service');
+      expect(introspection.body).toEqual({ active: false });
+    });
+  });
+
+  describe('Client Management Endpoints', () => {
+    const admin = { Authorization: 'Bearer admin-token' };
+
+    beforeEach(() => {
+      vi.resetAllMocks();
+      vi.mocked(verifyToken).mockReturnValue({
+        client_id: 'city-admin-app',
+        scope: 'iam:admin',
+        jti: 'admin-token',
+        iat: Math.floor(Date.now() / 1000),
+      });
+    });
+
+    it('should require the iam:admin scope', async () => {
+      vi.mocked(verifyToken).mockReturnValue({
+        client_id: 'city-admin-app',
+        scope: 'registry:admin',
+        jti: 'registry-admin-token',
+      });
+
+      const response = await request(app).get('/clients').set(admin);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should list clients without secret hashes', async () => {
+      const response = await request(app).get('/clients').set(admin);
+
+      expect(response.status).toBe(200);
+      expect(response.body.clients).toContainEqual(
+        expect.objectContaining({ client_id: 'citizen-app', enabled: true, interactive: true })
+      );
+      expect(JSON.stringify(response.body)).not.toContain('scrypt');
+    });
+
+    it('should create a client and return its secret once', async () => {
+      const created = await request(app)
+        .post('/clients')
+        .set(admin)
+        .send({ client_id: 'parking-service', name: 'Parking' });
+      const fetched = await request(app).get('/clients/parking-service').set(admin);
+      const duplicate = await request(app)
+        .post('/clients')
+        .set(admin)
+        .send({ client_id: 'parking-service' });
+
+      expect(created.status).toBe(201);
+      expect(created.body).toMatchObject({ client_id: 'parking-service', name: 'Parking' });
+      expect(created.body.client_secret).toEqual(expect.any(String));
+      expect(fetched.status).toBe(200);
+      expect(fetched.body).not.toHaveProperty('client_secret');
+      expect(duplicate.status).toBe(409);
+    });
+
+    it('should reject malformed clients', async () => {
+      const badId = await request(app)
+        .post('/clients')
+        .set(admin)
+        .send({ client_id: 'Parking Service' });
+      const badSettings = await request(app)
+        .post('/clients')
+        .set(admin)
+        .send({ client_id: 'parking-garage', enabled: 'yes' });
+
+      expect(badId.status).toBe(400);
+      expect(badSettings.status).toBe(400);
+      expect(badSettings.body.error).toBe('invalid_request');
+    });
+
+    it('should disable and enable a client', async () => {
+      const credentials = {
+        client_id: 'citizen-permits-service',
+        client_secret: 'permits-service-secret',
+        grant_type: 'client_credentials',
+        scope: 'read:permits',
+      };
+
+      const disabled = await request(app)
+        .patch('/clients/citizen-permits-service')
+        .set(admin)
+        .send({ enabled: false });
+      const rejected = await request(app).post('/oauth/token').send(credentials);
+      await request(app)
+        .patch('/clients/citizen-permits-service')
+        .set(admin)
+        .send({ enabled: true });
+      const accepted = await request(app).post('/oauth/token').send(credentials);
+
+      expect(disabled.status).toBe(200);
+      expect(disabled.body.enabled).toBe(false);
+      expect(rejected.status).toBe(401);
+      expect(accepted.status).toBe(200);
+    });
+
+    it('should rotate a secret and keep the old one during the grace period', async () => {
+      const rotated = await request(app)
+        .post('/clients/transportation-traffic-service/secret')
+        .set(admin)
+        .send({ grace_period: 600 });
+      const token = (client_secret: string) =>
+        request(app).post('/oauth/token').send({
+          client_id: 'transportation-traffic-service',
+          client_secret,
+          grant_type: 'client_credentials',
+          scope: 'read:congestion',
+        });
+
+      expect(rotated.status).toBe(200);
+      expect(rotated.body.secrets).toHaveLength(2);
+      expect((await token(rotated.body.client_secret)).status).toBe(200);
+      expect((await token('traffic-service-secret')).status).toBe(200);
+    });
+
+    it('should delete a client', async () => {
+      await request(app).post('/clients').set(admin).send({ client_id: 'old-service' });
+
+      const deleted = await request(app).delete('/clients/old-service').set(admin);
+      const fetched = await request(app).get('/clients/old-service').set(admin);
+      const again = await request(app).delete('/clients/old-service').set(admin);
+
+      expect(deleted.status).toBe(204);
+      expect(fetched.status).toBe(404);
+      expect(again.status).toBe(404);
+    });
+  });
+
+  describe('Scope Catalog Endpoints', () => {
+    const admin = { Authorization: 'Bearer admin-token' };
+
+    beforeEach(() => {
+      vi.resetAllMocks();
+      vi.mocked(generateToken).mockReturnValue('mock-token-scopes');
+      vi.mocked(verifyToken).mockReturnValue({
+        client_id: 'city-admin-app',
+        scope: 'iam:admin',
+        jti: 'admin-token',
+        iat: Math.floor(Date.now() / 1000),
+      });
+    });
+
+    it('should list the catalog with descriptions and owning services', async () => {
+      const response = await request(app)
+        .get('/scopes')
+        .query({ service: 'citizen-permits-service' })
+        .set(admin);
+
+      expect(response.status).toBe(200);
+      expect(response.body.scopes.map((scope: Scope) => scope.name)).toEqual([
+        'read:permits',
+        'write:permits',
+        'read:permit-types',
+      ]);
+      expect(response.body.scopes[0]).toMatchObject({
+        description: expect.any(String),
+        service: 'citizen-permits-service',
+      });
+    });
+
+    it('should let a service register its scopes with its client credentials', async () => {
+      const response = await request(app)
+        .post('/scopes/register')
+        .send({
+          client_id: 'utilities-electric-service',
+          client_secret: 'electric-service-secret',
+          scopes: [{ name: 'read:meters', description: 'Read smart meter readings' }],
+        });
+      const fetched = await request(app).get('/scopes/read:meters').set(admin);
+
+      expect(response.status).toBe(200);
+      expect(fetched.body).toMatchObject({
+        name: 'read:meters',
+        service: 'utilities-electric-service',
+      });
+    });
+
+    it('should refuse scopes owned by another service', async () => {
+      const response = await request(app)
+        .post('/scopes/register')
+        .send({
+          client_id: 'utilities-electric-service',
+          client_secret: 'electric-service-secret',
+          scopes: [{ name: 'registry:admin', description: 'Mine now' }],
+        });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error_description).toContain('registry:admin');
+    });
+
+    it('should refuse registrations of interactive clients', async () => {
+      const response = await request(app)
+        .post('/scopes/register')
+        .send({
+          client_id: 'citizen-app',
+          client_secret: 'citizen-app-secret',
+          scopes: [{ name: 'read:permit-fees', description: 'Read permit fees' }],
+        });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('unauthorized_client');
+      expect((await request(app).get('/scopes/read:permit-fees').set(admin)).status).toBe(404);
+    });
+
+    it('should only let services register once an admin defined their first scope', async () => {
+      const created = await request(app)
+        .post('/clients')
+        .set(admin)
+        .send({ client_id: 'bike-sharing-service' });
+      const register = (name: string) =>
+        request(app)
+          .post('/scopes/register')
+          .send({
+            client_id: 'bike-sharing-service',
+            client_secret: created.body.client_secret,
+            scopes: [{ name, description: 'Bikes' }],
+          });
+
+      const unknown = await register('read:bikes');
+      await request(app)
+        .put('/scopes/read:bikes')
+        .set(admin)
+        .send({ description: 'Read bikes', service: 'bike-sharing-service' });
+      const known = await register('write:bikes');
+
+      expect(unknown.status).toBe(403);
+      expect(unknown.body.error_description).toContain('admin');
+      expect(known.status).toBe(200);
+    });
+
+    it('should require client credentials and scope definitions to register', async () => {
+      const wrongSecret = await request(app)
+        .post('/scopes/register')
+        .send({
+          client_id: 'utilities-electric-service',
+          client_secret: 'wrong-secret',
+          scopes: [{ name: 'read:meters', description: 'Read' }],
+        });
+      const malformed = await request(app)
+        .post('/scopes/register')
+        .send({
+          client_id: 'utilities-electric-service',
+          client_secret: 'electric-service-secret',
+          scopes: [{ name: 'meters', description: 'Read' }],
+        });
+
+      expect(wrongSecret.status).toBe(401);
+      expect(malformed.status).toBe(400);
+    });
+
+    it('should grant and revoke scopes per client', async () => {
+      const token = () =>
+        request(app).post('/oauth/token').send({
+          client_id: 'citizen-requests-service',
+          client_secret: 'requests-service-secret',
+          grant_type: 'client_credentials',
+          scope: 'read:permits',
+        });
+
+      const before = await token();
+      const granted = await request(app)
+        .put('/clients/citizen-requests-service/scopes/read:permits')
+        .set(admin);
+      const withGrant = await token();
+      const revoked = await request(app)
+        .delete('/clients/citizen-requests-service/scopes/read:permits')
+        .set(admin);
+      const afterRevoke = await token();
+
+      expect(before.status).toBe(400);
+      expect(granted.status).toBe(200);
+      expect(granted.body.scopes).toContain('read:permits');
+      expect(withGrant.status).toBe(200);
+      expect(withGrant.body.scope).toBe('read:permits');
+      expect(revoked.body.scopes).not.toContain('read:permits');
+      expect(afterRevoke.status).toBe(400);
+    });
+
+    it('should only grant scopes from the catalog', async () => {
+      const response = await request(app)
+        .put('/clients/citizen-app/scopes/read:unknown')
+        .set(admin);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error_description).toBe('Unknown scope');
+    });
+
+    it('should define and delete scopes, removing them from clients', async () => {
+      const defined = await request(app)
+        .put('/scopes/read:parking')
+        .set(admin)
+        .send({ description: 'Read parking spaces', service: 'parking-service' });
+      await request(app).put('/clients/citizen-app/scopes/read:parking').set(admin);
+      const deleted = await request(app).delete('/scopes/read:parking').set(admin);
+      const client = await request(app).get('/clients/citizen-app').set(admin);
+
+      expect(defined.status).toBe(200);
+      expect(deleted.status).toBe(204);
+      expect(client.body.scopes).not.toContain('read:parking');
+    });
+
+    it('should require the iam:admin scope to manage the catalog', async () => {
+      vi.mocked(verifyToken).mockReturnValue({
+        client_id: 'citizen-app',
+        scope: 'read:permits',
+        jti: 'citizen-token',
+      });
+
+      const response = await request(app)
+        .put('/scopes/read:parking')
+        .set(admin)
+        .send({ description: 'Read parking spaces', service: 'parking-service' });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
   describe('JWKS Endpoint', () => {
-    it('should return a JWKS with mock key information', async () => {
+    it('should return the published signing keys', async () => {
+      const jwks = vi.fn().mockReturnValue({
+        keys: [{ kty: 'RSA', kid: 'key-1', use: 'sig', alg: 'RS256', n: 'modulus', e: 'AQAB' }],
+      });
+      vi.mocked(signingKeys).mockReturnValue({ jwks } as unknown as KeyStore);
+
       const response = await request(app).get('/.well-known/jwks.json');
 
       expect(response.status).toBe(200);
@@ -231,10 +804,11 @@ describe('IAM Server', () => {
       const key = response.body.keys[0];
       expect(key).toMatchObject({
         kty: 'RSA',
-        kid: expect.any(String),
+        kid: 'key-1',
         use: 'sig',
         alg: 'RS256',
       });
+      expect(jwks).toHaveBeenCalled();
     });
   });
 });
@@ -1,14 +1,24 @@
 // Setup global testing environment
 import { beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
 // Mock environment variables
-process.env.JWT_SECRET = 'test-secret-key';
 process.env.TOKEN_EXPIRATION = '3600';
 process.env.TOKEN_ISSUER = 'test-issuer';
 process.env.NODE_ENV = 'test';
 process.env.PORT = '3000';
 process.env.LOG_LEVEL = 'error'; // Reduce logging noise during tests
 
+// Signing keys, clients, scopes and revocations are kept in a throwaway directory per test file
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'iam-data-'));
+process.env.IAM_KEYS_DIR = path.join(dataDir, 'keys');
+process.env.IAM_CLIENTS_FILE = path.join(dataDir, 'clients.json');
+process.env.IAM_SCOPES_FILE = path.join(dataDir, 'scopes.json');
+process.env.IAM_REVOCATIONS_FILE = path.join(dataDir, 'revocations.json');
+process.env.CITY_ADMIN_CLIENT_SECRET = 'city-admin-secret';
+
 // Global setup
 beforeAll(() => {
   // Any global setup for all tests
@@ -18,5 +28,6 @@ beforeAll(() => {
 // Global teardown
 afterAll(() => {
   // Cleanup after all tests
+  fs.rmSync(dataDir, { recursive: true, force: true });
   console.log('Tearing down test environment for IAM service tests');
 });
@@ -0,0 +1,7 @@
+import { defineConfig, defaultPlugins } from '@hey-api/openapi-ts';
+
+export default defineConfig({
+  input: 'api/openapi.yaml',
+  output: 'src/generated',
+  plugins: [...defaultPlugins, '@hey-api/client-fetch'],
+});
@@ -0,0 +1,141 @@
+/**
+ * Bearer token authorization for registry requests
+ *
+ * Tokens are issued by the IAM service and checked with its introspection
+ * endpoint. Writes are bound to the token's client_id, so a service can only
+ * change its own registrations.
+ */
+
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+export const READ_SCOPE = 'registry:read';
+export const WRITE_SCOPE = 'registry:write';
+// Allows managing every service, for operators and tooling
+export const ADMIN_SCOPE = 'registry:admin';
+
+// Response of the IAM introspection endpoint
+export interface TokenInfo {
+  active: boolean;
+  client_id?: string;
+  scope?: string;
+  exp?: number;
+}
+
+// Caller of an authorized request, available as res.locals.principal
+export interface Principal {
+  clientId: string;
+  scopes: string[];
+}
+
+// Upper bound on cached introspection results
+const MAX_CACHED_TOKENS = 1000;
+
+export class TokenIntrospector {
+  private cache: Map<string, { info: TokenInfo; expiresAt: number }> = new Map();
+
+  constructor(private iamUrl: string, private cacheTtl = 30000) {}
+
+  /**
+   * Ask the IAM service whether a token is active
+   *
+   * Results are cached for the configured TTL, but never past the token's expiry.
+   */
+  async introspect(token: string): Promise<TokenInfo> {
+    const cached = this.cache.get(token);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.info;
+    }
+    this.cache.delete(token);
+
+    const response = await fetch(`${this.iamUrl}/oauth/introspect`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token }),
+    });
+    if (!response.ok) {
+      throw new Error(`IAM introspection failed with status ${response.status}`);
+    }
+
+    const info: TokenInfo = await response.json();
+    const expiresAt = Math.min(Date.now() + this.cacheTtl, info.exp ? info.exp * 1000 : Infinity);
+
+    if (this.cache.size >= MAX_CACHED_TOKENS) {
+      // Maps iterate in insertion order, so this drops the oldest entry
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    this.cache.set(token, { info, expiresAt });
+    return info;
+  }
+}
+
+export interface AuthorizeOptions {
+  // Scope the token must carry
+  scope: string;
+  // When false every request is let through
+  enabled: boolean;
+  // Service a write targets, which must match the token's client_id
+  serviceName?: (req: Request) => string | undefined;
+}
+
+/**
+ * Build a middleware that requires a bearer token with the given scope
+ */
+export function authorize(
+  introspector: TokenIntrospector,
+  options: AuthorizeOptions
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!options.enabled) {
+      return next();
+    }
+
+    const [type, token] = (req.header('Authorization') || '').split(' ');
+    if (type?.toLowerCase() !== 'bearer' || !token) {
+      res.set('WWW-Authenticate', 'Bearer realm="service-registry"');
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'A bearer token issued by the IAM service is required',
+      });
+    }
+
+    let info: TokenInfo;
+    try {
+      info = await introspector.introspect(token);
+    } catch (error) {
+      console.error('Failed to introspect token:', error);
+      return res.status(503).json({
+        error: 'service_unavailable',
+        message: 'Unable to validate the token with the IAM service',
+      });
+    }
+
+    if (!info.active || !info.client_id) {
+      res.set('WWW-Authenticate', 'Bearer realm="service-registry", error="invalid_token"');
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'The bearer token is invalid or has expired',
+      });
+    }
+
+    const scopes = (info.scope || '').split(' ').filter(Boolean);
+    const isAdmin = scopes.includes(ADMIN_SCOPE);
+    if (!isAdmin && !scopes.includes(options.scope)) {
+      return res.status(403).json({
+        error: 'forbidden',
+        message: `The token is missing the '${options.scope}' scope`,
+      });
+    }
+
+    const serviceName = options.serviceName?.(req);
+    if (!isAdmin && serviceName !== undefined && serviceName !== info.client_id) {
+      return res.status(403).json({
+        error: 'forbidden',
+        message: `Client '${info.client_id}' cannot modify service '${serviceName}'`,
+      });
+    }
+
+    const principal: Principal = { clientId: info.client_id, scopes };
+    res.locals.principal = principal;
+    return next();
+  };
+}
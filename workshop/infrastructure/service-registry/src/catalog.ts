@@ -0,0 +1,351 @@
+/**
+ * API catalog
+ *
+ * Keeps the OpenAPI specs that services publish when they register, one per
+ * API version, so the APIs of the city can be browsed in one place and two
+ * versions of a service's API can be compared operation by operation.
+ * Specs are written through to the registry store alongside the instances.
+ */
+
+import * as yaml from 'js-yaml';
+import semver from 'semver';
+import { CatalogConfig } from './config';
+import { MemoryStore, RegistryStore } from './storage';
+
+// An OpenAPI 3 document, only the parts the catalog reads are typed
+export interface ApiSpec {
+  openapi: string;
+  info: { title?: string; version?: string; [key: string]: unknown };
+  paths: Record<string, Record<string, unknown>>;
+  [key: string]: unknown;
+}
+
+export interface ApiOperation {
+  method: string;
+  path: string;
+  operationId?: string;
+  summary?: string;
+}
+
+export interface ApiVersion {
+  version: string;
+  title?: string;
+  // Time the version was last published in milliseconds since the epoch
+  publishedAt: number;
+  // URL the spec was fetched from, not set for specs sent with the registration
+  source?: string;
+  operations: number;
+}
+
+export interface CatalogEntry {
+  name: string;
+  latest: string;
+  // Oldest first
+  versions: ApiVersion[];
+}
+
+export interface OperationChange extends ApiOperation {
+  // Fields of the operation that differ, e.g. 'parameters' or 'responses'
+  changes: string[];
+}
+
+export interface ApiDiff {
+  name: string;
+  from: string;
+  to: string;
+  added: ApiOperation[];
+  removed: ApiOperation[];
+  changed: OperationChange[];
+}
+
+export type CatalogOptions = CatalogConfig;
+
+// A version of a service's API with its spec, as persisted and replicated
+export interface PublishedSpec extends ApiVersion {
+  spec: ApiSpec;
+}
+
+export type CatalogListener = (name: string, published: PublishedSpec) => void;
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+export class ApiCatalog {
+  // Specs by service name and API version, each in publishing order
+  private specs: Map<string, Map<string, PublishedSpec>> = new Map();
+  private listeners: Set<CatalogListener> = new Set();
+
+  constructor(private options: CatalogOptions, private store: RegistryStore = new MemoryStore()) {}
+
+  /**
+   * Restore the published specs from the store
+   */
+  async initialize(): Promise<void> {
+    const persisted = await this.store.loadSpecs();
+
+    this.specs.clear();
+    for (const [name, specs] of Object.entries(persisted)) {
+      this.specs.set(name, byPublishingOrder(specs));
+    }
+  }
+
+  /**
+   * Check that a spec can be published, returning its version
+   *
+   * The version is taken from `info.version`, or from the registration when
+   * the spec has none. Throws when the spec is not an OpenAPI 3 document or
+   * has no version.
+   */
+  validate(spec: unknown, fallbackVersion?: string): string {
+    if (!isApiSpec(spec)) {
+      throw new Error("API spec must be an OpenAPI 3 document with 'openapi', 'info' and 'paths'");
+    }
+    const version = spec.info.version || fallbackVersion;
+    if (!version) {
+      throw new Error('API spec has no info.version and the registration no version');
+    }
+    return version;
+  }
+
+  /**
+   * Store a spec as a version of a service's API
+   *
+   * Publishing a version again replaces it. Throws like validate().
+   */
+  async publish(
+    name: string,
+    spec: unknown,
+    fallbackVersion?: string,
+    source?: string
+  ): Promise<ApiVersion> {
+    const version = this.validate(spec, fallbackVersion);
+    const apiSpec = spec as ApiSpec;
+    const published: PublishedSpec = {
+      version,
+      title: apiSpec.info.title,
+      publishedAt: Date.now(),
+      source,
+      operations: operationsOf(apiSpec).length,
+      spec: apiSpec,
+    };
+
+    const versions = this.specs.get(name) || new Map<string, PublishedSpec>();
+    versions.delete(version);
+    versions.set(version, published);
+    this.specs.set(name, versions);
+    await this.store.saveSpec(name, published);
+    await this.trim(name, versions);
+
+    for (const listener of this.listeners) {
+      try {
+        listener(name, published);
+      } catch (error) {
+        console.error('Catalog listener failed:', error);
+      }
+    }
+    return summary(published);
+  }
+
+  /**
+   * Apply a spec published on another registry node
+   *
+   * Kept unless this node has the same version published more recently.
+   * Returns whether the catalog changed.
+   */
+  async merge(name: string, published: PublishedSpec): Promise<boolean> {
+    const versions = this.specs.get(name) || new Map<string, PublishedSpec>();
+    const existing = versions.get(published.version);
+    if (existing && existing.publishedAt >= published.publishedAt) return false;
+
+    const merged = byPublishingOrder([
+      ...Array.from(versions.values()).filter(({ version }) => version !== published.version),
+      published,
+    ]);
+    this.specs.set(name, merged);
+    await this.store.saveSpec(name, published);
+    await this.trim(name, merged);
+    return merged.has(published.version);
+  }
+
+  /**
+   * Every published spec by service name, as served to syncing peers
+   */
+  all(): Record<string, PublishedSpec[]> {
+    return Object.fromEntries(
+      Array.from(this.specs, ([name, versions]) => [name, Array.from(versions.values())])
+    );
+  }
+
+  /**
+   * Subscribe to specs published on this node, returns a function that
+   * removes the listener
+   */
+  watch(listener: CatalogListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Fetch a spec, as JSON or YAML, and publish it
+   */
+  async publishFrom(name: string, url: string, fallbackVersion?: string): Promise<ApiVersion> {
+    const response = await fetch(url, {
+      headers: { Accept: 'application/json, application/yaml;q=0.9' },
+      signal: AbortSignal.timeout(this.options.fetchTimeout),
+    });
+    if (!response.ok) {
+      throw new Error(`Fetching the API spec from ${url} failed with status ${response.status}`);
+    }
+    return this.publish(name, yaml.load(await response.text()), fallbackVersion, url);
+  }
+
+  /**
+   * Every service with a published spec
+   */
+  list(): CatalogEntry[] {
+    return Array.from(this.specs.keys())
+      .sort()
+      .map((name) => this.entry(name)!);
+  }
+
+  /**
+   * The published versions of a service's API
+   */
+  entry(name: string): CatalogEntry | undefined {
+    const versions = this.specs.get(name);
+    if (!versions) return undefined;
+
+    const stored = sortVersions(Array.from(versions.values()));
+    return {
+      name,
+      latest: stored[stored.length - 1].version,
+      versions: stored.map(summary),
+    };
+  }
+
+  /**
+   * A version of a service's spec, 'latest' for the newest one
+   */
+  get(name: string, version: string): ApiSpec | undefined {
+    const resolved = version === 'latest' ? this.entry(name)?.latest : version;
+    return resolved ? this.specs.get(name)?.get(resolved)?.spec : undefined;
+  }
+
+  /**
+   * The operations added, removed and changed from one version to another
+   */
+  diff(name: string, from: string, to: string): ApiDiff | undefined {
+    const before = this.get(name, from);
+    const after = this.get(name, to);
+    if (!before || !after) return undefined;
+
+    const previous = new Map(operationsOf(before).map((op) => [operationKey(op), op]));
+    const current = new Map(operationsOf(after).map((op) => [operationKey(op), op]));
+    const diff: ApiDiff = { name, from, to, added: [], removed: [], changed: [] };
+
+    for (const [key, operation] of current) {
+      if (!previous.has(key)) {
+        diff.added.push(describe(operation));
+        continue;
+      }
+      const changes = changedFields(previous.get(key)!.definition, operation.definition);
+      if (changes.length > 0) {
+        diff.changed.push({ ...describe(operation), changes });
+      }
+    }
+    for (const [key, operation] of previous) {
+      if (!current.has(key)) {
+        diff.removed.push(describe(operation));
+      }
+    }
+    return diff;
+  }
+
+  // Drop the oldest versions beyond the limit, the first one is the oldest
+  private async trim(name: string, versions: Map<string, PublishedSpec>): Promise<void> {
+    while (versions.size > this.options.versionLimit) {
+      const oldest = versions.keys().next().value!;
+      versions.delete(oldest);
+      await this.store.removeSpec(name, oldest);
+    }
+  }
+}
+
+interface SpecOperation extends ApiOperation {
+  definition: Record<string, unknown>;
+}
+
+function isApiSpec(value: unknown): value is ApiSpec {
+  const spec = value as ApiSpec;
+  return (
+    isObject(spec) &&
+    typeof spec.openapi === 'string' &&
+    spec.openapi.startsWith('3.') &&
+    isObject(spec.info) &&
+    isObject(spec.paths)
+  );
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function operationsOf(spec: ApiSpec): SpecOperation[] {
+  const operations: SpecOperation[] = [];
+  for (const [path, item] of Object.entries(spec.paths)) {
+    if (!isObject(item)) continue;
+    for (const method of HTTP_METHODS) {
+      const definition = item[method];
+      if (!isObject(definition)) continue;
+      operations.push({
+        method: method.toUpperCase(),
+        path,
+        operationId: definition.operationId,
+        summary: definition.summary,
+        definition,
+      });
+    }
+  }
+  return operations;
+}
+
+function operationKey(operation: ApiOperation): string {
+  return `${operation.method} ${operation.path}`;
+}
+
+// The operation without its definition, leaving out fields the spec doesn't set
+function describe({ method, path, operationId, summary }: SpecOperation): ApiOperation {
+  return {
+    method,
+    path,
+    ...(operationId !== undefined && { operationId }),
+    ...(summary !== undefined && { summary }),
+  };
+}
+
+function changedFields(before: Record<string, unknown>, after: Record<string, unknown>): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(keys)
+    .filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .sort();
+}
+
+function byPublishingOrder(specs: PublishedSpec[]): Map<string, PublishedSpec> {
+  return new Map(
+    [...specs].sort((a, b) => a.publishedAt - b.publishedAt).map((spec) => [spec.version, spec])
+  );
+}
+
+// Semantic versions in semver order, anything else in publishing order
+function sortVersions(versions: PublishedSpec[]): PublishedSpec[] {
+  return versions.sort((a, b) =>
+    semver.valid(a.version) && semver.valid(b.version)
+      ? semver.compare(a.version, b.version)
+      : a.publishedAt - b.publishedAt
+  );
+}
+
+function summary({ spec: _spec, ...version }: PublishedSpec): ApiVersion {
+  return version;
+}
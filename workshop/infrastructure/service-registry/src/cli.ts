@@ -0,0 +1,430 @@
+#!/usr/bin/env node
+/**
+ * city-registry command-line tool
+ *
+ * Operator commands for the service registry, built on the client library so
+ * they get the same failover between registry nodes and IAM tokens:
+ *
+ *   city-registry list
+ *   city-registry describe fire-service
+ *   city-registry register legacy-service http://legacy:8080 --keep-alive
+ *   city-registry deregister legacy-service legacy-service-1
+ *   city-registry tail
+ *   city-registry export registry.json
+ *   city-registry import registry.json
+ */
+
+import { Command } from 'commander';
+import { promises as fs } from 'fs';
+import {
+  LifecycleState,
+  RegistryClientOptions,
+  ServiceInfo,
+  ServiceInstance,
+  ServiceRegistryClient,
+  WatchEvent,
+} from './client';
+
+// Written by export and read by import
+export interface RegistryExport {
+  exportedAt: string;
+  services: Record<string, ServiceInstance[]>;
+}
+
+export interface CliOptions {
+  env?: NodeJS.ProcessEnv;
+  // Resolves when a long-running command should stop, on SIGINT or SIGTERM by default
+  shutdown?: () => Promise<void>;
+}
+
+interface GlobalOptions {
+  registry: string;
+  iamUrl?: string;
+  clientId?: string;
+  clientSecret?: string;
+}
+
+interface RegisterOptions {
+  id?: string;
+  healthCheckUrl?: string;
+  version?: string;
+  tag: string[];
+  dependsOn: string[];
+  metadata: string[];
+  weight?: string;
+  label?: string;
+  apiSpecUrl?: string;
+  state?: LifecycleState;
+  ttl?: string;
+  keepAlive?: boolean;
+}
+
+/**
+ * Build the city-registry program
+ */
+export function createProgram({
+  env = process.env,
+  shutdown = waitForSignal,
+}: CliOptions = {}): Command {
+  const program = new Command('city-registry')
+    .description('Inspect and manage the city service registry')
+    .option(
+      '-r, --registry <urls>',
+      'registry base URLs, comma separated',
+      env.REGISTRY_URL || 'http://localhost:3000'
+    )
+    .option('--iam-url <url>', 'IAM service for access tokens', env.IAM_URL)
+    .option('--client-id <id>', 'IAM client ID', env.REGISTRY_CLIENT_ID)
+    .option('--client-secret <secret>', 'IAM client secret', env.REGISTRY_CLIENT_SECRET);
+
+  // A client for the registry, registering as `serviceName` when asked to
+  const clientFor = (
+    serviceName = 'city-registry',
+    options: Partial<RegistryClientOptions> = {}
+  ): ServiceRegistryClient => {
+    const { registry, iamUrl, clientId, clientSecret } = program.opts<GlobalOptions>();
+    return new ServiceRegistryClient({
+      registryUrl: registry.split(',').map((url) => url.trim().replace(/\/+$/, '')),
+      serviceName,
+      serviceUrl: '',
+      ...defined({ iamUrl, clientId, clientSecret }),
+      ...options,
+    });
+  };
+
+  program
+    .command('list')
+    .description('list registered services')
+    .option('--json', 'print JSON')
+    .action(async (options: { json?: boolean }) => {
+      let services: Record<string, ServiceInfo>;
+      try {
+        services = await clientFor().fetchAll();
+      } catch (error) {
+        return fail(`Failed to list services: ${errorMessage(error)}`);
+      }
+      if (options.json) {
+        console.log(JSON.stringify(services, null, 2));
+        return;
+      }
+
+      const names = Object.keys(services).sort();
+      if (names.length === 0) {
+        console.log('No services registered');
+        return;
+      }
+      printTable([
+        ['SERVICE', 'STATUS', 'INSTANCES', 'URL'],
+        ...names.map((name) => {
+          const service = services[name];
+          return [
+            name,
+            service.status || 'UP',
+            String(service.instances?.length ?? 1),
+            service.url,
+          ];
+        }),
+      ]);
+    });
+
+  program
+    .command('describe <service>')
+    .description('show the instances of a service with their health and heartbeat age')
+    .option('--json', 'print JSON')
+    .action(async (name: string, options: { json?: boolean }) => {
+      const instances = await clientFor().getInstances(name);
+      if (instances.length === 0) {
+        return fail(`Service '${name}' not found`);
+      }
+      if (options.json) {
+        console.log(JSON.stringify(instances, null, 2));
+        return;
+      }
+
+      console.log(`${name} (${instances.length} instance${instances.length === 1 ? '' : 's'})`);
+      for (const instance of instances) {
+        console.log();
+        console.log(instance.instanceId);
+        printTable(
+          describeInstance(instance).map(([label, value]) => [`  ${label}:`, value]),
+          1
+        );
+      }
+    });
+
+  program
+    .command('register <service> <url>')
+    .description('register an instance by hand, e.g. for a service without the client library')
+    .option('--id <instanceId>', 'instance ID, generated when not given')
+    .option('--health-check-url <url>', 'URL the registry probes')
+    .option('--version <version>', 'semantic version of the API the instance serves')
+    .option('--tag <tag>', 'tag to register, repeatable', collect, [])
+    .option('--depends-on <service>', 'service the instance calls, repeatable', collect, [])
+    .option('--metadata <key=value>', 'metadata entry, repeatable', collect, [])
+    .option('--weight <weight>', 'share of the traffic relative to the other instances')
+    .option('--label <label>', 'release the instance belongs to, e.g. canary')
+    .option('--api-spec-url <url>', 'where the instance serves its OpenAPI spec, for the catalog')
+    .option('--state <state>', 'lifecycle state: active, draining or maintenance')
+    .option('--ttl <seconds>', 'lease TTL to ask for')
+    .option('--keep-alive', 'keep sending heartbeats and deregister on Ctrl+C')
+    .action(async (name: string, url: string, options: RegisterOptions) => {
+      const client = clientFor(name, {
+        serviceUrl: url,
+        ...defined({
+          instanceId: options.id,
+          healthCheckUrl: options.healthCheckUrl,
+          version: options.version,
+          weight: options.weight !== undefined ? Number(options.weight) : undefined,
+          label: options.label,
+          apiSpecUrl: options.apiSpecUrl,
+          state: options.state,
+          leaseTtl: options.ttl ? Number(options.ttl) : undefined,
+        }),
+        tags: options.tag,
+        dependencies: options.dependsOn,
+        metadata: parseMetadata(options.metadata),
+      });
+
+      if (!(await client.register())) {
+        // Stop the retries the client schedules after a failed attempt
+        await client.unregister();
+        return fail(`Failed to register ${name} at ${url}`);
+      }
+      console.log(`Registered ${name}/${client.instanceId}`);
+
+      if (!options.keepAlive) {
+        console.log('The instance is removed when its lease runs out unless it sends heartbeats');
+        return;
+      }
+      console.log('Sending heartbeats, press Ctrl+C to deregister');
+      await shutdown();
+      await client.unregister();
+      console.log(`Deregistered ${name}/${client.instanceId}`);
+    });
+
+  program
+    .command('deregister <service> [instanceId]')
+    .description('remove an instance, or a service with all of its instances')
+    .action(async (name: string, instanceId?: string) => {
+      const target = instanceId ? `${name}/${instanceId}` : name;
+      if (!(await clientFor().deregister(name, instanceId))) {
+        return fail(`Failed to deregister ${target}`);
+      }
+      console.log(`Deregistered ${target}`);
+    });
+
+  program
+    .command('tail [service]')
+    .description('follow registry changes, for every service unless one is given')
+    .option('--json', 'print each change as a line of JSON')
+    .action(async (name: string | undefined, options: { json?: boolean }) => {
+      const client = clientFor();
+      const print = (instances: ServiceInstance[], event: WatchEvent) => {
+        if (options.json) {
+          console.log(JSON.stringify(event));
+        } else if (event.type === 'snapshot') {
+          console.log(
+            `Watching ${name ?? 'all services'}, ${instances.length} instance(s) registered`
+          );
+        } else {
+          console.log(
+            [
+              new Date().toISOString(),
+              event.type.padEnd(12),
+              `${event.name}/${event.instanceId}`,
+              event.instance?.url ?? '',
+            ].join(' ')
+          );
+        }
+      };
+
+      const stop = name ? client.watch(name, print) : client.watchAll(print);
+      await shutdown();
+      stop();
+    });
+
+  program
+    .command('export [file]')
+    .description('write every registered instance as JSON, to stdout unless a file is given')
+    .action(async (file?: string) => {
+      let services: Record<string, ServiceInfo>;
+      try {
+        services = await clientFor().fetchAll();
+      } catch (error) {
+        return fail(`Failed to export services: ${errorMessage(error)}`);
+      }
+      const data: RegistryExport = {
+        exportedAt: new Date().toISOString(),
+        services: Object.fromEntries(
+          Object.entries(services).map(([name, service]) => [name, service.instances ?? []])
+        ),
+      };
+
+      const json = `${JSON.stringify(data, null, 2)}\n`;
+      if (!file) {
+        process.stdout.write(json);
+        return;
+      }
+      await fs.writeFile(file, json);
+      const count = Object.values(data.services).reduce((sum, list) => sum + list.length, 0);
+      console.log(`Exported ${count} instance(s) to ${file}`);
+    });
+
+  program
+    .command('import <file>')
+    .description('register every instance of an export, keeping their IDs')
+    .action(async (file: string) => {
+      let data: RegistryExport;
+      try {
+        data = JSON.parse(await fs.readFile(file, 'utf8'));
+      } catch (error) {
+        return fail(`Failed to read ${file}: ${(error as Error).message}`);
+      }
+      if (!data || typeof data.services !== 'object') {
+        return fail(`${file} is not a registry export, expected a 'services' object`);
+      }
+
+      let imported = 0;
+      let total = 0;
+      for (const [name, instances] of Object.entries(data.services)) {
+        for (const instance of instances) {
+          total++;
+          const client = clientFor(name, {
+            serviceUrl: instance.url,
+            instanceId: instance.instanceId,
+            ...defined({
+              healthCheckUrl: instance.healthCheckUrl,
+              version: instance.version,
+              tags: instance.tags,
+              dependencies: instance.dependencies,
+              weight: instance.weight,
+              label: instance.label,
+              apiSpecUrl: instance.apiSpecUrl,
+              state: instance.state,
+              leaseTtl: instance.ttl,
+            }),
+            metadata: instance.metadata,
+          });
+
+          if (await client.register()) {
+            imported++;
+          } else {
+            await client.unregister();
+            console.error(`Failed to import ${name}/${instance.instanceId}`);
+          }
+        }
+      }
+
+      console.log(`Imported ${imported} of ${total} instance(s)`);
+      if (imported < total) process.exitCode = 1;
+    });
+
+  return program;
+}
+
+// Rows of the describe output for one instance
+function describeInstance(instance: ServiceInstance): [string, string][] {
+  const rows: [string, string][] = [['URL', instance.url]];
+  if (instance.version) rows.push(['Version', instance.version]);
+  if (instance.tags?.length) rows.push(['Tags', instance.tags.join(', ')]);
+  if (instance.dependencies?.length) rows.push(['Depends on', instance.dependencies.join(', ')]);
+  if (instance.label) rows.push(['Label', instance.label]);
+  if (instance.weight !== undefined) rows.push(['Weight', String(instance.weight)]);
+  rows.push(['State', instance.state ?? 'active']);
+
+  const health = instance.health;
+  rows.push([
+    'Health',
+    health
+      ? `${health.status} (last probe ${formatAge(health.lastProbe.checkedAt)}${
+          health.lastProbe.error ? `: ${health.lastProbe.error}` : ''
+        })`
+      : 'not probed',
+  ]);
+  rows.push([
+    'Heartbeat',
+    `${formatAge(instance.lastHeartbeat)}${instance.ttl ? ` (lease ${instance.ttl}s)` : ''}`,
+  ]);
+  if (instance.healthCheckUrl) rows.push(['Health check', instance.healthCheckUrl]);
+  if (Object.keys(instance.metadata || {}).length > 0) {
+    rows.push(['Metadata', JSON.stringify(instance.metadata)]);
+  }
+  return rows;
+}
+
+// Time since a timestamp in milliseconds, e.g. '1m 5s ago'
+export function formatAge(timestamp: number, now = Date.now()): string {
+  const seconds = Math.max(0, Math.round((now - timestamp) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s ago`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m ago`;
+}
+
+// Print rows with padded columns
+function printTable(rows: string[][], gap = 2): void {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  for (const row of rows) {
+    console.log(
+      row
+        .map((cell, column) => (column < row.length - 1 ? cell.padEnd(widths[column] + gap) : cell))
+        .join('')
+    );
+  }
+}
+
+// Parse repeated key=value options
+function parseMetadata(entries: string[]): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  for (const entry of entries) {
+    const separator = entry.indexOf('=');
+    if (separator < 1) {
+      throw new Error(`Invalid metadata '${entry}', expected key=value`);
+    }
+    metadata[entry.slice(0, separator)] = entry.slice(separator + 1);
+  }
+  return metadata;
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+// Leave out undefined options so the client's defaults apply
+function defined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+// The message of a failed request, with the network error behind it, e.g.
+// 'fetch failed (ECONNREFUSED)'
+function errorMessage(error: unknown): string {
+  const { message, cause } = error as Error & { cause?: { code?: string } };
+  return cause?.code ? `${message} (${cause.code})` : message;
+}
+
+function fail(message: string): void {
+  console.error(message);
+  process.exitCode = 1;
+}
+
+function waitForSignal(): Promise<void> {
+  return new Promise((resolve) => {
+    const stop = () => {
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+      resolve();
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  });
+}
+
+// Exit once the command is done, the client keeps timers such as heartbeats running
+if (require.main === module) {
+  createProgram()
+    .parseAsync(process.argv)
+    .then(() => process.exit())
+    .catch((error) => {
+      console.error(error.message);
+      process.exit(1);
+    });
+}
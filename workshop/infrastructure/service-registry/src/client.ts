@@ -5,64 +5,326 @@
  * and discover other services from the registry.
  */
 
-export interface ServiceInfo {
-  url: string;
-  healthCheckUrl?: string;
-  metadata: Record<string, any>;
-  lastHeartbeat: number;
+import { Client, createClient, createConfig } from '@hey-api/client-fetch';
+import { randomUUID } from 'crypto';
+import { TokenProvider } from './credentials';
+import { CacheStats, DiscoveryCache } from './discovery-cache';
+import {
+  ApiSpec,
+  deleteService,
+  deregisterInstance,
+  getService,
+  Instance,
+  instanceHeartbeat,
+  listInstances,
+  listServices,
+  LifecycleState,
+  registerInstance,
+  Service,
+  updateInstance,
+} from './generated';
+import { InstanceQuery, isEmptyQuery, matchesQuery } from './query';
+import { InstanceSelector, SelectionStrategy } from './selection';
+import { ServiceWatcher, WatchCallback } from './watch';
+
+export type { CacheStats } from './discovery-cache';
+export type { HealthStatus, InstanceHealth, LifecycleState } from './generated';
+export type { SelectionStrategy } from './selection';
+export type { WatchCallback, WatchEvent, WatchEventType } from './watch';
+
+export type ServiceInstance = Instance;
+
+// Filters for discover(), and a key that keeps a caller on the same release
+export interface DiscoverOptions extends InstanceQuery {
+  // Calls with the same key go to the same release while weights are
+  // unchanged, e.g. a citizen ID during a canary rollout
+  stickyKey?: string;
 }
 
+// Registries without instance support only return the service's own fields
+export type ServiceInfo = Omit<Service, 'status' | 'instances'> &
+  Partial<Pick<Service, 'status' | 'instances'>>;
+
+// Whether the registry knows this instance. 'lost' means the registry forgot
+// it, e.g. after a restart, and the client is about to register again.
+export type RegistrationState = 'unregistered' | 'registering' | 'registered' | 'lost';
+
+// Called whenever the registration state changes
+export type RegistrationStateCallback = (
+  state: RegistrationState,
+  previous: RegistrationState
+) => void;
+
 export interface RegistryClientOptions {
-  registryUrl: string;
+  // One or more registry nodes. Requests go to one node and move on to
+  // the next when it can't be reached.
+  registryUrl: string | string[];
   serviceName: string;
   serviceUrl: string;
+  // Identifies this replica, generated when not provided
+  instanceId?: string;
   healthCheckUrl?: string;
+  // Semantic version of the API this service serves
+  version?: string;
+  tags?: string[];
+  // Names of the services this service calls, shown in the registry's dependency graph
+  dependencies?: string[];
+  // Share of the traffic this instance gets from discover() relative to the
+  // other instances, and the release it belongs to, e.g. 'canary'
+  weight?: number;
+  label?: string;
   metadata?: Record<string, any>;
+  // OpenAPI spec published to the registry's API catalog, either sent along
+  // or fetched by the registry from a URL relative to serviceUrl, e.g. '/api-spec.json'
+  apiSpec?: ApiSpec;
+  apiSpecUrl?: string;
+  // Lifecycle state to register with, active when not set
+  state?: LifecycleState;
+  // Lease TTL to ask for in seconds, the registry clamps it to its limits
+  leaseTtl?: number;
+  // Time between heartbeats in milliseconds. Derived from the granted lease
+  // when not set, and never longer than half of it.
   heartbeatInterval?: number;
+  // Delay before retrying a failed registration in milliseconds, doubled for
+  // every further attempt up to maxRegisterRetryDelay
+  registerRetryDelay?: number;
+  maxRegisterRetryDelay?: number;
+  // How discover() picks between several instances of a service
+  selectionStrategy?: SelectionStrategy;
+  // Delay before reconnecting a dropped watch stream in milliseconds
+  watchRetryDelay?: number;
+  // How long discover() reuses a lookup before asking the registry again, in milliseconds
+  cacheTtl?: number;
+  // How long an expired lookup is still used while the registry is unreachable
+  staleIfErrorTtl?: number;
+  // How long a service the registry does not know is remembered as missing
+  negativeCacheTtl?: number;
+  // IAM credentials, required when the registry has auth enabled
+  iamUrl?: string;
+  // Defaults to the service name, which the registry binds writes to
+  clientId?: string;
+  clientSecret?: string;
 }
 
 export class ServiceRegistryClient {
-  private options: RegistryClientOptions;
+  private options: RegistryClientOptions & { instanceId: string };
   private heartbeatInterval?: NodeJS.Timeout;
-  private isRegistered: boolean = false;
+  private state: RegistrationState = 'unregistered';
+  private stateCallbacks: Set<RegistrationStateCallback> = new Set();
+  // Pending registration retry and the number of attempts that failed so far
+  private retryTimer?: NodeJS.Timeout;
+  private failedAttempts = 0;
+  // Whether the registration request in flight succeeded, for unregister()
+  private pendingRegistration?: Promise<boolean>;
+  // Lease TTL granted by the registry at the last registration, in seconds
+  private leaseTtl?: number;
+  private selector: InstanceSelector;
+  // Watch streams of the services this client follows, by service name
+  private watchers: Map<string, ServiceWatcher> = new Map();
+  // Recent discover() lookups by service name
+  private cache: DiscoveryCache<ServiceInfo>;
+  // Access tokens for the registry, only set when IAM credentials are configured
+  private tokens?: TokenProvider;
+  // Generated SDK clients, one per registry node
+  private apis: Client[];
+  // Node requests are currently sent to
+  private active = 0;
 
   constructor(options: RegistryClientOptions) {
     this.options = {
-      heartbeatInterval: 30000, // 30 seconds by default
       metadata: {},
+      selectionStrategy: 'round-robin',
+      watchRetryDelay: 1000,
+      cacheTtl: 5000,
+      staleIfErrorTtl: 300000, // 5 minutes
+      negativeCacheTtl: 2000,
+      registerRetryDelay: 1000,
+      maxRegisterRetryDelay: 30000,
       ...options,
+      instanceId: options.instanceId || `${options.serviceName}-${randomUUID()}`,
+    };
+    this.selector = new InstanceSelector(this.options.selectionStrategy);
+    this.cache = new DiscoveryCache<ServiceInfo>({
+      ttl: this.options.cacheTtl!,
+      staleIfError: this.options.staleIfErrorTtl!,
+      negativeTtl: this.options.negativeCacheTtl!,
+      // Hits in the last fifth of the TTL refresh the entry so hot lookups never expire
+      refreshAhead: 0.8,
+    });
+
+    if (this.options.iamUrl && this.options.clientSecret) {
+      this.tokens = new TokenProvider(
+        this.options.iamUrl,
+        this.options.clientId || this.options.serviceName,
+        this.options.clientSecret
+      );
+    }
+
+    // Sends the access token with every operation the spec marks as secured
+    this.apis = registryUrls(this.options.registryUrl).map((baseUrl) =>
+      createClient(
+        createConfig({
+          baseUrl,
+          auth: () => this.tokens?.getToken(),
+        })
+      )
+    );
+  }
+
+  /**
+   * ID of this service instance in the registry
+   */
+  get instanceId(): string {
+    return this.options.instanceId;
+  }
+
+  /**
+   * Current registration state of this instance
+   */
+  get registrationState(): RegistrationState {
+    return this.state;
+  }
+
+  /**
+   * Get notified when the registration state changes, returns a function
+   * that removes the callback
+   */
+  onStateChange(callback: RegistrationStateCallback): () => void {
+    this.stateCallbacks.add(callback);
+    return () => {
+      this.stateCallbacks.delete(callback);
     };
   }
 
   /**
    * Register the service with the registry
+   *
+   * Resolves false when the first attempt fails. Unless the registry
+   * rejected the registration, the client keeps retrying in the background
+   * with exponential backoff until it succeeds or unregister() is called.
    */
   async register(): Promise<boolean> {
-    try {
-      const response = await fetch(`${this.options.registryUrl}/register`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+    this.cancelRetry();
+    this.failedAttempts = 0;
+    return this.attemptRegistration();
+  }
+
+  private async attemptRegistration(): Promise<boolean> {
+    this.setRegistrationState('registering');
+    const request = this.call((client) =>
+      registerInstance({
+        client,
+        body: {
           name: this.options.serviceName,
+          instanceId: this.options.instanceId,
           url: this.options.serviceUrl,
           healthCheckUrl: this.options.healthCheckUrl,
+          version: this.options.version,
+          tags: this.options.tags,
+          dependencies: this.options.dependencies,
+          weight: this.options.weight,
+          label: this.options.label,
+          ttl: this.options.leaseTtl,
+          state: this.options.state,
           metadata: this.options.metadata,
-        }),
-      });
+          apiSpec: this.options.apiSpec,
+          apiSpecUrl: this.options.apiSpecUrl,
+        },
+      })
+    );
+    const pending = request.then(
+      ({ response }) => response.ok,
+      () => false
+    );
+    this.pendingRegistration = pending;
+
+    try {
+      const { data, response } = await request;
+
+      // unregister() was called while the request was in flight, and removes
+      // the instance if it was registered
+      if (this.state !== 'registering') {
+        return false;
+      }
 
       if (response.ok) {
-        this.isRegistered = true;
+        this.failedAttempts = 0;
+        // Registries without leases don't send one
+        this.leaseTtl = data?.lease?.ttl;
+        this.setRegistrationState('registered');
         this.startHeartbeat();
         return true;
       }
 
-      return false;
+      // The registry rejected the registration, retrying won't change that
+      if (response.status < 500) {
+        console.error(`Service Registry rejected the registration with status ${response.status}`);
+        this.setRegistrationState('unregistered');
+        return false;
+      }
     } catch (error) {
+      if (this.state !== 'registering') {
+        return false;
+      }
       console.error('Failed to register with Service Registry:', error);
-      return false;
+    } finally {
+      if (this.pendingRegistration === pending) {
+        this.pendingRegistration = undefined;
+      }
     }
+
+    this.scheduleRetry();
+    return false;
+  }
+
+  // Try to register again after a backoff delay with jitter
+  private scheduleRetry(): void {
+    const delay = backoffDelay(
+      this.failedAttempts++,
+      this.options.registerRetryDelay!,
+      this.options.maxRegisterRetryDelay!
+    );
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.attemptRegistration();
+    }, delay);
+  }
+
+  private cancelRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+  }
+
+  private setRegistrationState(state: RegistrationState): void {
+    const previous = this.state;
+    if (state === previous) return;
+
+    this.state = state;
+    for (const callback of this.stateCallbacks) {
+      try {
+        callback(state, previous);
+      } catch (error) {
+        console.error('Registration state callback failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Time between heartbeats in milliseconds
+   *
+   * Three heartbeats per lease by default, so a single lost heartbeat does
+   * not let the lease run out.
+   */
+  private get heartbeatEvery(): number {
+    if (this.leaseTtl === undefined) {
+      return this.options.heartbeatInterval ?? 30000;
+    }
+    const ttl = this.leaseTtl * 1000;
+    return this.options.heartbeatInterval === undefined
+      ? Math.floor(ttl / 3)
+      : Math.min(this.options.heartbeatInterval, Math.floor(ttl / 2));
   }
 
   /**
@@ -75,27 +337,102 @@ export class ServiceRegistryClient {
 
     this.heartbeatInterval = setInterval(async () => {
       try {
-        await fetch(`${this.options.registryUrl}/heartbeat/${this.options.serviceName}`, {
-          method: 'POST',
-        });
+        const { response } = await this.call((client) =>
+          instanceHeartbeat({
+            client,
+            path: { name: this.options.serviceName, instanceId: this.options.instanceId },
+          })
+        );
+
+        if (response.status === 404 && this.state === 'registered') {
+          this.recoverRegistration();
+        }
       } catch (error) {
         console.error('Failed to send heartbeat to Service Registry:', error);
       }
-    }, this.options.heartbeatInterval);
+    }, this.heartbeatEvery);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = undefined;
+    }
+  }
+
+  // The registry no longer knows this instance, e.g. after it restarted
+  // without persistent storage or evicted the instance, so register again
+  private recoverRegistration(): void {
+    console.error(`Registration of '${this.options.serviceName}' was lost, registering again`);
+    this.stopHeartbeat();
+    this.setRegistrationState('lost');
+    this.failedAttempts = 0;
+    this.attemptRegistration();
+  }
+
+  /**
+   * Change the lifecycle state of this instance
+   *
+   * Set 'draining' before shutting down, so consumers stop picking this
+   * instance while it finishes the requests it has, or 'maintenance' to take
+   * it out of rotation for a while. The state is kept when the client
+   * registers again.
+   */
+  async setState(state: LifecycleState): Promise<boolean> {
+    this.options.state = state;
+    if (this.state !== 'registered') {
+      return true;
+    }
+
+    try {
+      const { response } = await this.call((client) =>
+        updateInstance({
+          client,
+          path: { name: this.options.serviceName, instanceId: this.options.instanceId },
+          body: { state },
+        })
+      );
+      return response.ok;
+    } catch (error) {
+      console.error(`Failed to set the state of '${this.options.serviceName}':`, error);
+      return false;
+    }
   }
 
   /**
    * Discover a service by name
+   *
+   * When the service has several instances, one is chosen using the
+   * configured selection strategy. Instances the registry has marked
+   * DOWN are skipped, as are instances that are not active unless the
+   * query asks for other `states`. Watched services are served from the
+   * local cache.
+   *
+   * Lookups are cached for `cacheTtl` and unknown services for
+   * `negativeCacheTtl`. When the registry cannot be reached, the last
+   * known answer is used for up to `staleIfErrorTtl` after it expired.
+   *
+   * Pass a semver `versionRange`, `tags` or `metadata` to only consider
+   * matching instances, e.g. `{ versionRange: '^2.0.0', tags: ['north'] }`.
+   *
+   * Instances registered with a `weight` are picked in proportion to it.
+   * Pass a `stickyKey` to send every call with that key to the same release
+   * (the instance `label`, or else its version).
    */
-  async discover(serviceName: string): Promise<ServiceInfo | null> {
+  async discover(serviceName: string, query: DiscoverOptions = {}): Promise<ServiceInfo | null> {
+    const watcher = this.watchers.get(serviceName);
+    if (watcher?.isSynced) {
+      return this.selectAvailable(serviceName, watcher.instances, query);
+    }
+
     try {
-      const response = await fetch(`${this.options.registryUrl}/services/${serviceName}`);
+      const service = await this.cache.get(serviceName, () => this.lookup(serviceName));
 
-      if (response.ok) {
-        return await response.json();
+      if (service?.instances && service.instances.length > 0) {
+        return this.selectAvailable(serviceName, service.instances, query);
       }
-
-      return null;
+      // Registries without instance support only return the service itself
+      return service && (isEmptyQuery(query) || matchesQuery(service, query)) ? service : null;
     } catch (error) {
       console.error(`Failed to discover service '${serviceName}':`, error);
       return null;
@@ -103,49 +440,272 @@ export class ServiceRegistryClient {
   }
 
   /**
-   * List all registered services
+   * Hit and miss counts of the discovery cache
    */
-  async listAll(): Promise<Record<string, ServiceInfo>> {
-    try {
-      const response = await fetch(`${this.options.registryUrl}/services`);
+  getCacheStats(): CacheStats {
+    return this.cache.stats;
+  }
 
-      if (response.ok) {
-        return await response.json();
+  /**
+   * Drop cached lookups for one service, or for all services
+   */
+  clearCache(serviceName?: string): void {
+    this.cache.invalidate(serviceName);
+  }
+
+  // Ask the registry for a service, null when it is not registered
+  private async lookup(serviceName: string): Promise<ServiceInfo | null> {
+    const { data, response } = await this.call((client) =>
+      getService({ client, path: { name: serviceName } })
+    );
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok || !data) {
+      throw new Error(`Registry responded with status ${response.status}`);
+    }
+    return data;
+  }
+
+  /**
+   * Follow changes to a service
+   *
+   * The callback receives the current instances whenever one is registered,
+   * updated, deregistered or evicted. While a service is watched, discover()
+   * answers from the local copy instead of asking the registry.
+   * Returns a function that stops watching.
+   */
+  watch(serviceName: string, callback: WatchCallback): () => void {
+    let watcher = this.watchers.get(serviceName);
+    if (!watcher) {
+      watcher = new ServiceWatcher(
+        registryUrls(this.options.registryUrl),
+        serviceName,
+        this.options.watchRetryDelay,
+        this.tokens
+      );
+      this.watchers.set(serviceName, watcher);
+      watcher.start();
+    }
+    watcher.subscribe(callback);
+
+    const active = watcher;
+    return () => {
+      active.unsubscribe(callback);
+      if (active.subscriberCount === 0 && this.watchers.get(serviceName) === active) {
+        active.stop();
+        this.watchers.delete(serviceName);
       }
+    };
+  }
 
-      return {};
+  /**
+   * Follow changes to every service
+   *
+   * The callback receives every instance of every service after each change.
+   * Unlike watch(), this doesn't change how discover() answers.
+   * Returns a function that stops watching.
+   */
+  watchAll(callback: WatchCallback): () => void {
+    const watcher = new ServiceWatcher(
+      registryUrls(this.options.registryUrl),
+      undefined,
+      this.options.watchRetryDelay,
+      this.tokens
+    );
+    watcher.subscribe(callback);
+    watcher.start();
+    return () => watcher.stop();
+  }
+
+  /**
+   * List all instances of a service
+   */
+  async getInstances(serviceName: string): Promise<ServiceInstance[]> {
+    try {
+      const { data } = await this.call((client) =>
+        listInstances({ client, path: { name: serviceName } })
+      );
+
+      return data || [];
+    } catch (error) {
+      console.error(`Failed to list instances of service '${serviceName}':`, error);
+      return [];
+    }
+  }
+
+  // Pick one of the matching active instances that the registry has not marked DOWN
+  private selectAvailable(
+    serviceName: string,
+    instances: ServiceInstance[],
+    query: DiscoverOptions
+  ): ServiceInfo | null {
+    const available = instances.filter(
+      (instance) =>
+        instance.health?.status !== 'DOWN' &&
+        matchesQuery(instance, { ...query, states: query.states ?? ['active'] })
+    );
+    return this.selector.select(serviceName, available, query.stickyKey) || null;
+  }
+
+  /**
+   * Report that a call to a discovered instance failed, so the
+   * least-recently-failed strategy can route around it
+   */
+  reportFailure(serviceName: string, instanceId: string): void {
+    this.selector.recordFailure(serviceName, instanceId);
+  }
+
+  /**
+   * List all registered services, none when the registry can't be asked
+   */
+  async listAll(): Promise<Record<string, ServiceInfo>> {
+    try {
+      return await this.fetchAll();
     } catch (error) {
       console.error('Failed to list services:', error);
       return {};
     }
   }
 
+  /**
+   * List all registered services, throwing when no registry node can be
+   * reached or the registry refuses the request
+   */
+  async fetchAll(): Promise<Record<string, ServiceInfo>> {
+    const { data, response } = await this.call((client) => listServices({ client }));
+
+    if (!response.ok || !data) {
+      throw new Error(`Registry responded with status ${response.status}`);
+    }
+    return data;
+  }
+
   /**
    * Unregister the service when shutting down
+   *
+   * A registration still in flight is waited for, and removed again when it
+   * succeeded.
    */
   async unregister(): Promise<boolean> {
-    if (this.heartbeatInterval) {
-      clearInterval(this.heartbeatInterval);
-      this.heartbeatInterval = undefined;
-    }
+    this.stopHeartbeat();
+    this.cancelRetry();
 
-    if (!this.isRegistered) {
-      return true;
+    const pending = this.pendingRegistration;
+    if (this.state !== 'registered') {
+      this.setRegistrationState('unregistered');
+      if (!pending || !(await pending)) {
+        return true;
+      }
     }
 
     try {
-      const response = await fetch(
-        `${this.options.registryUrl}/services/${this.options.serviceName}`,
-        {
-          method: 'DELETE',
-        }
+      const { response } = await this.call((client) =>
+        deregisterInstance({
+          client,
+          path: { name: this.options.serviceName, instanceId: this.options.instanceId },
+        })
       );
 
-      this.isRegistered = false;
+      this.setRegistrationState('unregistered');
       return response.ok;
     } catch (error) {
       console.error('Failed to unregister from Service Registry:', error);
       return false;
     }
   }
+
+  /**
+   * Remove an instance of any service, or a service with all of its
+   * instances, e.g. one that was registered by hand
+   *
+   * Resolves false when the registry doesn't know it or refuses.
+   */
+  async deregister(serviceName: string, instanceId?: string): Promise<boolean> {
+    try {
+      const { response } = await this.call((client) =>
+        instanceId
+          ? deregisterInstance({ client, path: { name: serviceName, instanceId } })
+          : deleteService({ client, path: { name: serviceName } })
+      );
+
+      if (!response.ok) {
+        console.error(
+          `Service Registry refused to deregister '${serviceName}' with status ${response.status}`
+        );
+      }
+      return response.ok;
+    } catch (error) {
+      console.error(`Failed to deregister '${serviceName}':`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Unregister when the process receives one of the signals
+   *
+   * After unregistering, the signal is raised again so the process exits as
+   * it would have, unless the application handles the signal itself.
+   * Returns a function that removes the handlers.
+   */
+  unregisterOnShutdown(signals: NodeJS.Signals[] = ['SIGTERM', 'SIGINT']): () => void {
+    const handlers = signals.map((signal) => {
+      const handler = async () => {
+        await this.unregister();
+        if (process.listenerCount(signal) === 0) {
+          process.kill(process.pid, signal);
+        }
+      };
+      process.once(signal, handler);
+      return { signal, handler };
+    });
+
+    return () => {
+      for (const { signal, handler } of handlers) {
+        process.removeListener(signal, handler);
+      }
+    };
+  }
+
+  // Call the registry through the SDK. A rejected token is renewed and the
+  // request retried once. When a node can't be reached or fails with a 5xx,
+  // the request moves on to the next node, which is then kept for later calls.
+  private async call<T extends { response: Response }>(
+    send: (client: Client) => Promise<T>
+  ): Promise<T> {
+    let result: T | undefined;
+    let failure: unknown;
+
+    for (let attempt = 0; attempt < this.apis.length; attempt++) {
+      const client = this.apis[this.active];
+      try {
+        result = await send(client);
+        if (result.response.status === 401 && this.tokens) {
+          this.tokens.invalidate();
+          result = await send(client);
+        }
+        if (result.response.status < 500) {
+          return result;
+        }
+      } catch (error) {
+        result = undefined;
+        failure = error;
+      }
+      this.active = (this.active + 1) % this.apis.length;
+    }
+
+    if (result) return result;
+    throw failure;
+  }
+}
+
+// Exponential backoff with jitter, so restarted services don't all retry at once
+function backoffDelay(attempt: number, initialDelay: number, maxDelay: number): number {
+  const delay = Math.min(initialDelay * 2 ** attempt, maxDelay);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function registryUrls(registryUrl: string | string[]): string[] {
+  return Array.isArray(registryUrl) ? registryUrl : [registryUrl];
 }
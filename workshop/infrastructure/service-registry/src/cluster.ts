@@ -0,0 +1,275 @@
+/**
+ * Registry cluster replication
+ *
+ * Every node accepts writes and pushes the changed instances to its peers
+ * right away. Each node also pulls the full state of its peers at a fixed
+ * interval, so a node that was down or unreachable catches up on what it
+ * missed. Copies are merged by most recent heartbeat, and deregistrations
+ * leave a tombstone so a peer that missed them can't bring the instance back.
+ * API specs published to the catalog are replicated the same way, merged by
+ * the time they were published.
+ */
+
+import type { ApiCatalog, PublishedSpec } from './catalog';
+import type { TokenProvider } from './credentials';
+import type { ServiceRegistry } from './registry';
+import { ServiceInstance } from './types';
+
+export type ClusterChange =
+  | { type: 'put'; name: string; instances: ServiceInstance[] }
+  | { type: 'delete'; name: string; instanceId?: string }
+  | { type: 'spec'; name: string; spec: PublishedSpec };
+
+// A change as sent between nodes, tagged with the node it was made on
+export type ReplicatedChange = ClusterChange & { origin: string };
+
+export interface ClusterState {
+  nodeId: string;
+  services: Record<string, ServiceInstance[]>;
+  // Published API specs by service name, left out by nodes without a catalog
+  catalog?: Record<string, PublishedSpec[]>;
+}
+
+export interface PeerStatus {
+  url: string;
+  reachable: boolean;
+  // Time of the last successful request in milliseconds since the epoch
+  lastContact?: number;
+  lastError?: string;
+}
+
+export interface ClusterOptions {
+  nodeId: string;
+  peers: string[];
+  syncInterval: number;
+  timeout: number;
+  // Access tokens for the peers, only needed when auth is enabled
+  tokens?: TokenProvider;
+}
+
+// How long a deregistration keeps replicated copies out, in milliseconds
+const TOMBSTONE_TTL = 10 * 60 * 1000;
+
+export class ClusterReplicator {
+  private peers: Map<string, PeerStatus>;
+  // Node IDs of the peers by URL, as reported by their state
+  private peerIds: Map<string, string> = new Map();
+  // Deregistration times by service name and instance ID
+  private tombstones: Map<string, number> = new Map();
+  private timer?: NodeJS.Timeout;
+  private unwatch: (() => void)[] = [];
+
+  constructor(
+    private registry: ServiceRegistry,
+    private options: ClusterOptions,
+    private catalog?: ApiCatalog
+  ) {
+    this.peers = new Map(options.peers.map((url) => [url, { url, reachable: false }]));
+  }
+
+  get nodeId(): string {
+    return this.options.nodeId;
+  }
+
+  // Replication is off for a single node
+  get enabled(): boolean {
+    return this.peers.size > 0;
+  }
+
+  get status(): PeerStatus[] {
+    return Array.from(this.peers.values()).map((peer) => ({ ...peer }));
+  }
+
+  /**
+   * Whether this node publishes evictions and health changes
+   *
+   * Every node evicts expired instances and probes their health on its own.
+   * Of the nodes that can be reached, the one with the lowest ID reports them.
+   */
+  get reportsEvictions(): boolean {
+    return Array.from(this.peers.values()).every((peer) => {
+      const nodeId = this.peerIds.get(peer.url);
+      return !peer.reachable || nodeId === undefined || this.nodeId < nodeId;
+    });
+  }
+
+  /**
+   * Catch up with the peers and keep syncing until stopped
+   */
+  async start(): Promise<void> {
+    if (!this.enabled || this.timer) return;
+
+    this.unwatch.push(
+      this.registry.watch((event) => {
+        if (event.type === 'deregistered') {
+          this.tombstones.set(tombstoneKey(event.name, event.instanceId), event.timestamp);
+        }
+      })
+    );
+    // Specs are published in the background too, so they are pushed from here
+    if (this.catalog) {
+      this.unwatch.push(
+        this.catalog.watch((name, spec) => this.replicate({ type: 'spec', name, spec }))
+      );
+    }
+    this.timer = setInterval(() => {
+      this.sync().catch((error) => console.error('Failed to sync with registry peers:', error));
+    }, this.options.syncInterval);
+
+    await this.sync();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.unwatch.forEach((unwatch) => unwatch());
+    this.unwatch = [];
+  }
+
+  /**
+   * Push a local change to every peer
+   *
+   * Peers that can't be reached are left to catch up on their next sync.
+   */
+  replicate(change: ClusterChange): void {
+    if (!this.enabled) return;
+
+    const replicated: ReplicatedChange =
+      change.type === 'put'
+        ? { ...change, instances: change.instances.map(withoutHealth), origin: this.nodeId }
+        : { ...change, origin: this.nodeId };
+
+    for (const peer of this.peers.values()) {
+      this.send(peer, '/cluster/replicate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(replicated),
+      }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Apply a change pushed by a peer
+   */
+  async apply(change: ReplicatedChange): Promise<void> {
+    if (change.type === 'delete') {
+      await this.registry.delete(change.name, change.instanceId, true);
+      return;
+    }
+    if (change.type === 'spec') {
+      await this.catalog?.merge(change.name, change.spec);
+      return;
+    }
+    for (const instance of change.instances) {
+      await this.mergeInstance(change.name, instance);
+    }
+  }
+
+  /**
+   * The instances and specs this node knows about, as served to syncing peers
+   */
+  state(): ClusterState {
+    const services: Record<string, ServiceInstance[]> = {};
+    for (const name of Object.keys(this.registry.getAll())) {
+      services[name] = this.registry.getInstances(name).map(withoutHealth);
+    }
+    return { nodeId: this.nodeId, services, ...(this.catalog && { catalog: this.catalog.all() }) };
+  }
+
+  /**
+   * Pull the state of every peer and merge it
+   */
+  async sync(): Promise<void> {
+    await Promise.all(
+      Array.from(this.peers.values()).map(async (peer) => {
+        let state: ClusterState;
+        try {
+          state = await (await this.send(peer, '/cluster/state')).json();
+        } catch {
+          return;
+        }
+        this.peerIds.set(peer.url, state.nodeId);
+        for (const [name, instances] of Object.entries(state.services)) {
+          for (const instance of instances) {
+            await this.mergeInstance(name, instance);
+          }
+        }
+        for (const [name, specs] of Object.entries(state.catalog ?? {})) {
+          for (const spec of specs) {
+            await this.catalog?.merge(name, spec);
+          }
+        }
+      })
+    );
+
+    const expired = Date.now() - TOMBSTONE_TTL;
+    for (const [key, deletedAt] of this.tombstones) {
+      if (deletedAt < expired) this.tombstones.delete(key);
+    }
+  }
+
+  private async mergeInstance(name: string, instance: ServiceInstance): Promise<boolean> {
+    const deletedAt = this.tombstones.get(tombstoneKey(name, instance.instanceId));
+    if (deletedAt !== undefined && deletedAt >= instance.lastHeartbeat) {
+      return false;
+    }
+    return this.registry.merge(name, instance);
+  }
+
+  // Call a peer, tracking whether it is reachable. Throws for failed requests.
+  private async send(peer: PeerStatus, path: string, init: RequestInit = {}): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeout);
+
+    try {
+      const headers: Record<string, string> = { ...(init.headers as Record<string, string>) };
+      if (this.options.tokens) {
+        headers.Authorization = `Bearer ${await this.options.tokens.getToken()}`;
+      }
+
+      const response = await fetch(`${peer.url}${path}`, {
+        ...init,
+        headers,
+        signal: controller.signal,
+      });
+      if (response.status === 401) {
+        this.options.tokens?.invalidate();
+      }
+      if (!response.ok) {
+        throw new Error(`Peer responded with status ${response.status}`);
+      }
+
+      if (!peer.reachable) {
+        console.log(`Connected to registry peer ${peer.url}`);
+      }
+      peer.reachable = true;
+      peer.lastContact = Date.now();
+      peer.lastError = undefined;
+      return response;
+    } catch (error) {
+      const message = controller.signal.aborted
+        ? `Timed out after ${this.options.timeout}ms`
+        : (error as Error).message;
+      // Only log the transition, not every failed push to a peer that is down
+      if (peer.reachable || peer.lastError === undefined) {
+        console.error(`Lost contact with registry peer ${peer.url}: ${message}`);
+      }
+      peer.reachable = false;
+      peer.lastError = message;
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function tombstoneKey(name: string, instanceId: string): string {
+  return `${name}/${instanceId}`;
+}
+
+// Health is probed by every node on its own
+function withoutHealth(instance: ServiceInstance): ServiceInstance {
+  return { ...instance, health: undefined };
+}
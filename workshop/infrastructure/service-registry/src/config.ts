@@ -0,0 +1,257 @@
+/**
+ * Configuration for the service registry
+ *
+ * All values are read from environment variables with workshop-friendly defaults.
+ */
+
+import { hostname } from 'os';
+
+export type StorageType = 'memory' | 'file' | 'postgres';
+
+export interface StorageConfig {
+  type: StorageType;
+  // Path of the append-only log used by the file store
+  filePath: string;
+  postgres: {
+    connectionString?: string;
+    host: string;
+    port: number;
+    user: string;
+    password: string;
+    database: string;
+    table: string;
+  };
+}
+
+export interface HealthCheckConfig {
+  enabled: boolean;
+  // Time between probes of each instance in milliseconds
+  interval: number;
+  // Time to wait for a health endpoint to respond in milliseconds
+  timeout: number;
+  // Consecutive failed probes before an instance is considered DOWN
+  failureThreshold: number;
+}
+
+// Bounds for the lease TTL of a service, in seconds
+export interface LeaseLimits {
+  // TTL granted when a registration doesn't ask for one
+  defaultTtl: number;
+  minTtl: number;
+  maxTtl: number;
+}
+
+export interface LeaseConfig extends LeaseLimits {
+  // Time between sweeps for expired leases in milliseconds
+  sweepInterval: number;
+  // Limits that differ from the defaults, by service name
+  services: Record<string, Partial<LeaseLimits>>;
+}
+
+// Which requests need an IAM-issued bearer token
+export type AuthMode = 'off' | 'write' | 'all';
+
+export interface AuthConfig {
+  mode: AuthMode;
+  // Base URL of the IAM service used to introspect tokens
+  iamUrl: string;
+  // How long an introspection result is reused in milliseconds
+  cacheTtl: number;
+}
+
+export interface ClusterConfig {
+  // Identifies this node in replicated changes
+  nodeId: string;
+  // Base URLs of the other registry nodes, replication is off when empty
+  peers: string[];
+  // Time between state syncs with every peer in milliseconds
+  syncInterval: number;
+  // Timeout for requests to a peer in milliseconds
+  timeout: number;
+  // IAM credentials used to call peers when auth is enabled
+  clientId: string;
+  clientSecret?: string;
+}
+
+export interface EventsConfig {
+  // Publish registry changes to the event bus
+  enabled: boolean;
+  // Number of changes kept in the history of each service
+  historyLimit: number;
+}
+
+export interface DnsConfig {
+  // Answer DNS queries for registered services
+  enabled: boolean;
+  // UDP port and address to listen on
+  port: number;
+  host: string;
+  // Services resolve as <name>.<domain>
+  domain: string;
+  // TTL of the records in seconds, kept short since instances come and go
+  ttl: number;
+}
+
+export interface CatalogConfig {
+  // Number of API versions kept for each service, the oldest are dropped first
+  versionLimit: number;
+  // Time to wait for a service to serve its spec in milliseconds
+  fetchTimeout: number;
+}
+
+export interface RegistryConfig {
+  port: number;
+  environment: string;
+  // Check responses against the OpenAPI spec, failing the request on a mismatch
+  validateResponses: boolean;
+  storage: StorageConfig;
+  healthCheck: HealthCheckConfig;
+  auth: AuthConfig;
+  lease: LeaseConfig;
+  cluster: ClusterConfig;
+  events: EventsConfig;
+  dns: DnsConfig;
+  catalog: CatalogConfig;
+}
+
+const STORAGE_TYPES: StorageType[] = ['memory', 'file', 'postgres'];
+
+function parseStorageType(value: string | undefined): StorageType {
+  const type = (value || 'memory').toLowerCase() as StorageType;
+  if (!STORAGE_TYPES.includes(type)) {
+    throw new Error(
+      `Unsupported REGISTRY_STORAGE '${value}', expected one of: ${STORAGE_TYPES.join(', ')}`
+    );
+  }
+  return type;
+}
+
+const AUTH_MODES: AuthMode[] = ['off', 'write', 'all'];
+
+function parseAuthMode(value: string | undefined): AuthMode {
+  const mode = (value || 'off').toLowerCase() as AuthMode;
+  if (!AUTH_MODES.includes(mode)) {
+    throw new Error(
+      `Unsupported REGISTRY_AUTH '${value}', expected one of: ${AUTH_MODES.join(', ')}`
+    );
+  }
+  return mode;
+}
+
+const LEASE_LIMITS: (keyof LeaseLimits)[] = ['defaultTtl', 'minTtl', 'maxTtl'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Per-service limits are given as JSON, e.g. {"batch-service":{"maxTtl":900}}
+function parseServiceLeases(value: string | undefined): Record<string, Partial<LeaseLimits>> {
+  if (!value) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error(`LEASE_SERVICE_TTLS must be a JSON object, got '${value}'`);
+  }
+  if (!isObject(parsed)) {
+    throw new Error(`LEASE_SERVICE_TTLS must be a JSON object, got '${value}'`);
+  }
+
+  // A TTL that isn't a positive number would evict instances right away
+  for (const [service, limits] of Object.entries(parsed)) {
+    if (!isObject(limits)) {
+      throw new Error(`LEASE_SERVICE_TTLS of ${service} must be an object of TTLs in seconds`);
+    }
+    for (const [name, ttl] of Object.entries(limits)) {
+      if (!LEASE_LIMITS.includes(name as keyof LeaseLimits)) {
+        throw new Error(
+          `Unknown LEASE_SERVICE_TTLS setting ${service}.${name}, expected one of: ${LEASE_LIMITS.join(
+            ', '
+          )}`
+        );
+      }
+      if (typeof ttl !== 'number' || !Number.isFinite(ttl) || ttl <= 0) {
+        throw new Error(
+          `LEASE_SERVICE_TTLS ${service}.${name} must be a positive number of seconds, got ${JSON.stringify(
+            ttl
+          )}`
+        );
+      }
+    }
+  }
+  return parsed as Record<string, Partial<LeaseLimits>>;
+}
+
+/**
+ * Build the registry configuration from environment variables
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): RegistryConfig {
+  return {
+    port: parseInt(env.PORT || '3000', 10),
+    environment: env.NODE_ENV || 'development',
+    validateResponses: env.VALIDATE_RESPONSES
+      ? env.VALIDATE_RESPONSES === 'true'
+      : env.NODE_ENV !== 'production',
+    storage: {
+      type: parseStorageType(env.REGISTRY_STORAGE),
+      filePath: env.REGISTRY_STORAGE_FILE || './data/registry.log',
+      postgres: {
+        connectionString: env.REGISTRY_DATABASE_URL,
+        host: env.REGISTRY_DB_HOST || 'localhost',
+        port: parseInt(env.REGISTRY_DB_PORT || '5432', 10),
+        user: env.REGISTRY_DB_USERNAME || 'postgres',
+        password: env.REGISTRY_DB_PASSWORD || 'postgres',
+        database: env.REGISTRY_DB_DATABASE || 'service_registry',
+        table: env.REGISTRY_DB_TABLE || 'registry_services',
+      },
+    },
+    healthCheck: {
+      enabled: env.HEALTH_CHECK_ENABLED !== 'false',
+      interval: parseInt(env.HEALTH_CHECK_INTERVAL || '15000', 10),
+      timeout: parseInt(env.HEALTH_CHECK_TIMEOUT || '3000', 10),
+      failureThreshold: parseInt(env.HEALTH_CHECK_FAILURE_THRESHOLD || '3', 10),
+    },
+    auth: {
+      mode: parseAuthMode(env.REGISTRY_AUTH),
+      iamUrl: env.IAM_URL || 'http://iam-service:3000',
+      cacheTtl: parseInt(env.REGISTRY_AUTH_CACHE_TTL || '30000', 10),
+    },
+    lease: {
+      defaultTtl: parseInt(env.LEASE_DEFAULT_TTL || '60', 10),
+      minTtl: parseInt(env.LEASE_MIN_TTL || '10', 10),
+      maxTtl: parseInt(env.LEASE_MAX_TTL || '300', 10),
+      sweepInterval: parseInt(env.LEASE_SWEEP_INTERVAL || '5000', 10),
+      services: parseServiceLeases(env.LEASE_SERVICE_TTLS),
+    },
+    cluster: {
+      nodeId: env.CLUSTER_NODE_ID || `${hostname()}:${env.PORT || '3000'}`,
+      peers: (env.CLUSTER_PEERS || '')
+        .split(',')
+        .map((peer) => peer.trim().replace(/\/+$/, ''))
+        .filter(Boolean),
+      syncInterval: parseInt(env.CLUSTER_SYNC_INTERVAL || '10000', 10),
+      timeout: parseInt(env.CLUSTER_TIMEOUT || '2000', 10),
+      clientId: env.CLUSTER_CLIENT_ID || 'service-registry',
+      clientSecret: env.CLUSTER_CLIENT_SECRET,
+    },
+    events: {
+      enabled: env.REGISTRY_EVENTS_ENABLED === 'true',
+      historyLimit: parseInt(env.REGISTRY_HISTORY_LIMIT || '100', 10),
+    },
+    dns: {
+      enabled: env.DNS_ENABLED === 'true',
+      port: parseInt(env.DNS_PORT || '5353', 10),
+      host: env.DNS_HOST || '0.0.0.0',
+      domain: (env.DNS_DOMAIN || 'city.local').replace(/^\.+|\.+$/g, ''),
+      ttl: parseInt(env.DNS_TTL || '5', 10),
+    },
+    catalog: {
+      versionLimit: parseInt(env.CATALOG_VERSION_LIMIT || '10', 10),
+      fetchTimeout: parseInt(env.CATALOG_FETCH_TIMEOUT || '5000', 10),
+    },
+  };
+}
+
+const config = loadConfig();
+
+export default config;
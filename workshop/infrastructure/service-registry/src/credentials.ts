@@ -0,0 +1,71 @@
+/**
+ * IAM credentials for the registry client
+ *
+ * Obtains an access token with the client_credentials grant and keeps it
+ * until shortly before it expires.
+ */
+
+// Scopes asked for by default, the IAM service grants the ones the client is allowed
+const REGISTRY_SCOPES = 'registry:read registry:write';
+
+// Tokens are renewed this long before they expire, in milliseconds
+const EXPIRY_MARGIN = 30000;
+
+export class TokenProvider {
+  private token?: string;
+  private expiresAt = 0;
+  // Token request in flight, so concurrent callers share one request
+  private pending?: Promise<string>;
+
+  constructor(
+    private iamUrl: string,
+    private clientId: string,
+    private clientSecret: string,
+    private scope = REGISTRY_SCOPES
+  ) {}
+
+  /**
+   * Get a valid access token, requesting a new one when needed
+   */
+  async getToken(): Promise<string> {
+    if (this.token && Date.now() < this.expiresAt) {
+      return this.token;
+    }
+    if (!this.pending) {
+      this.pending = this.requestToken().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Forget the current token, e.g. after the registry rejected it
+   */
+  invalidate(): void {
+    this.token = undefined;
+    this.expiresAt = 0;
+  }
+
+  private async requestToken(): Promise<string> {
+    const response = await fetch(`${this.iamUrl}/oauth/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        grant_type: 'client_credentials',
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        scope: this.scope,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`IAM token request failed with status ${response.status}`);
+    }
+
+    const body: { access_token: string; expires_in: number } = await response.json();
+    this.token = body.access_token;
+    this.expiresAt = Date.now() + Math.max(body.expires_in * 1000 - EXPIRY_MARGIN, 0);
+    return this.token;
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Registry dashboard
+ *
+ * A single HTML page listing the registered services and their instances,
+ * served at /dashboard. Styles and scripts are inline so the page works
+ * without any external assets. The page reads the registry API from the
+ * browser, so it shows exactly what other clients see.
+ */
+
+import { Application } from 'express';
+import { expressCspHeader, INLINE, NONE, SELF } from 'express-csp-header';
+
+const dashboardHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Service Registry</title>
+  <style>
+    * { box-sizing: border-box; }
+    body { margin: 0; font: 14px/1.4 system-ui, -apple-system, 'Segoe UI', sans-serif; color: #111827; background: #f3f4f6; }
+    header { display: flex; flex-wrap: wrap; gap: 12px; align-items: center; padding: 12px 24px; background: #1f2937; color: #f9fafb; }
+    header h1 { margin: 0 auto 0 0; font-size: 18px; }
+    header label { display: flex; gap: 6px; align-items: center; }
+    header input[type=password] { width: 220px; }
+    main { padding: 16px 24px; }
+    .summary { margin-bottom: 12px; color: #4b5563; }
+    .error { margin-bottom: 12px; padding: 8px 12px; border-radius: 4px; background: #fee2e2; color: #991b1b; }
+    .error:empty { display: none; }
+    section { margin-bottom: 16px; border-radius: 6px; background: #fff; box-shadow: 0 1px 2px rgba(0, 0, 0, 0.08); }
+    section h2 { display: flex; gap: 8px; align-items: center; margin: 0; padding: 10px 12px; font-size: 16px; border-bottom: 1px solid #e5e7eb; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 6px 12px; text-align: left; vertical-align: top; border-bottom: 1px solid #f3f4f6; }
+    th { font-weight: 600; color: #6b7280; font-size: 12px; text-transform: uppercase; }
+    code { font-size: 12px; word-break: break-all; }
+    .badge { display: inline-block; padding: 1px 8px; border-radius: 9999px; font-size: 12px; font-weight: 600; }
+    .UP, .active { background: #d1fae5; color: #065f46; }
+    .DEGRADED, .draining { background: #fef3c7; color: #92400e; }
+    .DOWN { background: #fee2e2; color: #991b1b; }
+    .maintenance { background: #e0e7ff; color: #3730a3; }
+    .stale { color: #b45309; font-weight: 600; }
+    details { padding: 8px 12px; }
+    summary { cursor: pointer; color: #4b5563; }
+    button { cursor: pointer; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>Service Registry</h1>
+    <label>Token <input id="token" type="password" placeholder="Bearer token, if required" autocomplete="off"></label>
+    <label><input id="auto-refresh" type="checkbox" checked> Refresh every
+      <select id="interval">
+        <option value="2000">2s</option>
+        <option value="5000" selected>5s</option>
+        <option value="15000">15s</option>
+        <option value="60000">60s</option>
+      </select>
+    </label>
+    <button id="refresh" type="button">Refresh now</button>
+  </header>
+  <main>
+    <div id="error" class="error" role="alert"></div>
+    <div id="summary" class="summary">Loading...</div>
+    <div id="services"></div>
+  </main>
+  <script>
+    (function () {
+      var tokenInput = document.getElementById('token');
+      var autoRefresh = document.getElementById('auto-refresh');
+      var intervalSelect = document.getElementById('interval');
+      var errorBox = document.getElementById('error');
+      var summary = document.getElementById('summary');
+      var container = document.getElementById('services');
+      // Services whose history is expanded, so refreshes keep them open
+      var openHistory = {};
+      var timer;
+
+      tokenInput.value = sessionStorage.getItem('registry-token') || '';
+      tokenInput.addEventListener('change', function () {
+        sessionStorage.setItem('registry-token', tokenInput.value.trim());
+        refresh();
+      });
+
+      function request(method, path) {
+        var headers = { Accept: 'application/json' };
+        var token = tokenInput.value.trim();
+        if (token) headers.Authorization = 'Bearer ' + token;
+        return fetch(path, { method: method, headers: headers }).then(function (response) {
+          return response.json().catch(function () { return {}; }).then(function (body) {
+            if (!response.ok) {
+              throw new Error(body.message || method + ' ' + path + ' failed with status ' + response.status);
+            }
+            return body;
+          });
+        });
+      }
+
+      // Build an element; text is always set as text so registry data can't inject markup
+      function el(tag, props, children) {
+        var node = document.createElement(tag);
+        Object.keys(props || {}).forEach(function (key) {
+          if (key === 'text') node.textContent = props[key];
+          else if (key === 'onclick') node.addEventListener('click', props[key]);
+          else node.setAttribute(key, props[key]);
+        });
+        (children || []).forEach(function (child) {
+          if (child) node.appendChild(child);
+        });
+        return node;
+      }
+
+      function badge(value) {
+        return el('span', { class: 'badge ' + value, text: value });
+      }
+
+      function age(timestamp) {
+        var seconds = Math.max(0, Math.round((Date.now() - timestamp) / 1000));
+        if (seconds < 60) return seconds + 's ago';
+        if (seconds < 3600) return Math.floor(seconds / 60) + 'm ' + (seconds % 60) + 's ago';
+        return Math.floor(seconds / 3600) + 'h ' + Math.floor((seconds % 3600) / 60) + 'm ago';
+      }
+
+      function heartbeatCell(instance) {
+        var cell = el('td', { text: age(instance.lastHeartbeat), title: new Date(instance.lastHeartbeat).toISOString() });
+        // Flag instances past two thirds of their lease
+        if (instance.ttl && Date.now() - instance.lastHeartbeat > (instance.ttl * 1000 * 2) / 3) {
+          cell.className = 'stale';
+        }
+        return cell;
+      }
+
+      function deregister(name, instanceId) {
+        if (!confirm('Deregister instance ' + instanceId + ' of ' + name + '?')) return;
+        request('DELETE', '/services/' + encodeURIComponent(name) + '/instances/' + encodeURIComponent(instanceId))
+          .then(refresh)
+          .catch(showError);
+      }
+
+      // Only http(s) URLs become links, anything else such as javascript: is shown as text
+      function urlCell(url) {
+        var protocol;
+        try {
+          protocol = new URL(url).protocol;
+        } catch (error) {
+          protocol = '';
+        }
+        if (protocol !== 'http:' && protocol !== 'https:') return el('td', { text: url });
+        return el('td', {}, [el('a', { href: url, target: '_blank', rel: 'noopener', text: url })]);
+      }
+
+      function instanceRow(name, instance) {
+        var metadata = Object.keys(instance.metadata || {}).length ? JSON.stringify(instance.metadata) : '';
+        return el('tr', {}, [
+          el('td', {}, [el('code', { text: instance.instanceId })]),
+          urlCell(instance.url),
+          el('td', { text: instance.version || '' }),
+          el('td', { text: (instance.tags || []).join(', ') }),
+          el('td', {}, [badge(instance.state || 'active')]),
+          el('td', {}, [badge(instance.health ? instance.health.status : 'UP')]),
+          heartbeatCell(instance),
+          el('td', {}, [el('code', { text: metadata })]),
+          el('td', {}, [el('button', { type: 'button', text: 'Deregister', onclick: function () { deregister(name, instance.instanceId); } })]),
+        ]);
+      }
+
+      function historyList(name, target) {
+        request('GET', '/services/' + encodeURIComponent(name) + '/history')
+          .then(function (entries) {
+            target.textContent = '';
+            entries.slice(-20).reverse().forEach(function (entry) {
+              target.appendChild(el('li', {
+                text: new Date(entry.timestamp).toLocaleTimeString() + ' ' + entry.type + ' ' + entry.instanceId + ' (' + entry.instance.url + ')',
+              }));
+            });
+          })
+          .catch(function (error) {
+            target.textContent = error.message;
+          });
+      }
+
+      function serviceSection(name, service) {
+        var list = el('ul');
+        var details = el('details', {}, [el('summary', { text: 'Recent history' }), list]);
+        details.open = !!openHistory[name];
+        details.addEventListener('toggle', function () {
+          openHistory[name] = details.open;
+          if (details.open) historyList(name, list);
+        });
+        if (details.open) historyList(name, list);
+
+        var head = el('tr', {}, ['Instance', 'URL', 'Version', 'Tags', 'State', 'Health', 'Heartbeat', 'Metadata', ''].map(function (title) {
+          return el('th', { text: title });
+        }));
+        return el('section', {}, [
+          el('h2', {}, [document.createTextNode(name), badge(service.status || 'UP')]),
+          el('table', {}, [el('thead', {}, [head]), el('tbody', {}, (service.instances || []).map(function (instance) {
+            return instanceRow(name, instance);
+          }))]),
+          details,
+        ]);
+      }
+
+      function showError(error) {
+        errorBox.textContent = error.message;
+      }
+
+      function refresh() {
+        return request('GET', '/services')
+          .then(function (services) {
+            var names = Object.keys(services).sort();
+            var instances = names.reduce(function (total, name) {
+              return total + (services[name].instances || []).length;
+            }, 0);
+            errorBox.textContent = '';
+            summary.textContent = names.length + ' service(s), ' + instances + ' instance(s), updated ' + new Date().toLocaleTimeString();
+            container.textContent = '';
+            names.forEach(function (name) {
+              container.appendChild(serviceSection(name, services[name]));
+            });
+          })
+          .catch(showError);
+      }
+
+      function schedule() {
+        clearInterval(timer);
+        if (autoRefresh.checked) timer = setInterval(refresh, Number(intervalSelect.value));
+      }
+
+      document.getElementById('refresh').addEventListener('click', refresh);
+      autoRefresh.addEventListener('change', schedule);
+      intervalSelect.addEventListener('change', schedule);
+      refresh();
+      schedule();
+    })();
+  </script>
+</body>
+</html>
+`;
+
+/**
+ * Serve the dashboard at /dashboard
+ *
+ * @param app Express application
+ */
+export function setupDashboard(app: Application): void {
+  // Everything the page needs is inline or comes from the registry itself
+  app.use(
+    '/dashboard',
+    expressCspHeader({
+      directives: {
+        'default-src': [NONE],
+        'script-src': [INLINE],
+        'style-src': [INLINE],
+        'connect-src': [SELF],
+        'img-src': [SELF],
+      },
+    })
+  );
+
+  app.get('/dashboard', (_req, res) => {
+    res.type('html').send(dashboardHtml);
+  });
+}
@@ -0,0 +1,122 @@
+/**
+ * Discovery cache
+ *
+ * Keeps registry lookups for a short time so discover() does not need a round
+ * trip on every call, and keeps serving the last known answer while the
+ * registry is unreachable.
+ */
+
+export interface DiscoveryCacheOptions {
+  // How long a lookup is served without asking the registry, in milliseconds
+  ttl: number;
+  // How long an expired lookup may still be served when the registry fails
+  staleIfError: number;
+  // How long an unknown service is remembered as missing
+  negativeTtl: number;
+  // Fraction of the TTL after which a hit also refreshes the entry in the background
+  refreshAhead: number;
+}
+
+export interface CacheStats {
+  // Lookups answered from the cache, including known-missing services
+  hits: number;
+  // Lookups that had to wait for the registry
+  misses: number;
+  // Lookups answered with an expired entry because the registry failed
+  staleHits: number;
+  // Failed registry lookups, whether or not a stale entry was available
+  errors: number;
+  // Background refreshes started by hits close to expiry
+  refreshes: number;
+  // Number of cached lookups
+  size: number;
+}
+
+interface CacheEntry<T> {
+  // null for services the registry does not know
+  value: T | null;
+  storedAt: number;
+}
+
+export class DiscoveryCache<T> {
+  private entries: Map<string, CacheEntry<T>> = new Map();
+  // Lookups in flight, so concurrent callers share one request
+  private pending: Map<string, Promise<T | null>> = new Map();
+  private counters = { hits: 0, misses: 0, staleHits: 0, errors: 0, refreshes: 0 };
+
+  constructor(private options: DiscoveryCacheOptions) {}
+
+  /**
+   * Get a value from the cache, loading it when missing or expired
+   *
+   * The loader resolves to null for unknown keys and throws when the
+   * lookup failed, in which case an expired entry is used if it is recent
+   * enough. Errors are rethrown when there is nothing to fall back to.
+   */
+  async get(key: string, load: () => Promise<T | null>): Promise<T | null> {
+    const entry = this.entries.get(key);
+    const age = entry ? Date.now() - entry.storedAt : Infinity;
+    const ttl = entry?.value === null ? this.options.negativeTtl : this.options.ttl;
+
+    if (entry && age < ttl) {
+      this.counters.hits++;
+      if (
+        entry.value !== null &&
+        age >= ttl * this.options.refreshAhead &&
+        !this.pending.has(key)
+      ) {
+        this.counters.refreshes++;
+        // Failures are already counted, the entry is retried on the next hit
+        this.load(key, load).catch(() => undefined);
+      }
+      return entry.value;
+    }
+
+    this.counters.misses++;
+    try {
+      return await this.load(key, load);
+    } catch (error) {
+      if (entry && entry.value !== null && age < this.options.ttl + this.options.staleIfError) {
+        this.counters.staleHits++;
+        return entry.value;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Forget one key, or everything when no key is given
+   */
+  invalidate(key?: string): void {
+    if (key === undefined) {
+      this.entries.clear();
+    } else {
+      this.entries.delete(key);
+    }
+  }
+
+  get stats(): CacheStats {
+    return { ...this.counters, size: this.entries.size };
+  }
+
+  private load(key: string, load: () => Promise<T | null>): Promise<T | null> {
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const request = load()
+      .then((value) => {
+        this.entries.set(key, { value, storedAt: Date.now() });
+        return value;
+      })
+      .catch((error) => {
+        this.counters.errors++;
+        throw error;
+      })
+      .finally(() => {
+        this.pending.delete(key);
+      });
+
+    this.pending.set(key, request);
+    return request;
+  }
+}
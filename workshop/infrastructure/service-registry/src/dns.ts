@@ -0,0 +1,390 @@
+/**
+ * DNS interface to the registry
+ *
+ * Answers DNS queries over UDP from the registry contents, so tools that
+ * can't use the client library can still find city services by name:
+ *
+ * - `A <service>.<domain>` - addresses of the instances taking traffic
+ * - `SRV <service>.<domain>` or `SRV _<service>._tcp.<domain>` - their ports,
+ *   pointing at `<instance>.<service>.<domain>`
+ * - `A <instance>.<service>.<domain>` - the address of a single instance
+ *
+ * `<instance>` is the instance ID, shortened when it doesn't fit in a label.
+ *
+ * Like the client, only active instances that are not DOWN are returned for
+ * a service. Instance names resolve regardless, so an instance that is
+ * draining can still be reached directly.
+ */
+
+import { createHash } from 'crypto';
+import dgram from 'dgram';
+import { promises as dns } from 'dns';
+import { AddressInfo, isIPv4 } from 'net';
+import { DnsConfig } from './config';
+import { ServiceRegistry } from './registry';
+import { ServiceInstance } from './types';
+
+export type DnsOptions = Omit<DnsConfig, 'enabled'>;
+
+// Record types and response codes, see RFC 1035 and RFC 2782
+const TYPE_A = 1;
+const TYPE_SRV = 33;
+const TYPE_ANY = 255;
+const CLASS_IN = 1;
+
+const RCODE_FORMERR = 1;
+const RCODE_NXDOMAIN = 3;
+const RCODE_NOTIMP = 4;
+const RCODE_REFUSED = 5;
+
+const HEADER_LENGTH = 12;
+// Largest response sent over UDP without EDNS
+const MAX_UDP_LENGTH = 512;
+// Longest label in a name, see RFC 1035
+const MAX_LABEL_LENGTH = 63;
+const LABEL_PATTERN = /^[A-Za-z0-9_-]{1,63}$/;
+
+interface Question {
+  name: string;
+  type: number;
+  class: number;
+  // The question exactly as it was received, echoed in the response
+  raw: Buffer;
+}
+
+interface ResourceRecord {
+  name: string;
+  type: number;
+  data: Buffer;
+}
+
+interface Answer {
+  rcode: number;
+  answers: ResourceRecord[];
+  additionals: ResourceRecord[];
+}
+
+export class DnsResponder {
+  private socket?: dgram.Socket;
+  // Rotates the order of answers so clients that take the first one spread out
+  private rotation = 0;
+
+  constructor(private registry: ServiceRegistry, private options: DnsOptions) {}
+
+  /**
+   * Address the responder is listening on, once started
+   */
+  get address(): AddressInfo | undefined {
+    return this.socket?.address();
+  }
+
+  /**
+   * Listen for queries on the configured host and port
+   */
+  async start(): Promise<void> {
+    if (this.socket) return;
+
+    const socket = dgram.createSocket('udp4');
+    socket.on('message', (message, remote) => {
+      this.answer(message)
+        .then((response) => {
+          if (response) socket.send(response, remote.port, remote.address);
+        })
+        .catch((error) => {
+          console.error('Failed to answer DNS query:', error);
+        });
+    });
+    socket.on('error', (error) => {
+      console.error('DNS responder error:', error);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once('error', reject);
+      socket.bind(this.options.port, this.options.host, () => {
+        socket.off('error', reject);
+        resolve();
+      });
+    });
+    this.socket = socket;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    const socket = this.socket;
+    if (!socket) return;
+
+    this.socket = undefined;
+    await new Promise<void>((resolve) => socket.close(() => resolve()));
+  }
+
+  /**
+   * Build the response to a query, or nothing when it can't be parsed at all
+   */
+  async answer(query: Buffer): Promise<Buffer | undefined> {
+    if (query.length < HEADER_LENGTH) return undefined;
+
+    const flags = query.readUInt16BE(2);
+    // Ignore anything that is itself a response
+    if (flags & 0x8000) return undefined;
+
+    const opcode = (flags >> 11) & 0x0f;
+    if (opcode !== 0) return encodeResponse(query, undefined, { ...empty(), rcode: RCODE_NOTIMP });
+
+    const question = query.readUInt16BE(4) === 1 ? parseQuestion(query) : undefined;
+    if (!question) return encodeResponse(query, undefined, { ...empty(), rcode: RCODE_FORMERR });
+
+    return encodeResponse(query, question, await this.resolve(question), this.options.ttl);
+  }
+
+  private async resolve(question: Question): Promise<Answer> {
+    const suffix = `.${this.options.domain.toLowerCase()}`;
+    const name = question.name.toLowerCase();
+    if (question.class !== CLASS_IN || !name.endsWith(suffix)) {
+      return { ...empty(), rcode: RCODE_REFUSED };
+    }
+
+    const labels = name.slice(0, -suffix.length).split('.');
+    const wantsA = question.type === TYPE_A || question.type === TYPE_ANY;
+    const wantsSrv = question.type === TYPE_SRV || question.type === TYPE_ANY;
+
+    // _<service>._tcp.<domain>
+    if (labels.length === 2 && labels[0].startsWith('_') && labels[1] === '_tcp') {
+      const service = labels[0].slice(1);
+      if (this.registry.getInstances(service).length === 0) return notFound();
+      return wantsSrv ? this.srvRecords(question.name, service) : empty();
+    }
+
+    // <service>.<domain>
+    const service = labels.join('.');
+    if (this.registry.getInstances(service).length > 0) {
+      const answer = empty();
+      if (wantsA) {
+        const instances = this.rotate(this.available(service));
+        answer.answers.push(...(await this.addressRecords(question.name, instances)));
+      }
+      if (wantsSrv) {
+        const srv = await this.srvRecords(question.name, service);
+        answer.answers.push(...srv.answers);
+        answer.additionals.push(...srv.additionals);
+      }
+      return answer;
+    }
+
+    // <instanceId>.<service>.<domain>
+    if (labels.length > 1) {
+      const instance = this.findInstance(labels.slice(1).join('.'), labels[0]);
+      if (instance) {
+        return {
+          ...empty(),
+          answers: wantsA ? await this.addressRecords(question.name, [instance]) : [],
+        };
+      }
+    }
+
+    return notFound();
+  }
+
+  private async srvRecords(owner: string, service: string): Promise<Answer> {
+    const answer = empty();
+    for (const instance of this.rotate(this.available(service))) {
+      let url: URL;
+      try {
+        url = new URL(instance.url);
+      } catch {
+        continue;
+      }
+      const port = Number(url.port) || (url.protocol === 'https:' ? 443 : 80);
+      const target = `${instanceLabel(instance.instanceId)}.${service}.${this.options.domain}`;
+
+      answer.answers.push({
+        name: owner,
+        type: TYPE_SRV,
+        data: encodeSrv(port, target, instance.weight),
+      });
+      answer.additionals.push(...(await this.addressRecords(target, [instance])));
+    }
+    return answer;
+  }
+
+  private async addressRecords(
+    owner: string,
+    instances: ServiceInstance[]
+  ): Promise<ResourceRecord[]> {
+    const records: ResourceRecord[] = [];
+    const seen = new Set<string>();
+
+    for (const instance of instances) {
+      for (const address of await addressesOf(instance.url)) {
+        if (seen.has(address)) continue;
+        seen.add(address);
+        records.push({
+          name: owner,
+          type: TYPE_A,
+          data: Buffer.from(address.split('.').map(Number)),
+        });
+      }
+    }
+    return records;
+  }
+
+  // Instances that take traffic, the same ones the client would pick from
+  private available(service: string): ServiceInstance[] {
+    return this.registry
+      .getInstances(service, { states: ['active'] })
+      .filter((instance) => instance.health?.status !== 'DOWN');
+  }
+
+  // Instance labels are matched case-insensitively since DNS names are
+  private findInstance(service: string, label: string): ServiceInstance | undefined {
+    return this.registry
+      .getInstances(service)
+      .find((instance) => instanceLabel(instance.instanceId).toLowerCase() === label);
+  }
+
+  private rotate<T>(items: T[]): T[] {
+    if (items.length < 2) return items;
+    const offset = this.rotation++ % items.length;
+    return [...items.slice(offset), ...items.slice(0, offset)];
+  }
+}
+
+function empty(): Answer {
+  return { rcode: 0, answers: [], additionals: [] };
+}
+
+function notFound(): Answer {
+  return { ...empty(), rcode: RCODE_NXDOMAIN };
+}
+
+// IPv4 addresses of the host in an instance URL, looking up host names
+async function addressesOf(url: string): Promise<string[]> {
+  let host: string;
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    return [];
+  }
+  if (isIPv4(host)) return [host];
+
+  try {
+    const results = await dns.lookup(host, { family: 4, all: true });
+    return results.map((result) => result.address);
+  } catch {
+    return [];
+  }
+}
+
+// The first question of a query, names with compression pointers are rejected
+function parseQuestion(query: Buffer): Question | undefined {
+  const labels: string[] = [];
+  let offset = HEADER_LENGTH;
+
+  while (offset < query.length) {
+    const length = query[offset];
+    if (length === 0) break;
+    if (length > 63) return undefined;
+    labels.push(query.toString('latin1', offset + 1, offset + 1 + length));
+    offset += length + 1;
+  }
+  if (offset + 5 > query.length || labels.length === 0) return undefined;
+
+  const end = offset + 5;
+  return {
+    name: labels.join('.'),
+    type: query.readUInt16BE(offset + 1),
+    class: query.readUInt16BE(offset + 3),
+    raw: query.subarray(HEADER_LENGTH, end),
+  };
+}
+
+// The DNS label of an instance, its ID unless that is too long or not a
+// valid label, e.g. the default <service>-<uuid> of a long service name.
+// Those are cut short and made unique by a hash of the full ID.
+function instanceLabel(instanceId: string): string {
+  if (LABEL_PATTERN.test(instanceId)) return instanceId;
+
+  const hash = createHash('sha256').update(instanceId).digest('hex').slice(0, 16);
+  const prefix = instanceId
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .slice(0, MAX_LABEL_LENGTH - hash.length - 1);
+  return `${prefix}-${hash}`;
+}
+
+function encodeName(name: string): Buffer {
+  const parts = name
+    .split('.')
+    .filter(Boolean)
+    .map((label) => {
+      const bytes = Buffer.from(label, 'latin1');
+      return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+    });
+  return Buffer.concat([...parts, Buffer.from([0])]);
+}
+
+// Every instance gets the same priority and its registered weight, DOWN ones are left out entirely
+function encodeSrv(port: number, target: string, weight = 1): Buffer {
+  const fields = Buffer.alloc(6);
+  fields.writeUInt16BE(0, 0);
+  fields.writeUInt16BE(Math.min(Math.round(weight), 0xffff), 2);
+  fields.writeUInt16BE(port, 4);
+  return Buffer.concat([fields, encodeName(target)]);
+}
+
+function encodeRecord(record: ResourceRecord, ttl: number): Buffer {
+  const fields = Buffer.alloc(10);
+  fields.writeUInt16BE(record.type, 0);
+  fields.writeUInt16BE(CLASS_IN, 2);
+  fields.writeUInt32BE(ttl, 4);
+  fields.writeUInt16BE(record.data.length, 8);
+  return Buffer.concat([encodeName(record.name), fields, record.data]);
+}
+
+/**
+ * Encode a response. Records that would push it past the UDP limit are left
+ * out, additional records first, since any subset of instances is a usable
+ * answer.
+ */
+function encodeResponse(
+  query: Buffer,
+  question: Question | undefined,
+  answer: Answer,
+  ttl = 0
+): Buffer {
+  const header = Buffer.alloc(HEADER_LENGTH);
+  const queryFlags = query.readUInt16BE(2);
+  // QR and AA set, opcode and RD copied from the query
+  const flags = 0x8000 | (queryFlags & 0x7800) | 0x0400 | (queryFlags & 0x0100) | answer.rcode;
+  query.copy(header, 0, 0, 2);
+  header.writeUInt16BE(flags, 2);
+
+  const body = question ? [question.raw] : [];
+  let length = HEADER_LENGTH + (question?.raw.length ?? 0);
+  let answerCount = 0;
+  let additionalCount = 0;
+
+  const answers = answer.answers.map((record) => encodeRecord(record, ttl));
+  for (const record of answers) {
+    if (length + record.length > MAX_UDP_LENGTH) break;
+    body.push(record);
+    length += record.length;
+    answerCount++;
+  }
+  // Additional records only help when every answer made it
+  if (answerCount === answers.length) {
+    for (const record of answer.additionals.map((additional) => encodeRecord(additional, ttl))) {
+      if (length + record.length > MAX_UDP_LENGTH) break;
+      body.push(record);
+      length += record.length;
+      additionalCount++;
+    }
+  }
+
+  header.writeUInt16BE(question ? 1 : 0, 4);
+  header.writeUInt16BE(answerCount, 6);
+  header.writeUInt16BE(0, 8);
+  header.writeUInt16BE(additionalCount, 10);
+  return Buffer.concat([header, ...body]);
+}
@@ -0,0 +1,429 @@
+// This file is auto-generated by @hey-api/openapi-ts
+
+import type { Options as ClientOptions, TDataShape, Client } from '@hey-api/client-fetch';
+import type { RegisterInstanceData, RegisterInstanceResponse, RegisterInstanceError, ListServicesData, ListServicesResponse, ListServicesError, WatchServicesData, WatchServicesResponse, WatchServicesError, DeleteServiceData, DeleteServiceResponse, DeleteServiceError, GetServiceData, GetServiceResponse, GetServiceError, UpdateServiceData, UpdateServiceResponse, UpdateServiceError, ListInstancesData, ListInstancesResponse, ListInstancesError, GetServiceHistoryData, GetServiceHistoryResponse, GetServiceHistoryError, DeregisterInstanceData, DeregisterInstanceResponse, DeregisterInstanceError, GetInstanceData, GetInstanceResponse, GetInstanceError, UpdateInstanceData, UpdateInstanceResponse, UpdateInstanceError, ServiceHeartbeatData, ServiceHeartbeatResponse, ServiceHeartbeatError, InstanceHeartbeatData, InstanceHeartbeatResponse, InstanceHeartbeatError, GetDependencyGraphData, GetDependencyGraphResponse, GetDependencyGraphError, ListCatalogData, ListCatalogResponse, ListCatalogError, GetCatalogEntryData, GetCatalogEntryResponse, GetCatalogEntryError, GetApiSpecData, GetApiSpecResponse, GetApiSpecError, DiffApiVersionsData, DiffApiVersionsResponse, DiffApiVersionsError, GetClusterStatusData, GetClusterStatusResponse, GetClusterStatusError, GetClusterStateData, GetClusterStateResponse, GetClusterStateError, ReplicateChangeData, ReplicateChangeResponse, ReplicateChangeError, GetDashboardData, GetDashboardResponse, GetMetricsData, GetMetricsResponse, GetMetricsError, GetHealthData, GetHealthResponse } from './types.gen';
+import { client as _heyApiClient } from './client.gen';
+
+export type Options<TData extends TDataShape = TDataShape, ThrowOnError extends boolean = boolean> = ClientOptions<TData, ThrowOnError> & {
+    /**
+     * You can provide a client instance returned by `createClient()` instead of
+     * individual options. This might be also useful if you want to implement a
+     * custom client.
+     */
+    client?: Client;
+    /**
+     * You can pass arbitrary values through the `meta` object. This can be
+     * used to access values that aren't defined as part of the SDK function.
+     */
+    meta?: Record<string, unknown>;
+};
+
+/**
+ * Register a service instance
+ * Registers an instance of a service. Instances without an ID replace an existing instance with the same URL, otherwise they are given a new ID. The requested lease TTL is clamped to the limits of the service.
+ *
+ */
+export const registerInstance = <ThrowOnError extends boolean = false>(options: Options<RegisterInstanceData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).post<RegisterInstanceResponse, RegisterInstanceError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/register',
+        ...options,
+        headers: {
+            'Content-Type': 'application/json',
+            ...options?.headers
+        }
+    });
+};
+
+/**
+ * List services
+ * All services, optionally only their instances matching the filters
+ */
+export const listServices = <ThrowOnError extends boolean = false>(options?: Options<ListServicesData, ThrowOnError>) => {
+    return (options?.client ?? _heyApiClient).get<ListServicesResponse, ListServicesError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/services',
+        ...options
+    });
+};
+
+/**
+ * Watch registry changes
+ * Streams registry changes as Server-Sent Events. The stream starts with a `snapshot` event unless the client resumes from a buffered index with Last-Event-ID or `since`, followed by `registered`, `updated`, `deregistered` and `evicted` events.
+ *
+ */
+export const watchServices = <ThrowOnError extends boolean = false>(options?: Options<WatchServicesData, ThrowOnError>) => {
+    return (options?.client ?? _heyApiClient).get<WatchServicesResponse, WatchServicesError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/services/watch',
+        ...options
+    });
+};
+
+/**
+ * Delete a service with all of its instances
+ */
+export const deleteService = <ThrowOnError extends boolean = false>(options: Options<DeleteServiceData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).delete<DeleteServiceResponse, DeleteServiceError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/services/{name}',
+        ...options
+    });
+};
+
+/**
+ * Get a service
+ * A service with all of its instances, or only the instances matching the filters
+ */
+export const getService = <ThrowOnError extends boolean = false>(options: Options<GetServiceData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).get<GetServiceResponse, GetServiceError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/services/{name}',
+        ...options
+    });
+};
+
+/**
+ * Update every instance of a service
+ */
+export const updateService = <ThrowOnError extends boolean = false>(options: Options<UpdateServiceData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).put<UpdateServiceResponse, UpdateServiceError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/services/{name}',
+        ...options,
+        headers: {
+            'Content-Type': 'application/json',
+            ...options?.headers
+        }
+    });
+};
+
+/**
+ * List the instances of a service
+ */
+export const listInstances = <ThrowOnError extends boolean = false>(options: Options<ListInstancesData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).get<ListInstancesResponse, ListInstancesError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/services/{name}/instances',
+        ...options
+    });
+};
+
+/**
+ * Change history of a service
+ * The most recent registrations, updates, deregistrations and evictions of the service's instances, oldest first. Available after the service was removed.
+ *
+ */
+export const getServiceHistory = <ThrowOnError extends boolean = false>(options: Options<GetServiceHistoryData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).get<GetServiceHistoryResponse, GetServiceHistoryError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/services/{name}/history',
+        ...options
+    });
+};
+
+/**
+ * Deregister an instance
+ */
+export const deregisterInstance = <ThrowOnError extends boolean = false>(options: Options<DeregisterInstanceData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).delete<DeregisterInstanceResponse, DeregisterInstanceError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/services/{name}/instances/{instanceId}',
+        ...options
+    });
+};
+
+/**
+ * Get an instance
+ */
+export const getInstance = <ThrowOnError extends boolean = false>(options: Options<GetInstanceData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).get<GetInstanceResponse, GetInstanceError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/services/{name}/instances/{instanceId}',
+        ...options
+    });
+};
+
+/**
+ * Update an instance
+ */
+export const updateInstance = <ThrowOnError extends boolean = false>(options: Options<UpdateInstanceData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).put<UpdateInstanceResponse, UpdateInstanceError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/services/{name}/instances/{instanceId}',
+        ...options,
+        headers: {
+            'Content-Type': 'application/json',
+            ...options?.headers
+        }
+    });
+};
+
+/**
+ * Record a heartbeat for every instance of a service
+ */
+export const serviceHeartbeat = <ThrowOnError extends boolean = false>(options: Options<ServiceHeartbeatData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).post<ServiceHeartbeatResponse, ServiceHeartbeatError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/heartbeat/{name}',
+        ...options
+    });
+};
+
+/**
+ * Record a heartbeat for an instance
+ * Renews the lease of the instance and returns it
+ */
+export const instanceHeartbeat = <ThrowOnError extends boolean = false>(options: Options<InstanceHeartbeatData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).post<InstanceHeartbeatResponse, InstanceHeartbeatError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/heartbeat/{name}/{instanceId}',
+        ...options
+    });
+};
+
+/**
+ * Service dependency graph
+ * Services and the dependencies their instances declared, as JSON or as Graphviz DOT. Warnings list dependencies that are not registered or unhealthy.
+ *
+ */
+export const getDependencyGraph = <ThrowOnError extends boolean = false>(options?: Options<GetDependencyGraphData, ThrowOnError>) => {
+    return (options?.client ?? _heyApiClient).get<GetDependencyGraphResponse, GetDependencyGraphError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/graph',
+        ...options
+    });
+};
+
+/**
+ * List the API catalog
+ * Every service that published an OpenAPI spec, with its versions
+ */
+export const listCatalog = <ThrowOnError extends boolean = false>(options?: Options<ListCatalogData, ThrowOnError>) => {
+    return (options?.client ?? _heyApiClient).get<ListCatalogResponse, ListCatalogError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/catalog',
+        ...options
+    });
+};
+
+/**
+ * Get the API versions of a service
+ */
+export const getCatalogEntry = <ThrowOnError extends boolean = false>(options: Options<GetCatalogEntryData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).get<GetCatalogEntryResponse, GetCatalogEntryError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/catalog/{name}',
+        ...options
+    });
+};
+
+/**
+ * Get a published OpenAPI spec
+ */
+export const getApiSpec = <ThrowOnError extends boolean = false>(options: Options<GetApiSpecData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).get<GetApiSpecResponse, GetApiSpecError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/catalog/{name}/versions/{version}',
+        ...options
+    });
+};
+
+/**
+ * Compare two API versions
+ * The operations added, removed and changed from one published version to another. Operations are matched by method and path.
+ *
+ */
+export const diffApiVersions = <ThrowOnError extends boolean = false>(options: Options<DiffApiVersionsData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).get<DiffApiVersionsResponse, DiffApiVersionsError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/catalog/{name}/diff',
+        ...options
+    });
+};
+
+/**
+ * Cluster status
+ * The peers of this node and whether they can be reached
+ */
+export const getClusterStatus = <ThrowOnError extends boolean = false>(options?: Options<GetClusterStatusData, ThrowOnError>) => {
+    return (options?.client ?? _heyApiClient).get<GetClusterStatusResponse, GetClusterStatusError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/cluster',
+        ...options
+    });
+};
+
+/**
+ * Full state of this node
+ * All instances and API specs known to this node, pulled by peers to catch up
+ */
+export const getClusterState = <ThrowOnError extends boolean = false>(options?: Options<GetClusterStateData, ThrowOnError>) => {
+    return (options?.client ?? _heyApiClient).get<GetClusterStateResponse, GetClusterStateError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/cluster/state',
+        ...options
+    });
+};
+
+/**
+ * Apply a change made on another node
+ * Instances are merged by most recent heartbeat and specs by the time they were published, so outdated or repeated changes are ignored.
+ *
+ */
+export const replicateChange = <ThrowOnError extends boolean = false>(options: Options<ReplicateChangeData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).post<ReplicateChangeResponse, ReplicateChangeError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/cluster/replicate',
+        ...options,
+        headers: {
+            'Content-Type': 'application/json',
+            ...options?.headers
+        }
+    });
+};
+
+/**
+ * Registry dashboard
+ * HTML page listing services, instances and their recent history. The page reads the API from the browser, so it needs no scope itself; a token entered on the page is sent with its requests.
+ *
+ */
+export const getDashboard = <ThrowOnError extends boolean = false>(options?: Options<GetDashboardData, ThrowOnError>) => {
+    return (options?.client ?? _heyApiClient).get<GetDashboardResponse, unknown, ThrowOnError>({
+        url: '/dashboard',
+        ...options
+    });
+};
+
+/**
+ * Prometheus metrics
+ * Registered services and instances, heartbeat ages, registrations, deregistrations, evictions, health changes and request latency per route in the Prometheus text format
+ *
+ */
+export const getMetrics = <ThrowOnError extends boolean = false>(options?: Options<GetMetricsData, ThrowOnError>) => {
+    return (options?.client ?? _heyApiClient).get<GetMetricsResponse, GetMetricsError, ThrowOnError>({
+        security: [
+            {
+                scheme: 'bearer',
+                type: 'http'
+            }
+        ],
+        url: '/metrics',
+        ...options
+    });
+};
+
+/**
+ * Registry health
+ */
+export const getHealth = <ThrowOnError extends boolean = false>(options?: Options<GetHealthData, ThrowOnError>) => {
+    return (options?.client ?? _heyApiClient).get<GetHealthResponse, unknown, ThrowOnError>({
+        url: '/health',
+        ...options
+    });
+};
\ No newline at end of file
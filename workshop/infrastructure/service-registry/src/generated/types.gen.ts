@@ -0,0 +1,1464 @@
+// This file is auto-generated by @hey-api/openapi-ts
+
+/**
+ * Health of an instance or service as determined by active probing
+ */
+export type HealthStatus = 'UP' | 'DEGRADED' | 'DOWN';
+
+/**
+ * Outcome of a single health probe
+ */
+export type ProbeResult = {
+    ok: boolean;
+    /**
+     * Time of the probe in milliseconds since the epoch
+     */
+    checkedAt: number;
+    latencyMs: number;
+    statusCode?: number;
+    error?: string;
+};
+
+export type InstanceHealth = {
+    status: HealthStatus;
+    consecutiveFailures: number;
+    lastProbe: ProbeResult;
+};
+
+/**
+ * Whether an instance takes part in load balancing. Clients only pick active instances, draining instances finish their work before they stop and instances in maintenance are temporarily out.
+ *
+ */
+export type LifecycleState = 'active' | 'draining' | 'maintenance';
+
+/**
+ * Free-form service metadata
+ */
+export type Metadata = {
+    [key: string]: unknown;
+};
+
+/**
+ * A single running instance of a service
+ */
+export type Instance = {
+    instanceId: string;
+    url: string;
+    healthCheckUrl?: string;
+    /**
+     * Semantic version of the API the instance serves
+     */
+    version?: string;
+    tags?: Array<string>;
+    /**
+     * Names of the services the instance calls
+     */
+    dependencies?: Array<string>;
+    /**
+     * Share of the traffic the instance gets relative to the other instances, 1 when not set and 0 for none
+     *
+     */
+    weight?: number;
+    /**
+     * Release the instance belongs to, e.g. stable or canary. Sticky discovery keeps a caller on the same release.
+     *
+     */
+    label?: string;
+    metadata: Metadata;
+    /**
+     * Where the instance serves its OpenAPI spec
+     */
+    apiSpecUrl?: string;
+    /**
+     * Time of the last heartbeat in milliseconds since the epoch
+     */
+    lastHeartbeat: number;
+    /**
+     * Granted lease TTL in seconds, renewed by every heartbeat
+     */
+    ttl?: number;
+    state?: LifecycleState;
+    health?: InstanceHealth;
+};
+
+/**
+ * A service and all of its instances. The top-level fields mirror the instance with the most recent heartbeat, for clients that predate multiple instances.
+ *
+ */
+export type Service = {
+    instanceId?: string;
+    url: string;
+    healthCheckUrl?: string;
+    version?: string;
+    tags?: Array<string>;
+    metadata: Metadata;
+    lastHeartbeat: number;
+    ttl?: number;
+    health?: InstanceHealth;
+    status: HealthStatus;
+    instances: Array<Instance>;
+};
+
+export type GraphNode = {
+    name: string;
+    /**
+     * False for services that are only known as a dependency
+     */
+    registered: boolean;
+    status?: HealthStatus;
+    instances: number;
+    /**
+     * Instances that are active and not DOWN
+     */
+    available: number;
+    /**
+     * Services that call this one, directly or through other services
+     */
+    impacted: Array<string>;
+};
+
+/**
+ * The `from` service depends on the `to` service
+ */
+export type GraphEdge = {
+    from: string;
+    to: string;
+};
+
+export type GraphWarning = {
+    type: 'unregistered' | 'unhealthy';
+    service: string;
+    dependency: string;
+    message: string;
+};
+
+export type DependencyGraph = {
+    nodes: Array<GraphNode>;
+    edges: Array<GraphEdge>;
+    warnings: Array<GraphWarning>;
+};
+
+/**
+ * An OpenAPI 3 document
+ */
+export type ApiSpec = {
+    openapi: string;
+    info: {
+        [key: string]: unknown;
+    };
+    paths: {
+        [key: string]: unknown;
+    };
+    [key: string]: unknown | string | {
+        [key: string]: unknown;
+    } | {
+        [key: string]: unknown;
+    };
+};
+
+export type ApiVersion = {
+    version: string;
+    title?: string;
+    /**
+     * Time the version was last published in milliseconds since the epoch
+     */
+    publishedAt: number;
+    /**
+     * URL the spec was fetched from
+     */
+    source?: string;
+    /**
+     * Number of operations in the spec
+     */
+    operations: number;
+};
+
+export type CatalogEntry = {
+    name: string;
+    /**
+     * The newest version, by semver when versions are semantic
+     */
+    latest: string;
+    versions: Array<ApiVersion>;
+};
+
+export type ApiOperation = {
+    method: string;
+    path: string;
+    operationId?: string;
+    summary?: string;
+    /**
+     * Fields of a changed operation that differ, e.g. parameters
+     */
+    changes?: Array<string>;
+};
+
+export type ApiDiff = {
+    name: string;
+    from: string;
+    to: string;
+    added: Array<ApiOperation>;
+    removed: Array<ApiOperation>;
+    changed: Array<ApiOperation>;
+};
+
+export type HistoryEntry = {
+    type: 'registered' | 'updated' | 'deregistered' | 'evicted';
+    instanceId: string;
+    instance: Instance;
+    /**
+     * Time of the change in milliseconds since the epoch
+     */
+    timestamp: number;
+};
+
+export type Registration = {
+    /**
+     * Name of the service
+     */
+    name: string;
+    /**
+     * Base URL of the instance, http or https
+     */
+    url: string;
+    /**
+     * Identifies the replica, generated when not provided
+     */
+    instanceId?: string;
+    healthCheckUrl?: string;
+    /**
+     * Semantic version of the API the instance serves
+     */
+    version?: string;
+    tags?: Array<string>;
+    /**
+     * Names of the services the instance calls
+     */
+    dependencies?: Array<string>;
+    /**
+     * Requested lease TTL in seconds
+     */
+    ttl?: number;
+    /**
+     * Share of the traffic the instance gets relative to the other instances, 1 when not set and 0 for none
+     *
+     */
+    weight?: number;
+    /**
+     * Release the instance belongs to, e.g. stable or canary. Sticky discovery keeps a caller on the same release.
+     *
+     */
+    label?: string;
+    state?: LifecycleState;
+    metadata?: Metadata;
+    apiSpec?: ApiSpec;
+    /**
+     * Where the instance serves its OpenAPI spec, fetched by the registry. Relative URLs are resolved against the instance URL.
+     *
+     */
+    apiSpecUrl?: string;
+};
+
+export type InstanceUpdate = {
+    url?: string;
+    healthCheckUrl?: string;
+    version?: string;
+    tags?: Array<string>;
+    /**
+     * Names of the services the instance calls
+     */
+    dependencies?: Array<string>;
+    /**
+     * Share of the traffic the instance gets relative to the other instances, 1 when not set and 0 for none
+     *
+     */
+    weight?: number;
+    /**
+     * Release the instance belongs to, e.g. stable or canary. Sticky discovery keeps a caller on the same release.
+     *
+     */
+    label?: string;
+    state?: LifecycleState;
+    metadata?: Metadata;
+    apiSpec?: ApiSpec;
+    /**
+     * Where the instance serves its OpenAPI spec, fetched by the registry. Relative URLs are resolved against the instance URL.
+     *
+     */
+    apiSpecUrl?: string;
+};
+
+export type Lease = {
+    /**
+     * Granted TTL in seconds
+     */
+    ttl: number;
+    /**
+     * When the lease runs out unless renewed
+     */
+    expiresAt: string;
+};
+
+export type RegistrationResult = {
+    status: 'registered';
+    instanceId: string;
+    lease: Lease;
+    timestamp: string;
+};
+
+export type StatusResult = {
+    status: string;
+    timestamp: string;
+};
+
+export type HeartbeatResult = {
+    status: 'ok';
+    lease?: Lease;
+    timestamp: string;
+};
+
+export type Health = {
+    status: string;
+    version: string;
+    timestamp: string;
+    /**
+     * Number of registered services
+     */
+    services: number;
+    /**
+     * Number of registered instances
+     */
+    instances: number;
+};
+
+export type PeerStatus = {
+    url: string;
+    reachable: boolean;
+    /**
+     * Time of the last successful request in milliseconds since the epoch
+     */
+    lastContact?: number;
+    lastError?: string;
+};
+
+export type ClusterStatus = {
+    nodeId: string;
+    peers: Array<PeerStatus>;
+};
+
+export type ClusterState = {
+    nodeId: string;
+    /**
+     * Instances by service name
+     */
+    services: {
+        [key: string]: Array<Instance>;
+    };
+    /**
+     * Published API specs by service name
+     */
+    catalog?: {
+        [key: string]: Array<PublishedSpec>;
+    };
+};
+
+/**
+ * A version of a service's API with its spec
+ */
+export type PublishedSpec = ApiVersion & {
+    spec: ApiSpec;
+};
+
+/**
+ * Instances registered or renewed on another node, or removed from it, or an API spec published there
+ *
+ */
+export type ReplicatedChange = {
+    /**
+     * ID of the node the change was made on
+     */
+    origin: string;
+    type: 'put';
+    name: string;
+    instances: Array<Instance>;
+} | {
+    origin: string;
+    type: 'delete';
+    name: string;
+    /**
+     * The instance to remove, the whole service when left out
+     */
+    instanceId?: string;
+} | {
+    origin: string;
+    type: 'spec';
+    name: string;
+    spec: PublishedSpec;
+};
+
+export type _Error = {
+    /**
+     * Error code, e.g. not_found
+     */
+    error: string;
+    /**
+     * Human-readable error message
+     */
+    message: string;
+};
+
+/**
+ * Name of the service
+ */
+export type ServiceName = string;
+
+/**
+ * ID of the instance
+ */
+export type InstanceId = string;
+
+/**
+ * Instances must carry every tag, repeated or comma separated
+ */
+export type Tag = Array<string>;
+
+/**
+ * Instances must have these metadata values, e.g. metadata[region]=north
+ */
+export type Metadata2 = {
+    [key: string]: string;
+};
+
+/**
+ * Semver range the instance version must satisfy, e.g. ^2.0.0
+ */
+export type Version = string;
+
+/**
+ * Instances must be in one of these lifecycle states (active, draining or maintenance), repeated or comma separated
+ *
+ */
+export type State = Array<string>;
+
+export type RegisterInstanceData = {
+    body: Registration;
+    path?: never;
+    query?: never;
+    url: '/register';
+};
+
+export type RegisterInstanceErrors = {
+    /**
+     * Invalid request
+     */
+    400: _Error;
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type RegisterInstanceError = RegisterInstanceErrors[keyof RegisterInstanceErrors];
+
+export type RegisterInstanceResponses = {
+    /**
+     * Instance registered
+     */
+    201: RegistrationResult;
+};
+
+export type RegisterInstanceResponse = RegisterInstanceResponses[keyof RegisterInstanceResponses];
+
+export type ListServicesData = {
+    body?: never;
+    path?: never;
+    query?: {
+        /**
+         * Instances must carry every tag, repeated or comma separated
+         */
+        tag?: Array<string>;
+        /**
+         * Instances must have these metadata values, e.g. metadata[region]=north
+         */
+        metadata?: {
+            [key: string]: string;
+        };
+        /**
+         * Semver range the instance version must satisfy, e.g. ^2.0.0
+         */
+        version?: string;
+        /**
+         * Instances must be in one of these lifecycle states (active, draining or maintenance), repeated or comma separated
+         *
+         */
+        state?: Array<string>;
+    };
+    url: '/services';
+};
+
+export type ListServicesErrors = {
+    /**
+     * Invalid request
+     */
+    400: _Error;
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type ListServicesError = ListServicesErrors[keyof ListServicesErrors];
+
+export type ListServicesResponses = {
+    /**
+     * Services by name
+     */
+    200: {
+        [key: string]: Service;
+    };
+};
+
+export type ListServicesResponse = ListServicesResponses[keyof ListServicesResponses];
+
+export type WatchServicesData = {
+    body?: never;
+    headers?: {
+        /**
+         * Resume after this event index, sent by reconnecting EventSource clients
+         */
+        'Last-Event-ID'?: string;
+    };
+    path?: never;
+    query?: {
+        /**
+         * Only stream changes of this service
+         */
+        service?: string;
+        /**
+         * Resume after this event index
+         */
+        since?: number;
+    };
+    url: '/services/watch';
+};
+
+export type WatchServicesErrors = {
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type WatchServicesError = WatchServicesErrors[keyof WatchServicesErrors];
+
+export type WatchServicesResponses = {
+    /**
+     * Event stream
+     */
+    200: string;
+};
+
+export type WatchServicesResponse = WatchServicesResponses[keyof WatchServicesResponses];
+
+export type DeleteServiceData = {
+    body?: never;
+    path: {
+        /**
+         * Name of the service
+         */
+        name: string;
+    };
+    query?: never;
+    url: '/services/{name}';
+};
+
+export type DeleteServiceErrors = {
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * Unknown service or instance
+     */
+    404: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type DeleteServiceError = DeleteServiceErrors[keyof DeleteServiceErrors];
+
+export type DeleteServiceResponses = {
+    /**
+     * Deleted
+     */
+    200: StatusResult;
+};
+
+export type DeleteServiceResponse = DeleteServiceResponses[keyof DeleteServiceResponses];
+
+export type GetServiceData = {
+    body?: never;
+    path: {
+        /**
+         * Name of the service
+         */
+        name: string;
+    };
+    query?: {
+        /**
+         * Instances must carry every tag, repeated or comma separated
+         */
+        tag?: Array<string>;
+        /**
+         * Instances must have these metadata values, e.g. metadata[region]=north
+         */
+        metadata?: {
+            [key: string]: string;
+        };
+        /**
+         * Semver range the instance version must satisfy, e.g. ^2.0.0
+         */
+        version?: string;
+        /**
+         * Instances must be in one of these lifecycle states (active, draining or maintenance), repeated or comma separated
+         *
+         */
+        state?: Array<string>;
+    };
+    url: '/services/{name}';
+};
+
+export type GetServiceErrors = {
+    /**
+     * Invalid request
+     */
+    400: _Error;
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * Unknown service or instance
+     */
+    404: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type GetServiceError = GetServiceErrors[keyof GetServiceErrors];
+
+export type GetServiceResponses = {
+    /**
+     * The service
+     */
+    200: Service;
+};
+
+export type GetServiceResponse = GetServiceResponses[keyof GetServiceResponses];
+
+export type UpdateServiceData = {
+    body: InstanceUpdate;
+    path: {
+        /**
+         * Name of the service
+         */
+        name: string;
+    };
+    query?: never;
+    url: '/services/{name}';
+};
+
+export type UpdateServiceErrors = {
+    /**
+     * Invalid request
+     */
+    400: _Error;
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * Unknown service or instance
+     */
+    404: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type UpdateServiceError = UpdateServiceErrors[keyof UpdateServiceErrors];
+
+export type UpdateServiceResponses = {
+    /**
+     * Updated
+     */
+    200: StatusResult;
+};
+
+export type UpdateServiceResponse = UpdateServiceResponses[keyof UpdateServiceResponses];
+
+export type ListInstancesData = {
+    body?: never;
+    path: {
+        /**
+         * Name of the service
+         */
+        name: string;
+    };
+    query?: {
+        /**
+         * Instances must carry every tag, repeated or comma separated
+         */
+        tag?: Array<string>;
+        /**
+         * Instances must have these metadata values, e.g. metadata[region]=north
+         */
+        metadata?: {
+            [key: string]: string;
+        };
+        /**
+         * Semver range the instance version must satisfy, e.g. ^2.0.0
+         */
+        version?: string;
+        /**
+         * Instances must be in one of these lifecycle states (active, draining or maintenance), repeated or comma separated
+         *
+         */
+        state?: Array<string>;
+    };
+    url: '/services/{name}/instances';
+};
+
+export type ListInstancesErrors = {
+    /**
+     * Invalid request
+     */
+    400: _Error;
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * Unknown service or instance
+     */
+    404: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type ListInstancesError = ListInstancesErrors[keyof ListInstancesErrors];
+
+export type ListInstancesResponses = {
+    /**
+     * Instances matching the filters
+     */
+    200: Array<Instance>;
+};
+
+export type ListInstancesResponse = ListInstancesResponses[keyof ListInstancesResponses];
+
+export type GetServiceHistoryData = {
+    body?: never;
+    path: {
+        /**
+         * Name of the service
+         */
+        name: string;
+    };
+    query?: never;
+    url: '/services/{name}/history';
+};
+
+export type GetServiceHistoryErrors = {
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * Unknown service or instance
+     */
+    404: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type GetServiceHistoryError = GetServiceHistoryErrors[keyof GetServiceHistoryErrors];
+
+export type GetServiceHistoryResponses = {
+    /**
+     * Changes to the service
+     */
+    200: Array<HistoryEntry>;
+};
+
+export type GetServiceHistoryResponse = GetServiceHistoryResponses[keyof GetServiceHistoryResponses];
+
+export type DeregisterInstanceData = {
+    body?: never;
+    path: {
+        /**
+         * Name of the service
+         */
+        name: string;
+        /**
+         * ID of the instance
+         */
+        instanceId: string;
+    };
+    query?: never;
+    url: '/services/{name}/instances/{instanceId}';
+};
+
+export type DeregisterInstanceErrors = {
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * Unknown service or instance
+     */
+    404: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type DeregisterInstanceError = DeregisterInstanceErrors[keyof DeregisterInstanceErrors];
+
+export type DeregisterInstanceResponses = {
+    /**
+     * Deleted
+     */
+    200: StatusResult;
+};
+
+export type DeregisterInstanceResponse = DeregisterInstanceResponses[keyof DeregisterInstanceResponses];
+
+export type GetInstanceData = {
+    body?: never;
+    path: {
+        /**
+         * Name of the service
+         */
+        name: string;
+        /**
+         * ID of the instance
+         */
+        instanceId: string;
+    };
+    query?: never;
+    url: '/services/{name}/instances/{instanceId}';
+};
+
+export type GetInstanceErrors = {
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * Unknown service or instance
+     */
+    404: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type GetInstanceError = GetInstanceErrors[keyof GetInstanceErrors];
+
+export type GetInstanceResponses = {
+    /**
+     * The instance
+     */
+    200: Instance;
+};
+
+export type GetInstanceResponse = GetInstanceResponses[keyof GetInstanceResponses];
+
+export type UpdateInstanceData = {
+    body: InstanceUpdate;
+    path: {
+        /**
+         * Name of the service
+         */
+        name: string;
+        /**
+         * ID of the instance
+         */
+        instanceId: string;
+    };
+    query?: never;
+    url: '/services/{name}/instances/{instanceId}';
+};
+
+export type UpdateInstanceErrors = {
+    /**
+     * Invalid request
+     */
+    400: _Error;
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * Unknown service or instance
+     */
+    404: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type UpdateInstanceError = UpdateInstanceErrors[keyof UpdateInstanceErrors];
+
+export type UpdateInstanceResponses = {
+    /**
+     * Updated
+     */
+    200: StatusResult;
+};
+
+export type UpdateInstanceResponse = UpdateInstanceResponses[keyof UpdateInstanceResponses];
+
+export type ServiceHeartbeatData = {
+    body?: never;
+    path: {
+        /**
+         * Name of the service
+         */
+        name: string;
+    };
+    query?: never;
+    url: '/heartbeat/{name}';
+};
+
+export type ServiceHeartbeatErrors = {
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * Unknown service or instance
+     */
+    404: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type ServiceHeartbeatError = ServiceHeartbeatErrors[keyof ServiceHeartbeatErrors];
+
+export type ServiceHeartbeatResponses = {
+    /**
+     * Heartbeat recorded
+     */
+    200: HeartbeatResult;
+};
+
+export type ServiceHeartbeatResponse = ServiceHeartbeatResponses[keyof ServiceHeartbeatResponses];
+
+export type InstanceHeartbeatData = {
+    body?: never;
+    path: {
+        /**
+         * Name of the service
+         */
+        name: string;
+        /**
+         * ID of the instance
+         */
+        instanceId: string;
+    };
+    query?: never;
+    url: '/heartbeat/{name}/{instanceId}';
+};
+
+export type InstanceHeartbeatErrors = {
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * Unknown service or instance
+     */
+    404: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type InstanceHeartbeatError = InstanceHeartbeatErrors[keyof InstanceHeartbeatErrors];
+
+export type InstanceHeartbeatResponses = {
+    /**
+     * Heartbeat recorded
+     */
+    200: HeartbeatResult;
+};
+
+export type InstanceHeartbeatResponse = InstanceHeartbeatResponses[keyof InstanceHeartbeatResponses];
+
+export type GetDependencyGraphData = {
+    body?: never;
+    path?: never;
+    query?: {
+        /**
+         * Response format, chosen from the Accept header when not given (text/vnd.graphviz for DOT)
+         *
+         */
+        format?: 'json' | 'dot';
+    };
+    url: '/graph';
+};
+
+export type GetDependencyGraphErrors = {
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type GetDependencyGraphError = GetDependencyGraphErrors[keyof GetDependencyGraphErrors];
+
+export type GetDependencyGraphResponses = {
+    /**
+     * The dependency graph
+     */
+    200: DependencyGraph;
+};
+
+export type GetDependencyGraphResponse = GetDependencyGraphResponses[keyof GetDependencyGraphResponses];
+
+export type ListCatalogData = {
+    body?: never;
+    path?: never;
+    query?: never;
+    url: '/catalog';
+};
+
+export type ListCatalogErrors = {
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type ListCatalogError = ListCatalogErrors[keyof ListCatalogErrors];
+
+export type ListCatalogResponses = {
+    /**
+     * Services in the catalog
+     */
+    200: Array<CatalogEntry>;
+};
+
+export type ListCatalogResponse = ListCatalogResponses[keyof ListCatalogResponses];
+
+export type GetCatalogEntryData = {
+    body?: never;
+    path: {
+        /**
+         * Name of the service
+         */
+        name: string;
+    };
+    query?: never;
+    url: '/catalog/{name}';
+};
+
+export type GetCatalogEntryErrors = {
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * Unknown service or instance
+     */
+    404: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type GetCatalogEntryError = GetCatalogEntryErrors[keyof GetCatalogEntryErrors];
+
+export type GetCatalogEntryResponses = {
+    /**
+     * The published versions, oldest first
+     */
+    200: CatalogEntry;
+};
+
+export type GetCatalogEntryResponse = GetCatalogEntryResponses[keyof GetCatalogEntryResponses];
+
+export type GetApiSpecData = {
+    body?: never;
+    path: {
+        /**
+         * Name of the service
+         */
+        name: string;
+        /**
+         * API version, or latest for the newest one
+         */
+        version: string;
+    };
+    query?: never;
+    url: '/catalog/{name}/versions/{version}';
+};
+
+export type GetApiSpecErrors = {
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * Unknown service or instance
+     */
+    404: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type GetApiSpecError = GetApiSpecErrors[keyof GetApiSpecErrors];
+
+export type GetApiSpecResponses = {
+    /**
+     * The OpenAPI spec as it was published
+     */
+    200: ApiSpec;
+};
+
+export type GetApiSpecResponse = GetApiSpecResponses[keyof GetApiSpecResponses];
+
+export type DiffApiVersionsData = {
+    body?: never;
+    path: {
+        /**
+         * Name of the service
+         */
+        name: string;
+    };
+    query: {
+        /**
+         * Version to compare from
+         */
+        from: string;
+        /**
+         * Version to compare to, the newest one when not given
+         */
+        to?: string;
+    };
+    url: '/catalog/{name}/diff';
+};
+
+export type DiffApiVersionsErrors = {
+    /**
+     * Invalid request
+     */
+    400: _Error;
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * Unknown service or instance
+     */
+    404: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type DiffApiVersionsError = DiffApiVersionsErrors[keyof DiffApiVersionsErrors];
+
+export type DiffApiVersionsResponses = {
+    /**
+     * Changed operations
+     */
+    200: ApiDiff;
+};
+
+export type DiffApiVersionsResponse = DiffApiVersionsResponses[keyof DiffApiVersionsResponses];
+
+export type GetClusterStatusData = {
+    body?: never;
+    path?: never;
+    query?: never;
+    url: '/cluster';
+};
+
+export type GetClusterStatusErrors = {
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type GetClusterStatusError = GetClusterStatusErrors[keyof GetClusterStatusErrors];
+
+export type GetClusterStatusResponses = {
+    /**
+     * Cluster status
+     */
+    200: ClusterStatus;
+};
+
+export type GetClusterStatusResponse = GetClusterStatusResponses[keyof GetClusterStatusResponses];
+
+export type GetClusterStateData = {
+    body?: never;
+    path?: never;
+    query?: never;
+    url: '/cluster/state';
+};
+
+export type GetClusterStateErrors = {
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type GetClusterStateError = GetClusterStateErrors[keyof GetClusterStateErrors];
+
+export type GetClusterStateResponses = {
+    /**
+     * Instances of every service
+     */
+    200: ClusterState;
+};
+
+export type GetClusterStateResponse = GetClusterStateResponses[keyof GetClusterStateResponses];
+
+export type ReplicateChangeData = {
+    body: ReplicatedChange;
+    path?: never;
+    query?: never;
+    url: '/cluster/replicate';
+};
+
+export type ReplicateChangeErrors = {
+    /**
+     * Invalid request
+     */
+    400: _Error;
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type ReplicateChangeError = ReplicateChangeErrors[keyof ReplicateChangeErrors];
+
+export type ReplicateChangeResponses = {
+    /**
+     * Change applied
+     */
+    200: StatusResult;
+};
+
+export type ReplicateChangeResponse = ReplicateChangeResponses[keyof ReplicateChangeResponses];
+
+export type GetDashboardData = {
+    body?: never;
+    path?: never;
+    query?: never;
+    url: '/dashboard';
+};
+
+export type GetDashboardResponses = {
+    /**
+     * The dashboard page
+     */
+    200: string;
+};
+
+export type GetDashboardResponse = GetDashboardResponses[keyof GetDashboardResponses];
+
+export type GetMetricsData = {
+    body?: never;
+    path?: never;
+    query?: never;
+    url: '/metrics';
+};
+
+export type GetMetricsErrors = {
+    /**
+     * Missing or invalid bearer token
+     */
+    401: _Error;
+    /**
+     * Missing scope, or the token belongs to another service
+     */
+    403: _Error;
+    /**
+     * The IAM service could not validate the token
+     */
+    503: _Error;
+};
+
+export type GetMetricsError = GetMetricsErrors[keyof GetMetricsErrors];
+
+export type GetMetricsResponses = {
+    /**
+     * Metrics in the Prometheus text format, version 0.0.4
+     */
+    200: string;
+};
+
+export type GetMetricsResponse = GetMetricsResponses[keyof GetMetricsResponses];
+
+export type GetHealthData = {
+    body?: never;
+    path?: never;
+    query?: never;
+    url: '/health';
+};
+
+export type GetHealthResponses = {
+    /**
+     * The registry is running
+     */
+    200: Health;
+};
+
+export type GetHealthResponse = GetHealthResponses[keyof GetHealthResponses];
+
+export type ClientOptions = {
+    baseUrl: 'http://localhost:3000' | (string & {});
+};
\ No newline at end of file
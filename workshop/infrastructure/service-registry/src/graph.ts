@@ -0,0 +1,184 @@
+/**
+ * Service dependency graph
+ *
+ * Built from the dependencies that instances declare when they register.
+ * Every service that is registered or depended on is a node, and a service
+ * depends on another when any of its instances declares it. Dependencies
+ * that are not registered or can't take traffic are reported as warnings.
+ */
+
+import { HealthStatus, ServiceInfo } from './types';
+
+export interface GraphNode {
+  name: string;
+  // False for services that are only known as a dependency
+  registered: boolean;
+  status?: HealthStatus;
+  instances: number;
+  // Instances that are active and not DOWN
+  available: number;
+  // Services that call this one, directly or through other services
+  impacted: string[];
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+}
+
+export type GraphWarningType = 'unregistered' | 'unhealthy';
+
+export interface GraphWarning {
+  type: GraphWarningType;
+  service: string;
+  dependency: string;
+  message: string;
+}
+
+export interface DependencyGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  warnings: GraphWarning[];
+}
+
+/**
+ * Build the dependency graph of a set of services
+ */
+export function buildGraph(services: Record<string, ServiceInfo>): DependencyGraph {
+  const dependencies = new Map<string, Set<string>>();
+  for (const [name, service] of Object.entries(services)) {
+    const declared = service.instances.flatMap((instance) => instance.dependencies || []);
+    dependencies.set(name, new Set(declared));
+  }
+
+  const names = new Set(dependencies.keys());
+  for (const targets of dependencies.values()) {
+    targets.forEach((target) => names.add(target));
+  }
+
+  const edges: GraphEdge[] = [];
+  for (const [from, targets] of dependencies) {
+    for (const to of targets) {
+      edges.push({ from, to });
+    }
+  }
+  edges.sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+
+  const nodes = Array.from(names)
+    .sort()
+    .map((name): GraphNode => {
+      const service = services[name];
+      return {
+        name,
+        registered: service !== undefined,
+        status: service?.status,
+        instances: service?.instances.length ?? 0,
+        available: service ? availableInstances(service) : 0,
+        impacted: impacted(name, edges),
+      };
+    });
+
+  return { nodes, edges, warnings: warningsFor(nodes, edges) };
+}
+
+/**
+ * Render a dependency graph as Graphviz DOT
+ *
+ * Nodes are colored by health, unregistered dependencies are dashed and
+ * edges to a dependency with a warning are drawn in red.
+ */
+export function toDot(graph: DependencyGraph): string {
+  const warned = new Set(
+    graph.warnings.map((warning) => `${warning.service}\0${warning.dependency}`)
+  );
+  const lines = [
+    'digraph services {',
+    '  rankdir=LR;',
+    '  node [shape=box, style="rounded,filled"];',
+  ];
+
+  for (const node of graph.nodes) {
+    const label = node.registered
+      ? `${node.available}/${node.instances} available`
+      : 'not registered';
+    const attributes = node.registered
+      ? `fillcolor="${STATUS_COLORS[node.available > 0 ? node.status ?? 'UP' : 'DOWN']}"`
+      : 'style="rounded,dashed"';
+    lines.push(
+      `  "${escape(node.name)}" [${attributes}, label="${escape(node.name)}\\n${label}"];`
+    );
+  }
+
+  for (const edge of graph.edges) {
+    const color = warned.has(`${edge.from}\0${edge.to}`) ? ' [color=red]' : '';
+    lines.push(`  "${escape(edge.from)}" -> "${escape(edge.to)}"${color};`);
+  }
+
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+const STATUS_COLORS: Record<HealthStatus, string> = {
+  UP: '#d1fae5',
+  DEGRADED: '#fef3c7',
+  DOWN: '#fee2e2',
+};
+
+// Same rule as the client uses to pick instances
+function availableInstances(service: ServiceInfo): number {
+  return service.instances.filter(
+    (instance) => (instance.state ?? 'active') === 'active' && instance.health?.status !== 'DOWN'
+  ).length;
+}
+
+// Every service that reaches `name` by following edges, i.e. is affected when it fails
+function impacted(name: string, edges: GraphEdge[]): string[] {
+  const found = new Set<string>();
+  const queue = [name];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of edges) {
+      if (edge.to === current && edge.from !== name && !found.has(edge.from)) {
+        found.add(edge.from);
+        queue.push(edge.from);
+      }
+    }
+  }
+  return Array.from(found).sort();
+}
+
+function warningsFor(nodes: GraphNode[], edges: GraphEdge[]): GraphWarning[] {
+  const byName = new Map(nodes.map((node) => [node.name, node]));
+  const warnings: GraphWarning[] = [];
+
+  for (const { from, to } of edges) {
+    const dependency = byName.get(to)!;
+    if (!dependency.registered) {
+      warnings.push({
+        type: 'unregistered',
+        service: from,
+        dependency: to,
+        message: `'${from}' depends on '${to}', which is not registered`,
+      });
+    } else if (dependency.available === 0) {
+      warnings.push({
+        type: 'unhealthy',
+        service: from,
+        dependency: to,
+        message: `'${from}' depends on '${to}', which has no instances taking traffic`,
+      });
+    } else if (dependency.status !== 'UP') {
+      warnings.push({
+        type: 'unhealthy',
+        service: from,
+        dependency: to,
+        message: `'${from}' depends on '${to}', which is ${dependency.status}`,
+      });
+    }
+  }
+  return warnings;
+}
+
+function escape(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
@@ -0,0 +1,135 @@
+import { HealthCheckConfig } from './config';
+import { ServiceRegistry } from './registry';
+import { InstanceHealth, ProbeResult } from './types';
+
+export type HealthCheckOptions = Omit<HealthCheckConfig, 'enabled'>;
+
+/**
+ * Active health prober
+ *
+ * Periodically calls the healthCheckUrl of every registered instance and
+ * records the result in the registry. A failed probe marks an instance
+ * DEGRADED, and it becomes DOWN after `failureThreshold` consecutive failures.
+ * A single successful probe brings it back UP.
+ */
+export class HealthChecker {
+  private timer?: NodeJS.Timeout;
+  private probing = false;
+
+  // reportsChanges tells whether this node publishes the health changes it
+  // sees, in a cluster every node probes on its own
+  constructor(
+    private registry: ServiceRegistry,
+    private options: HealthCheckOptions,
+    private reportsChanges: () => boolean = () => true
+  ) {}
+
+  /**
+   * Start probing on the configured interval
+   */
+  start(): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.probeAll().catch((error) => {
+        console.error('Failed to probe service health:', error);
+      });
+    }, this.options.interval);
+  }
+
+  /**
+   * Stop probing
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Probe every instance that has a health check URL
+   */
+  async probeAll(): Promise<void> {
+    // Skip a round if the previous one is still waiting on slow instances
+    if (this.probing) return;
+    this.probing = true;
+
+    try {
+      const probes: Promise<void>[] = [];
+
+      for (const [name, service] of Object.entries(this.registry.getAll())) {
+        for (const instance of service.instances) {
+          if (!instance.healthCheckUrl) continue;
+
+          const healthCheckUrl = instance.healthCheckUrl;
+          probes.push(
+            this.probe(healthCheckUrl).then((result) => {
+              const current = this.registry.getInstance(name, instance.instanceId);
+              // The instance may have been removed or re-registered while probing
+              if (current?.healthCheckUrl === healthCheckUrl) {
+                this.registry.setHealth(
+                  name,
+                  instance.instanceId,
+                  this.evaluate(current.health, result),
+                  !this.reportsChanges()
+                );
+              }
+            })
+          );
+        }
+      }
+
+      await Promise.all(probes);
+    } finally {
+      this.probing = false;
+    }
+  }
+
+  /**
+   * Call a health endpoint once
+   */
+  async probe(url: string): Promise<ProbeResult> {
+    const checkedAt = Date.now();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.options.timeout);
+
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+      return {
+        ok: response.ok,
+        checkedAt,
+        latencyMs: Date.now() - checkedAt,
+        statusCode: response.status,
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        checkedAt,
+        latencyMs: Date.now() - checkedAt,
+        error: controller.signal.aborted
+          ? `Timed out after ${this.options.timeout}ms`
+          : error instanceof Error
+          ? error.message
+          : String(error),
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Derive the new health of an instance from its previous health and the latest probe
+   */
+  evaluate(previous: InstanceHealth | undefined, result: ProbeResult): InstanceHealth {
+    if (result.ok) {
+      return { status: 'UP', consecutiveFailures: 0, lastProbe: result };
+    }
+
+    const consecutiveFailures = (previous?.consecutiveFailures || 0) + 1;
+    return {
+      status: consecutiveFailures >= this.options.failureThreshold ? 'DOWN' : 'DEGRADED',
+      consecutiveFailures,
+      lastProbe: result,
+    };
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Change history of each service
+ *
+ * Keeps the most recent changes to every service, including services that
+ * have since been deregistered or evicted, so it is possible to tell when a
+ * service registered, changed or disappeared.
+ */
+
+import { RegistryEvent, RegistryEventType, ServiceInstance } from './types';
+
+export interface HistoryEntry {
+  type: RegistryEventType;
+  instanceId: string;
+  // The instance after the change, or as it was before removal
+  instance: ServiceInstance;
+  timestamp: number;
+}
+
+export class ServiceHistory {
+  // Entries by service name, oldest first
+  private entries: Map<string, HistoryEntry[]> = new Map();
+
+  // Keeps at most `limit` entries per service
+  constructor(private limit = 100) {}
+
+  /**
+   * Append a registry change to the history of its service
+   */
+  record(event: RegistryEvent): void {
+    const entries = this.entries.get(event.name) || [];
+    entries.push({
+      type: event.type,
+      instanceId: event.instanceId,
+      instance: event.instance,
+      timestamp: event.timestamp,
+    });
+    if (entries.length > this.limit) {
+      entries.splice(0, entries.length - this.limit);
+    }
+    this.entries.set(event.name, entries);
+  }
+
+  /**
+   * Changes to a service, oldest first. Empty for services never seen.
+   */
+  get(name: string): HistoryEntry[] {
+    return [...(this.entries.get(name) || [])];
+  }
+}
@@ -4,3 +4,6 @@ export * from './client';
 // This file is just a barrel export, the server is started directly from server.ts
 
 export { ServiceRegistryClient } from './client';
+
+// Generated SDK for registry operations the client doesn't wrap
+export * as registryApi from './generated';
@@ -0,0 +1,41 @@
+/**
+ * Registration leases
+ *
+ * Every instance holds a lease for a number of seconds that is renewed by
+ * each heartbeat. The TTL is negotiated at registration: the requested value
+ * is clamped to the limits configured for the service.
+ */
+
+import { LeaseLimits } from './config';
+
+export interface Lease {
+  // Granted TTL in seconds
+  ttl: number;
+  // Time the lease runs out unless renewed, in milliseconds since the epoch
+  expiresAt: number;
+}
+
+export interface LeasePolicyOptions extends LeaseLimits {
+  services?: Record<string, Partial<LeaseLimits>>;
+}
+
+export class LeasePolicy {
+  constructor(private options: LeasePolicyOptions = { defaultTtl: 60, minTtl: 10, maxTtl: 300 }) {}
+
+  /**
+   * Limits for a service, with its overrides applied
+   */
+  limits(name: string): LeaseLimits {
+    const { defaultTtl, minTtl, maxTtl } = this.options;
+    return { defaultTtl, minTtl, maxTtl, ...this.options.services?.[name] };
+  }
+
+  /**
+   * TTL to grant a registration that asked for the given TTL
+   */
+  grant(name: string, requestedTtl?: number): number {
+    const { defaultTtl, minTtl, maxTtl } = this.limits(name);
+    const ttl = requestedTtl ?? defaultTtl;
+    return Math.min(Math.max(ttl, minTtl), maxTtl);
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * Prometheus metrics
+ *
+ * Counts registry changes, heartbeats and request latencies, and renders
+ * them together with the current services and instances in the Prometheus
+ * text format served at /metrics.
+ */
+
+import { Request, RequestHandler } from 'express';
+import { RegistryEvent, ServiceInfo } from './types';
+
+// Media type of the Prometheus text format
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Request latency buckets in seconds
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+// Heartbeat age buckets in seconds, around the default 60s lease
+const HEARTBEAT_BUCKETS = [1, 5, 10, 15, 20, 30, 45, 60, 90, 120, 300];
+
+type Labels = Record<string, string>;
+
+// A sample line, e.g. `registry_instances{service="fire-service"} 2`
+function sample(name: string, labels: Labels, value: number): string {
+  const pairs = Object.entries(labels).map(([key, label]) => `${key}="${escapeLabel(label)}"`);
+  return `${name}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${value}`;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function header(name: string, type: string, help: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+class Counter {
+  // Values by the JSON of their labels
+  private values: Map<string, number> = new Map();
+
+  constructor(private name: string, private help: string) {}
+
+  inc(labels: Labels): void {
+    const key = JSON.stringify(labels);
+    this.values.set(key, (this.values.get(key) || 0) + 1);
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, 'counter', this.help),
+      ...Array.from(this.values, ([key, value]) => sample(this.name, JSON.parse(key), value)),
+    ];
+  }
+}
+
+interface HistogramSeries {
+  // Observations per bucket, not cumulative
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+class Histogram {
+  private series: Map<string, HistogramSeries> = new Map();
+
+  constructor(private name: string, private help: string, private buckets: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = JSON.stringify(labels);
+    const series = this.series.get(key) || {
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    if (bucket >= 0) series.counts[bucket]++;
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  render(): string[] {
+    const lines = header(this.name, 'histogram', this.help);
+    for (const [key, series] of this.series) {
+      const labels: Labels = JSON.parse(key);
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += series.counts[i];
+        lines.push(sample(`${this.name}_bucket`, { ...labels, le: String(bound) }, cumulative));
+      });
+      lines.push(sample(`${this.name}_bucket`, { ...labels, le: '+Inf' }, series.count));
+      lines.push(sample(`${this.name}_sum`, labels, series.sum));
+      lines.push(sample(`${this.name}_count`, labels, series.count));
+    }
+    return lines;
+  }
+}
+
+export class RegistryMetrics {
+  private registrations = new Counter(
+    'registry_registrations_total',
+    'Instances registered on this node, including re-registrations'
+  );
+  private deregistrations = new Counter(
+    'registry_deregistrations_total',
+    'Instances deregistered on this node'
+  );
+  private evictions = new Counter(
+    'registry_evictions_total',
+    'Instances evicted on this node after their lease ran out'
+  );
+  private healthChanges = new Counter(
+    'registry_health_changes_total',
+    'Changes of the probed health status of instances, by new status'
+  );
+  private heartbeatAge = new Histogram(
+    'registry_heartbeat_age_seconds',
+    'Time since the previous heartbeat of an instance when the next one arrives',
+    HEARTBEAT_BUCKETS
+  );
+  private requestDuration = new Histogram(
+    'registry_http_request_duration_seconds',
+    'Time to answer a request, by method, route and status',
+    LATENCY_BUCKETS
+  );
+  // Last known health status by service and instance ID
+  private health: Map<string, string> = new Map();
+
+  /**
+   * Count a registry change
+   *
+   * Changes copied from another registry node are counted there.
+   */
+  record(event: RegistryEvent): void {
+    const key = `${event.name}/${event.instanceId}`;
+    const labels = { service: event.name };
+
+    if (event.type === 'deregistered' || event.type === 'evicted') {
+      this.health.delete(key);
+    } else {
+      const status = event.instance.health?.status;
+      if (status && status !== this.health.get(key)) {
+        this.health.set(key, status);
+        this.healthChanges.inc({ ...labels, status });
+      }
+    }
+
+    if (event.replicated) return;
+    switch (event.type) {
+      case 'registered':
+        this.registrations.inc(labels);
+        break;
+      case 'deregistered':
+        this.deregistrations.inc(labels);
+        break;
+      case 'evicted':
+        this.evictions.inc(labels);
+        break;
+    }
+  }
+
+  /**
+   * Record how long ago an instance sent its previous heartbeat, in milliseconds
+   */
+  observeHeartbeat(serviceName: string, age: number): void {
+    this.heartbeatAge.observe({ service: serviceName }, age / 1000);
+  }
+
+  /**
+   * Express middleware timing every request by route
+   *
+   * Event streams are left out, they stay open for as long as the client watches.
+   */
+  requestTimer(): RequestHandler {
+    return (req, res, next) => {
+      const start = process.hrtime.bigint();
+      res.on('finish', () => {
+        if (String(res.getHeader('Content-Type')).startsWith('text/event-stream')) return;
+        this.requestDuration.observe(
+          { method: req.method, route: routeOf(req), status: String(res.statusCode) },
+          Number(process.hrtime.bigint() - start) / 1e9
+        );
+      });
+      next();
+    };
+  }
+
+  /**
+   * All metrics in the Prometheus text format, with gauges for the given services
+   */
+  render(services: Record<string, ServiceInfo>, now = Date.now()): string {
+    const lines = [
+      ...header('registry_services', 'gauge', 'Registered services'),
+      sample('registry_services', {}, Object.keys(services).length),
+      ...header(
+        'registry_instances',
+        'gauge',
+        'Registered instances, by lifecycle state and health'
+      ),
+    ];
+
+    const oldest: string[] = [];
+    for (const [name, service] of Object.entries(services)) {
+      const counts = new Map<string, number>();
+      for (const instance of service.instances) {
+        const key = JSON.stringify({
+          service: name,
+          state: instance.state ?? 'active',
+          status: instance.health?.status ?? 'UNKNOWN',
+        });
+        counts.set(key, (counts.get(key) || 0) + 1);
+      }
+      for (const [key, count] of counts) {
+        lines.push(sample('registry_instances', JSON.parse(key), count));
+      }
+
+      const lastHeartbeat = Math.min(
+        ...service.instances.map((instance) => instance.lastHeartbeat)
+      );
+      oldest.push(
+        sample(
+          'registry_oldest_heartbeat_age_seconds',
+          { service: name },
+          (now - lastHeartbeat) / 1000
+        )
+      );
+    }
+
+    lines.push(
+      ...header(
+        'registry_oldest_heartbeat_age_seconds',
+        'gauge',
+        'Time since the instance of a service that was heard from longest ago sent a heartbeat'
+      ),
+      ...oldest,
+      ...this.registrations.render(),
+      ...this.deregistrations.render(),
+      ...this.evictions.render(),
+      ...this.healthChanges.render(),
+      ...this.heartbeatAge.render(),
+      ...this.requestDuration.render()
+    );
+    return `${lines.join('\n')}\n`;
+  }
+}
+
+// The route a request matched, as documented in the spec when the validator saw it
+function routeOf(req: Request): string {
+  const openapi = (req as Request & { openapi?: { openApiRoute?: string } }).openapi;
+  if (openapi?.openApiRoute) return openapi.openApiRoute;
+  if (req.route) return `${req.baseUrl}${String(req.route.path)}`;
+  return 'other';
+}
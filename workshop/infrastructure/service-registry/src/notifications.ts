@@ -0,0 +1,67 @@
+/**
+ * Event bus notifications
+ *
+ * Publishes every registry change to the event bus as
+ * `registry.service.<type>`, e.g. `registry.service.evicted`, so other
+ * services and dashboards can react to services coming and going.
+ */
+
+import type { EventPublisher } from '@city-services/event-bus';
+import type { ServiceRegistry } from './registry';
+import { RegistryEvent } from './types';
+
+// Prefix of the topics registry changes are published to
+export const TOPIC_PREFIX = 'registry.service';
+
+export class RegistryNotifier {
+  private unwatch?: () => void;
+
+  constructor(
+    private registry: ServiceRegistry,
+    private publisher: Pick<EventPublisher, 'publish'>,
+    // Included with every event so consumers can tell registry nodes apart
+    private nodeId: string
+  ) {}
+
+  /**
+   * Start publishing registry changes
+   */
+  start(): void {
+    if (this.unwatch) return;
+    this.unwatch = this.registry.watch((event) => {
+      this.notify(event).catch(() => undefined);
+    });
+  }
+
+  stop(): void {
+    this.unwatch?.();
+    this.unwatch = undefined;
+  }
+
+  /**
+   * Publish a single change
+   *
+   * Changes copied from another registry node were already published there.
+   * Failures are logged and otherwise ignored, the registry keeps working
+   * without the event bus.
+   */
+  async notify(event: RegistryEvent): Promise<void> {
+    if (event.replicated) return;
+
+    try {
+      await this.publisher.publish(
+        `${TOPIC_PREFIX}.${event.type}`,
+        {
+          name: event.name,
+          instanceId: event.instanceId,
+          instance: event.instance,
+          timestamp: new Date(event.timestamp).toISOString(),
+          node: this.nodeId,
+        },
+        { service: event.name, origin: 'service-registry' }
+      );
+    } catch (error) {
+      console.error(`Failed to publish ${event.type} event for '${event.name}':`, error);
+    }
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Instance queries
+ *
+ * Filters on tags, metadata and version shared by the registry API and
+ * the client's discover().
+ */
+
+import semver from 'semver';
+import { LifecycleState } from './types';
+
+const LIFECYCLE_STATES: LifecycleState[] = ['active', 'draining', 'maintenance'];
+
+export interface InstanceQuery {
+  // Instances must carry every one of these tags
+  tags?: string[];
+  // Instances must have these metadata values, compared as strings
+  metadata?: Record<string, string>;
+  // Semver range the instance version must satisfy, e.g. '^2.0.0'
+  versionRange?: string;
+  // Instances must be in one of these lifecycle states
+  states?: LifecycleState[];
+}
+
+// The instance fields a query looks at
+interface Queryable {
+  version?: string;
+  tags?: string[];
+  metadata?: Record<string, any>;
+  state?: LifecycleState;
+}
+
+/**
+ * Check whether an instance satisfies every condition of a query
+ */
+export function matchesQuery(instance: Queryable, query: InstanceQuery): boolean {
+  if (query.tags && !query.tags.every((tag) => instance.tags?.includes(tag))) {
+    return false;
+  }
+
+  if (query.metadata) {
+    for (const [key, expected] of Object.entries(query.metadata)) {
+      const actual = instance.metadata?.[key];
+      if (actual === undefined || actual === null || String(actual) !== expected) {
+        return false;
+      }
+    }
+  }
+
+  if (query.versionRange) {
+    if (!instance.version || !semver.satisfies(instance.version, query.versionRange)) {
+      return false;
+    }
+  }
+
+  if (query.states && !query.states.includes(instance.state ?? 'active')) {
+    return false;
+  }
+
+  return true;
+}
+
+export function isEmptyQuery(query: InstanceQuery): boolean {
+  return (
+    !query.tags?.length &&
+    Object.keys(query.metadata || {}).length === 0 &&
+    !query.versionRange &&
+    !query.states
+  );
+}
+
+/**
+ * Build a query from request parameters
+ *
+ * Accepts `tag` (repeated or comma separated), `metadata.<key>` or
+ * `metadata[<key>]`, `version` as a semver range and `state` (repeated or
+ * comma separated). Throws for an invalid range or state.
+ */
+export function parseQuery(params: Record<string, unknown>): InstanceQuery {
+  const query: InstanceQuery = {};
+
+  const tags = splitList(params.tag);
+  if (tags.length > 0) {
+    query.tags = tags;
+  }
+
+  const metadata: Record<string, string> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (key.startsWith('metadata.')) {
+      metadata[key.slice('metadata.'.length)] = String(value);
+    }
+  }
+  if (params.metadata && typeof params.metadata === 'object') {
+    for (const [key, value] of Object.entries(params.metadata)) {
+      metadata[key] = String(value);
+    }
+  }
+  if (Object.keys(metadata).length > 0) {
+    query.metadata = metadata;
+  }
+
+  if (params.version !== undefined) {
+    const range = String(params.version);
+    if (semver.validRange(range) === null) {
+      throw new Error(`Invalid version range '${range}'`);
+    }
+    query.versionRange = range;
+  }
+
+  const states = splitList(params.state);
+  if (states.length > 0) {
+    const invalid = states.find((state) => !LIFECYCLE_STATES.includes(state as LifecycleState));
+    if (invalid) {
+      throw new Error(
+        `Invalid state '${invalid}', expected one of: ${LIFECYCLE_STATES.join(', ')}`
+      );
+    }
+    query.states = states as LifecycleState[];
+  }
+
+  return query;
+}
+
+// Values of a parameter that may be repeated or comma separated
+function splitList(value: unknown): string[] {
+  return ([] as unknown[])
+    .concat(value ?? [])
+    .flatMap((item) => String(item).split(','))
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,403 @@
+import { randomUUID } from 'crypto';
+import { Lease, LeasePolicy } from './lease';
+import { InstanceQuery, isEmptyQuery, matchesQuery } from './query';
+import { MemoryStore, RegistryStore } from './storage';
+import {
+  HealthStatus,
+  InstanceHealth,
+  InstanceRegistration,
+  InstanceUpdate,
+  RegistryEvent,
+  RegistryEventType,
+  ServiceInfo,
+  ServiceInstance,
+} from './types';
+
+// Identifies a single instance of a service
+export interface InstanceRef {
+  name: string;
+  instanceId: string;
+}
+
+export type RegistryListener = (event: RegistryEvent) => void;
+
+// Number of recent events kept so watchers can resume after a reconnect
+const EVENT_BUFFER_SIZE = 1000;
+
+/**
+ * In-memory view of all registered services and their instances
+ *
+ * Reads are served from memory, every change is written through to the
+ * configured store so registrations survive a registry restart.
+ */
+export class ServiceRegistry {
+  // Instances of each service, keyed by service name and then instance ID
+  private services: Map<string, Map<string, ServiceInstance>> = new Map();
+  // Time the persisted state was restored, used as a grace period for stale checks
+  private restoredAt = 0;
+  // Index of the most recent change
+  private eventIndex = 0;
+  // Most recent changes, oldest first
+  private events: RegistryEvent[] = [];
+  private listeners: Set<RegistryListener> = new Set();
+
+  constructor(
+    private store: RegistryStore = new MemoryStore(),
+    private leases: LeasePolicy = new LeasePolicy()
+  ) {}
+
+  /**
+   * Restore registrations from the store
+   */
+  async initialize(): Promise<void> {
+    const persisted = await this.store.load();
+
+    this.services.clear();
+    for (const [name, instances] of Object.entries(persisted)) {
+      this.services.set(
+        name,
+        new Map(instances.map((instance) => [instance.instanceId, instance]))
+      );
+    }
+    this.restoredAt = Date.now();
+  }
+
+  /**
+   * Register an instance of a service
+   *
+   * Instances without an ID replace an existing instance with the same URL,
+   * otherwise they are given a new ID. The requested lease TTL is clamped
+   * to the limits of the service.
+   */
+  async register(name: string, info: InstanceRegistration): Promise<ServiceInstance> {
+    const instances = this.services.get(name) || new Map<string, ServiceInstance>();
+    const instanceId =
+      info.instanceId ||
+      Array.from(instances.values()).find((instance) => instance.url === info.url)?.instanceId ||
+      randomUUID();
+
+    const instance: ServiceInstance = {
+      ...info,
+      version: info.version ?? metadataVersion(info.metadata),
+      ttl: this.leases.grant(name, info.ttl),
+      instanceId,
+      lastHeartbeat: Date.now(),
+    };
+
+    instances.set(instanceId, instance);
+    this.services.set(name, instances);
+    await this.store.save(name, instance);
+    this.publish('registered', name, instance);
+    return instance;
+  }
+
+  /**
+   * Update one instance, or every instance of the service when no ID is given
+   */
+  async update(name: string, info: InstanceUpdate, instanceId?: string): Promise<boolean> {
+    const targets = this.resolve(name, instanceId);
+    if (targets.length === 0) return false;
+
+    const instances = this.services.get(name)!;
+    for (const target of targets) {
+      const updated: ServiceInstance = {
+        ...target,
+        ...stripUndefined(info),
+        instanceId: target.instanceId,
+        lastHeartbeat: Date.now(),
+      };
+
+      instances.set(target.instanceId, updated);
+      await this.store.save(name, updated);
+      this.publish('updated', name, updated);
+    }
+    return true;
+  }
+
+  /**
+   * Apply a copy of an instance received from another registry node
+   *
+   * The copy with the most recent heartbeat wins, and copies whose lease
+   * already ran out are ignored. Health is probed by every node on its own,
+   * so the local health of the instance is kept. Returns whether anything
+   * changed.
+   */
+  async merge(name: string, instance: ServiceInstance): Promise<boolean> {
+    const existing = this.getInstance(name, instance.instanceId);
+    if (existing && existing.lastHeartbeat >= instance.lastHeartbeat) return false;
+    if (this.leaseOf(name, instance).expiresAt < Date.now()) return false;
+
+    const merged: ServiceInstance = { ...instance, health: existing?.health };
+
+    const instances = this.services.get(name) || new Map<string, ServiceInstance>();
+    instances.set(merged.instanceId, merged);
+    this.services.set(name, instances);
+    await this.store.save(name, merged);
+
+    // A renewed heartbeat alone isn't a change watchers need to hear about
+    if (!existing) {
+      this.publish('registered', name, merged, true);
+    } else if (!sameRegistration(existing, merged)) {
+      this.publish('updated', name, merged, true);
+    }
+    return true;
+  }
+
+  /**
+   * Get a service with its instances, optionally only the instances matching a query
+   */
+  get(name: string, query: InstanceQuery = {}): ServiceInfo | undefined {
+    const instances = this.getInstances(name, query);
+    if (instances.length === 0) return undefined;
+
+    // Mirror the most recently seen instance at the top level
+    const latest = instances.reduce((a, b) => (b.lastHeartbeat > a.lastHeartbeat ? b : a));
+    return {
+      url: latest.url,
+      healthCheckUrl: latest.healthCheckUrl,
+      metadata: latest.metadata,
+      lastHeartbeat: latest.lastHeartbeat,
+      status: combinedStatus(instances),
+      instances,
+    };
+  }
+
+  getInstances(name: string, query: InstanceQuery = {}): ServiceInstance[] {
+    const instances = Array.from(this.services.get(name)?.values() || []);
+    return isEmptyQuery(query)
+      ? instances
+      : instances.filter((instance) => matchesQuery(instance, query));
+  }
+
+  getInstance(name: string, instanceId: string): ServiceInstance | undefined {
+    return this.services.get(name)?.get(instanceId);
+  }
+
+  /**
+   * Get all services, leaving out services without instances matching the query
+   */
+  getAll(query: InstanceQuery = {}): Record<string, ServiceInfo> {
+    const result: Record<string, ServiceInfo> = {};
+    for (const name of this.services.keys()) {
+      const service = this.get(name, query);
+      if (service) {
+        result[name] = service;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Record a heartbeat for one instance, or every instance of the service when no ID is given
+   */
+  async recordHeartbeat(name: string, instanceId?: string): Promise<boolean> {
+    const targets = this.resolve(name, instanceId);
+    if (targets.length === 0) return false;
+
+    for (const instance of targets) {
+      instance.lastHeartbeat = Date.now();
+      await this.store.save(name, instance);
+    }
+    return true;
+  }
+
+  /**
+   * Record the outcome of an active health probe
+   *
+   * Health is derived state, so probe results are not written through to the
+   * store on their own and instances are probed again after a restart.
+   * replicated is set when another cluster node reports the change.
+   */
+  setHealth(name: string, instanceId: string, health: InstanceHealth, replicated = false): boolean {
+    const instance = this.getInstance(name, instanceId);
+    if (!instance) return false;
+
+    const previous = instance.health?.status;
+    instance.health = health;
+    // Watchers only care when the instance changes state, not about every probe
+    if (previous !== health.status) {
+      this.publish('updated', name, instance, replicated);
+    }
+    return true;
+  }
+
+  /**
+   * Current lease of an instance
+   *
+   * Restored instances get a full TTL after startup to send their next heartbeat.
+   */
+  leaseOf(name: string, instance: ServiceInstance): Lease {
+    const ttl = instance.ttl ?? this.leases.limits(name).defaultTtl;
+    return {
+      ttl,
+      expiresAt: Math.max(instance.lastHeartbeat, this.restoredAt) + ttl * 1000,
+    };
+  }
+
+  // Remove instances whose lease ran out, or that haven't sent a heartbeat
+  // within maxAgeSec when given. In a cluster every node evicts on its own,
+  // so replicated is set when another node reports the evictions.
+  async removeStaleServices(maxAgeSec?: number, replicated = false): Promise<InstanceRef[]> {
+    const now = Date.now();
+    const removed: InstanceRef[] = [];
+
+    for (const [name, instances] of this.services.entries()) {
+      for (const [instanceId, instance] of instances.entries()) {
+        const lease = this.leaseOf(
+          name,
+          maxAgeSec === undefined ? instance : { ...instance, ttl: maxAgeSec }
+        );
+        if (lease.expiresAt < now) {
+          instances.delete(instanceId);
+          removed.push({ name, instanceId });
+          this.publish('evicted', name, instance, replicated);
+        }
+      }
+      if (instances.size === 0) {
+        this.services.delete(name);
+      }
+    }
+
+    await Promise.all(removed.map(({ name, instanceId }) => this.store.remove(name, instanceId)));
+    return removed;
+  }
+
+  /**
+   * Delete one instance, or the whole service when no ID is given
+   *
+   * Replicated deletes were made on another registry node.
+   */
+  async delete(name: string, instanceId?: string, replicated = false): Promise<boolean> {
+    const targets = this.resolve(name, instanceId);
+    if (targets.length === 0) return false;
+
+    const instances = this.services.get(name)!;
+    for (const target of targets) {
+      instances.delete(target.instanceId);
+      await this.store.remove(name, target.instanceId);
+      this.publish('deregistered', name, target, replicated);
+    }
+    if (instances.size === 0) {
+      this.services.delete(name);
+    }
+    return true;
+  }
+
+  /**
+   * Subscribe to changes, returns a function that removes the listener
+   */
+  watch(listener: RegistryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Changes made after the given index, or undefined when some of them
+   * are no longer buffered and the caller has to start from a snapshot
+   */
+  eventsSince(index: number): RegistryEvent[] | undefined {
+    if (index > this.eventIndex) return undefined;
+    const oldest = this.events[0]?.index ?? this.eventIndex + 1;
+    if (index < oldest - 1) return undefined;
+    return this.events.filter((event) => event.index > index);
+  }
+
+  // Index of the most recent change, 0 when nothing changed yet
+  get currentIndex(): number {
+    return this.eventIndex;
+  }
+
+  // Get the count of registered services
+  get count(): number {
+    return this.services.size;
+  }
+
+  // Get the count of registered instances across all services
+  get instanceCount(): number {
+    let total = 0;
+    this.services.forEach((instances) => {
+      total += instances.size;
+    });
+    return total;
+  }
+
+  /**
+   * Flush pending writes and release the store
+   */
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+
+  // Record a change and notify watchers
+  private publish(
+    type: RegistryEventType,
+    name: string,
+    instance: ServiceInstance,
+    replicated = false
+  ): void {
+    const event: RegistryEvent = {
+      index: ++this.eventIndex,
+      type,
+      name,
+      instanceId: instance.instanceId,
+      instance: { ...instance },
+      timestamp: Date.now(),
+      ...(replicated && { replicated }),
+    };
+
+    this.events.push(event);
+    if (this.events.length > EVENT_BUFFER_SIZE) {
+      this.events.shift();
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Registry listener failed:', error);
+      }
+    }
+  }
+
+  // Find the instances targeted by an operation
+  private resolve(name: string, instanceId?: string): ServiceInstance[] {
+    if (instanceId === undefined) {
+      return this.getInstances(name);
+    }
+    const instance = this.getInstance(name, instanceId);
+    return instance ? [instance] : [];
+  }
+}
+
+// Instances without a health check are assumed UP while they keep sending heartbeats
+function instanceStatus(instance: ServiceInstance): HealthStatus {
+  return instance.health?.status || 'UP';
+}
+
+// A service is UP when all instances are, DOWN when none are reachable and DEGRADED otherwise
+function combinedStatus(instances: ServiceInstance[]): HealthStatus {
+  const statuses = instances.map(instanceStatus);
+  if (statuses.every((status) => status === 'UP')) return 'UP';
+  if (statuses.every((status) => status === 'DOWN')) return 'DOWN';
+  return 'DEGRADED';
+}
+
+// Services that registered before version was a field kept it in their metadata
+function metadataVersion(metadata: Record<string, any> | undefined): string | undefined {
+  return typeof metadata?.version === 'string' ? metadata.version : undefined;
+}
+
+// Drop undefined values so partial updates don't clear existing fields
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+// Compare what a service registered, ignoring heartbeats and probe results
+function sameRegistration(a: ServiceInstance, b: ServiceInstance): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof ServiceInstance)[]);
+  keys.delete('lastHeartbeat');
+  keys.delete('health');
+  return Array.from(keys).every((key) => JSON.stringify(a[key]) === JSON.stringify(b[key]));
+}
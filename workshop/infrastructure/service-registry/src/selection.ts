@@ -0,0 +1,126 @@
+/**
+ * Instance selection strategies
+ *
+ * Used by the ServiceRegistryClient to choose one instance of a service
+ * when several replicas are registered under the same name.
+ */
+
+import { createHash } from 'crypto';
+
+export type SelectionStrategy = 'round-robin' | 'random' | 'least-recently-failed';
+
+// The instance fields selection looks at
+interface Selectable {
+  instanceId: string;
+  version?: string;
+  weight?: number;
+  label?: string;
+}
+
+export class InstanceSelector {
+  // Position of the next round-robin pick per service
+  private counters: Map<string, number> = new Map();
+  // Time of the last reported failure per service instance
+  private failures: Map<string, number> = new Map();
+
+  constructor(private strategy: SelectionStrategy = 'round-robin') {}
+
+  /**
+   * Choose an instance of a service according to the configured strategy
+   *
+   * Once any instance has a weight, or a sticky key is given, instances are
+   * picked by weight instead. The same key keeps picking the same release
+   * as long as the weights of the releases don't change.
+   */
+  select<T extends Selectable>(serviceName: string, instances: T[], key?: string): T | undefined {
+    if (instances.length === 0) return undefined;
+
+    if (key !== undefined || instances.some((instance) => instance.weight !== undefined)) {
+      const weighted = this.weighted(instances, key);
+      if (weighted) return weighted;
+    }
+
+    switch (this.strategy) {
+      case 'random':
+        return instances[Math.floor(Math.random() * instances.length)];
+      case 'least-recently-failed':
+        return this.roundRobin(serviceName, this.leastRecentlyFailed(serviceName, instances));
+      case 'round-robin':
+      default:
+        return this.roundRobin(serviceName, instances);
+    }
+  }
+
+  /**
+   * Remember that a call to an instance failed
+   */
+  recordFailure(serviceName: string, instanceId: string): void {
+    this.failures.set(`${serviceName}/${instanceId}`, Date.now());
+  }
+
+  // Pick a release by its total weight, then one of its instances by weight.
+  // Undefined when every instance has weight 0.
+  private weighted<T extends Selectable>(instances: T[], key?: string): T | undefined {
+    // Sorted so sticky keys don't depend on the order the registry lists instances in
+    const sorted = [...instances].sort((a, b) => a.instanceId.localeCompare(b.instanceId));
+    const releases = new Map<string, T[]>();
+    for (const instance of sorted) {
+      const release = instance.label ?? instance.version ?? '';
+      releases.set(release, [...(releases.get(release) || []), instance]);
+    }
+
+    const release = pickWeighted(
+      Array.from(releases.keys()).sort(),
+      (name) => totalWeight(releases.get(name) || []),
+      key === undefined ? Math.random() : hashPoint(key)
+    );
+    if (release === undefined) return undefined;
+
+    return pickWeighted(
+      releases.get(release) || [],
+      weightOf,
+      key === undefined ? Math.random() : hashPoint(`${key}/${release}`)
+    );
+  }
+
+  private roundRobin<T>(serviceName: string, instances: T[]): T {
+    const position = this.counters.get(serviceName) || 0;
+    this.counters.set(serviceName, position + 1);
+    return instances[position % instances.length];
+  }
+
+  // Instances that never failed come first, otherwise the ones that failed longest ago
+  private leastRecentlyFailed<T extends { instanceId: string }>(
+    serviceName: string,
+    instances: T[]
+  ): T[] {
+    const failedAt = (instance: T) =>
+      this.failures.get(`${serviceName}/${instance.instanceId}`) || 0;
+    const oldest = Math.min(...instances.map(failedAt));
+    return instances.filter((instance) => failedAt(instance) === oldest);
+  }
+}
+
+const weightOf = (instance: Selectable) => Math.max(instance.weight ?? 1, 0);
+
+const totalWeight = (instances: Selectable[]) =>
+  instances.reduce((sum, instance) => sum + weightOf(instance), 0);
+
+// The item whose share of the total weight contains `point`, a number in [0, 1)
+function pickWeighted<T>(items: T[], weight: (item: T) => number, point: number): T | undefined {
+  const total = items.reduce((sum, item) => sum + weight(item), 0);
+  if (total <= 0) return undefined;
+
+  let remaining = point * total;
+  for (const item of items) {
+    remaining -= weight(item);
+    if (remaining < 0 && weight(item) > 0) return item;
+  }
+  // Rounding can leave a sliver past the last item
+  return [...items].reverse().find((item) => weight(item) > 0);
+}
+
+// Map a sticky key to a stable point in [0, 1)
+function hashPoint(key: string): number {
+  return createHash('sha256').update(key).digest().readUInt32BE(0) / 2 ** 32;
+}
@@ -1,5 +1,27 @@
 import express, { Request, Response, NextFunction } from 'express';
+import * as OpenApiValidator from 'express-openapi-validator';
+import path from 'path';
+import semver from 'semver';
 import { errorHandler, requestLogger } from '@city-services/common';
+import { EventPublisher } from '@city-services/event-bus';
+import { ADMIN_SCOPE, authorize, READ_SCOPE, TokenIntrospector, WRITE_SCOPE } from './auth';
+import { ApiCatalog } from './catalog';
+import { ClusterReplicator, ReplicatedChange } from './cluster';
+import config from './config';
+import { TokenProvider } from './credentials';
+import { setupDashboard } from './dashboard';
+import { DnsResponder } from './dns';
+import { buildGraph, toDot } from './graph';
+import { HealthChecker } from './health-checker';
+import { ServiceHistory } from './history';
+import { LeasePolicy } from './lease';
+import { METRICS_CONTENT_TYPE, RegistryMetrics } from './metrics';
+import { RegistryNotifier } from './notifications';
+import { InstanceQuery, parseQuery } from './query';
+import { ServiceRegistry } from './registry';
+import { createStore } from './storage';
+import { setupCatalogUI, setupSwaggerUI } from './swagger';
+import { RegistryEvent, ServiceInstance } from './types';
 
 const app = express();
 
@@ -7,199 +29,588 @@ const app = express();
 app.use(express.json());
 app.use(requestLogger('service-registry') as express.RequestHandler);
 
-// In-memory store for service registration
-// In production, this would use a distributed database
-interface ServiceInfo {
-  url: string;
-  healthCheckUrl?: string;
-  metadata: Record<string, any>;
-  lastHeartbeat: number;
-}
+// Counts registry changes and times requests for /metrics
+const metrics = new RegistryMetrics();
+app.use(metrics.requestTimer());
 
-class ServiceRegistry {
-  private services: Map<string, ServiceInfo> = new Map();
+// The API contract, also used to generate the client SDK
+const apiSpecPath = path.join(__dirname, '../api/openapi.yaml');
 
-  register(name: string, info: Omit<ServiceInfo, 'lastHeartbeat'>): void {
-    this.services.set(name, {
-      ...info,
-      lastHeartbeat: Date.now(),
-    });
+// Registrations and published specs are kept in memory and persisted to the configured store
+const store = createStore(config.storage);
+
+// OpenAPI specs published by services
+const catalog = new ApiCatalog(config.catalog, store);
+
+// API documentation at /api-docs, and the specs of all services at /api-docs/catalog
+setupSwaggerUI(app, apiSpecPath);
+setupCatalogUI(app, catalog);
+
+// Web dashboard at /dashboard
+setupDashboard(app);
+
+// Requests and, outside production, responses must match the spec.
+// Security is left to the authorize middleware since it depends on REGISTRY_AUTH.
+app.use(
+  OpenApiValidator.middleware({
+    apiSpec: apiSpecPath,
+    validateRequests: true,
+    validateResponses: config.validateResponses,
+    validateSecurity: false,
+  })
+);
+
+// Registered services and their instances
+const registry = new ServiceRegistry(store, new LeasePolicy(config.lease));
+
+// Start background task to remove instances whose lease ran out
+setInterval(() => {
+  registry.removeStaleServices(undefined, !cluster.reportsEvictions).catch((error) => {
+    console.error('Failed to remove stale services:', error);
+  });
+}, config.lease.sweepInterval);
+
+// Keeps the recent changes of every service, including removed services
+const history = new ServiceHistory(config.events.historyLimit);
+registry.watch((event) => history.record(event));
+registry.watch((event) => metrics.record(event));
+
+// Publishes registry changes to the event bus when enabled
+const notifier = config.events.enabled
+  ? new RegistryNotifier(registry, new EventPublisher(), config.cluster.nodeId)
+  : undefined;
+
+// Probes the health check URL of each registered instance. Every node probes,
+// health changes are published by the node that reports evictions.
+const healthChecker = new HealthChecker(
+  registry,
+  config.healthCheck,
+  () => cluster.reportsEvictions
+);
+
+// Checks bearer tokens with the IAM service when auth is enabled
+const introspector = new TokenIntrospector(config.auth.iamUrl, config.auth.cacheTtl);
+
+// Replicates changes to the other registry nodes when peers are configured
+const cluster = new ClusterReplicator(
+  registry,
+  {
+    ...config.cluster,
+    tokens:
+      config.auth.mode !== 'off' && config.cluster.clientSecret
+        ? new TokenProvider(
+            config.auth.iamUrl,
+            config.cluster.clientId,
+            config.cluster.clientSecret,
+            ADMIN_SCOPE
+          )
+        : undefined,
+  },
+  catalog
+);
+
+// Answers DNS queries for registered services when enabled
+const dnsResponder = new DnsResponder(registry, config.dns);
+
+// Writes need registry:write and may only target the caller's own service
+const requireWrite = (serviceName: (req: Request) => string | undefined) =>
+  authorize(introspector, {
+    scope: WRITE_SCOPE,
+    enabled: config.auth.mode !== 'off',
+    serviceName,
+  });
+const nameFromBody = (req: Request) => req.body?.name;
+const nameFromParams = (req: Request) => req.params.name;
+
+// Reads only need a token with registry:read in 'all' mode
+const requireRead = authorize(introspector, {
+  scope: READ_SCOPE,
+  enabled: config.auth.mode === 'all',
+});
+
+// Replication between nodes needs registry:admin whenever auth is enabled
+const requireAdmin = authorize(introspector, {
+  scope: ADMIN_SCOPE,
+  enabled: config.auth.mode !== 'off',
+});
+
+// Media type of Graphviz DOT documents
+const DOT_TYPE = 'text/vnd.graphviz';
+
+// Build the 404 response for an unknown service or instance
+const notFound = (res: Response, name: string, instanceId?: string) => {
+  return res.status(404).json({
+    error: 'not_found',
+    message: instanceId
+      ? `Instance '${instanceId}' of service '${name}' not found`
+      : `Service '${name}' not found`,
+  });
+};
+
+// Check the optional version of a registration or update.
+// Everything else is covered by the OpenAPI spec, which has no semver format.
+const invalidVersion = (body: { version?: unknown }): string | undefined => {
+  if (
+    body.version !== undefined &&
+    (typeof body.version !== 'string' || semver.valid(body.version) === null)
+  ) {
+    return `Version '${body.version}' is not a valid semantic version`;
   }
+  return undefined;
+};
 
-  update(name: string, info: Partial<Omit<ServiceInfo, 'lastHeartbeat'>>): boolean {
-    const service = this.services.get(name);
-    if (!service) return false;
+// Lease of an instance as returned to the service
+const leaseBody = (name: string, instance: ServiceInstance) => {
+  const lease = registry.leaseOf(name, instance);
+  return { ttl: lease.ttl, expiresAt: new Date(lease.expiresAt).toISOString() };
+};
 
-    this.services.set(name, {
-      ...service,
-      ...info,
-      lastHeartbeat: Date.now(),
-    });
+// Push the current copies of the targeted instances to the other nodes
+const replicateInstances = (name: string, instanceId?: string) => {
+  const instance = instanceId ? registry.getInstance(name, instanceId) : undefined;
+  cluster.replicate({
+    type: 'put',
+    name,
+    instances: instance ? [instance] : registry.getInstances(name),
+  });
+};
+
+// Fetch the spec an instance serves in the background, it is published once it arrives
+const fetchApiSpec = (name: string, instance: ServiceInstance) => {
+  if (!instance.apiSpecUrl) return;
+  const failed = (error: unknown) =>
+    console.error(`Failed to fetch the API spec of ${name}/${instance.instanceId}:`, error);
+  try {
+    const url = new URL(instance.apiSpecUrl, instance.url).toString();
+    catalog.publishFrom(name, url, instance.version).catch(failed);
+  } catch (error) {
+    failed(error);
+  }
+};
+
+// Check a spec sent with a registration or update, responding with 400 when it is invalid
+const validApiSpec = (req: Request, res: Response, version?: string): boolean => {
+  if (req.body.apiSpec === undefined) return true;
+  try {
+    catalog.validate(req.body.apiSpec, version);
     return true;
+  } catch (error) {
+    res.status(400).json({ error: 'bad_request', message: (error as Error).message });
+    return false;
   }
+};
+
+// Publish a spec sent with a registration or update, once the instance is stored
+const publishApiSpec = async (req: Request, name: string, version?: string): Promise<void> => {
+  if (req.body.apiSpec === undefined) return;
+  await catalog.publish(name, req.body.apiSpec, version);
+};
 
-  get(name: string): ServiceInfo | undefined {
-    return this.services.get(name);
+// Parse the tag, metadata and version filters of a read, responding with 400 when invalid
+const readQuery = (req: Request, res: Response): InstanceQuery | undefined => {
+  try {
+    return parseQuery(req.query);
+  } catch (error) {
+    res.status(400).json({ error: 'bad_request', message: (error as Error).message });
+    return undefined;
   }
+};
 
-  getAll(): Record<string, ServiceInfo> {
-    const result: Record<string, ServiceInfo> = {};
-    this.services.forEach((info, name) => {
-      result[name] = info;
-    });
-    return result;
+// Register a service instance
+app.post(
+  '/register',
+  requireWrite(nameFromBody),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const {
+      name,
+      url,
+      instanceId,
+      healthCheckUrl,
+      version,
+      tags,
+      dependencies,
+      weight,
+      label,
+      ttl,
+      state,
+      metadata,
+      apiSpecUrl,
+    } = req.body;
+
+    if (!name || !url) {
+      return res.status(400).json({
+        error: 'bad_request',
+        message: 'Service name and URL are required',
+      });
+    }
+
+    const invalid = invalidVersion(req.body);
+    if (invalid) {
+      return res.status(400).json({ error: 'bad_request', message: invalid });
+    }
+
+    if (!validApiSpec(req, res, version)) return undefined;
+
+    try {
+      const instance = await registry.register(name, {
+        instanceId,
+        url,
+        healthCheckUrl,
+        version,
+        tags,
+        dependencies,
+        weight,
+        label,
+        ttl,
+        state,
+        metadata: metadata || {},
+        apiSpecUrl,
+      });
+      cluster.replicate({ type: 'put', name, instances: [instance] });
+      await publishApiSpec(req, name, version);
+      fetchApiSpec(name, instance);
+
+      return res.status(201).json({
+        status: 'registered',
+        instanceId: instance.instanceId,
+        lease: leaseBody(name, instance),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      return next(error);
+    }
   }
+);
+
+// Update a single instance, or every instance of a service
+app.put(
+  ['/services/:name', '/services/:name/instances/:instanceId'],
+  requireWrite(nameFromParams),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { name, instanceId } = req.params;
+    const {
+      url,
+      healthCheckUrl,
+      version,
+      tags,
+      dependencies,
+      weight,
+      label,
+      state,
+      metadata,
+      apiSpecUrl,
+    } = req.body;
+
+    const invalid = invalidVersion(req.body);
+    if (invalid) {
+      return res.status(400).json({ error: 'bad_request', message: invalid });
+    }
 
-  recordHeartbeat(name: string): boolean {
-    const service = this.services.get(name);
-    if (!service) return false;
+    if (!validApiSpec(req, res, version)) return undefined;
+
+    try {
+      const updated = await registry.update(
+        name,
+        {
+          url,
+          healthCheckUrl,
+          version,
+          tags,
+          dependencies,
+          weight,
+          label,
+          state,
+          metadata,
+          apiSpecUrl,
+        },
+        instanceId
+      );
+
+      if (!updated) {
+        return notFound(res, name, instanceId);
+      }
+      replicateInstances(name, instanceId);
+      await publishApiSpec(req, name, version);
+      // A changed spec URL is fetched again, once for the service
+      const target = instanceId
+        ? registry.getInstance(name, instanceId)
+        : registry.getInstances(name)[0];
+      if (apiSpecUrl !== undefined && target) {
+        fetchApiSpec(name, target);
+      }
 
-    service.lastHeartbeat = Date.now();
-    this.services.set(name, service);
-    return true;
+      return res.json({
+        status: 'updated',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      return next(error);
+    }
   }
+);
 
-  // Remove stale services that haven't sent a heartbeat recently
-  removeStaleServices(maxAgeSec: number = 60): void {
-    const now = Date.now();
-    const staleThreshold = now - maxAgeSec * 1000;
+// Delete a single instance, or a service with all of its instances
+app.delete(
+  ['/services/:name', '/services/:name/instances/:instanceId'],
+  requireWrite(nameFromParams),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { name, instanceId } = req.params;
+
+    try {
+      const deleted = await registry.delete(name, instanceId);
 
-    for (const [name, info] of this.services.entries()) {
-      if (info.lastHeartbeat < staleThreshold) {
-        this.services.delete(name);
+      if (!deleted) {
+        return notFound(res, name, instanceId);
       }
+      cluster.replicate({ type: 'delete', name, instanceId });
+
+      return res.json({
+        status: 'deleted',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      return next(error);
     }
   }
-
-  // Delete a service by name
-  delete(name: string): boolean {
-    return this.services.delete(name);
+);
+
+// Record a heartbeat for a single instance, or every instance of a service
+app.post(
+  '/heartbeat/:name/:instanceId?',
+  requireWrite(nameFromParams),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { name, instanceId } = req.params;
+    // Ages of the heartbeats being renewed
+    const now = Date.now();
+    const renewed = instanceId
+      ? [registry.getInstance(name, instanceId)]
+      : registry.getInstances(name);
+    const ages = renewed.flatMap((instance) => (instance ? [now - instance.lastHeartbeat] : []));
+
+    try {
+      const updated = await registry.recordHeartbeat(name, instanceId);
+
+      if (updated) {
+        ages.forEach((age) => metrics.observeHeartbeat(name, age));
+        replicateInstances(name, instanceId);
+        // A single instance learns when its renewed lease runs out
+        const instance = instanceId ? registry.getInstance(name, instanceId) : undefined;
+        return res.json({
+          status: 'ok',
+          ...(instance && { lease: leaseBody(name, instance) }),
+          timestamp: new Date().toISOString(),
+        });
+      } else {
+        return notFound(res, name, instanceId);
+      }
+    } catch (error) {
+      return next(error);
+    }
   }
+);
 
-  // Get the count of registered services
-  get count(): number {
-    return this.services.size;
-  }
-}
+// Get all instances of a service, optionally filtered by tag, metadata and version
+app.get('/services/:name/instances', requireRead, (req: Request, res: Response) => {
+  const name = req.params.name;
+  const query = readQuery(req, res);
+  if (!query) return;
 
-const registry = new ServiceRegistry();
+  const instances = registry.getInstances(name, query);
 
-// Start background task to remove stale services
-setInterval(() => {
-  registry.removeStaleServices();
-}, 30000); // Check every 30 seconds
+  if (instances.length === 0) {
+    return notFound(res, name);
+  }
 
-// Register a service
-app.post('/register', (req: Request, res: Response) => {
-  const { name, url, healthCheckUrl, metadata } = req.body;
+  return res.json(instances);
+});
 
-  if (!name || !url) {
-    return res.status(400).json({
-      error: 'bad_request',
-      message: 'Service name and URL are required',
-    });
-  }
+// Get a single instance of a service
+app.get('/services/:name/instances/:instanceId', requireRead, (req: Request, res: Response) => {
+  const { name, instanceId } = req.params;
+  const instance = registry.getInstance(name, instanceId);
 
-  registry.register(name, {
-    url,
-    healthCheckUrl,
-    metadata: metadata || {},
-  });
+  if (!instance) {
+    return notFound(res, name, instanceId);
+  }
 
-  return res.status(201).json({
-    status: 'registered',
-    timestamp: new Date().toISOString(),
-  });
+  return res.json(instance);
 });
 
-// Update a service
-app.put('/services/:name', (req: Request, res: Response) => {
+// Get the recent changes to a service, also after it was deregistered or evicted
+app.get('/services/:name/history', requireRead, (req: Request, res: Response) => {
   const name = req.params.name;
-  const { url, healthCheckUrl, metadata } = req.body;
+  const entries = history.get(name);
 
-  if (!registry.get(name)) {
-    return res.status(404).json({
-      error: 'not_found',
-      message: `Service '${name}' not found`,
-    });
+  if (entries.length === 0) {
+    return notFound(res, name);
   }
 
-  const updated = registry.update(name, {
-    url,
-    healthCheckUrl,
-    metadata,
+  return res.json(entries);
+});
+
+// Stream registry changes as Server-Sent Events
+// Starts with a snapshot unless the client resumes from a buffered index
+app.get('/services/watch', requireRead, (req: Request, res: Response) => {
+  const service = typeof req.query.service === 'string' ? req.query.service : undefined;
+  const resumeFrom = req.header('Last-Event-ID') ?? req.query.since;
+  const since = resumeFrom !== undefined ? parseInt(String(resumeFrom), 10) : NaN;
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
   });
+  res.flushHeaders();
+
+  const send = (type: string, id: number, data: unknown) => {
+    res.write(`id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  const sendEvent = (event: RegistryEvent) => {
+    if (!service || event.name === service) {
+      send(event.type, event.index, event);
+    }
+  };
 
-  if (updated) {
-    return res.json({
-      status: 'updated',
-      timestamp: new Date().toISOString(),
-    });
+  const missed = Number.isNaN(since) ? undefined : registry.eventsSince(since);
+  if (missed) {
+    missed.forEach(sendEvent);
   } else {
-    return res.status(500).json({
-      error: 'update_failed',
-      message: 'Failed to update service',
-    });
+    const services: Record<string, ServiceInstance[]> = {};
+    for (const name of service ? [service] : Object.keys(registry.getAll())) {
+      services[name] = registry.getInstances(name);
+    }
+    send('snapshot', registry.currentIndex, { index: registry.currentIndex, services });
   }
+
+  const unsubscribe = registry.watch(sendEvent);
+  // Comment lines keep proxies from closing an idle stream
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    unsubscribe();
+  });
 });
 
-// Delete a service
-app.delete('/services/:name', (req: Request, res: Response) => {
+// Get a specific service, optionally only its instances matching the filters
+app.get('/services/:name', requireRead, (req: Request, res: Response) => {
   const name = req.params.name;
-  const service = registry.get(name);
+  const query = readQuery(req, res);
+  if (!query) return;
+
+  const service = registry.get(name, query);
 
   if (!service) {
+    return notFound(res, name);
+  }
+
+  return res.json(service);
+});
+
+// Get all services, e.g. ?tag=emergency&metadata.region=north&version=^2.0.0&state=active
+app.get('/services', requireRead, (req: Request, res: Response) => {
+  const query = readQuery(req, res);
+  if (!query) return;
+
+  return res.json(registry.getAll(query));
+});
+
+// Dependency graph of all services, as JSON or with ?format=dot as Graphviz DOT
+app.get('/graph', requireRead, (req: Request, res: Response) => {
+  const graph = buildGraph(registry.getAll());
+  const format =
+    req.query.format || (req.accepts(['application/json', DOT_TYPE]) === DOT_TYPE ? 'dot' : 'json');
+
+  if (format === 'dot') {
+    return res.type(DOT_TYPE).send(toDot(graph));
+  }
+  return res.json(graph);
+});
+
+// Services that published an OpenAPI spec, with their versions
+app.get('/catalog', requireRead, (req: Request, res: Response) => {
+  return res.json(catalog.list());
+});
+
+// Published API versions of a service
+app.get('/catalog/:name', requireRead, (req: Request, res: Response) => {
+  const entry = catalog.entry(req.params.name);
+
+  if (!entry) {
     return res.status(404).json({
       error: 'not_found',
-      message: `Service '${name}' not found`,
+      message: `Service '${req.params.name}' has no published API spec`,
     });
   }
 
-  registry.delete(name);
-  return res.json({
-    status: 'deleted',
-    timestamp: new Date().toISOString(),
-  });
+  return res.json(entry);
 });
 
-// Record a service heartbeat
-app.post('/heartbeat/:name', (req: Request, res: Response) => {
-  const name = req.params.name;
-  const updated = registry.recordHeartbeat(name);
+// A published spec, 'latest' for the newest version
+app.get('/catalog/:name/versions/:version', requireRead, (req: Request, res: Response) => {
+  const { name, version } = req.params;
+  const spec = catalog.get(name, version);
 
-  if (updated) {
-    return res.json({
-      status: 'ok',
-      timestamp: new Date().toISOString(),
-    });
-  } else {
+  if (!spec) {
     return res.status(404).json({
       error: 'not_found',
-      message: `Service '${name}' not found`,
+      message: `Version '${version}' of the API of '${name}' not found`,
     });
   }
+
+  return res.json(spec);
 });
 
-// Get a specific service
-app.get('/services/:name', (req: Request, res: Response) => {
+// Operations added, removed and changed between two versions, e.g. ?from=1.0.0&to=2.0.0
+app.get('/catalog/:name/diff', requireRead, (req: Request, res: Response) => {
   const name = req.params.name;
-  const service = registry.get(name);
+  const from = String(req.query.from);
+  const to = typeof req.query.to === 'string' ? req.query.to : 'latest';
 
-  if (!service) {
+  const diff = catalog.diff(name, from, to);
+
+  if (!diff) {
+    const missing = catalog.get(name, from) ? to : from;
     return res.status(404).json({
       error: 'not_found',
-      message: `Service '${name}' not found`,
+      message: `Version '${missing}' of the API of '${name}' not found`,
     });
   }
 
-  return res.json(service);
+  return res.json(diff);
+});
+
+// Peers of this node and whether they can be reached
+app.get('/cluster', requireRead, (req: Request, res: Response) => {
+  return res.json({
+    nodeId: cluster.nodeId,
+    peers: cluster.status,
+  });
 });
 
-// Get all services
-app.get('/services', (req: Request, res: Response) => {
-  return res.json(registry.getAll());
+// Full state of this node, pulled by peers to catch up
+app.get('/cluster/state', requireAdmin, (req: Request, res: Response) => {
+  return res.json(cluster.state());
 });
 
+// Apply a change made on another node
+app.post(
+  '/cluster/replicate',
+  requireAdmin,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await cluster.apply(req.body as ReplicatedChange);
+      return res.json({
+        status: 'applied',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      return next(error);
+    }
+  }
+);
+
 // Health check endpoint
 app.get('/health', (req: Request, res: Response) => {
   return res.json({
@@ -207,6 +618,43 @@ app.get('/health', (req: Request, res: Response) => {
     version: '1.0.0',
     timestamp: new Date().toISOString(),
     services: registry.count,
+    instances: registry.instanceCount,
+  });
+});
+
+// Prometheus metrics of services, instances, changes and request latency
+app.get('/metrics', requireRead, (req: Request, res: Response) => {
+  return res.type(METRICS_CONTENT_TYPE).send(metrics.render(registry.getAll()));
+});
+
+// Errors of the OpenAPI validator carry a status and the failed validations
+interface ValidationError {
+  status?: number;
+  errors?: unknown[];
+  message?: string;
+}
+
+function isValidationError(err: unknown): err is ValidationError & { status: number } {
+  if (typeof err !== 'object' || err === null) return false;
+  const { status, errors } = err as ValidationError;
+  return typeof status === 'number' && Array.isArray(errors) && status < 500;
+}
+
+// Report requests rejected by the OpenAPI validator in the registry's error format
+app.use((err: unknown, req: Request, res: Response, next: NextFunction) => {
+  if (!isValidationError(err)) {
+    return next(err);
+  }
+
+  const codes: Record<number, string> = {
+    400: 'bad_request',
+    404: 'not_found',
+    405: 'method_not_allowed',
+    415: 'unsupported_media_type',
+  };
+  return res.status(err.status).json({
+    error: codes[err.status] || 'bad_request',
+    message: err.message,
   });
 });
 
@@ -214,7 +662,27 @@ app.get('/health', (req: Request, res: Response) => {
 app.use(errorHandler as express.ErrorRequestHandler);
 
 // Function to start the server (for better testability)
-const startServer = (port: number | string = process.env.PORT || 3000) => {
+// Persisted registrations are restored before the server starts accepting requests
+const startServer = async (port: number | string = process.env.PORT || config.port) => {
+  await registry.initialize();
+  await catalog.initialize();
+  console.log(`Restored ${registry.count} service(s) from ${config.storage.type} storage`);
+
+  if (config.healthCheck.enabled) {
+    healthChecker.start();
+  }
+  notifier?.start();
+
+  if (cluster.enabled) {
+    await cluster.start();
+    console.log(`Replicating as ${cluster.nodeId} to ${config.cluster.peers.join(', ')}`);
+  }
+
+  if (config.dns.enabled) {
+    await dnsResponder.start();
+    console.log(`Answering DNS queries for *.${config.dns.domain} on UDP port ${config.dns.port}`);
+  }
+
   return app.listen(port, () => {
     console.log(`Service Registry running on port ${port}`);
   });
@@ -222,8 +690,11 @@ const startServer = (port: number | string = process.env.PORT || 3000) => {
 
 // Only start the server if this file is run directly
 if (require.main === module) {
-  startServer();
+  startServer().catch((error) => {
+    console.error('Failed to start Service Registry:', error);
+    process.exit(1);
+  });
 }
 
 // Export for testing
-export { app, registry, startServer };
+export { app, registry, catalog, history, healthChecker, cluster, dnsResponder, startServer };
@@ -0,0 +1,169 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { PublishedSpec } from '../catalog';
+import { ServiceInstance } from '../types';
+import { RegistryStore } from './store';
+
+// A single line of the append-only log
+type LogEntry =
+  | { op: 'put'; name: string; instance: ServiceInstance }
+  | { op: 'delete'; name: string; instanceId: string }
+  | { op: 'put-spec'; name: string; spec: PublishedSpec }
+  | { op: 'delete-spec'; name: string; version: string };
+
+/**
+ * File-backed store using an append-only log of JSON lines
+ *
+ * Every change is appended to the log, and the log is compacted to one
+ * entry per live instance and API spec on startup and whenever it grows
+ * too large.
+ */
+export class FileStore implements RegistryStore {
+  private instances: Map<string, { name: string; instance: ServiceInstance }> = new Map();
+  private specs: Map<string, { name: string; spec: PublishedSpec }> = new Map();
+  private entryCount = 0;
+  private loaded = false;
+  private queue: Promise<void> = Promise.resolve();
+  private directoryReady?: Promise<void>;
+
+  constructor(private filePath: string, private compactThreshold = 1000) {}
+
+  async load(): Promise<Record<string, ServiceInstance[]>> {
+    await this.enqueue(async () => {
+      await this.ensureDirectory();
+      this.instances.clear();
+      this.specs.clear();
+
+      let content = '';
+      try {
+        content = await fs.readFile(this.filePath, 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+
+        let entry: LogEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          // A torn write from a crash can only affect the last line, skip it
+          continue;
+        }
+
+        this.apply(entry);
+      }
+
+      await this.compact();
+      this.loaded = true;
+    });
+
+    const services: Record<string, ServiceInstance[]> = {};
+    for (const { name, instance } of this.instances.values()) {
+      (services[name] ||= []).push({ ...instance });
+    }
+    return services;
+  }
+
+  save(name: string, instance: ServiceInstance): Promise<void> {
+    return this.append({ op: 'put', name, instance: { ...instance } });
+  }
+
+  remove(name: string, instanceId: string): Promise<void> {
+    return this.append({ op: 'delete', name, instanceId });
+  }
+
+  async loadSpecs(): Promise<Record<string, PublishedSpec[]>> {
+    // The log is read once, by whichever of load() and loadSpecs() comes first
+    if (!this.loaded) {
+      await this.load();
+    }
+
+    const specs: Record<string, PublishedSpec[]> = {};
+    for (const { name, spec } of this.specs.values()) {
+      (specs[name] ||= []).push({ ...spec });
+    }
+    return specs;
+  }
+
+  saveSpec(name: string, spec: PublishedSpec): Promise<void> {
+    return this.append({ op: 'put-spec', name, spec: { ...spec } });
+  }
+
+  removeSpec(name: string, version: string): Promise<void> {
+    return this.append({ op: 'delete-spec', name, version });
+  }
+
+  async close(): Promise<void> {
+    await this.queue;
+  }
+
+  private append(entry: LogEntry): Promise<void> {
+    return this.enqueue(async () => {
+      await this.ensureDirectory();
+      await fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+      this.entryCount++;
+      this.apply(entry);
+
+      if (this.entryCount - this.instances.size - this.specs.size > this.compactThreshold) {
+        await this.compact();
+      }
+    });
+  }
+
+  private apply(entry: LogEntry): void {
+    if (entry.op === 'put') {
+      this.instances.set(`${entry.name}/${entry.instance.instanceId}`, {
+        name: entry.name,
+        instance: entry.instance,
+      });
+    } else if (entry.op === 'delete') {
+      this.instances.delete(`${entry.name}/${entry.instanceId}`);
+    } else if (entry.op === 'put-spec') {
+      this.specs.set(`${entry.name}/${entry.spec.version}`, { name: entry.name, spec: entry.spec });
+    } else if (entry.op === 'delete-spec') {
+      this.specs.delete(`${entry.name}/${entry.version}`);
+    }
+  }
+
+  // Rewrite the log with a single entry per live instance and spec
+  private async compact(): Promise<void> {
+    const entries: LogEntry[] = [
+      ...Array.from(this.instances.values(), ({ name, instance }) => ({
+        op: 'put' as const,
+        name,
+        instance,
+      })),
+      ...Array.from(this.specs.values(), ({ name, spec }) => ({
+        op: 'put-spec' as const,
+        name,
+        spec,
+      })),
+    ];
+    const lines = entries.map((entry) => `${JSON.stringify(entry)}\n`);
+    const tempPath = `${this.filePath}.tmp`;
+
+    await fs.writeFile(tempPath, lines.join(''), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+    this.entryCount = lines.length;
+  }
+
+  // Serialize file operations so log entries are written in order
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private ensureDirectory(): Promise<void> {
+    if (!this.directoryReady) {
+      this.directoryReady = fs
+        .mkdir(path.dirname(this.filePath), { recursive: true })
+        .then(() => undefined);
+    }
+    return this.directoryReady;
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Storage backends for the service registry
+ */
+
+import { StorageConfig } from '../config';
+import { FileStore } from './file-store';
+import { MemoryStore } from './memory-store';
+import { PostgresStore } from './postgres-store';
+import { RegistryStore } from './store';
+
+export type { RegistryStore } from './store';
+export { MemoryStore } from './memory-store';
+export { FileStore } from './file-store';
+export { PostgresStore, type PostgresStoreOptions } from './postgres-store';
+
+/**
+ * Create the store selected by the registry configuration
+ */
+export function createStore(config: StorageConfig): RegistryStore {
+  switch (config.type) {
+    case 'file':
+      return new FileStore(config.filePath);
+    case 'postgres': {
+      const { connectionString, table, ...connection } = config.postgres;
+      return new PostgresStore(
+        connectionString ? { connectionString, table } : { ...connection, table }
+      );
+    }
+    case 'memory':
+    default:
+      return new MemoryStore();
+  }
+}
@@ -0,0 +1,47 @@
+import type { PublishedSpec } from '../catalog';
+import { ServiceInstance } from '../types';
+import { RegistryStore } from './store';
+
+/**
+ * Non-persistent store, registrations are lost when the process exits
+ */
+export class MemoryStore implements RegistryStore {
+  private instances: Map<string, { name: string; instance: ServiceInstance }> = new Map();
+  private specs: Map<string, { name: string; spec: PublishedSpec }> = new Map();
+
+  async load(): Promise<Record<string, ServiceInstance[]>> {
+    const services: Record<string, ServiceInstance[]> = {};
+    for (const { name, instance } of this.instances.values()) {
+      (services[name] ||= []).push({ ...instance });
+    }
+    return services;
+  }
+
+  async save(name: string, instance: ServiceInstance): Promise<void> {
+    this.instances.set(`${name}/${instance.instanceId}`, { name, instance: { ...instance } });
+  }
+
+  async remove(name: string, instanceId: string): Promise<void> {
+    this.instances.delete(`${name}/${instanceId}`);
+  }
+
+  async loadSpecs(): Promise<Record<string, PublishedSpec[]>> {
+    const specs: Record<string, PublishedSpec[]> = {};
+    for (const { name, spec } of this.specs.values()) {
+      (specs[name] ||= []).push({ ...spec });
+    }
+    return specs;
+  }
+
+  async saveSpec(name: string, spec: PublishedSpec): Promise<void> {
+    this.specs.set(`${name}/${spec.version}`, { name, spec: { ...spec } });
+  }
+
+  async removeSpec(name: string, version: string): Promise<void> {
+    this.specs.delete(`${name}/${version}`);
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
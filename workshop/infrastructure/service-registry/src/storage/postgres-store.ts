@@ -0,0 +1,125 @@
+import { Pool, PoolConfig } from 'pg';
+import type { PublishedSpec } from '../catalog';
+import { ServiceInstance } from '../types';
+import { RegistryStore } from './store';
+
+export interface PostgresStoreOptions extends PoolConfig {
+  table?: string;
+}
+
+/**
+ * Postgres-backed store, one row per service instance with the registration as JSONB
+ *
+ * API specs of the catalog are kept in a second table, named after the first
+ * with a _specs suffix, one row per service and API version.
+ */
+export class PostgresStore implements RegistryStore {
+  private pool: Pool;
+  private table: string;
+  private tableReady?: Promise<void>;
+
+  constructor(options: PostgresStoreOptions = {}) {
+    const { table = 'registry_services', ...poolConfig } = options;
+
+    // The table name is interpolated into SQL, so only allow plain identifiers
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid registry table name '${table}'`);
+    }
+
+    this.table = table;
+    this.pool = new Pool(poolConfig);
+  }
+
+  async load(): Promise<Record<string, ServiceInstance[]>> {
+    await this.ensureTable();
+    const result = await this.pool.query<{ name: string; info: ServiceInstance }>(
+      `SELECT name, info FROM ${this.table} ORDER BY name, instance_id`
+    );
+
+    const services: Record<string, ServiceInstance[]> = {};
+    for (const row of result.rows) {
+      (services[row.name] ||= []).push(row.info);
+    }
+    return services;
+  }
+
+  async save(name: string, instance: ServiceInstance): Promise<void> {
+    await this.ensureTable();
+    await this.pool.query(
+      `INSERT INTO ${this.table} (name, instance_id, info, updated_at) VALUES ($1, $2, $3, NOW())
+       ON CONFLICT (name, instance_id) DO UPDATE SET info = EXCLUDED.info, updated_at = NOW()`,
+      [name, instance.instanceId, JSON.stringify(instance)]
+    );
+  }
+
+  async remove(name: string, instanceId: string): Promise<void> {
+    await this.ensureTable();
+    await this.pool.query(`DELETE FROM ${this.table} WHERE name = $1 AND instance_id = $2`, [
+      name,
+      instanceId,
+    ]);
+  }
+
+  async loadSpecs(): Promise<Record<string, PublishedSpec[]>> {
+    await this.ensureTable();
+    const result = await this.pool.query<{ name: string; info: PublishedSpec }>(
+      `SELECT name, info FROM ${this.table}_specs ORDER BY name, version`
+    );
+
+    const specs: Record<string, PublishedSpec[]> = {};
+    for (const row of result.rows) {
+      (specs[row.name] ||= []).push(row.info);
+    }
+    return specs;
+  }
+
+  async saveSpec(name: string, spec: PublishedSpec): Promise<void> {
+    await this.ensureTable();
+    await this.pool.query(
+      `INSERT INTO ${this.table}_specs (name, version, info, updated_at) VALUES ($1, $2, $3, NOW())
+       ON CONFLICT (name, version) DO UPDATE SET info = EXCLUDED.info, updated_at = NOW()`,
+      [name, spec.version, JSON.stringify(spec)]
+    );
+  }
+
+  async removeSpec(name: string, version: string): Promise<void> {
+    await this.ensureTable();
+    await this.pool.query(`DELETE FROM ${this.table}_specs WHERE name = $1 AND version = $2`, [
+      name,
+      version,
+    ]);
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  private ensureTable(): Promise<void> {
+    if (!this.tableReady) {
+      this.tableReady = this.pool
+        .query(
+          `CREATE TABLE IF NOT EXISTS ${this.table} (
+            name TEXT NOT NULL,
+            instance_id TEXT NOT NULL,
+            info JSONB NOT NULL,
+            updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            PRIMARY KEY (name, instance_id)
+          );
+          CREATE TABLE IF NOT EXISTS ${this.table}_specs (
+            name TEXT NOT NULL,
+            version TEXT NOT NULL,
+            info JSONB NOT NULL,
+            updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            PRIMARY KEY (name, version)
+          )`
+        )
+        .then(() => undefined)
+        .catch((error) => {
+          // Allow the next call to retry, e.g. once the database is reachable
+          this.tableReady = undefined;
+          throw error;
+        });
+    }
+    return this.tableReady;
+  }
+}
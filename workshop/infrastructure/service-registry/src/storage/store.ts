@@ -0,0 +1,46 @@
+import type { PublishedSpec } from '../catalog';
+import { ServiceInstance } from '../types';
+
+/**
+ * Persistence backend for the service registry
+ *
+ * The registry and the API catalog keep their working set in memory and
+ * write every change through to the store, so a store only needs to support
+ * loading the full state on startup and recording individual changes.
+ */
+export interface RegistryStore {
+  /**
+   * Load every persisted instance, grouped by service name
+   */
+  load(): Promise<Record<string, ServiceInstance[]>>;
+
+  /**
+   * Create or replace a service instance
+   */
+  save(name: string, instance: ServiceInstance): Promise<void>;
+
+  /**
+   * Remove a service instance
+   */
+  remove(name: string, instanceId: string): Promise<void>;
+
+  /**
+   * Load every persisted API spec of the catalog, grouped by service name
+   */
+  loadSpecs(): Promise<Record<string, PublishedSpec[]>>;
+
+  /**
+   * Create or replace a version of a service's API spec
+   */
+  saveSpec(name: string, spec: PublishedSpec): Promise<void>;
+
+  /**
+   * Remove a version of a service's API spec
+   */
+  removeSpec(name: string, version: string): Promise<void>;
+
+  /**
+   * Release any resources held by the store
+   */
+  close(): Promise<void>;
+}
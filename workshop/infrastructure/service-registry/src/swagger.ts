@@ -0,0 +1,141 @@
+/**
+ * API documentation
+ *
+ * Serves the registry's OpenAPI spec as JSON and a Swagger UI to explore it,
+ * and a second Swagger UI for the specs published to the API catalog.
+ */
+
+import express, { Application } from 'express';
+import * as yaml from 'js-yaml';
+import fs from 'fs';
+import { absolutePath } from 'swagger-ui-dist';
+import { expressCspHeader, INLINE, SELF } from 'express-csp-header';
+import { ApiCatalog } from './catalog';
+
+/**
+ * Sets up Swagger UI for the Express application
+ *
+ * @param app Express application
+ * @param apiSpecPath Path to the OpenAPI YAML file
+ */
+export function setupSwaggerUI(app: Application, apiSpecPath: string): void {
+  // Swagger UI needs inline scripts and styles
+  app.use(
+    ['/api-docs', '/api-spec.json'],
+    expressCspHeader({
+      directives: {
+        'default-src': [SELF],
+        'script-src': [SELF, INLINE],
+        'style-src': [SELF, INLINE],
+        'img-src': [SELF, 'data:'],
+        'font-src': [SELF],
+        'object-src': [SELF],
+        'connect-src': [SELF],
+      },
+    })
+  );
+
+  // Serve the OpenAPI spec as JSON
+  app.get('/api-spec.json', (_req, res) => {
+    try {
+      const spec = yaml.load(fs.readFileSync(apiSpecPath, 'utf8'));
+      res.json(spec);
+    } catch (error) {
+      console.error('Failed to load the OpenAPI spec:', error);
+      res.status(500).json({
+        error: 'internal_error',
+        message: 'Unable to load the OpenAPI spec',
+      });
+    }
+  });
+
+  // Serve Swagger UI assets from swagger-ui-dist
+  app.use('/api-docs', express.static(absolutePath(), { index: false }));
+
+  // Serve the customized Swagger UI index
+  app.get('/api-docs', (_req, res) => {
+    res
+      .type('html')
+      .send(swaggerPage('Service Registry API Documentation', { url: '/api-spec.json' }));
+  });
+}
+
+/**
+ * Sets up a Swagger UI combining the specs published to the API catalog
+ *
+ * Each service is shown with the newest version of its spec, and specs are
+ * read from the catalog endpoints so they need the same token as any other
+ * read. The token stored by the dashboard is sent along to the registry.
+ *
+ * @param app Express application
+ * @param catalog Catalog of published specs
+ */
+export function setupCatalogUI(app: Application, catalog: ApiCatalog): void {
+  app.get('/api-docs/catalog', (_req, res) => {
+    const urls = catalog.list().map((entry) => ({
+      name: `${entry.name} ${entry.latest}`,
+      url: `/catalog/${encodeURIComponent(entry.name)}/versions/${encodeURIComponent(
+        entry.latest
+      )}`,
+    }));
+    res.type('html').send(swaggerPage('City API Catalog', { urls }, true));
+  });
+}
+
+// Swagger UI page loading one spec with `url` or a selectable list with `urls`
+function swaggerPage(
+  title: string,
+  specs: { url: string } | { urls: { name: string; url: string }[] },
+  sendToken = false
+): string {
+  // Keeps a spec named e.g. '</script>' from ending the inline script
+  const options = JSON.stringify(specs).replace(/</g, '\\u003c').slice(1, -1);
+  const interceptor = sendToken
+    ? `,
+        requestInterceptor: function(req) {
+          var token = sessionStorage.getItem('registry-token');
+          if (token && new URL(req.url, location.href).origin === location.origin) {
+            req.headers.Authorization = 'Bearer ' + token;
+          }
+          return req;
+        }`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+  <link rel="stylesheet" type="text/css" href="/api-docs/swagger-ui.css" />
+  <link rel="stylesheet" type="text/css" href="/api-docs/index.css" />
+  <link rel="icon" type="image/png" href="/api-docs/favicon-32x32.png" sizes="32x32" />
+  <style>
+    body { margin: 0; background: #fafafa; }
+    .swagger-ui .topbar { background-color: #1f2937; }
+  </style>
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="/api-docs/swagger-ui-bundle.js" charset="UTF-8"></script>
+  <script src="/api-docs/swagger-ui-standalone-preset.js" charset="UTF-8"></script>
+  <script>
+    window.onload = function() {
+      window.ui = SwaggerUIBundle({
+        ${options},
+        dom_id: '#swagger-ui',
+        deepLinking: true,
+        presets: [SwaggerUIBundle.presets.apis, SwaggerUIStandalonePreset],
+        plugins: [SwaggerUIBundle.plugins.DownloadUrl],
+        layout: "StandaloneLayout",
+        docExpansion: "list",
+        displayRequestDuration: true,
+        filter: true,
+        tryItOutEnabled: true${interceptor}
+      });
+    }
+  </script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,96 @@
+/**
+ * Shared types for the service registry server and its storage backends
+ */
+
+// Health of an instance as determined by active probing
+export type HealthStatus = 'UP' | 'DEGRADED' | 'DOWN';
+
+// Outcome of a single health probe
+export interface ProbeResult {
+  ok: boolean;
+  checkedAt: number;
+  latencyMs: number;
+  statusCode?: number;
+  error?: string;
+}
+
+// Whether an instance takes part in load balancing. Draining instances finish
+// their work before they stop, instances in maintenance are temporarily out.
+export type LifecycleState = 'active' | 'draining' | 'maintenance';
+
+export interface InstanceHealth {
+  status: HealthStatus;
+  consecutiveFailures: number;
+  lastProbe: ProbeResult;
+}
+
+// A single running instance of a service
+export interface ServiceInstance {
+  instanceId: string;
+  url: string;
+  healthCheckUrl?: string;
+  // Semantic version of the API the instance serves
+  version?: string;
+  // Labels consumers can filter on, e.g. 'emergency'
+  tags?: string[];
+  // Names of the services this instance calls
+  dependencies?: string[];
+  // Share of the traffic relative to the other instances, 1 when not set
+  weight?: number;
+  // Release the instance belongs to, e.g. 'stable' or 'canary'
+  label?: string;
+  metadata: Record<string, any>;
+  // Where the instance serves its OpenAPI spec, relative to its URL or absolute
+  apiSpecUrl?: string;
+  lastHeartbeat: number;
+  // Granted lease TTL in seconds, renewed by every heartbeat
+  ttl?: number;
+  // Instances without a state are active
+  state?: LifecycleState;
+  // Only present for instances with a healthCheckUrl once they have been probed
+  health?: InstanceHealth;
+}
+
+// A service and all of its instances as returned by the API.
+// The top-level fields mirror the most recently seen instance so
+// consumers that only expect a single URL keep working.
+export interface ServiceInfo {
+  url: string;
+  healthCheckUrl?: string;
+  metadata: Record<string, any>;
+  lastHeartbeat: number;
+  // Combined health of all instances
+  status: HealthStatus;
+  instances: ServiceInstance[];
+}
+
+// Instance fields supplied by a service when it registers.
+// The ttl is the requested lease, the registry decides what it grants.
+export type InstanceRegistration = Omit<
+  ServiceInstance,
+  'instanceId' | 'lastHeartbeat' | 'health'
+> & {
+  instanceId?: string;
+};
+
+// Instance fields that can be changed after registration
+export type InstanceUpdate = Partial<
+  Omit<ServiceInstance, 'instanceId' | 'lastHeartbeat' | 'health' | 'ttl'>
+>;
+
+// Kinds of change published to watchers of the registry
+export type RegistryEventType = 'registered' | 'updated' | 'deregistered' | 'evicted';
+
+// A single change to the registry, numbered in the order it happened
+export interface RegistryEvent {
+  index: number;
+  type: RegistryEventType;
+  name: string;
+  instanceId: string;
+  // The instance after the change, or as it was before removal
+  instance: ServiceInstance;
+  timestamp: number;
+  // Set for changes copied from another registry node, and for evictions
+  // and health changes another node reports
+  replicated?: boolean;
+}
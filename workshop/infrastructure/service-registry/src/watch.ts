@@ -0,0 +1,229 @@
+/**
+ * Registry watch stream
+ *
+ * Keeps a local copy of the instances of one service, or of every service,
+ * in sync with the registry by following the Server-Sent Events stream at
+ * /services/watch.
+ */
+
+import type { ServiceInstance } from './client';
+import type { TokenProvider } from './credentials';
+
+export type WatchEventType = 'snapshot' | 'registered' | 'updated' | 'deregistered' | 'evicted';
+
+export interface WatchEvent {
+  type: WatchEventType;
+  index: number;
+  // Empty for snapshots of every service
+  name: string;
+  // Not set for snapshots
+  instanceId?: string;
+  instance?: ServiceInstance;
+}
+
+// Called with the current instances of the watched services after every change
+export type WatchCallback = (instances: ServiceInstance[], event: WatchEvent) => void;
+
+export class ServiceWatcher {
+  // Instances by service name and instance ID
+  private cache: Map<string, ServiceInstance> = new Map();
+  private callbacks: Set<WatchCallback> = new Set();
+  // Index of the last change seen, sent as Last-Event-ID when reconnecting
+  private lastIndex?: number;
+  private controller?: AbortController;
+  private running = false;
+  private synced = false;
+  private registryUrls: string[];
+  // Registry node the stream is read from
+  private active = 0;
+
+  // Every service is followed when no service name is given
+  constructor(
+    registryUrl: string | string[],
+    private serviceName: string | undefined,
+    private retryDelay = 1000,
+    private tokens?: TokenProvider
+  ) {
+    this.registryUrls = Array.isArray(registryUrl) ? registryUrl : [registryUrl];
+  }
+
+  /**
+   * Current instances of the watched services as last reported by the registry
+   */
+  get instances(): ServiceInstance[] {
+    return Array.from(this.cache.values());
+  }
+
+  /**
+   * Whether the cache has been filled from the registry and the stream is
+   * still connected. The cache may miss changes while reconnecting.
+   */
+  get isSynced(): boolean {
+    return this.synced;
+  }
+
+  get subscriberCount(): number {
+    return this.callbacks.size;
+  }
+
+  private get watched(): string {
+    return this.serviceName ? `service '${this.serviceName}'` : 'all services';
+  }
+
+  subscribe(callback: WatchCallback): void {
+    this.callbacks.add(callback);
+  }
+
+  unsubscribe(callback: WatchCallback): void {
+    this.callbacks.delete(callback);
+  }
+
+  /**
+   * Connect to the registry and keep reconnecting until stopped
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.run();
+  }
+
+  stop(): void {
+    this.running = false;
+    this.synced = false;
+    this.controller?.abort();
+  }
+
+  private async run(): Promise<void> {
+    while (this.running) {
+      try {
+        await this.follow();
+      } catch (error) {
+        if (!this.running) return;
+        console.error(`Lost watch stream for ${this.watched}:`, error);
+        this.failover();
+      } finally {
+        // The next connection starts with a fresh snapshot
+        this.synced = false;
+      }
+
+      if (this.running) {
+        await new Promise((resolve) => setTimeout(resolve, this.retryDelay));
+      }
+    }
+  }
+
+  // Read the stream until the registry closes it
+  private async follow(): Promise<void> {
+    this.controller = new AbortController();
+    const headers: Record<string, string> = { Accept: 'text/event-stream' };
+    if (this.lastIndex !== undefined) {
+      headers['Last-Event-ID'] = String(this.lastIndex);
+    }
+    if (this.tokens) {
+      headers.Authorization = `Bearer ${await this.tokens.getToken()}`;
+    }
+
+    const filter = this.serviceName ? `?service=${encodeURIComponent(this.serviceName)}` : '';
+    const response = await fetch(`${this.registryUrls[this.active]}/services/watch${filter}`, {
+      headers,
+      signal: this.controller.signal,
+    });
+    if (response.status === 401) {
+      // Get a new token before reconnecting
+      this.tokens?.invalidate();
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(`Watch request failed with status ${response.status}`);
+    }
+    // A resumed stream replays the missed changes, or starts over with a snapshot
+    if (headers['Last-Event-ID'] !== undefined) {
+      this.synced = true;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      const messages = buffer.split(/\r?\n\r?\n/);
+      buffer = messages.pop() || '';
+      messages.forEach((message) => this.handleMessage(message));
+    }
+  }
+
+  // Reconnect to the next registry node. Event indexes are counted per node,
+  // so the stream starts over from a snapshot.
+  private failover(): void {
+    if (this.registryUrls.length < 2) return;
+    this.active = (this.active + 1) % this.registryUrls.length;
+    this.lastIndex = undefined;
+  }
+
+  private handleMessage(message: string): void {
+    let type = 'message';
+    const data: string[] = [];
+
+    for (const line of message.split(/\r?\n/)) {
+      if (line.startsWith('event:')) {
+        type = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).trim());
+      }
+    }
+    // Comments such as keep-alives carry no data
+    if (data.length === 0) return;
+
+    const payload = JSON.parse(data.join('\n'));
+    this.lastIndex = payload.index;
+
+    if (type === 'snapshot') {
+      const services: Record<string, ServiceInstance[]> = payload.services;
+      this.cache = new Map(
+        Object.entries(services).flatMap(([name, instances]) =>
+          instances.map((instance) => [cacheKey(name, instance.instanceId), instance])
+        )
+      );
+      this.synced = true;
+      this.notify({ type: 'snapshot', index: payload.index, name: this.serviceName ?? '' });
+      return;
+    }
+
+    if (this.serviceName && payload.name !== this.serviceName) return;
+
+    const key = cacheKey(payload.name, payload.instanceId);
+    if (type === 'registered' || type === 'updated') {
+      this.cache.set(key, payload.instance);
+    } else if (type === 'deregistered' || type === 'evicted') {
+      this.cache.delete(key);
+    } else {
+      return;
+    }
+
+    this.notify({
+      type,
+      index: payload.index,
+      name: payload.name,
+      instanceId: payload.instanceId,
+      instance: payload.instance,
+    });
+  }
+
+  private notify(event: WatchEvent): void {
+    const instances = this.instances;
+    for (const callback of this.callbacks) {
+      try {
+        callback(instances, event);
+      } catch (error) {
+        console.error(`Watch callback for ${this.watched} failed:`, error);
+      }
+    }
+  }
+}
+
+function cacheKey(name: string, instanceId: string): string {
+  return `${name}/${instanceId}`;
+}
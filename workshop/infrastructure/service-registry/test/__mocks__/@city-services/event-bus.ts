@@ -0,0 +1,6 @@
+import { vi } from 'vitest';
+
+// Mock publisher that records events instead of sending them to Pub/Sub
+export class EventPublisher {
+  publish = vi.fn(async () => 'message-id');
+}
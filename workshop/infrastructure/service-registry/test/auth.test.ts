@@ -0,0 +1,241 @@
+import request from 'supertest';
+import express from 'express';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { authorize, TokenIntrospector, WRITE_SCOPE } from '../src/auth';
+
+// Mock fetch API used to call the IAM service
+const originalFetch = global.fetch;
+const mockFetch = vi.fn();
+
+const introspection = (body: object) => ({ ok: true, status: 200, json: async () => body });
+
+describe('Registry Auth', () => {
+  beforeEach(() => {
+    global.fetch = mockFetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('TokenIntrospector', () => {
+    it('should introspect tokens with the IAM service', async () => {
+      const introspector = new TokenIntrospector('http://iam:3000');
+      mockFetch.mockResolvedValueOnce(
+        introspection({ active: true, client_id: 'water-service', scope: 'registry:write' })
+      );
+
+      const info = await introspector.introspect('token-1');
+
+      expect(info).toEqual({ active: true, client_id: 'water-service', scope: 'registry:write' });
+      expect(mockFetch).toHaveBeenCalledWith('http://iam:3000/oauth/introspect', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: 'token-1' }),
+      });
+    });
+
+    it('should reuse results until the cache TTL expires', async () => {
+      let now = 1000;
+      vi.spyOn(Date, 'now').mockImplementation(() => now);
+      const introspector = new TokenIntrospector('http://iam:3000', 1000);
+      mockFetch.mockResolvedValue(introspection({ active: true, client_id: 'water-service' }));
+
+      await introspector.introspect('token-1');
+      now += 500;
+      await introspector.introspect('token-1');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      now += 600;
+      await introspector.introspect('token-1');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache results past the token expiry', async () => {
+      let now = 1000;
+      vi.spyOn(Date, 'now').mockImplementation(() => now);
+      const introspector = new TokenIntrospector('http://iam:3000', 60000);
+      mockFetch.mockResolvedValue(introspection({ active: true, client_id: 'a', exp: 2 }));
+
+      await introspector.introspect('token-1');
+      now = 2500;
+      await introspector.introspect('token-1');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw when the IAM service fails', async () => {
+      const introspector = new TokenIntrospector('http://iam:3000');
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500 });
+
+      await expect(introspector.introspect('token-1')).rejects.toThrow(
+        'IAM introspection failed with status 500'
+      );
+    });
+  });
+
+  describe('authorize()', () => {
+    let app: express.Application;
+
+    beforeEach(() => {
+      const introspector = new TokenIntrospector('http://iam:3000');
+      app = express();
+      app.use(express.json());
+      app.post(
+        '/services/:name',
+        authorize(introspector, {
+          scope: WRITE_SCOPE,
+          enabled: true,
+          serviceName: (req) => req.params.name,
+        }),
+        (req, res) => res.json({ principal: res.locals.principal })
+      );
+      app.get(
+        '/open',
+        authorize(introspector, { scope: WRITE_SCOPE, enabled: false }),
+        (req, res) => res.json({ status: 'ok' })
+      );
+    });
+
+    it('should let requests through when disabled', async () => {
+      const response = await request(app).get('/open');
+
+      expect(response.status).toBe(200);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject requests without a bearer token', async () => {
+      const response = await request(app).post('/services/water-service');
+
+      expect(response.status).toBe(401);
+      expect(response.headers['www-authenticate']).toContain('Bearer');
+      expect(response.body).toHaveProperty('error', 'unauthorized');
+    });
+
+    it('should reject inactive tokens', async () => {
+      mockFetch.mockResolvedValueOnce(introspection({ active: false }));
+
+      const response = await request(app)
+        .post('/services/water-service')
+        .set('Authorization', 'Bearer expired');
+
+      expect(response.status).toBe(401);
+      expect(response.headers['www-authenticate']).toContain('invalid_token');
+    });
+
+    it('should reject tokens without the required scope', async () => {
+      mockFetch.mockResolvedValueOnce(
+        introspection({ active: true, client_id: 'water-service', scope: 'registry:read' })
+      );
+
+      const response = await request(app)
+        .post('/services/water-service')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(403);
+      expect(response.body.message).toContain("'registry:write'");
+    });
+
+    it("should reject writes to another client's service", async () => {
+      mockFetch.mockResolvedValueOnce(
+        introspection({ active: true, client_id: 'water-service', scope: 'registry:write' })
+      );
+
+      const response = await request(app)
+        .post('/services/fire-service')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(403);
+      expect(response.body.message).toBe(
+        "Client 'water-service' cannot modify service 'fire-service'"
+      );
+    });
+
+    it('should allow writes to the own service and expose the principal', async () => {
+      mockFetch.mockResolvedValueOnce(
+        introspection({ active: true, client_id: 'water-service', scope: 'registry:write' })
+      );
+
+      const response = await request(app)
+        .post('/services/water-service')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.principal).toEqual({
+        clientId: 'water-service',
+        scopes: ['registry:write'],
+      });
+    });
+
+    it('should let admins write to any service', async () => {
+      mockFetch.mockResolvedValueOnce(
+        introspection({ active: true, client_id: 'city-admin-app', scope: 'registry:admin' })
+      );
+
+      const response = await request(app)
+        .post('/services/fire-service')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should respond with 503 when the IAM service is unreachable', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      mockFetch.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+      const response = await request(app)
+        .post('/services/water-service')
+        .set('Authorization', 'Bearer token');
+
+      expect(response.status).toBe(503);
+      expect(response.body).toHaveProperty('error', 'service_unavailable');
+    });
+  });
+
+  describe('server with REGISTRY_AUTH=write', () => {
+    let app: express.Application;
+
+    beforeEach(async () => {
+      vi.resetModules();
+      process.env.REGISTRY_AUTH = 'write';
+      app = (await import('../src/server')).app;
+      delete process.env.REGISTRY_AUTH;
+    });
+
+    it('should require a token to register', async () => {
+      const response = await request(app)
+        .post('/register')
+        .send({ name: 'water-service', url: 'http://water:8080' });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should bind registrations to the client_id', async () => {
+      mockFetch.mockResolvedValue(
+        introspection({ active: true, client_id: 'water-service', scope: 'registry:write' })
+      );
+
+      const own = await request(app)
+        .post('/register')
+        .set('Authorization', 'Bearer token')
+        .send({ name: 'water-service', url: 'http://water:8080' });
+      const other = await request(app)
+        .delete('/services/water-service')
+        .set('Authorization', 'Bearer token');
+      const foreign = await request(app)
+        .post('/register')
+        .set('Authorization', 'Bearer token')
+        .send({ name: 'fire-service', url: 'http://fire:8080' });
+
+      expect(own.status).toBe(201);
+      expect(other.status).toBe(200);
+      expect(foreign.status).toBe(403);
+    });
+
+    it('should leave reads open', async () => {
+      const response = await request(app).get('/services');
+
+      expect(response.status).toBe(200);
+    });
+  });
+});
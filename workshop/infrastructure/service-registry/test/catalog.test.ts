@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ApiCatalog } from '../src/catalog';
+import { MemoryStore } from '../src/storage';
+
+// Mock fetch API
+const originalFetch = global.fetch;
+const mockFetch = vi.fn();
+
+// An OpenAPI document with the given version and paths
+const spec = (version: string | undefined, operations: Record<string, Record<string, object>>) => ({
+  openapi: '3.1.0',
+  info: { title: 'Fire Service API', ...(version && { version }) },
+  paths: operations,
+});
+
+describe('ApiCatalog', () => {
+  let catalog: ApiCatalog;
+
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    catalog = new ApiCatalog({ versionLimit: 3, fetchTimeout: 50 });
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('publish()', () => {
+    it('should store a spec under its info.version', async () => {
+      const published = await catalog.publish(
+        'fire-service',
+        spec('1.0.0', { '/incidents': { get: { operationId: 'listIncidents' } } })
+      );
+
+      expect(published).toMatchObject({
+        version: '1.0.0',
+        title: 'Fire Service API',
+        operations: 1,
+      });
+      expect(catalog.get('fire-service', '1.0.0')?.paths).toHaveProperty('/incidents');
+      expect(catalog.get('fire-service', 'latest')?.info.version).toBe('1.0.0');
+    });
+
+    it('should fall back to the registered version', async () => {
+      await catalog.publish('fire-service', spec(undefined, {}), '2.1.0');
+
+      expect(catalog.entry('fire-service')?.latest).toBe('2.1.0');
+    });
+
+    it('should reject documents that are not OpenAPI 3 specs', async () => {
+      await expect(catalog.publish('fire-service', { swagger: '2.0', paths: {} })).rejects.toThrow(
+        /must be an OpenAPI 3 document/
+      );
+      await expect(catalog.publish('fire-service', spec(undefined, {}))).rejects.toThrow(
+        /no info.version/
+      );
+      expect(catalog.list()).toEqual([]);
+    });
+
+    it('should order semantic versions by precedence', async () => {
+      await catalog.publish('fire-service', spec('1.10.0', {}));
+      await catalog.publish('fire-service', spec('1.2.0', {}));
+
+      const entry = catalog.entry('fire-service')!;
+      expect(entry.versions.map((version) => version.version)).toEqual(['1.2.0', '1.10.0']);
+      expect(entry.latest).toBe('1.10.0');
+    });
+
+    it('should drop the oldest versions beyond the limit', async () => {
+      for (const version of ['1.0.0', '1.1.0', '1.2.0', '1.3.0']) {
+        await catalog.publish('fire-service', spec(version, {}));
+      }
+
+      expect(catalog.entry('fire-service')!.versions.map((version) => version.version)).toEqual([
+        '1.1.0',
+        '1.2.0',
+        '1.3.0',
+      ]);
+      expect(catalog.get('fire-service', '1.0.0')).toBeUndefined();
+    });
+  });
+
+  describe('persistence', () => {
+    it('should restore published specs from the store', async () => {
+      const store = new MemoryStore();
+      const first = new ApiCatalog({ versionLimit: 2, fetchTimeout: 50 }, store);
+      for (const version of ['1.0.0', '1.1.0', '1.2.0']) {
+        await first.publish('fire-service', spec(version, {}));
+      }
+
+      const restored = new ApiCatalog({ versionLimit: 2, fetchTimeout: 50 }, store);
+      await restored.initialize();
+
+      expect(restored.entry('fire-service')).toEqual(first.entry('fire-service'));
+      expect(Object.keys(await store.loadSpecs())).toEqual(['fire-service']);
+      expect((await store.loadSpecs())['fire-service']).toHaveLength(2);
+    });
+  });
+
+  describe('merge()', () => {
+    const published = (version: string, publishedAt: number) => ({
+      version,
+      publishedAt,
+      operations: 0,
+      spec: spec(version, {}),
+    });
+
+    it('should keep the most recently published copy of a version', async () => {
+      expect(await catalog.merge('fire-service', published('1.0.0', 2000))).toBe(true);
+      expect(await catalog.merge('fire-service', published('1.0.0', 1000))).toBe(false);
+
+      expect(catalog.entry('fire-service')?.versions).toEqual([
+        { version: '1.0.0', publishedAt: 2000, operations: 0 },
+      ]);
+    });
+
+    it('should drop versions older than the limit allows', async () => {
+      for (const [version, publishedAt] of [
+        ['1.1.0', 2000],
+        ['1.2.0', 3000],
+        ['1.3.0', 4000],
+      ] as const) {
+        await catalog.merge('fire-service', published(version, publishedAt));
+      }
+
+      expect(await catalog.merge('fire-service', published('1.0.0', 1000))).toBe(false);
+      expect(catalog.get('fire-service', '1.0.0')).toBeUndefined();
+    });
+
+    it('should only notify watchers of specs published on this node', async () => {
+      const listener = vi.fn();
+      const unwatch = catalog.watch(listener);
+
+      await catalog.merge('fire-service', published('1.0.0', 1000));
+      await catalog.publish('fire-service', spec('2.0.0', {}));
+      unwatch();
+      await catalog.publish('fire-service', spec('3.0.0', {}));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(
+        'fire-service',
+        expect.objectContaining({ version: '2.0.0', spec: spec('2.0.0', {}) })
+      );
+    });
+  });
+
+  describe('publishFrom()', () => {
+    it('should fetch and publish a YAML spec', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => 'openapi: 3.0.3\ninfo:\n  version: 3.0.0\npaths: {}\n',
+      });
+
+      const published = await catalog.publishFrom(
+        'fire-service',
+        'http://fire:3000/api/openapi.yaml'
+      );
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://fire:3000/api/openapi.yaml',
+        expect.any(Object)
+      );
+      expect(published).toMatchObject({
+        version: '3.0.0',
+        source: 'http://fire:3000/api/openapi.yaml',
+      });
+    });
+
+    it('should fail on an error status', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 404 });
+
+      await expect(
+        catalog.publishFrom('fire-service', 'http://fire:3000/api-spec.json')
+      ).rejects.toThrow(/failed with status 404/);
+    });
+  });
+
+  describe('diff()', () => {
+    beforeEach(async () => {
+      await catalog.publish(
+        'fire-service',
+        spec('1.0.0', {
+          '/incidents': {
+            get: { operationId: 'listIncidents', responses: { '200': { description: 'OK' } } },
+            post: { operationId: 'reportIncident' },
+          },
+          '/stations': { get: { operationId: 'listStations' } },
+        })
+      );
+      await catalog.publish(
+        'fire-service',
+        spec('2.0.0', {
+          '/incidents': {
+            get: {
+              operationId: 'listIncidents',
+              parameters: [{ name: 'status', in: 'query' }],
+              responses: { '200': { description: 'OK' } },
+            },
+            post: { operationId: 'reportIncident' },
+          },
+          '/incidents/{id}': { get: { operationId: 'getIncident', summary: 'Get an incident' } },
+        })
+      );
+    });
+
+    it('should report added, removed and changed operations', () => {
+      expect(catalog.diff('fire-service', '1.0.0', '2.0.0')).toEqual({
+        name: 'fire-service',
+        from: '1.0.0',
+        to: '2.0.0',
+        added: [
+          {
+            method: 'GET',
+            path: '/incidents/{id}',
+            operationId: 'getIncident',
+            summary: 'Get an incident',
+          },
+        ],
+        removed: [{ method: 'GET', path: '/stations', operationId: 'listStations' }],
+        changed: [
+          {
+            method: 'GET',
+            path: '/incidents',
+            operationId: 'listIncidents',
+            changes: ['parameters'],
+          },
+        ],
+      });
+    });
+
+    it('should compare to the latest version', () => {
+      expect(catalog.diff('fire-service', '1.0.0', 'latest')?.removed).toHaveLength(1);
+    });
+
+    it('should return undefined for unknown versions', () => {
+      expect(catalog.diff('fire-service', '0.9.0', '2.0.0')).toBeUndefined();
+      expect(catalog.diff('police-service', '1.0.0', '2.0.0')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { createProgram, formatAge } from '../src/cli';
+import type { ServiceRegistry } from '../src/registry';
+
+describe('city-registry CLI', () => {
+  let server: Server;
+  let registry: ServiceRegistry;
+  let registryUrl: string;
+  let output: string[];
+  let errors: string[];
+
+  // Run a command against the test registry, stopping long-running commands once `stop` resolves
+  const run = async (args: string[], stop: Promise<void> = Promise.resolve()) => {
+    await createProgram({ env: { REGISTRY_URL: registryUrl }, shutdown: () => stop })
+      .exitOverride()
+      .parseAsync(['node', 'city-registry', ...args]);
+    return output.join('\n');
+  };
+
+  beforeAll(async () => {
+    vi.resetModules();
+    vi.stubEnv('HEALTH_CHECK_ENABLED', 'false');
+    const module = await import('../src/server');
+    registry = module.registry;
+    server = module.app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    registryUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    vi.unstubAllEnvs();
+  });
+
+  beforeEach(async () => {
+    output = [];
+    errors = [];
+    vi.spyOn(console, 'log').mockImplementation((...args) => output.push(args.join(' ')));
+    vi.spyOn(console, 'error').mockImplementation((...args) => errors.push(args.join(' ')));
+    // Registrations made by the CLI would otherwise keep sending heartbeats
+    vi.useFakeTimers({ toFake: ['setInterval'] });
+
+    await registry.register('fire-service', {
+      instanceId: 'fire-1',
+      url: 'http://fire-1:3000',
+      version: '1.2.0',
+      tags: ['emergency'],
+      metadata: { region: 'north' },
+    });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    process.exitCode = undefined;
+    for (const name of Object.keys(registry.getAll())) {
+      await registry.delete(name);
+    }
+  });
+
+  it('should list services', async () => {
+    const text = await run(['list']);
+
+    expect(text).toMatch(/^SERVICE\s+STATUS\s+INSTANCES\s+URL/);
+    expect(text).toMatch(/fire-service\s+UP\s+1\s+http:\/\/fire-1:3000/);
+  });
+
+  it('should describe the instances of a service', async () => {
+    const text = await run(['describe', 'fire-service']);
+
+    expect(text).toContain('fire-service (1 instance)');
+    expect(text).toMatch(/Version:\s+1\.2\.0/);
+    expect(text).toMatch(/Health:\s+not probed/);
+    expect(text).toMatch(/Heartbeat:\s+\d+s ago \(lease 60s\)/);
+    expect(text).toContain('{"region":"north"}');
+  });
+
+  it('should fail to describe an unknown service', async () => {
+    await run(['describe', 'unknown-service']);
+
+    expect(errors).toContain("Service 'unknown-service' not found");
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('should register and deregister an instance', async () => {
+    await run([
+      'register',
+      'legacy-service',
+      'http://legacy:8080',
+      '--id',
+      'legacy-1',
+      '--tag',
+      'a',
+      '--tag',
+      'b',
+      '--metadata',
+      'owner=ops',
+      '--depends-on',
+      'fire-service',
+    ]);
+
+    expect(output).toContain('Registered legacy-service/legacy-1');
+    expect(registry.getInstance('legacy-service', 'legacy-1')).toMatchObject({
+      url: 'http://legacy:8080',
+      tags: ['a', 'b'],
+      dependencies: ['fire-service'],
+      metadata: { owner: 'ops' },
+    });
+
+    await run(['deregister', 'legacy-service', 'legacy-1']);
+
+    expect(output).toContain('Deregistered legacy-service/legacy-1');
+    expect(registry.getInstance('legacy-service', 'legacy-1')).toBeUndefined();
+  });
+
+  it('should deregister on shutdown when keeping a registration alive', async () => {
+    let stop!: () => void;
+    const stopped = new Promise<void>((resolve) => (stop = resolve));
+
+    const running = run(
+      ['register', 'legacy-service', 'http://legacy:8080', '--keep-alive'],
+      stopped
+    );
+    await vi.waitFor(() => expect(registry.getInstances('legacy-service')).toHaveLength(1));
+    stop();
+    await running;
+
+    expect(registry.getInstances('legacy-service')).toHaveLength(0);
+  });
+
+  it('should fail to deregister an unknown instance', async () => {
+    await run(['deregister', 'fire-service', 'unknown']);
+
+    expect(errors).toContain('Failed to deregister fire-service/unknown');
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('should print changes while tailing', async () => {
+    let stop!: () => void;
+    const stopped = new Promise<void>((resolve) => (stop = resolve));
+
+    const running = run(['tail'], stopped);
+    await vi.waitFor(() =>
+      expect(output).toContain('Watching all services, 1 instance(s) registered')
+    );
+    await registry.register('police-service', {
+      instanceId: 'p1',
+      url: 'http://p1:3000',
+      metadata: {},
+    });
+    await vi.waitFor(() =>
+      expect(
+        output.some((line) => /registered\s+police-service\/p1 http:\/\/p1:3000/.test(line))
+      ).toBe(true)
+    );
+    stop();
+    await running;
+  });
+
+  it('should export the registry and import it again', async () => {
+    const file = path.join(
+      await fs.mkdtemp(path.join(os.tmpdir(), 'city-registry-')),
+      'export.json'
+    );
+
+    await run(['export', file]);
+    await registry.delete('fire-service');
+    await run(['import', file]);
+
+    expect(JSON.parse(await fs.readFile(file, 'utf8')).services['fire-service']).toHaveLength(1);
+    expect(output).toContain('Imported 1 of 1 instance(s)');
+    expect(registry.getInstance('fire-service', 'fire-1')).toMatchObject({
+      version: '1.2.0',
+      tags: ['emergency'],
+      metadata: { region: 'north' },
+    });
+    await fs.rm(path.dirname(file), { recursive: true });
+  });
+
+  it('should reject a file that is not an export', async () => {
+    const file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'city-registry-')), 'bad.json');
+    await fs.writeFile(file, '[]');
+
+    await run(['import', file]);
+
+    expect(errors[0]).toMatch(/is not a registry export/);
+    expect(process.exitCode).toBe(1);
+    await fs.rm(path.dirname(file), { recursive: true });
+  });
+
+  it('should fail when the registry refuses to list services', async () => {
+    const refusing = createServer((req, res) => {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'unauthorized', message: 'Bearer token required' }));
+    }).listen(0);
+    await new Promise((resolve) => refusing.once('listening', resolve));
+    const url = `http://localhost:${(refusing.address() as AddressInfo).port}`;
+
+    await run(['--registry', url, 'list']);
+    expect(errors).toContain('Failed to list services: Registry responded with status 401');
+    expect(process.exitCode).toBe(1);
+
+    process.exitCode = undefined;
+    await run(['--registry', url, 'export']);
+    expect(errors).toContain('Failed to export services: Registry responded with status 401');
+    expect(process.exitCode).toBe(1);
+
+    await new Promise((resolve) => refusing.close(resolve));
+  });
+
+  it('should fail when the registry is unreachable', async () => {
+    // A port nothing listens on any more
+    const closed = createServer().listen(0);
+    await new Promise((resolve) => closed.once('listening', resolve));
+    const url = `http://localhost:${(closed.address() as AddressInfo).port}`;
+    await new Promise((resolve) => closed.close(resolve));
+
+    await run(['--registry', url, 'list']);
+    expect(errors).toContain('Failed to list services: fetch failed (ECONNREFUSED)');
+    expect(process.exitCode).toBe(1);
+
+    process.exitCode = undefined;
+    await run(['--registry', url, 'export']);
+    expect(errors).toContain('Failed to export services: fetch failed (ECONNREFUSED)');
+    expect(process.exitCode).toBe(1);
+    expect(output).toEqual([]);
+  });
+
+  it('should format heartbeat ages', () => {
+    expect(formatAge(1000, 6000)).toBe('5s ago');
+    expect(formatAge(0, 125000)).toBe('2m 5s ago');
+    expect(formatAge(0, 7260000)).toBe('2h 1m ago');
+  });
+});
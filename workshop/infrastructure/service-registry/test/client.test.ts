@@ -5,6 +5,13 @@ import { ServiceRegistryClient, RegistryClientOptions } from '../src/client';
 const originalFetch = global.fetch;
 const mockFetch = vi.fn();
 
+// Registry responses the way the generated SDK reads them
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// The request the SDK sent with the nth fetch call
+const sentRequest = (call: number) => mockFetch.mock.calls[call][0] as Request;
+
 describe('Service Registry Client', () => {
   beforeEach(() => {
     // Setup mock fetch
@@ -14,10 +21,7 @@ describe('Service Registry Client', () => {
     vi.resetAllMocks();
 
     // Default mock response
-    mockFetch.mockResolvedValue({
-      ok: true,
-      json: async () => ({ status: 'ok' }),
-    });
+    mockFetch.mockImplementation(async () => jsonResponse({ status: 'ok' }));
   });
 
   afterEach(() => {
@@ -56,6 +60,31 @@ describe('Service Registry Client', () => {
       // We can't directly test private properties, but we can test behavior
       expect(client).toBeDefined();
     });
+
+    it('should use the provided instance ID', () => {
+      const client = new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+        instanceId: 'replica-1',
+      });
+
+      expect(client.instanceId).toBe('replica-1');
+    });
+
+    it('should generate a unique instance ID per client', () => {
+      const options: RegistryClientOptions = {
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+      };
+
+      const first = new ServiceRegistryClient(options);
+      const second = new ServiceRegistryClient(options);
+
+      expect(first.instanceId).toMatch(/^test-service-/);
+      expect(first.instanceId).not.toBe(second.instanceId);
+    });
   });
 
   describe('register()', () => {
@@ -71,30 +100,22 @@ describe('Service Registry Client', () => {
       const client = new ServiceRegistryClient(options);
 
       // Mock the fetch response for register
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ status: 'registered' }),
-      });
+      mockFetch.mockResolvedValueOnce(jsonResponse({ status: 'registered' }));
 
       const result = await client.register();
 
       // Verify the result and fetch call
       expect(result).toBe(true);
-      expect(mockFetch).toHaveBeenCalledWith(
-        'http://registry:3000/register',
-        expect.objectContaining({
-          method: 'POST',
-          headers: expect.objectContaining({
-            'Content-Type': 'application/json',
-          }),
-          body: expect.any(String),
-        })
-      );
+      const sent = sentRequest(0);
+      expect(sent.url).toBe('http://registry:3000/register');
+      expect(sent.method).toBe('POST');
+      expect(sent.headers.get('Content-Type')).toBe('application/json');
 
       // Verify the request body
-      const requestBody = JSON.parse(mockFetch.mock.calls[0][1].body as string);
+      const requestBody = await sent.json();
       expect(requestBody).toEqual({
         name: 'test-service',
+        instanceId: expect.stringMatching(/^test-service-/),
         url: 'http://test-service:8080',
         healthCheckUrl: 'http://test-service:8080/health',
         metadata: { version: '1.0.0' },
@@ -109,11 +130,7 @@ describe('Service Registry Client', () => {
       });
 
       // Mock a failed registration
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 400,
-        json: async () => ({ error: 'bad_request' }),
-      });
+      mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'bad_request' }, 400));
 
       const result = await client.register();
 
@@ -143,11 +160,180 @@ describe('Service Registry Client', () => {
         expect.any(Error)
       );
 
+      // Stop retrying in the background
+      await client.unregister();
+
       // Restore console.error
       consoleSpy.mockRestore();
     });
   });
 
+  describe('setState()', () => {
+    it('should update the lifecycle state of the registered instance', async () => {
+      const client = new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+        instanceId: 'replica-1',
+      });
+      await client.register();
+
+      const result = await client.setState('draining');
+
+      expect(result).toBe(true);
+      const sent = sentRequest(1);
+      expect(sent.method).toBe('PUT');
+      expect(sent.url).toBe('http://registry:3000/services/test-service/instances/replica-1');
+      expect(await sent.json()).toEqual({ state: 'draining' });
+      await client.unregister();
+    });
+
+    it('should register with the last state that was set', async () => {
+      const client = new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+      });
+
+      await client.setState('maintenance');
+      await client.register();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect((await sentRequest(0).json()).state).toBe('maintenance');
+      await client.unregister();
+    });
+  });
+
+  describe('self-healing registration', () => {
+    const options = {
+      registryUrl: 'http://registry:3000',
+      serviceName: 'test-service',
+      serviceUrl: 'http://test-service:8080',
+      instanceId: 'replica-1',
+      heartbeatInterval: 1000,
+      registerRetryDelay: 1000,
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      // No jitter, so every retry waits half of the backoff delay
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should retry a failed registration with exponential backoff', async () => {
+      const client = new ServiceRegistryClient(options);
+      mockFetch
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(jsonResponse({ error: 'service_unavailable' }, 503));
+
+      expect(await client.register()).toBe(false);
+      expect(client.registrationState).toBe('registering');
+
+      await vi.advanceTimersByTimeAsync(499);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(client.registrationState).toBe('registered');
+
+      await client.unregister();
+    });
+
+    it('should not retry a registration the registry rejected', async () => {
+      const client = new ServiceRegistryClient(options);
+      mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'forbidden' }, 403));
+
+      expect(await client.register()).toBe(false);
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(client.registrationState).toBe('unregistered');
+    });
+
+    it('should register again when the registry lost the instance', async () => {
+      const client = new ServiceRegistryClient(options);
+      const states: string[] = [];
+      client.onStateChange((state) => states.push(state));
+
+      await client.register();
+      mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'not_found' }, 404));
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(sentRequest(2).url).toBe('http://registry:3000/register');
+      expect(states).toEqual(['registering', 'registered', 'lost', 'registering', 'registered']);
+
+      await client.unregister();
+    });
+
+    it('should stop retrying when unregistered', async () => {
+      const client = new ServiceRegistryClient(options);
+      mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+
+      await client.register();
+      await client.unregister();
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(client.registrationState).toBe('unregistered');
+    });
+
+    it('should remove a registration that completes while unregistering', async () => {
+      const client = new ServiceRegistryClient(options);
+      let respond!: (response: Response) => void;
+      mockFetch.mockImplementationOnce(() => new Promise((resolve) => (respond = resolve)));
+
+      const registered = client.register();
+      await vi.advanceTimersByTimeAsync(0);
+      const unregistered = client.unregister();
+      respond(jsonResponse({ status: 'registered' }, 201));
+
+      expect(await registered).toBe(false);
+      expect(await unregistered).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(sentRequest(1).method).toBe('DELETE');
+      expect(client.registrationState).toBe('unregistered');
+    });
+
+    it('should not remove a registration that failed while unregistering', async () => {
+      const client = new ServiceRegistryClient(options);
+      let fail!: (error: Error) => void;
+      mockFetch.mockImplementationOnce(() => new Promise((_resolve, reject) => (fail = reject)));
+
+      const registered = client.register();
+      await vi.advanceTimersByTimeAsync(0);
+      const unregistered = client.unregister();
+      fail(new TypeError('fetch failed'));
+
+      expect(await registered).toBe(false);
+      expect(await unregistered).toBe(true);
+      await vi.advanceTimersByTimeAsync(60000);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should unregister when the process is shutting down', async () => {
+      const kill = vi.spyOn(process, 'kill').mockImplementation(() => true);
+      const client = new ServiceRegistryClient(options);
+      await client.register();
+
+      client.unregisterOnShutdown(['SIGUSR2']);
+      process.emit('SIGUSR2');
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(sentRequest(1).method).toBe('DELETE');
+      expect(sentRequest(1).url).toBe(
+        'http://registry:3000/services/test-service/instances/replica-1'
+      );
+      expect(kill).toHaveBeenCalledWith(process.pid, 'SIGUSR2');
+    });
+  });
+
   describe('discover()', () => {
     it('should fetch service information by name', async () => {
       const client = new ServiceRegistryClient({
@@ -164,16 +350,13 @@ describe('Service Registry Client', () => {
       };
 
       // Mock successful service discovery
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: async () => mockServiceInfo,
-      });
+      mockFetch.mockResolvedValueOnce(jsonResponse(mockServiceInfo));
 
       const result = await client.discover('other-service');
 
       // Verify the result and fetch call
       expect(result).toEqual(mockServiceInfo);
-      expect(mockFetch).toHaveBeenCalledWith('http://registry:3000/services/other-service');
+      expect(sentRequest(0).url).toBe('http://registry:3000/services/other-service');
     });
 
     it('should return null if service is not found', async () => {
@@ -184,11 +367,7 @@ describe('Service Registry Client', () => {
       });
 
       // Mock service not found
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 404,
-        json: async () => ({ error: 'not_found' }),
-      });
+      mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'not_found' }, 404));
 
       const result = await client.discover('non-existent-service');
 
@@ -223,6 +402,633 @@ describe('Service Registry Client', () => {
     });
   });
 
+  describe('failover', () => {
+    const options = {
+      registryUrl: ['http://registry-1:3000', 'http://registry-2:3000'],
+      serviceName: 'test-service',
+      serviceUrl: 'http://test-service:8080',
+      cacheTtl: 0,
+      staleIfErrorTtl: 0,
+    };
+
+    it('should move on to the next registry node when one is unreachable', async () => {
+      const client = new ServiceRegistryClient(options);
+      mockFetch
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(jsonResponse({ status: 'registered', instanceId: 'i-1' }, 201));
+
+      const result = await client.register();
+
+      expect(result).toBe(true);
+      expect(sentRequest(0).url).toBe('http://registry-1:3000/register');
+      expect(sentRequest(1).url).toBe('http://registry-2:3000/register');
+      await client.unregister();
+    });
+
+    it('should stay with the node that answered', async () => {
+      const client = new ServiceRegistryClient(options);
+      const service = { url: 'http://other:8080', metadata: {}, lastHeartbeat: 1000 };
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ error: 'internal_error' }, 503))
+        .mockImplementation(async () => jsonResponse(service));
+
+      await client.discover('other-service');
+      await client.discover('other-service');
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(sentRequest(1).url).toBe('http://registry-2:3000/services/other-service');
+      expect(sentRequest(2).url).toBe('http://registry-2:3000/services/other-service');
+    });
+
+    it('should not fail over on client errors', async () => {
+      const client = new ServiceRegistryClient(options);
+      mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'not_found' }, 404));
+
+      const result = await client.discover('missing-service');
+
+      expect(result).toBeNull();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail when no node can be reached', async () => {
+      const client = new ServiceRegistryClient(options);
+      mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const result = await client.discover('other-service');
+
+      expect(result).toBeNull();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('discover() with a query', () => {
+    const service = {
+      url: 'http://police-v2:8080',
+      metadata: {},
+      lastHeartbeat: 2,
+      instances: [
+        {
+          instanceId: 'v1',
+          url: 'http://police-v1:8080',
+          version: '1.4.0',
+          tags: ['emergency'],
+          metadata: { region: 'north' },
+          lastHeartbeat: 1,
+        },
+        {
+          instanceId: 'v2',
+          url: 'http://police-v2:8080',
+          version: '2.1.0',
+          tags: ['emergency', 'canary'],
+          metadata: { region: 'south' },
+          lastHeartbeat: 2,
+        },
+      ],
+    };
+
+    const createClient = () =>
+      new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+      });
+
+    beforeEach(() => {
+      mockFetch.mockImplementation(async () => jsonResponse(service));
+    });
+
+    it('should pick an instance satisfying the version range', async () => {
+      const client = createClient();
+
+      const v1 = await client.discover('police', { versionRange: '^1.0.0' });
+      const v2 = await client.discover('police', { versionRange: '>=2.0.0 <3.0.0' });
+
+      expect(v1?.instanceId).toBe('v1');
+      expect(v2?.instanceId).toBe('v2');
+      // Both lookups are served from one cached registry response
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pick an instance with every requested tag and metadata value', async () => {
+      const client = createClient();
+
+      expect((await client.discover('police', { tags: ['canary'] }))?.instanceId).toBe('v2');
+      expect(
+        (await client.discover('police', { tags: ['emergency'], metadata: { region: 'north' } }))
+          ?.instanceId
+      ).toBe('v1');
+    });
+
+    it('should return null when no instance matches', async () => {
+      const client = createClient();
+
+      expect(await client.discover('police', { versionRange: '^3.0.0' })).toBeNull();
+    });
+
+    it('should keep a sticky key on the same version', async () => {
+      const client = createClient();
+
+      const picks = await Promise.all(
+        [1, 2, 3, 4].map(
+          async () => (await client.discover('police', { stickyKey: 'c-42' }))?.version
+        )
+      );
+
+      expect(new Set(picks).size).toBe(1);
+    });
+
+    it('should register the version, tags, dependencies, weight and API spec of this service', async () => {
+      const client = new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+        instanceId: 'replica-1',
+        version: '2.0.0',
+        tags: ['emergency'],
+        dependencies: ['police-service'],
+        weight: 10,
+        label: 'canary',
+        apiSpecUrl: '/api-spec.json',
+      });
+
+      await client.register();
+      await client.unregister();
+
+      expect(await sentRequest(0).json()).toMatchObject({
+        version: '2.0.0',
+        tags: ['emergency'],
+        dependencies: ['police-service'],
+        weight: 10,
+        label: 'canary',
+        apiSpecUrl: '/api-spec.json',
+      });
+    });
+  });
+
+  describe('discover() caching', () => {
+    const service = {
+      url: 'http://other-service:8080',
+      metadata: {},
+      lastHeartbeat: 1,
+    };
+
+    const createClient = () =>
+      new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+        cacheTtl: 1000,
+        staleIfErrorTtl: 10000,
+        negativeCacheTtl: 500,
+      });
+
+    let now: number;
+
+    beforeEach(() => {
+      now = 1000;
+      vi.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    it('should reuse a lookup within the TTL', async () => {
+      const client = createClient();
+      mockFetch.mockImplementation(async () => jsonResponse(service));
+
+      await client.discover('other-service');
+      now += 500;
+      const result = await client.discover('other-service');
+
+      expect(result).toEqual(service);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(client.getCacheStats()).toMatchObject({ hits: 1, misses: 1, size: 1 });
+    });
+
+    it('should fall back to the last known answer when the registry is unreachable', async () => {
+      const client = createClient();
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      mockFetch.mockResolvedValueOnce(jsonResponse(service));
+      await client.discover('other-service');
+
+      now += 5000;
+      mockFetch.mockRejectedValueOnce(new Error('Network error'));
+      expect(await client.discover('other-service')).toEqual(service);
+
+      now += 2000;
+      mockFetch.mockResolvedValueOnce(jsonResponse({}, 503));
+      expect(await client.discover('other-service')).toEqual(service);
+
+      expect(consoleSpy).not.toHaveBeenCalled();
+      expect(client.getCacheStats()).toMatchObject({ staleHits: 2, errors: 2 });
+    });
+
+    it('should return null once the last known answer is too old', async () => {
+      const client = createClient();
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      mockFetch.mockResolvedValueOnce(jsonResponse(service));
+      await client.discover('other-service');
+
+      now += 12000;
+      mockFetch.mockRejectedValueOnce(new Error('Network error'));
+
+      expect(await client.discover('other-service')).toBeNull();
+    });
+
+    it('should remember services the registry does not know', async () => {
+      const client = createClient();
+      mockFetch.mockImplementation(async () => jsonResponse({}, 404));
+
+      expect(await client.discover('missing-service')).toBeNull();
+      expect(await client.discover('missing-service')).toBeNull();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      now += 600;
+      await client.discover('missing-service');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should ask the registry again after clearing the cache', async () => {
+      const client = createClient();
+      mockFetch.mockImplementation(async () => jsonResponse(service));
+
+      await client.discover('other-service');
+      client.clearCache('other-service');
+      await client.discover('other-service');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('discover() with multiple instances', () => {
+    const service = {
+      url: 'http://other-service-a:8080',
+      metadata: {},
+      lastHeartbeat: Date.now(),
+      instances: [
+        { instanceId: 'a', url: 'http://other-service-a:8080', metadata: {}, lastHeartbeat: 1 },
+        { instanceId: 'b', url: 'http://other-service-b:8080', metadata: {}, lastHeartbeat: 1 },
+      ],
+    };
+
+    const discoverUrls = async (client: ServiceRegistryClient, times: number) => {
+      const urls = [];
+      for (let i = 0; i < times; i++) {
+        mockFetch.mockResolvedValueOnce(jsonResponse(service));
+        urls.push((await client.discover('other-service'))?.url);
+      }
+      return urls;
+    };
+
+    it('should spread calls over instances with round-robin by default', async () => {
+      const client = new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+      });
+
+      expect(await discoverUrls(client, 3)).toEqual([
+        'http://other-service-a:8080',
+        'http://other-service-b:8080',
+        'http://other-service-a:8080',
+      ]);
+    });
+
+    it('should route around failed instances with least-recently-failed', async () => {
+      const client = new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+        selectionStrategy: 'least-recently-failed',
+      });
+
+      client.reportFailure('other-service', 'a');
+
+      expect(await discoverUrls(client, 2)).toEqual([
+        'http://other-service-b:8080',
+        'http://other-service-b:8080',
+      ]);
+    });
+
+    it('should return the selected instance with its ID', async () => {
+      const client = new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+      });
+      mockFetch.mockResolvedValueOnce(jsonResponse(service));
+
+      const result = await client.discover('other-service');
+
+      expect(result).toEqual(service.instances[0]);
+    });
+
+    it('should skip instances the registry reports as DOWN', async () => {
+      const client = new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+      });
+      const down = { status: 'DOWN', consecutiveFailures: 3, lastProbe: { ok: false } };
+      const partlyDown = {
+        ...service,
+        instances: [{ ...service.instances[0], health: down }, service.instances[1]],
+      };
+      mockFetch.mockImplementation(async () => jsonResponse(partlyDown));
+
+      expect((await client.discover('other-service'))?.url).toBe('http://other-service-b:8080');
+      expect((await client.discover('other-service'))?.url).toBe('http://other-service-b:8080');
+    });
+
+    it('should only pick active instances unless asked for other states', async () => {
+      const client = new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+      });
+      const draining = {
+        ...service,
+        instances: [{ ...service.instances[0], state: 'draining' }, service.instances[1]],
+      };
+      mockFetch.mockImplementation(async () => jsonResponse(draining));
+
+      expect((await client.discover('other-service'))?.url).toBe('http://other-service-b:8080');
+      expect((await client.discover('other-service'))?.url).toBe('http://other-service-b:8080');
+      expect((await client.discover('other-service', { states: ['draining'] }))?.url).toBe(
+        'http://other-service-a:8080'
+      );
+    });
+
+    it('should return null when every instance is DOWN', async () => {
+      const client = new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+      });
+      const down = { status: 'DOWN', consecutiveFailures: 3, lastProbe: { ok: false } };
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse({
+          ...service,
+          instances: service.instances.map((instance) => ({ ...instance, health: down })),
+        })
+      );
+
+      expect(await client.discover('other-service')).toBeNull();
+    });
+  });
+
+  describe('getInstances()', () => {
+    it('should fetch all instances of a service', async () => {
+      const client = new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+      });
+      const instances = [
+        { instanceId: 'a', url: 'http://other-service-a:8080', metadata: {}, lastHeartbeat: 1 },
+      ];
+      mockFetch.mockResolvedValueOnce(jsonResponse(instances));
+
+      const result = await client.getInstances('other-service');
+
+      expect(result).toEqual(instances);
+      expect(sentRequest(0).url).toBe('http://registry:3000/services/other-service/instances');
+    });
+
+    it('should return an empty list if the service is not found', async () => {
+      const client = new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+      });
+      mockFetch.mockResolvedValueOnce(jsonResponse({}, 404));
+
+      expect(await client.getInstances('other-service')).toEqual([]);
+    });
+  });
+
+  describe('watch()', () => {
+    const encoder = new TextEncoder();
+    const snapshot = {
+      index: 1,
+      services: {
+        'other-service': [
+          { instanceId: 'a', url: 'http://other-service-a:8080', metadata: {}, lastHeartbeat: 1 },
+        ],
+      },
+    };
+
+    const watchResponse = () => ({
+      ok: true,
+      status: 200,
+      body: new ReadableStream({
+        start(controller) {
+          controller.enqueue(
+            encoder.encode(`id: 1\nevent: snapshot\ndata: ${JSON.stringify(snapshot)}\n\n`)
+          );
+        },
+      }),
+    });
+
+    it('should call back with the instances and serve discover() from the cache', async () => {
+      const client = new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+      });
+      mockFetch.mockResolvedValueOnce(watchResponse());
+      const callback = vi.fn();
+
+      const stop = client.watch('other-service', callback);
+      await vi.waitFor(() => expect(callback).toHaveBeenCalled());
+
+      expect(callback).toHaveBeenCalledWith(
+        snapshot.services['other-service'],
+        expect.objectContaining({ type: 'snapshot' })
+      );
+      expect(await client.discover('other-service')).toEqual(snapshot.services['other-service'][0]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      stop();
+    });
+
+    it('should share one stream between watchers of the same service', async () => {
+      const client = new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+      });
+      mockFetch.mockResolvedValueOnce(watchResponse());
+      const first = vi.fn();
+      const second = vi.fn();
+
+      const stopFirst = client.watch('other-service', first);
+      const stopSecond = client.watch('other-service', second);
+      await vi.waitFor(() => expect(second).toHaveBeenCalled());
+
+      expect(first).toHaveBeenCalled();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      stopFirst();
+      stopSecond();
+    });
+
+    it('should go back to asking the registry once no one is watching', async () => {
+      const client = new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+      });
+      mockFetch.mockResolvedValueOnce(watchResponse());
+      const callback = vi.fn();
+
+      const stop = client.watch('other-service', callback);
+      await vi.waitFor(() => expect(callback).toHaveBeenCalled());
+      stop();
+
+      mockFetch.mockResolvedValueOnce(jsonResponse({}, 404));
+      expect(await client.discover('other-service')).toBeNull();
+      expect(sentRequest(mockFetch.mock.calls.length - 1).url).toBe(
+        'http://registry:3000/services/other-service'
+      );
+    });
+  });
+
+  describe('authentication', () => {
+    const createClient = () =>
+      new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+        iamUrl: 'http://iam:3000',
+        clientSecret: 'test-service-secret',
+      });
+
+    const tokenResponse = (token: string) => ({
+      ok: true,
+      status: 200,
+      json: async () => ({ access_token: token, token_type: 'bearer', expires_in: 3600 }),
+    });
+
+    it('should obtain a token from the IAM service and attach it', async () => {
+      const client = createClient();
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse('token-1'))
+        .mockImplementation(async () => jsonResponse({}));
+
+      await client.register();
+      await client.listAll();
+
+      expect(mockFetch).toHaveBeenNthCalledWith(1, 'http://iam:3000/oauth/token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          grant_type: 'client_credentials',
+          client_id: 'test-service',
+          client_secret: 'test-service-secret',
+          scope: 'registry:read registry:write',
+        }),
+      });
+      expect(sentRequest(1).headers.get('Authorization')).toBe('Bearer token-1');
+      expect(sentRequest(2).headers.get('Authorization')).toBe('Bearer token-1');
+      // The token is reused until it is about to expire
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+
+      await client.unregister();
+    });
+
+    it('should renew the token and retry once when it is rejected', async () => {
+      const client = createClient();
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse('token-1'))
+        .mockResolvedValueOnce(jsonResponse({}, 401))
+        .mockResolvedValueOnce(tokenResponse('token-2'))
+        .mockResolvedValueOnce(jsonResponse({ a: {} }));
+
+      const services = await client.listAll();
+
+      expect(services).toEqual({ a: {} });
+      expect(sentRequest(3).headers.get('Authorization')).toBe('Bearer token-2');
+    });
+
+    it('should fail the call when no token can be obtained', async () => {
+      const client = createClient();
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      mockFetch.mockResolvedValueOnce(jsonResponse({}, 401));
+
+      expect(await client.register()).toBe(false);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Failed to register with Service Registry:',
+        expect.any(Error)
+      );
+    });
+  });
+
+  describe('heartbeat', () => {
+    it('should send heartbeats for this instance', async () => {
+      vi.useFakeTimers();
+      const client = new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+        instanceId: 'replica-1',
+        heartbeatInterval: 1000,
+      });
+
+      await client.register();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const heartbeat = sentRequest(mockFetch.mock.calls.length - 1);
+      expect(heartbeat.url).toBe('http://registry:3000/heartbeat/test-service/replica-1');
+      expect(heartbeat.method).toBe('POST');
+
+      await client.unregister();
+      vi.useRealTimers();
+    });
+
+    it('should request a lease and pace heartbeats by the granted TTL', async () => {
+      vi.useFakeTimers();
+      const client = new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+        instanceId: 'replica-1',
+        leaseTtl: 9,
+      });
+      mockFetch.mockResolvedValueOnce(jsonResponse({ status: 'registered', lease: { ttl: 9 } }));
+
+      await client.register();
+      expect((await sentRequest(0).json()).ttl).toBe(9);
+
+      // Three heartbeats per lease
+      await vi.advanceTimersByTimeAsync(2999);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      await client.unregister();
+      vi.useRealTimers();
+    });
+
+    it('should keep an explicit heartbeat interval within half the lease', async () => {
+      vi.useFakeTimers();
+      const client = new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+        heartbeatInterval: 60000,
+      });
+      mockFetch.mockResolvedValueOnce(jsonResponse({ status: 'registered', lease: { ttl: 10 } }));
+
+      await client.register();
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      await client.unregister();
+      vi.useRealTimers();
+    });
+  });
+
   describe('listAll()', () => {
     it('should fetch all registered services', async () => {
       const client = new ServiceRegistryClient({
@@ -245,16 +1051,13 @@ describe('Service Registry Client', () => {
       };
 
       // Mock successful service listing
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: async () => mockServiceList,
-      });
+      mockFetch.mockResolvedValueOnce(jsonResponse(mockServiceList));
 
       const result = await client.listAll();
 
       // Verify the result and fetch call
       expect(result).toEqual(mockServiceList);
-      expect(mockFetch).toHaveBeenCalledWith('http://registry:3000/services');
+      expect(sentRequest(0).url).toBe('http://registry:3000/services');
     });
 
     it('should return empty object if listing fails', async () => {
@@ -265,17 +1068,58 @@ describe('Service Registry Client', () => {
       });
 
       // Mock failed service listing
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 500,
-        json: async () => ({ error: 'server_error' }),
-      });
+      mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'server_error' }, 500));
 
       const result = await client.listAll();
 
       // Verify the result
       expect(result).toEqual({});
     });
+
+    it('should throw from fetchAll() when the registry refuses', async () => {
+      const client = new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'test-service',
+        serviceUrl: 'http://test-service:8080',
+      });
+
+      mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'unauthorized' }, 401));
+
+      await expect(client.fetchAll()).rejects.toThrow('Registry responded with status 401');
+    });
+  });
+
+  describe('deregister()', () => {
+    const client = () =>
+      new ServiceRegistryClient({
+        registryUrl: 'http://registry:3000',
+        serviceName: 'city-registry',
+        serviceUrl: '',
+      });
+
+    it('should remove an instance of another service', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ status: 'deleted' }));
+
+      expect(await client().deregister('other-service', 'other-1')).toBe(true);
+      expect(sentRequest(0).method).toBe('DELETE');
+      expect(sentRequest(0).url).toBe(
+        'http://registry:3000/services/other-service/instances/other-1'
+      );
+    });
+
+    it('should remove a whole service without an instance ID', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ status: 'deleted' }));
+
+      expect(await client().deregister('other-service')).toBe(true);
+      expect(sentRequest(0).url).toBe('http://registry:3000/services/other-service');
+    });
+
+    it('should resolve false when the registry refuses', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'not_found' }, 404));
+
+      expect(await client().deregister('other-service', 'unknown')).toBe(false);
+    });
   });
 
   describe('unregister()', () => {
@@ -287,10 +1131,7 @@ describe('Service Registry Client', () => {
       });
 
       // We need to register first to set isRegistered flag
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ status: 'registered' }),
-      });
+      mockFetch.mockResolvedValueOnce(jsonResponse({ status: 'registered' }));
 
       await client.register();
 
@@ -298,21 +1139,17 @@ describe('Service Registry Client', () => {
       mockFetch.mockReset();
 
       // Mock successful unregister
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ status: 'deleted' }),
-      });
+      mockFetch.mockResolvedValueOnce(jsonResponse({ status: 'deleted' }));
 
       const result = await client.unregister();
 
       // Verify the result and fetch call
       expect(result).toBe(true);
-      expect(mockFetch).toHaveBeenCalledWith(
-        'http://registry:3000/services/test-service',
-        expect.objectContaining({
-          method: 'DELETE',
-        })
+      const sent = sentRequest(mockFetch.mock.calls.length - 1);
+      expect(sent.url).toBe(
+        `http://registry:3000/services/test-service/instances/${client.instanceId}`
       );
+      expect(sent.method).toBe('DELETE');
     });
 
     it('should handle failed unregister gracefully', async () => {
@@ -323,10 +1160,7 @@ describe('Service Registry Client', () => {
       });
 
       // We need to register first to set isRegistered flag
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ status: 'registered' }),
-      });
+      mockFetch.mockResolvedValueOnce(jsonResponse({ status: 'registered' }));
 
       await client.register();
 
@@ -334,11 +1168,7 @@ describe('Service Registry Client', () => {
       mockFetch.mockReset();
 
       // Mock failed unregister
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 404,
-        json: async () => ({ error: 'not_found' }),
-      });
+      mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'not_found' }, 404));
 
       const result = await client.unregister();
 
@@ -0,0 +1,292 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Server } from 'http';
+import { AddressInfo, createServer } from 'net';
+import type { ApiCatalog } from '../src/catalog';
+import { ServiceRegistryClient } from '../src/client';
+import { RegistryNotifier } from '../src/notifications';
+import type { ServiceRegistry } from '../src/registry';
+
+// A registry node started in this process with its own copy of the server module
+interface RegistryNode {
+  url: string;
+  registry: ServiceRegistry;
+  catalog: ApiCatalog;
+  stop: () => Promise<void>;
+}
+
+const freePort = () =>
+  new Promise<number>((resolve) => {
+    const probe = createServer();
+    probe.listen(0, () => {
+      const { port } = probe.address() as AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+
+const startNode = async (
+  port: number,
+  peers: number[],
+  env: Record<string, string> = {}
+): Promise<RegistryNode> => {
+  vi.resetModules();
+  Object.entries(env).forEach(([name, value]) => vi.stubEnv(name, value));
+  vi.stubEnv('CLUSTER_NODE_ID', `node-${port}`);
+  vi.stubEnv('CLUSTER_PEERS', peers.map((peer) => `http://localhost:${peer}`).join(','));
+  vi.stubEnv('CLUSTER_SYNC_INTERVAL', '200');
+  vi.stubEnv('HEALTH_CHECK_ENABLED', 'false');
+
+  const { registry, catalog, cluster, startServer } = await import('../src/server');
+  const server: Server = await startServer(port);
+
+  return {
+    url: `http://localhost:${port}`,
+    registry,
+    catalog,
+    stop: () =>
+      new Promise((resolve) => {
+        cluster.stop();
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+};
+
+// Replication is asynchronous, so wait for the nodes to agree
+const eventually = async (assertion: () => void | Promise<void>, timeout = 3000) => {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    try {
+      await assertion();
+      return;
+    } catch (error) {
+      if (Date.now() > deadline) throw error;
+      await new Promise((resolve) => setTimeout(resolve, 25));
+    }
+  }
+};
+
+const register = (node: RegistryNode, body: Record<string, unknown>) =>
+  fetch(`${node.url}/register`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+describe('Registry Cluster', () => {
+  let ports: number[];
+  let nodes: RegistryNode[];
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    ports = [await freePort(), await freePort(), await freePort()];
+    nodes = [];
+    for (const port of ports) {
+      nodes.push(
+        await startNode(
+          port,
+          ports.filter((peer) => peer !== port)
+        )
+      );
+    }
+  });
+
+  afterEach(async () => {
+    await Promise.all(nodes.map((node) => node.stop()));
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should replicate registrations to every node', async () => {
+    const response = await register(nodes[0], {
+      name: 'test-service',
+      instanceId: 'instance-1',
+      url: 'http://test:8080',
+    });
+    expect(response.status).toBe(201);
+
+    await eventually(() => {
+      for (const node of nodes) {
+        expect(node.registry.getInstance('test-service', 'instance-1')?.url).toBe(
+          'http://test:8080'
+        );
+      }
+    });
+  });
+
+  it('should replicate heartbeats', async () => {
+    await register(nodes[0], { name: 'test-service', instanceId: 'instance-1', url: 'http://a' });
+    await eventually(() =>
+      expect(nodes[2].registry.getInstance('test-service', 'instance-1')).toBeDefined()
+    );
+    const registered = nodes[2].registry.getInstance('test-service', 'instance-1')!.lastHeartbeat;
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await fetch(`${nodes[1].url}/heartbeat/test-service/instance-1`, { method: 'POST' });
+
+    await eventually(() =>
+      expect(
+        nodes[2].registry.getInstance('test-service', 'instance-1')!.lastHeartbeat
+      ).toBeGreaterThan(registered)
+    );
+  });
+
+  it('should replicate deregistrations', async () => {
+    await register(nodes[0], { name: 'test-service', instanceId: 'instance-1', url: 'http://a' });
+    await eventually(() =>
+      expect(nodes[1].registry.getInstance('test-service', 'instance-1')).toBeDefined()
+    );
+
+    await fetch(`${nodes[1].url}/services/test-service/instances/instance-1`, { method: 'DELETE' });
+
+    await eventually(() => {
+      for (const node of nodes) {
+        expect(node.registry.getInstance('test-service', 'instance-1')).toBeUndefined();
+      }
+    });
+  });
+
+  it('should keep serving and catch up a node after it restarts', async () => {
+    await nodes[2].stop();
+
+    await register(nodes[0], { name: 'test-service', instanceId: 'instance-1', url: 'http://a' });
+    await eventually(() =>
+      expect(nodes[1].registry.getInstance('test-service', 'instance-1')).toBeDefined()
+    );
+
+    nodes[2] = await startNode(ports[2], [ports[0], ports[1]]);
+
+    // The restarted node pulls the state of its peers before it starts serving
+    expect(nodes[2].registry.getInstance('test-service', 'instance-1')?.url).toBe('http://a');
+  });
+
+  it('should replicate published API specs', async () => {
+    await register(nodes[0], {
+      name: 'test-service',
+      url: 'http://a',
+      apiSpec: { openapi: '3.1.0', info: { version: '1.0.0' }, paths: {} },
+    });
+
+    await eventually(() => {
+      for (const node of nodes) {
+        expect(node.catalog.entry('test-service')?.latest).toBe('1.0.0');
+      }
+    });
+  });
+
+  it('should catch up on API specs published while a node was down', async () => {
+    await nodes[2].stop();
+
+    await register(nodes[0], {
+      name: 'test-service',
+      url: 'http://a',
+      apiSpec: { openapi: '3.1.0', info: { version: '2.0.0' }, paths: {} },
+    });
+    nodes[2] = await startNode(ports[2], [ports[0], ports[1]]);
+
+    expect(nodes[2].catalog.get('test-service', '2.0.0')).toBeDefined();
+  });
+
+  it('should report whether peers can be reached', async () => {
+    await nodes[1].stop();
+    await register(nodes[0], { name: 'test-service', url: 'http://a' });
+
+    await eventually(async () => {
+      const status = await (await fetch(`${nodes[0].url}/cluster`)).json();
+      expect(status.nodeId).toBe(`node-${ports[0]}`);
+      expect(status.peers).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ url: nodes[1].url, reachable: false }),
+          expect.objectContaining({ url: nodes[2].url, reachable: true }),
+        ])
+      );
+    });
+  });
+
+  it('should let clients fail over to another node', async () => {
+    await nodes[0].stop();
+    const client = new ServiceRegistryClient({
+      registryUrl: nodes.map((node) => node.url),
+      serviceName: 'test-service',
+      serviceUrl: 'http://test:8080',
+    });
+
+    expect(await client.register()).toBe(true);
+    await client.unregister();
+  });
+});
+
+describe('Registry Cluster events', () => {
+  let nodes: RegistryNode[];
+  let publisher: { publish: ReturnType<typeof vi.fn> };
+
+  // Topics published to the event bus by either node
+  const published = () => publisher.publish.mock.calls.map(([topic]) => topic);
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const ports = [await freePort(), await freePort()];
+    nodes = [];
+    publisher = { publish: vi.fn(async () => 'message-id') };
+    for (const port of ports) {
+      const node = await startNode(
+        port,
+        ports.filter((peer) => peer !== port),
+        { LEASE_MIN_TTL: '1', LEASE_SWEEP_INTERVAL: '100' }
+      );
+      new RegistryNotifier(node.registry, publisher, `node-${port}`).start();
+      nodes.push(node);
+    }
+  });
+
+  afterEach(async () => {
+    await Promise.all(nodes.map((node) => node.stop()));
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should publish a deregistration once', async () => {
+    await register(nodes[0], { name: 'test-service', instanceId: 'instance-1', url: 'http://a' });
+    await eventually(() =>
+      expect(nodes[1].registry.getInstance('test-service', 'instance-1')).toBeDefined()
+    );
+
+    await fetch(`${nodes[1].url}/services/test-service/instances/instance-1`, { method: 'DELETE' });
+    await eventually(() =>
+      expect(nodes[0].registry.getInstance('test-service', 'instance-1')).toBeUndefined()
+    );
+
+    expect(published()).toEqual(['registry.service.registered', 'registry.service.deregistered']);
+  });
+
+  it('should publish an eviction once', async () => {
+    // Wait for the nodes to learn each other's IDs
+    await eventually(async () => {
+      for (const node of nodes) {
+        const status = await (await fetch(`${node.url}/cluster`)).json();
+        expect(status.peers[0].reachable).toBe(true);
+      }
+    });
+    await new Promise((resolve) => setTimeout(resolve, 250));
+
+    await register(nodes[0], {
+      name: 'test-service',
+      instanceId: 'instance-1',
+      url: 'http://a',
+      ttl: 1,
+    });
+
+    await eventually(() => {
+      for (const node of nodes) {
+        expect(node.registry.getInstance('test-service', 'instance-1')).toBeUndefined();
+      }
+    });
+    // Give the other node time to publish a second eviction
+    await new Promise((resolve) => setTimeout(resolve, 250));
+
+    expect(published()).toEqual(['registry.service.registered', 'registry.service.evicted']);
+  });
+});
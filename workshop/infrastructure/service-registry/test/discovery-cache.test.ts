@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DiscoveryCache } from '../src/discovery-cache';
+
+describe('DiscoveryCache', () => {
+  let now: number;
+  let cache: DiscoveryCache<string>;
+
+  beforeEach(() => {
+    now = 1000;
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+    cache = new DiscoveryCache<string>({
+      ttl: 1000,
+      staleIfError: 5000,
+      negativeTtl: 500,
+      refreshAhead: 0.8,
+    });
+  });
+
+  it('should load on a miss and serve hits until the TTL expires', async () => {
+    const load = vi.fn().mockResolvedValue('v1');
+
+    expect(await cache.get('service', load)).toBe('v1');
+    now += 500;
+    expect(await cache.get('service', load)).toBe('v1');
+    expect(load).toHaveBeenCalledTimes(1);
+
+    now += 600;
+    load.mockResolvedValue('v2');
+    expect(await cache.get('service', load)).toBe('v2');
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(cache.stats).toMatchObject({ hits: 1, misses: 2, size: 1 });
+  });
+
+  it('should refresh in the background when a hit is close to expiry', async () => {
+    const load = vi.fn().mockResolvedValue('v1');
+    await cache.get('service', load);
+
+    now += 900;
+    load.mockResolvedValue('v2');
+    expect(await cache.get('service', load)).toBe('v1');
+    expect(load).toHaveBeenCalledTimes(2);
+
+    // The refreshed entry starts a new TTL
+    now += 500;
+    expect(await cache.get('service', load)).toBe('v2');
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(cache.stats.refreshes).toBe(1);
+  });
+
+  it('should serve an expired entry when the lookup fails', async () => {
+    await cache.get('service', async () => 'v1');
+
+    now += 3000;
+    const result = await cache.get('service', async () => {
+      throw new Error('registry down');
+    });
+
+    expect(result).toBe('v1');
+    expect(cache.stats).toMatchObject({ staleHits: 1, errors: 1 });
+  });
+
+  it('should rethrow once the entry is too old to fall back to', async () => {
+    await cache.get('service', async () => 'v1');
+
+    now += 6001;
+    await expect(
+      cache.get('service', async () => {
+        throw new Error('registry down');
+      })
+    ).rejects.toThrow('registry down');
+  });
+
+  it('should remember unknown keys for the negative TTL', async () => {
+    const load = vi.fn().mockResolvedValue(null);
+
+    expect(await cache.get('missing', load)).toBeNull();
+    now += 400;
+    expect(await cache.get('missing', load)).toBeNull();
+    expect(load).toHaveBeenCalledTimes(1);
+
+    now += 200;
+    await cache.get('missing', load);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share one lookup between concurrent callers', async () => {
+    const load = vi.fn().mockResolvedValue('v1');
+
+    const results = await Promise.all([cache.get('service', load), cache.get('service', load)]);
+
+    expect(results).toEqual(['v1', 'v1']);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should forget invalidated keys', async () => {
+    const load = vi.fn().mockResolvedValue('v1');
+    await cache.get('a', load);
+    await cache.get('b', load);
+
+    cache.invalidate('a');
+    expect(cache.stats.size).toBe(1);
+
+    cache.invalidate();
+    expect(cache.stats.size).toBe(0);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { randomUUID } from 'crypto';
+import { promises as dns } from 'dns';
+import { DnsResponder } from '../src/dns';
+import { ServiceRegistry } from '../src/registry';
+
+describe('DnsResponder', () => {
+  let registry: ServiceRegistry;
+  let responder: DnsResponder;
+  let resolver: dns.Resolver;
+
+  beforeEach(async () => {
+    registry = new ServiceRegistry();
+    responder = new DnsResponder(registry, {
+      port: 0,
+      host: '127.0.0.1',
+      domain: 'city.local',
+      ttl: 5,
+    });
+    await responder.start();
+
+    resolver = new dns.Resolver({ timeout: 1000, tries: 1 });
+    resolver.setServers([`127.0.0.1:${responder.address!.port}`]);
+
+    await registry.register('fire-service', {
+      instanceId: 'a',
+      url: 'http://127.0.0.1:3001',
+      metadata: {},
+    });
+    await registry.register('fire-service', {
+      instanceId: 'b',
+      url: 'http://127.0.0.2:3002',
+      metadata: {},
+    });
+  });
+
+  afterEach(async () => {
+    await responder.stop();
+  });
+
+  it('should answer A queries with the instance addresses', async () => {
+    const addresses = await resolver.resolve4('fire-service.city.local', { ttl: true });
+
+    expect(addresses.map((record) => record.address).sort()).toEqual(['127.0.0.1', '127.0.0.2']);
+    expect(addresses[0].ttl).toBe(5);
+  });
+
+  it('should match names case-insensitively', async () => {
+    const addresses = await resolver.resolve4('Fire-Service.CITY.local');
+
+    expect(addresses).toHaveLength(2);
+  });
+
+  it('should leave out instances that are draining or DOWN', async () => {
+    await registry.update('fire-service', { state: 'draining' }, 'a');
+    await registry.register('fire-service', {
+      instanceId: 'c',
+      url: 'http://127.0.0.3:3003',
+      metadata: {},
+    });
+    registry.setHealth('fire-service', 'c', {
+      status: 'DOWN',
+      consecutiveFailures: 3,
+      lastProbe: { ok: false, checkedAt: Date.now(), latencyMs: 10, error: 'timeout' },
+    });
+
+    await expect(resolver.resolve4('fire-service.city.local')).resolves.toEqual(['127.0.0.2']);
+  });
+
+  it('should answer with no records when no instance takes traffic', async () => {
+    await registry.update('fire-service', { state: 'maintenance' });
+
+    await expect(resolver.resolve4('fire-service.city.local')).rejects.toMatchObject({
+      code: 'ENODATA',
+    });
+  });
+
+  it('should answer SRV queries with ports and instance targets', async () => {
+    const records = await resolver.resolveSrv('_fire-service._tcp.city.local');
+
+    expect(records.sort((x, y) => x.port - y.port)).toEqual([
+      { name: 'a.fire-service.city.local', port: 3001, priority: 0, weight: 1 },
+      { name: 'b.fire-service.city.local', port: 3002, priority: 0, weight: 1 },
+    ]);
+    await expect(resolver.resolveSrv('fire-service.city.local')).resolves.toHaveLength(2);
+  });
+
+  it('should keep SRV targets of default instance IDs within the label limit', async () => {
+    const instanceId = `transportation-traffic-service-${randomUUID()}`;
+    await registry.register('transportation-traffic-service', {
+      instanceId,
+      url: 'http://127.0.0.4:3004',
+      metadata: {},
+    });
+
+    const [record] = await resolver.resolveSrv('transportation-traffic-service.city.local');
+    const label = record.name.split('.')[0];
+
+    expect(label.length).toBeLessThanOrEqual(63);
+    expect(label).toMatch(/^transportation-traffic-service-/);
+    await expect(resolver.resolve4(record.name)).resolves.toEqual(['127.0.0.4']);
+  });
+
+  it('should skip instances with a malformed URL in SRV records', async () => {
+    await registry.register('fire-service', { instanceId: 'c', url: 'not a url', metadata: {} });
+
+    const records = await resolver.resolveSrv('_fire-service._tcp.city.local');
+
+    expect(records.map((record) => record.name).sort()).toEqual([
+      'a.fire-service.city.local',
+      'b.fire-service.city.local',
+    ]);
+  });
+
+  it('should use the registered weight of an instance in SRV records', async () => {
+    await registry.update('fire-service', { weight: 9 }, 'b');
+
+    const records = await resolver.resolveSrv('_fire-service._tcp.city.local');
+
+    expect(records.find((record) => record.port === 3002)?.weight).toBe(9);
+  });
+
+  it('should resolve instance names, also while draining', async () => {
+    await registry.update('fire-service', { state: 'draining' }, 'b');
+
+    await expect(resolver.resolve4('b.fire-service.city.local')).resolves.toEqual(['127.0.0.2']);
+  });
+
+  it('should look up host names in instance URLs', async () => {
+    await registry.register('police-service', {
+      instanceId: 'p',
+      url: 'http://localhost:4000',
+      metadata: {},
+    });
+
+    await expect(resolver.resolve4('police-service.city.local')).resolves.toEqual(['127.0.0.1']);
+  });
+
+  it('should answer NXDOMAIN for unknown services', async () => {
+    await expect(resolver.resolve4('unknown.city.local')).rejects.toMatchObject({
+      code: 'ENOTFOUND',
+    });
+    await expect(resolver.resolveSrv('_unknown._tcp.city.local')).rejects.toMatchObject({
+      code: 'ENOTFOUND',
+    });
+  });
+
+  it('should refuse names outside its domain', async () => {
+    await expect(resolver.resolve4('example.com')).rejects.toMatchObject({ code: 'EREFUSED' });
+  });
+
+  it('should answer FORMERR to queries without a question', async () => {
+    const query = Buffer.from([0x12, 0x34, 0x01, 0x00, 0, 0, 0, 0, 0, 0, 0, 0]);
+
+    const response = await responder.answer(query);
+
+    expect(response!.readUInt16BE(0)).toBe(0x1234);
+    expect(response!.readUInt16BE(2) & 0x800f).toBe(0x8001);
+  });
+
+  it('should leave out records that do not fit in a UDP response', async () => {
+    for (let i = 10; i < 60; i++) {
+      await registry.register('fire-service', {
+        instanceId: `instance-${i}`,
+        url: `http://10.0.0.${i}:3000`,
+        metadata: {},
+      });
+    }
+
+    const addresses = await resolver.resolve4('fire-service.city.local');
+
+    expect(addresses.length).toBeGreaterThan(1);
+    expect(addresses.length).toBeLessThan(52);
+  });
+});
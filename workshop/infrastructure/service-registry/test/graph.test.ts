@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { buildGraph, toDot } from '../src/graph';
+import { ServiceRegistry } from '../src/registry';
+
+describe('Dependency graph', () => {
+  let registry: ServiceRegistry;
+
+  beforeEach(async () => {
+    registry = new ServiceRegistry();
+    await registry.register('gateway', {
+      instanceId: 'g',
+      url: 'http://gateway:3000',
+      dependencies: ['fire-service'],
+      metadata: {},
+    });
+    await registry.register('fire-service', {
+      instanceId: 'f1',
+      url: 'http://fire-1:3000',
+      dependencies: ['weather-service'],
+      metadata: {},
+    });
+    await registry.register('fire-service', {
+      instanceId: 'f2',
+      url: 'http://fire-2:3000',
+      dependencies: ['weather-service', 'iam-service'],
+      metadata: {},
+    });
+    await registry.register('weather-service', {
+      instanceId: 'w',
+      url: 'http://weather:3000',
+      metadata: {},
+    });
+  });
+
+  describe('buildGraph()', () => {
+    it('should combine the dependencies of every instance into edges', () => {
+      const graph = buildGraph(registry.getAll());
+
+      expect(graph.edges).toEqual([
+        { from: 'fire-service', to: 'iam-service' },
+        { from: 'fire-service', to: 'weather-service' },
+        { from: 'gateway', to: 'fire-service' },
+      ]);
+    });
+
+    it('should add unregistered dependencies as nodes and warn about them', () => {
+      const graph = buildGraph(registry.getAll());
+
+      expect(graph.nodes.map((node) => node.name)).toEqual([
+        'fire-service',
+        'gateway',
+        'iam-service',
+        'weather-service',
+      ]);
+      expect(graph.nodes.find((node) => node.name === 'iam-service')).toMatchObject({
+        registered: false,
+        instances: 0,
+        available: 0,
+      });
+      expect(graph.warnings).toEqual([
+        {
+          type: 'unregistered',
+          service: 'fire-service',
+          dependency: 'iam-service',
+          message: "'fire-service' depends on 'iam-service', which is not registered",
+        },
+      ]);
+    });
+
+    it('should list the services impacted by a failure', () => {
+      const graph = buildGraph(registry.getAll());
+
+      expect(graph.nodes.find((node) => node.name === 'weather-service')!.impacted).toEqual([
+        'fire-service',
+        'gateway',
+      ]);
+      expect(graph.nodes.find((node) => node.name === 'gateway')!.impacted).toEqual([]);
+    });
+
+    it('should warn about dependencies without instances taking traffic', async () => {
+      await registry.update('weather-service', { state: 'draining' });
+
+      const graph = buildGraph(registry.getAll());
+
+      expect(graph.warnings).toContainEqual(
+        expect.objectContaining({
+          type: 'unhealthy',
+          service: 'fire-service',
+          dependency: 'weather-service',
+          message:
+            "'fire-service' depends on 'weather-service', which has no instances taking traffic",
+        })
+      );
+    });
+
+    it('should warn about degraded dependencies', () => {
+      registry.setHealth('fire-service', 'f1', {
+        status: 'DOWN',
+        consecutiveFailures: 3,
+        lastProbe: { ok: false, checkedAt: Date.now(), latencyMs: 10, error: 'timeout' },
+      });
+
+      const graph = buildGraph(registry.getAll());
+
+      expect(graph.nodes.find((node) => node.name === 'fire-service')).toMatchObject({
+        status: 'DEGRADED',
+        instances: 2,
+        available: 1,
+      });
+      expect(graph.warnings).toContainEqual(
+        expect.objectContaining({
+          type: 'unhealthy',
+          service: 'gateway',
+          message: "'gateway' depends on 'fire-service', which is DEGRADED",
+        })
+      );
+    });
+
+    it('should not loop on circular dependencies', async () => {
+      await registry.update('weather-service', { dependencies: ['gateway'] });
+
+      const graph = buildGraph(registry.getAll());
+
+      expect(graph.nodes.find((node) => node.name === 'gateway')!.impacted).toEqual([
+        'fire-service',
+        'weather-service',
+      ]);
+    });
+  });
+
+  describe('toDot()', () => {
+    it('should render nodes and edges as Graphviz DOT', () => {
+      const dot = toDot(buildGraph(registry.getAll()));
+
+      expect(dot).toMatch(/^digraph services \{/);
+      expect(dot).toContain('"gateway" -> "fire-service";');
+      expect(dot).toContain('"fire-service" -> "iam-service" [color=red];');
+      expect(dot).toContain(
+        '"iam-service" [style="rounded,dashed", label="iam-service\\nnot registered"];'
+      );
+      expect(dot).toContain(
+        '"fire-service" [fillcolor="#d1fae5", label="fire-service\\n2/2 available"];'
+      );
+    });
+
+    it('should escape quotes in service names', () => {
+      const dot = toDot({
+        nodes: [{ name: 'a"b', registered: false, instances: 0, available: 0, impacted: [] }],
+        edges: [],
+        warnings: [],
+      });
+
+      expect(dot).toContain('"a\\"b"');
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { HealthChecker } from '../src/health-checker';
+import { ServiceRegistry } from '../src/registry';
+import { RegistryEvent } from '../src/types';
+
+// Mock fetch API
+const originalFetch = global.fetch;
+const mockFetch = vi.fn();
+
+describe('HealthChecker', () => {
+  let registry: ServiceRegistry;
+  let checker: HealthChecker;
+
+  beforeEach(async () => {
+    global.fetch = mockFetch;
+    registry = new ServiceRegistry();
+    checker = new HealthChecker(registry, { interval: 1000, timeout: 50, failureThreshold: 3 });
+
+    await registry.register('service', {
+      instanceId: 'a',
+      url: 'http://a:8080',
+      healthCheckUrl: 'http://a:8080/health',
+      metadata: {},
+    });
+  });
+
+  afterEach(() => {
+    checker.stop();
+    global.fetch = originalFetch;
+    vi.useRealTimers();
+  });
+
+  describe('probe()', () => {
+    it('should report a successful response', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200 });
+
+      const result = await checker.probe('http://a:8080/health');
+
+      expect(mockFetch).toHaveBeenCalledWith('http://a:8080/health', expect.any(Object));
+      expect(result).toMatchObject({ ok: true, statusCode: 200 });
+      expect(result.latencyMs).toBeTypeOf('number');
+    });
+
+    it('should report an error status as a failure', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 503 });
+
+      expect(await checker.probe('http://a:8080/health')).toMatchObject({
+        ok: false,
+        statusCode: 503,
+      });
+    });
+
+    it('should report network errors', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+      expect(await checker.probe('http://a:8080/health')).toMatchObject({
+        ok: false,
+        error: 'ECONNREFUSED',
+      });
+    });
+
+    it('should time out slow health endpoints', async () => {
+      mockFetch.mockImplementationOnce(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+          })
+      );
+
+      expect(await checker.probe('http://a:8080/health')).toMatchObject({
+        ok: false,
+        error: 'Timed out after 50ms',
+      });
+    });
+  });
+
+  describe('probeAll()', () => {
+    it('should mark an instance UP after a successful probe', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+      await checker.probeAll();
+
+      expect(registry.getInstance('service', 'a')?.health).toMatchObject({
+        status: 'UP',
+        consecutiveFailures: 0,
+      });
+    });
+
+    it('should degrade an instance and mark it DOWN after the failure threshold', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 500 });
+
+      await checker.probeAll();
+      expect(registry.getInstance('service', 'a')?.health).toMatchObject({
+        status: 'DEGRADED',
+        consecutiveFailures: 1,
+      });
+
+      await checker.probeAll();
+      await checker.probeAll();
+      expect(registry.getInstance('service', 'a')?.health).toMatchObject({
+        status: 'DOWN',
+        consecutiveFailures: 3,
+      });
+      expect(registry.get('service')?.status).toBe('DOWN');
+    });
+
+    it('should bring a DOWN instance back UP on the next successful probe', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 500 });
+      for (let i = 0; i < 3; i++) {
+        await checker.probeAll();
+      }
+
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+      await checker.probeAll();
+
+      expect(registry.getInstance('service', 'a')?.health?.status).toBe('UP');
+    });
+
+    it('should skip instances without a health check URL', async () => {
+      await registry.register('other', { instanceId: 'b', url: 'http://b:8080', metadata: {} });
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+      await checker.probeAll();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(registry.getInstance('other', 'b')?.health).toBeUndefined();
+    });
+
+    it('should ignore results for instances removed while probing', async () => {
+      mockFetch.mockImplementationOnce(async () => {
+        await registry.delete('service', 'a');
+        return { ok: true, status: 200 };
+      });
+
+      await expect(checker.probeAll()).resolves.toBeUndefined();
+      expect(registry.getInstance('service', 'a')).toBeUndefined();
+    });
+
+    it('should leave publishing health changes to the node that reports them', async () => {
+      const events: RegistryEvent[] = [];
+      registry.watch((event) => events.push(event));
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+      let reports = false;
+      checker = new HealthChecker(
+        registry,
+        { interval: 1000, timeout: 50, failureThreshold: 3 },
+        () => reports
+      );
+
+      await checker.probeAll();
+      mockFetch.mockResolvedValue({ ok: false, status: 500 });
+      reports = true;
+      await checker.probeAll();
+
+      expect(events.map(({ type, replicated }) => ({ type, replicated }))).toEqual([
+        { type: 'updated', replicated: true },
+        { type: 'updated', replicated: undefined },
+      ]);
+    });
+  });
+
+  describe('start()', () => {
+    it('should probe on the configured interval', async () => {
+      vi.useFakeTimers();
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+      checker.start();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      checker.stop();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { ServiceHistory } from '../src/history';
+import { RegistryEvent, RegistryEventType } from '../src/types';
+
+const event = (index: number, type: RegistryEventType, url = 'http://a:8080'): RegistryEvent => ({
+  index,
+  type,
+  name: 'test-service',
+  instanceId: 'instance-1',
+  instance: { instanceId: 'instance-1', url, metadata: {}, lastHeartbeat: index * 1000 },
+  timestamp: index * 1000,
+});
+
+describe('ServiceHistory', () => {
+  it('should record the changes to each service in order', () => {
+    const history = new ServiceHistory();
+
+    history.record(event(1, 'registered'));
+    history.record(event(2, 'updated', 'http://b:8080'));
+    history.record(event(3, 'evicted', 'http://b:8080'));
+
+    expect(history.get('test-service').map((entry) => entry.type)).toEqual([
+      'registered',
+      'updated',
+      'evicted',
+    ]);
+    expect(history.get('test-service')[1]).toEqual({
+      type: 'updated',
+      instanceId: 'instance-1',
+      instance: expect.objectContaining({ url: 'http://b:8080' }),
+      timestamp: 2000,
+    });
+  });
+
+  it('should only keep the most recent changes', () => {
+    const history = new ServiceHistory(2);
+
+    history.record(event(1, 'registered'));
+    history.record(event(2, 'updated'));
+    history.record(event(3, 'deregistered'));
+
+    expect(history.get('test-service').map((entry) => entry.timestamp)).toEqual([2000, 3000]);
+  });
+
+  it('should return no changes for unknown services', () => {
+    expect(new ServiceHistory().get('unknown-service')).toEqual([]);
+  });
+});
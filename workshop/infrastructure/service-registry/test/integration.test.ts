@@ -6,6 +6,10 @@ import { ServiceRegistryClient } from '../src/client';
 // Mock fetch for client tests
 const originalFetch = global.fetch;
 
+// Registry responses the way the generated SDK reads them
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
 describe('Service Registry Integration', () => {
   let app: express.Application;
   let registry: any;
@@ -41,10 +45,7 @@ describe('Service Registry Integration', () => {
 
     // Reset mocks
     vi.resetAllMocks();
-    mockFetch.mockResolvedValue({
-      ok: true,
-      json: async () => ({ status: 'ok' }),
-    });
+    mockFetch.mockImplementation(async () => jsonResponse({ status: 'ok' }));
   });
 
   describe('Server API', () => {
@@ -100,30 +101,22 @@ describe('Service Registry Integration', () => {
 
     it('should make correct API call when registering', async () => {
       // Set up mock response
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({ status: 'registered' }),
-      });
+      mockFetch.mockResolvedValueOnce(jsonResponse({ status: 'registered' }));
 
       // Call register
       await client.register();
 
       // Verify fetch was called with correct parameters
-      expect(mockFetch).toHaveBeenCalledWith(
-        'http://localhost:3002/register',
-        expect.objectContaining({
-          method: 'POST',
-          headers: expect.objectContaining({
-            'Content-Type': 'application/json',
-          }),
-          body: expect.any(String),
-        })
-      );
+      const sent: Request = mockFetch.mock.calls[0][0];
+      expect(sent.url).toBe('http://localhost:3002/register');
+      expect(sent.method).toBe('POST');
+      expect(sent.headers.get('Content-Type')).toBe('application/json');
 
       // Verify request body
-      const requestBody = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const requestBody = await sent.json();
       expect(requestBody).toEqual({
         name: 'test-client',
+        instanceId: client.instanceId,
         url: 'http://test-client:8080',
         healthCheckUrl: undefined,
         metadata: { version: '1.0.0' },
@@ -139,16 +132,15 @@ describe('Service Registry Integration', () => {
         lastHeartbeat: Date.now(),
       };
 
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: async () => mockServiceInfo,
-      });
+      mockFetch.mockResolvedValueOnce(jsonResponse(mockServiceInfo));
 
       // Call discover
       const result = await client.discover('discovered-service');
 
       // Verify fetch was called with correct parameters
-      expect(mockFetch).toHaveBeenCalledWith('http://localhost:3002/services/discovered-service');
+      expect(mockFetch.mock.calls[0][0].url).toBe(
+        'http://localhost:3002/services/discovered-service'
+      );
 
       // Verify the result matches the mock response
       expect(result).toEqual(mockServiceInfo);
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { loadConfig } from '../src/config';
+import { LeasePolicy } from '../src/lease';
+
+describe('LeasePolicy', () => {
+  const policy = new LeasePolicy({
+    defaultTtl: 60,
+    minTtl: 10,
+    maxTtl: 300,
+    services: { 'batch-service': { maxTtl: 900 } },
+  });
+
+  it('should grant the default TTL when none is requested', () => {
+    expect(policy.grant('test-service')).toBe(60);
+  });
+
+  it('should grant a requested TTL within the limits', () => {
+    expect(policy.grant('test-service', 120)).toBe(120);
+  });
+
+  it('should clamp requested TTLs to the limits', () => {
+    expect(policy.grant('test-service', 1)).toBe(10);
+    expect(policy.grant('test-service', 3600)).toBe(300);
+  });
+
+  it('should apply per-service limits', () => {
+    expect(policy.limits('batch-service')).toEqual({ defaultTtl: 60, minTtl: 10, maxTtl: 900 });
+    expect(policy.grant('batch-service', 3600)).toBe(900);
+  });
+});
+
+describe('LEASE_SERVICE_TTLS', () => {
+  const leases = (value: string) => loadConfig({ LEASE_SERVICE_TTLS: value }).lease.services;
+
+  it('should read per-service limits', () => {
+    expect(leases('{"batch-service":{"defaultTtl":300,"maxTtl":900}}')).toEqual({
+      'batch-service': { defaultTtl: 300, maxTtl: 900 },
+    });
+  });
+
+  it('should refuse anything but an object of positive TTLs', () => {
+    expect(() => leases('[1]')).toThrow('must be a JSON object');
+    expect(() => leases('{"batch-service":600}')).toThrow('must be an object of TTLs');
+    expect(() => leases('{"batch-service":{"maxTtl":"900"}}')).toThrow('positive number');
+    expect(() => leases('{"batch-service":{"maxTtl":-1}}')).toThrow('positive number');
+    expect(() => leases('{"batch-service":{"ttl":60}}')).toThrow('Unknown LEASE_SERVICE_TTLS');
+  });
+});
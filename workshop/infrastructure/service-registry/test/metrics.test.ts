@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { RegistryMetrics } from '../src/metrics';
+import { ServiceRegistry } from '../src/registry';
+
+describe('RegistryMetrics', () => {
+  let registry: ServiceRegistry;
+  let metrics: RegistryMetrics;
+
+  beforeEach(async () => {
+    registry = new ServiceRegistry();
+    metrics = new RegistryMetrics();
+    registry.watch((event) => metrics.record(event));
+
+    await registry.register('fire-service', {
+      instanceId: 'a',
+      url: 'http://fire-a:3000',
+      metadata: {},
+    });
+    await registry.register('fire-service', {
+      instanceId: 'b',
+      url: 'http://fire-b:3000',
+      state: 'draining',
+      metadata: {},
+    });
+  });
+
+  it('should report services and instances by state and health', () => {
+    const text = metrics.render(registry.getAll());
+
+    expect(text).toContain('# TYPE registry_services gauge\nregistry_services 1\n');
+    expect(text).toContain(
+      'registry_instances{service="fire-service",state="active",status="UNKNOWN"} 1'
+    );
+    expect(text).toContain(
+      'registry_instances{service="fire-service",state="draining",status="UNKNOWN"} 1'
+    );
+  });
+
+  it('should report the age of the oldest heartbeat of each service', () => {
+    const oldest = Math.min(...registry.getInstances('fire-service').map((i) => i.lastHeartbeat));
+
+    const text = metrics.render(registry.getAll(), oldest + 42000);
+
+    expect(text).toContain('registry_oldest_heartbeat_age_seconds{service="fire-service"} 42');
+  });
+
+  it('should count registrations, deregistrations and evictions', async () => {
+    await registry.delete('fire-service', 'a');
+    await registry.register('police-service', {
+      instanceId: 'p',
+      url: 'http://police:3000',
+      ttl: 10,
+      metadata: {},
+    });
+    registry.getInstance('police-service', 'p')!.lastHeartbeat = 0;
+    await registry.removeStaleServices();
+
+    const text = metrics.render(registry.getAll());
+
+    expect(text).toContain('registry_registrations_total{service="fire-service"} 2');
+    expect(text).toContain('registry_deregistrations_total{service="fire-service"} 1');
+    expect(text).toContain('registry_evictions_total{service="police-service"} 1');
+  });
+
+  it('should not count changes replicated from another node', async () => {
+    await registry.merge('police-service', {
+      instanceId: 'p',
+      url: 'http://police:3000',
+      metadata: {},
+      lastHeartbeat: Date.now(),
+    });
+
+    expect(metrics.render(registry.getAll())).not.toContain(
+      'registry_registrations_total{service="police-service"}'
+    );
+  });
+
+  it('should count changes of the health status', () => {
+    const probe = { ok: false, checkedAt: Date.now(), latencyMs: 5 };
+    for (const status of ['UP', 'DOWN', 'DOWN', 'UP'] as const) {
+      registry.setHealth('fire-service', 'a', { status, consecutiveFailures: 0, lastProbe: probe });
+    }
+
+    const text = metrics.render(registry.getAll());
+
+    expect(text).toContain('registry_health_changes_total{service="fire-service",status="UP"} 2');
+    expect(text).toContain('registry_health_changes_total{service="fire-service",status="DOWN"} 1');
+  });
+
+  it('should record heartbeat ages in cumulative buckets', () => {
+    metrics.observeHeartbeat('fire-service', 12000);
+    metrics.observeHeartbeat('fire-service', 400000);
+
+    const text = metrics.render(registry.getAll());
+
+    expect(text).toContain('# TYPE registry_heartbeat_age_seconds histogram');
+    expect(text).toContain(
+      'registry_heartbeat_age_seconds_bucket{service="fire-service",le="10"} 0'
+    );
+    expect(text).toContain(
+      'registry_heartbeat_age_seconds_bucket{service="fire-service",le="15"} 1'
+    );
+    expect(text).toContain(
+      'registry_heartbeat_age_seconds_bucket{service="fire-service",le="300"} 1'
+    );
+    expect(text).toContain(
+      'registry_heartbeat_age_seconds_bucket{service="fire-service",le="+Inf"} 2'
+    );
+    expect(text).toContain('registry_heartbeat_age_seconds_sum{service="fire-service"} 412');
+    expect(text).toContain('registry_heartbeat_age_seconds_count{service="fire-service"} 2');
+  });
+
+  it('should time requests by route and leave out event streams', async () => {
+    const app = express();
+    app.use(metrics.requestTimer());
+    app.get('/services/:name', (req, res) => res.json({}));
+    app.get('/watch', (req, res) => res.type('text/event-stream').send('data: {}\n\n'));
+
+    await request(app).get('/services/fire-service');
+    await request(app).get('/watch');
+    await request(app).get('/unknown');
+
+    const text = metrics.render({});
+    expect(text).toContain(
+      'registry_http_request_duration_seconds_count{method="GET",route="/services/:name",status="200"} 1'
+    );
+    expect(text).toContain(
+      'registry_http_request_duration_seconds_count{method="GET",route="other",status="404"} 1'
+    );
+    expect(text).not.toContain('route="/watch"');
+  });
+
+  it('should escape label values', async () => {
+    await registry.register('odd"service\\', { url: 'http://odd:3000', metadata: {} });
+
+    expect(metrics.render(registry.getAll())).toContain(
+      'registry_registrations_total{service="odd\\"service\\\\"} 1'
+    );
+  });
+});
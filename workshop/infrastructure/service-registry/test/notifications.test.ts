@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RegistryNotifier } from '../src/notifications';
+import { ServiceRegistry } from '../src/registry';
+
+describe('RegistryNotifier', () => {
+  let registry: ServiceRegistry;
+  let publisher: { publish: ReturnType<typeof vi.fn> };
+  let notifier: RegistryNotifier;
+
+  beforeEach(() => {
+    vi.spyOn(Date, 'now').mockReturnValue(1000);
+    registry = new ServiceRegistry();
+    publisher = { publish: vi.fn(async () => 'message-id') };
+    notifier = new RegistryNotifier(registry, publisher, 'registry-1');
+    notifier.start();
+  });
+
+  it('should publish registry changes to their topic', async () => {
+    const instance = await registry.register('test-service', {
+      instanceId: 'instance-1',
+      url: 'http://a:8080',
+      metadata: {},
+    });
+    await registry.delete('test-service', 'instance-1');
+
+    expect(publisher.publish).toHaveBeenCalledTimes(2);
+    expect(publisher.publish).toHaveBeenNthCalledWith(
+      1,
+      'registry.service.registered',
+      {
+        name: 'test-service',
+        instanceId: 'instance-1',
+        instance,
+        timestamp: new Date(1000).toISOString(),
+        node: 'registry-1',
+      },
+      { service: 'test-service', origin: 'service-registry' }
+    );
+    expect(publisher.publish.mock.calls[1][0]).toBe('registry.service.deregistered');
+  });
+
+  it('should publish evictions', async () => {
+    await registry.register('test-service', { url: 'http://a:8080', ttl: 10, metadata: {} });
+    vi.spyOn(Date, 'now').mockReturnValue(20000);
+
+    await registry.removeStaleServices();
+
+    expect(publisher.publish.mock.calls[1][0]).toBe('registry.service.evicted');
+  });
+
+  it('should leave changes replicated from other nodes to the node they were made on', async () => {
+    await registry.merge('test-service', {
+      instanceId: 'instance-1',
+      url: 'http://a:8080',
+      metadata: {},
+      lastHeartbeat: 1000,
+    });
+
+    expect(publisher.publish).not.toHaveBeenCalled();
+  });
+
+  it('should keep the registry working when the event bus fails', async () => {
+    publisher.publish.mockRejectedValue(new Error('Pub/Sub unavailable'));
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(
+      registry.register('test-service', { url: 'http://a:8080', metadata: {} })
+    ).resolves.toBeDefined();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(consoleSpy).toHaveBeenCalledWith(
+      "Failed to publish registered event for 'test-service':",
+      expect.any(Error)
+    );
+    consoleSpy.mockRestore();
+  });
+
+  it('should stop publishing when stopped', async () => {
+    notifier.stop();
+
+    await registry.register('test-service', { url: 'http://a:8080', metadata: {} });
+
+    expect(publisher.publish).not.toHaveBeenCalled();
+  });
+});
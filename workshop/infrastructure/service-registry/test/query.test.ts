@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { isEmptyQuery, matchesQuery, parseQuery } from '../src/query';
+
+describe('Instance Queries', () => {
+  const instance = {
+    version: '2.3.1',
+    tags: ['emergency', 'north'],
+    metadata: { region: 'north', replicas: 3 },
+  };
+
+  describe('matchesQuery()', () => {
+    it('should match an empty query', () => {
+      expect(matchesQuery(instance, {})).toBe(true);
+    });
+
+    it('should require every tag', () => {
+      expect(matchesQuery(instance, { tags: ['emergency'] })).toBe(true);
+      expect(matchesQuery(instance, { tags: ['emergency', 'south'] })).toBe(false);
+      expect(matchesQuery({ metadata: {} }, { tags: ['emergency'] })).toBe(false);
+    });
+
+    it('should compare metadata values as strings', () => {
+      expect(matchesQuery(instance, { metadata: { region: 'north', replicas: '3' } })).toBe(true);
+      expect(matchesQuery(instance, { metadata: { region: 'south' } })).toBe(false);
+      expect(matchesQuery(instance, { metadata: { zone: 'a' } })).toBe(false);
+    });
+
+    it('should check the version against a semver range', () => {
+      expect(matchesQuery(instance, { versionRange: '^2.0.0' })).toBe(true);
+      expect(matchesQuery(instance, { versionRange: '>=2.4.0' })).toBe(false);
+      expect(matchesQuery({ metadata: {} }, { versionRange: '*' })).toBe(false);
+    });
+
+    it('should treat instances without a state as active', () => {
+      expect(matchesQuery(instance, { states: ['active'] })).toBe(true);
+      expect(matchesQuery({ ...instance, state: 'draining' }, { states: ['active'] })).toBe(false);
+      expect(
+        matchesQuery({ ...instance, state: 'draining' }, { states: ['active', 'draining'] })
+      ).toBe(true);
+    });
+  });
+
+  describe('parseQuery()', () => {
+    it('should read repeated and comma separated tags', () => {
+      expect(parseQuery({ tag: ['emergency', 'north,east'] })).toEqual({
+        tags: ['emergency', 'north', 'east'],
+      });
+    });
+
+    it('should read metadata filters in dot and bracket notation', () => {
+      expect(parseQuery({ 'metadata.region': 'north', metadata: { zone: 'a' } })).toEqual({
+        metadata: { region: 'north', zone: 'a' },
+      });
+    });
+
+    it('should read and validate the version range', () => {
+      expect(parseQuery({ version: '^2.0.0' })).toEqual({ versionRange: '^2.0.0' });
+      expect(() => parseQuery({ version: 'not-a-range' })).toThrow(
+        "Invalid version range 'not-a-range'"
+      );
+    });
+
+    it('should read and validate lifecycle states', () => {
+      expect(parseQuery({ state: ['active', 'draining,maintenance'] })).toEqual({
+        states: ['active', 'draining', 'maintenance'],
+      });
+      expect(() => parseQuery({ state: 'retired' })).toThrow(
+        "Invalid state 'retired', expected one of: active, draining, maintenance"
+      );
+    });
+
+    it('should ignore unrelated parameters', () => {
+      expect(isEmptyQuery(parseQuery({ service: 'a', since: '3' }))).toBe(true);
+    });
+  });
+});
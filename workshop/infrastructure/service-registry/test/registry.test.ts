@@ -1,76 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-
-// Extract the ServiceRegistry class for isolated testing
-// Since it's not exported directly, we need to redefine it for testing
-interface ServiceInfo {
-  url: string;
-  healthCheckUrl?: string;
-  metadata: Record<string, any>;
-  lastHeartbeat: number;
-}
-
-class ServiceRegistry {
-  private services: Map<string, ServiceInfo> = new Map();
-
-  register(name: string, info: Omit<ServiceInfo, 'lastHeartbeat'>): void {
-    this.services.set(name, {
-      ...info,
-      lastHeartbeat: Date.now(),
-    });
-  }
-
-  update(name: string, info: Partial<Omit<ServiceInfo, 'lastHeartbeat'>>): boolean {
-    const service = this.services.get(name);
-    if (!service) return false;
-
-    this.services.set(name, {
-      ...service,
-      ...info,
-      lastHeartbeat: Date.now(),
-    });
-    return true;
-  }
-
-  get(name: string): ServiceInfo | undefined {
-    return this.services.get(name);
-  }
-
-  getAll(): Record<string, ServiceInfo> {
-    const result: Record<string, ServiceInfo> = {};
-    this.services.forEach((info, name) => {
-      result[name] = info;
-    });
-    return result;
-  }
-
-  recordHeartbeat(name: string): boolean {
-    const service = this.services.get(name);
-    if (!service) return false;
-
-    service.lastHeartbeat = Date.now();
-    this.services.set(name, service);
-    return true;
-  }
-
-  removeStaleServices(maxAgeSec: number = 60): void {
-    const now = Date.now();
-    const staleThreshold = now - maxAgeSec * 1000;
-
-    for (const [name, info] of this.services.entries()) {
-      if (info.lastHeartbeat < staleThreshold) {
-        this.services.delete(name);
-      }
-    }
-  }
-
-  delete(name: string): boolean {
-    return this.services.delete(name);
-  }
-
-  get count(): number {
-    return this.services.size;
-  }
-}
+import { LeasePolicy } from '../src/lease';
+import { ServiceRegistry } from '../src/registry';
+import { MemoryStore } from '../src/storage';
+import { RegistryEvent } from '../src/types';
 
 describe('ServiceRegistry', () => {
   let registry: ServiceRegistry;
@@ -82,14 +14,14 @@ describe('ServiceRegistry', () => {
   });
 
   describe('register()', () => {
-    it('should register a new service', () => {
+    it('should register a new service', async () => {
       const testService = {
         url: 'http://test-service:8080',
         healthCheckUrl: 'http://test-service:8080/health',
         metadata: { version: '1.0.0' },
       };
 
-      registry.register('test-service', testService);
+      await registry.register('test-service', testService);
 
       const registeredService = registry.get('test-service');
 
@@ -100,43 +32,90 @@ describe('ServiceRegistry', () => {
       expect(registeredService?.lastHeartbeat).toBeTypeOf('number');
     });
 
-    it('should overwrite an existing service with the same name', () => {
+    it('should overwrite an existing instance with the same ID', async () => {
       const originalService = {
+        instanceId: 'instance-1',
         url: 'http://original:8080',
         metadata: { version: '1.0.0' },
       };
 
       const updatedService = {
+        instanceId: 'instance-1',
         url: 'http://updated:9000',
         metadata: { version: '2.0.0' },
       };
 
-      registry.register('test-service', originalService);
-      registry.register('test-service', updatedService);
+      await registry.register('test-service', originalService);
+      await registry.register('test-service', updatedService);
 
       const registeredService = registry.get('test-service');
 
       expect(registeredService?.url).toBe(updatedService.url);
       expect(registeredService?.metadata).toEqual(updatedService.metadata);
+      expect(registeredService?.instances).toHaveLength(1);
+    });
+
+    it('should keep multiple instances under the same service name', async () => {
+      const first = await registry.register('test-service', {
+        url: 'http://replica-1:8080',
+        metadata: {},
+      });
+      const second = await registry.register('test-service', {
+        url: 'http://replica-2:8080',
+        metadata: {},
+      });
+
+      expect(first.instanceId).not.toBe(second.instanceId);
+      expect(registry.count).toBe(1);
+      expect(registry.instanceCount).toBe(2);
+      expect(registry.getInstances('test-service').map((i) => i.url)).toEqual([
+        'http://replica-1:8080',
+        'http://replica-2:8080',
+      ]);
+    });
+
+    it('should reuse the instance ID of an instance with the same URL', async () => {
+      const first = await registry.register('test-service', {
+        url: 'http://replica-1:8080',
+        metadata: {},
+      });
+      const again = await registry.register('test-service', {
+        url: 'http://replica-1:8080',
+        metadata: { restarted: true },
+      });
+
+      expect(again.instanceId).toBe(first.instanceId);
+      expect(registry.instanceCount).toBe(1);
+    });
+
+    it('should mirror the most recently seen instance at the top level', async () => {
+      const nowFn = vi.spyOn(Date, 'now');
+      nowFn.mockReturnValue(1000);
+      await registry.register('test-service', { url: 'http://replica-1:8080', metadata: {} });
+      nowFn.mockReturnValue(2000);
+      await registry.register('test-service', { url: 'http://replica-2:8080', metadata: {} });
+
+      expect(registry.get('test-service')?.url).toBe('http://replica-2:8080');
+      expect(registry.get('test-service')?.lastHeartbeat).toBe(2000);
     });
   });
 
   describe('update()', () => {
-    it('should update an existing service', () => {
+    it('should update an existing service', async () => {
       const originalService = {
         url: 'http://original:8080',
         healthCheckUrl: 'http://original:8080/health',
         metadata: { version: '1.0.0' },
       };
 
-      registry.register('test-service', originalService);
+      await registry.register('test-service', originalService);
 
       const updateInfo = {
         url: 'http://updated:9000',
         metadata: { version: '2.0.0' },
       };
 
-      const updateResult = registry.update('test-service', updateInfo);
+      const updateResult = await registry.update('test-service', updateInfo);
       const updatedService = registry.get('test-service');
 
       expect(updateResult).toBe(true);
@@ -145,19 +124,19 @@ describe('ServiceRegistry', () => {
       expect(updatedService?.metadata).toEqual(updateInfo.metadata);
     });
 
-    it('should return false if service does not exist', () => {
-      const updateResult = registry.update('non-existent', { url: 'http://new:8080' });
+    it('should return false if service does not exist', async () => {
+      const updateResult = await registry.update('non-existent', { url: 'http://new:8080' });
 
       expect(updateResult).toBe(false);
     });
 
-    it('should update lastHeartbeat timestamp', () => {
+    it('should update lastHeartbeat timestamp', async () => {
       const service = {
         url: 'http://service:8080',
         metadata: {},
       };
 
-      registry.register('test-service', service);
+      await registry.register('test-service', service);
 
       // Mock the date for first heartbeat
       vi.spyOn(Date, 'now').mockImplementation(() => 1000);
@@ -166,23 +145,48 @@ describe('ServiceRegistry', () => {
 
       // Advance time and update
       vi.spyOn(Date, 'now').mockImplementation(() => 2000);
-      registry.update('test-service', { metadata: { updated: true } });
+      await registry.update('test-service', { metadata: { updated: true } });
 
       const updatedService = registry.get('test-service');
 
       expect(updatedService?.lastHeartbeat).toBeGreaterThan(initialHeartbeat as number);
       expect(updatedService?.lastHeartbeat).toBe(2000);
     });
+
+    it('should only update the given instance', async () => {
+      const first = await registry.register('test-service', {
+        url: 'http://replica-1:8080',
+        metadata: { version: '1.0.0' },
+      });
+      const second = await registry.register('test-service', {
+        url: 'http://replica-2:8080',
+        metadata: { version: '1.0.0' },
+      });
+
+      const result = await registry.update(
+        'test-service',
+        { metadata: { version: '2.0.0' } },
+        second.instanceId
+      );
+
+      expect(result).toBe(true);
+      expect(registry.getInstance('test-service', first.instanceId)?.metadata).toEqual({
+        version: '1.0.0',
+      });
+      expect(registry.getInstance('test-service', second.instanceId)?.metadata).toEqual({
+        version: '2.0.0',
+      });
+    });
   });
 
   describe('get() and getAll()', () => {
-    it('should retrieve a registered service by name', () => {
+    it('should retrieve a registered service by name', async () => {
       const service = {
         url: 'http://service:8080',
         metadata: { version: '1.0.0' },
       };
 
-      registry.register('test-service', service);
+      await registry.register('test-service', service);
 
       const retrievedService = registry.get('test-service');
 
@@ -196,9 +200,9 @@ describe('ServiceRegistry', () => {
       expect(result).toBeUndefined();
     });
 
-    it('should return all registered services as an object', () => {
-      registry.register('service1', { url: 'http://service1:8080', metadata: {} });
-      registry.register('service2', { url: 'http://service2:8080', metadata: {} });
+    it('should return all registered services as an object', async () => {
+      await registry.register('service1', { url: 'http://service1:8080', metadata: {} });
+      await registry.register('service2', { url: 'http://service2:8080', metadata: {} });
 
       const allServices = registry.getAll();
 
@@ -210,8 +214,60 @@ describe('ServiceRegistry', () => {
     });
   });
 
+  describe('queries', () => {
+    beforeEach(async () => {
+      await registry.register('police', {
+        instanceId: 'v1',
+        url: 'http://police-v1:8080',
+        version: '1.4.0',
+        tags: ['emergency'],
+        metadata: { region: 'north' },
+      });
+      await registry.register('police', {
+        instanceId: 'v2',
+        url: 'http://police-v2:8080',
+        version: '2.1.0',
+        tags: ['emergency', 'canary'],
+        metadata: { region: 'south' },
+      });
+      await registry.register('water', {
+        url: 'http://water:8080',
+        metadata: { region: 'north' },
+      });
+    });
+
+    it('should only include matching instances of a service', () => {
+      const service = registry.get('police', { versionRange: '^2.0.0' });
+
+      expect(service?.instances.map((i) => i.instanceId)).toEqual(['v2']);
+      expect(service?.url).toBe('http://police-v2:8080');
+    });
+
+    it('should return undefined when no instance matches', () => {
+      expect(registry.get('police', { tags: ['utilities'] })).toBeUndefined();
+    });
+
+    it('should leave out services without matching instances', () => {
+      const services = registry.getAll({ metadata: { region: 'north' } });
+
+      expect(Object.keys(services)).toEqual(['police', 'water']);
+      expect(services.police.instances.map((i) => i.instanceId)).toEqual(['v1']);
+      expect(Object.keys(registry.getAll({ tags: ['emergency'] }))).toEqual(['police']);
+    });
+
+    it('should take the version from metadata for older registrations', async () => {
+      await registry.register('legacy', {
+        instanceId: 'a',
+        url: 'http://legacy:8080',
+        metadata: { version: '1.0.0' },
+      });
+
+      expect(registry.getInstance('legacy', 'a')?.version).toBe('1.0.0');
+    });
+  });
+
   describe('recordHeartbeat()', () => {
-    it('should update the lastHeartbeat timestamp for a service', () => {
+    it('should update the lastHeartbeat timestamp for a service', async () => {
       const service = {
         url: 'http://service:8080',
         metadata: {},
@@ -220,28 +276,56 @@ describe('ServiceRegistry', () => {
       // Register service at initial time
       const initialTime = new Date(2023, 0, 1, 12, 0, 0).getTime();
       vi.setSystemTime(initialTime);
-      registry.register('test-service', service);
+      await registry.register('test-service', service);
 
       // Advance time
       const updatedTime = new Date(2023, 0, 1, 12, 1, 0).getTime();
       vi.setSystemTime(updatedTime);
 
-      const result = registry.recordHeartbeat('test-service');
+      const result = await registry.recordHeartbeat('test-service');
       const updatedService = registry.get('test-service');
 
       expect(result).toBe(true);
       expect(updatedService?.lastHeartbeat).toBe(updatedTime);
     });
 
-    it('should return false for non-existent service', () => {
-      const result = registry.recordHeartbeat('non-existent');
+    it('should return false for non-existent service', async () => {
+      const result = await registry.recordHeartbeat('non-existent');
+
+      expect(result).toBe(false);
+    });
+
+    it('should only update the given instance', async () => {
+      const nowFn = vi.spyOn(Date, 'now');
+      nowFn.mockReturnValue(1000);
+      const first = await registry.register('test-service', {
+        url: 'http://replica-1:8080',
+        metadata: {},
+      });
+      const second = await registry.register('test-service', {
+        url: 'http://replica-2:8080',
+        metadata: {},
+      });
+
+      nowFn.mockReturnValue(5000);
+      const result = await registry.recordHeartbeat('test-service', second.instanceId);
+
+      expect(result).toBe(true);
+      expect(registry.getInstance('test-service', first.instanceId)?.lastHeartbeat).toBe(1000);
+      expect(registry.getInstance('test-service', second.instanceId)?.lastHeartbeat).toBe(5000);
+    });
+
+    it('should return false for non-existent instance', async () => {
+      await registry.register('test-service', { url: 'http://test:8080', metadata: {} });
+
+      const result = await registry.recordHeartbeat('test-service', 'unknown-instance');
 
       expect(result).toBe(false);
     });
   });
 
   describe('removeStaleServices()', () => {
-    it('should remove services that have not sent heartbeats within maxAgeSec', () => {
+    it('should remove services that have not sent heartbeats within maxAgeSec', async () => {
       // Ensure Date.now returns a predictable value for the test
       const nowFn = vi.spyOn(Date, 'now');
 
@@ -249,59 +333,416 @@ describe('ServiceRegistry', () => {
       nowFn.mockReturnValue(1000);
 
       // Register two services
-      registry.register('fresh-service', { url: 'http://fresh:8080', metadata: {} });
-      registry.register('stale-service', { url: 'http://stale:8080', metadata: {} });
+      await registry.register('fresh-service', { url: 'http://fresh:8080', metadata: {} });
+      await registry.register('stale-service', { url: 'http://stale:8080', metadata: {} });
 
       // Advance time by 30 seconds and update fresh service
       nowFn.mockReturnValue(31000); // 30 seconds later
-      registry.recordHeartbeat('fresh-service');
+      await registry.recordHeartbeat('fresh-service');
 
       // Advance time by another 40 seconds (70 seconds total)
       nowFn.mockReturnValue(71000); // 70 seconds later
 
       // Remove services stale for more than 60 seconds
-      registry.removeStaleServices(60);
+      await registry.removeStaleServices(60);
 
       // Check results
       expect(registry.get('fresh-service')).toBeDefined();
       expect(registry.get('stale-service')).toBeUndefined();
     });
 
-    it('should handle empty registry', () => {
+    it('should remove stale instances and keep live ones of the same service', async () => {
+      const nowFn = vi.spyOn(Date, 'now');
+      nowFn.mockReturnValue(1000);
+      const live = await registry.register('test-service', {
+        url: 'http://live:8080',
+        metadata: {},
+      });
+      const stale = await registry.register('test-service', {
+        url: 'http://stale:8080',
+        metadata: {},
+      });
+
+      nowFn.mockReturnValue(31000);
+      await registry.recordHeartbeat('test-service', live.instanceId);
+      nowFn.mockReturnValue(71000);
+
+      const removed = await registry.removeStaleServices(60);
+
+      expect(removed).toEqual([{ name: 'test-service', instanceId: stale.instanceId }]);
+      expect(registry.getInstances('test-service').map((i) => i.instanceId)).toEqual([
+        live.instanceId,
+      ]);
+    });
+
+    it('should handle empty registry', async () => {
       // This should not throw an error
-      expect(() => registry.removeStaleServices()).not.toThrow();
+      await expect(registry.removeStaleServices()).resolves.toEqual([]);
+    });
+
+    it('should evict instances once their own lease runs out', async () => {
+      const nowFn = vi.spyOn(Date, 'now');
+      nowFn.mockReturnValue(1000);
+      const short = await registry.register('test-service', {
+        url: 'http://short:8080',
+        ttl: 15,
+        metadata: {},
+      });
+      const long = await registry.register('test-service', {
+        url: 'http://long:8080',
+        ttl: 120,
+        metadata: {},
+      });
+
+      nowFn.mockReturnValue(17000);
+      const removed = await registry.removeStaleServices();
+
+      expect(removed).toEqual([{ name: 'test-service', instanceId: short.instanceId }]);
+      expect(registry.getInstance('test-service', long.instanceId)).toBeDefined();
+    });
+  });
+
+  describe('leases', () => {
+    it('should grant a clamped TTL at registration', async () => {
+      const leased = new ServiceRegistry(
+        new MemoryStore(),
+        new LeasePolicy({ defaultTtl: 30, minTtl: 10, maxTtl: 60 })
+      );
+
+      const defaulted = await leased.register('test-service', {
+        url: 'http://a:8080',
+        metadata: {},
+      });
+      const clamped = await leased.register('test-service', {
+        url: 'http://b:8080',
+        ttl: 600,
+        metadata: {},
+      });
+
+      expect(defaulted.ttl).toBe(30);
+      expect(clamped.ttl).toBe(60);
+    });
+
+    it('should renew the lease on every heartbeat', async () => {
+      const nowFn = vi.spyOn(Date, 'now');
+      nowFn.mockReturnValue(1000);
+      const instance = await registry.register('test-service', {
+        url: 'http://a:8080',
+        ttl: 20,
+        metadata: {},
+      });
+      expect(registry.leaseOf('test-service', instance)).toEqual({ ttl: 20, expiresAt: 21000 });
+
+      nowFn.mockReturnValue(11000);
+      await registry.recordHeartbeat('test-service', instance.instanceId);
+
+      const renewed = registry.getInstance('test-service', instance.instanceId)!;
+      expect(registry.leaseOf('test-service', renewed)).toEqual({ ttl: 20, expiresAt: 31000 });
+    });
+  });
+
+  describe('merge()', () => {
+    const copy = {
+      instanceId: 'instance-1',
+      url: 'http://a:8080',
+      metadata: {},
+      ttl: 60,
+      lastHeartbeat: 1000,
+    };
+
+    it('should add instances registered on another node', async () => {
+      const listener = vi.fn();
+      registry.watch(listener);
+
+      const merged = await registry.merge('test-service', copy);
+
+      expect(merged).toBe(true);
+      expect(registry.getInstance('test-service', 'instance-1')).toEqual(copy);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'registered' }));
+    });
+
+    it('should keep the copy with the most recent heartbeat', async () => {
+      await registry.merge('test-service', { ...copy, lastHeartbeat: 900 });
+      await registry.merge('test-service', copy);
+
+      expect(
+        await registry.merge('test-service', {
+          ...copy,
+          url: 'http://old:8080',
+          lastHeartbeat: 800,
+        })
+      ).toBe(false);
+      expect(registry.getInstance('test-service', 'instance-1')?.lastHeartbeat).toBe(1000);
+      expect(registry.getInstance('test-service', 'instance-1')?.url).toBe('http://a:8080');
+    });
+
+    it('should only publish changes to the registration, not renewed heartbeats', async () => {
+      await registry.merge('test-service', { ...copy, lastHeartbeat: 900 });
+      const listener = vi.fn();
+      registry.watch(listener);
+
+      await registry.merge('test-service', copy);
+      await registry.merge('test-service', { ...copy, version: '2.0.0', lastHeartbeat: 1000 + 1 });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'updated' }));
+    });
+
+    it('should keep the local health of the instance', async () => {
+      await registry.merge('test-service', { ...copy, lastHeartbeat: 900 });
+      const health = {
+        status: 'DOWN' as const,
+        consecutiveFailures: 3,
+        lastProbe: { ok: false, checkedAt: 900, latencyMs: 3000, error: 'timeout' },
+      };
+      registry.setHealth('test-service', 'instance-1', health);
+
+      await registry.merge('test-service', copy);
+
+      expect(registry.getInstance('test-service', 'instance-1')?.health).toEqual(health);
+    });
+
+    it('should ignore copies whose lease already ran out', async () => {
+      vi.spyOn(Date, 'now').mockReturnValue(100000);
+
+      const merged = await registry.merge('test-service', copy);
+
+      expect(merged).toBe(false);
+      expect(registry.get('test-service')).toBeUndefined();
     });
   });
 
   describe('delete()', () => {
-    it('should delete a service by name', () => {
-      registry.register('test-service', { url: 'http://test:8080', metadata: {} });
+    it('should delete a service by name', async () => {
+      await registry.register('test-service', { url: 'http://test:8080', metadata: {} });
 
-      const deleteResult = registry.delete('test-service');
+      const deleteResult = await registry.delete('test-service');
 
       expect(deleteResult).toBe(true);
       expect(registry.get('test-service')).toBeUndefined();
     });
 
-    it('should return false for non-existent service', () => {
-      const deleteResult = registry.delete('non-existent');
+    it('should return false for non-existent service', async () => {
+      const deleteResult = await registry.delete('non-existent');
 
       expect(deleteResult).toBe(false);
     });
+
+    it('should delete a single instance', async () => {
+      const first = await registry.register('test-service', {
+        url: 'http://replica-1:8080',
+        metadata: {},
+      });
+      const second = await registry.register('test-service', {
+        url: 'http://replica-2:8080',
+        metadata: {},
+      });
+
+      expect(await registry.delete('test-service', first.instanceId)).toBe(true);
+      expect(registry.getInstances('test-service')).toEqual([second]);
+
+      expect(await registry.delete('test-service', second.instanceId)).toBe(true);
+      expect(registry.get('test-service')).toBeUndefined();
+      expect(registry.count).toBe(0);
+    });
+  });
+
+  describe('setHealth()', () => {
+    const health = (status: 'UP' | 'DEGRADED' | 'DOWN', consecutiveFailures = 0) => ({
+      status,
+      consecutiveFailures,
+      lastProbe: { ok: status === 'UP', checkedAt: 1000, latencyMs: 5 },
+    });
+
+    it('should attach the probe outcome to the instance', async () => {
+      await registry.register('service', { instanceId: 'a', url: 'http://a:8080', metadata: {} });
+
+      expect(registry.setHealth('service', 'a', health('DEGRADED', 1))).toBe(true);
+
+      expect(registry.getInstance('service', 'a')?.health).toEqual(health('DEGRADED', 1));
+    });
+
+    it('should return false for non-existent instance', () => {
+      expect(registry.setHealth('service', 'missing', health('UP'))).toBe(false);
+    });
+
+    it('should report UP for services without health checks', async () => {
+      await registry.register('service', { url: 'http://a:8080', metadata: {} });
+
+      expect(registry.get('service')?.status).toBe('UP');
+    });
+
+    it('should combine instance health into the service status', async () => {
+      await registry.register('service', { instanceId: 'a', url: 'http://a:8080', metadata: {} });
+      await registry.register('service', { instanceId: 'b', url: 'http://b:8080', metadata: {} });
+
+      registry.setHealth('service', 'a', health('DOWN', 3));
+      expect(registry.get('service')?.status).toBe('DEGRADED');
+
+      registry.setHealth('service', 'b', health('DOWN', 3));
+      expect(registry.get('service')?.status).toBe('DOWN');
+
+      registry.setHealth('service', 'a', health('UP'));
+      registry.setHealth('service', 'b', health('UP'));
+      expect(registry.get('service')?.status).toBe('UP');
+    });
+  });
+
+  describe('watch()', () => {
+    it('should notify listeners of every change in order', async () => {
+      const events: RegistryEvent[] = [];
+      registry.watch((event) => events.push(event));
+
+      await registry.register('service', { instanceId: 'a', url: 'http://a:8080', metadata: {} });
+      await registry.update('service', { metadata: { version: '2.0.0' } }, 'a');
+      await registry.delete('service', 'a');
+
+      expect(events.map(({ index, type, instanceId }) => ({ index, type, instanceId }))).toEqual([
+        { index: 1, type: 'registered', instanceId: 'a' },
+        { index: 2, type: 'updated', instanceId: 'a' },
+        { index: 3, type: 'deregistered', instanceId: 'a' },
+      ]);
+      expect(events[1].instance.metadata).toEqual({ version: '2.0.0' });
+    });
+
+    it('should publish evictions of stale instances', async () => {
+      const events: RegistryEvent[] = [];
+      await registry.register('service', { instanceId: 'a', url: 'http://a:8080', metadata: {} });
+      registry.watch((event) => events.push(event));
+
+      vi.spyOn(Date, 'now').mockImplementation(() => 1000 + 61000);
+      await registry.removeStaleServices();
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ type: 'evicted', name: 'service', instanceId: 'a' });
+    });
+
+    it('should only publish health changes when the status changes', async () => {
+      const events: RegistryEvent[] = [];
+      await registry.register('service', { instanceId: 'a', url: 'http://a:8080', metadata: {} });
+      registry.watch((event) => events.push(event));
+      const lastProbe = { ok: true, checkedAt: 1000, latencyMs: 5 };
+
+      registry.setHealth('service', 'a', { status: 'UP', consecutiveFailures: 0, lastProbe });
+      registry.setHealth('service', 'a', { status: 'UP', consecutiveFailures: 0, lastProbe });
+      registry.setHealth('service', 'a', { status: 'DEGRADED', consecutiveFailures: 1, lastProbe });
+
+      expect(events.map((event) => event.instance.health?.status)).toEqual(['UP', 'DEGRADED']);
+    });
+
+    it('should stop notifying after unsubscribing', async () => {
+      const listener = vi.fn();
+      const unsubscribe = registry.watch(listener);
+
+      unsubscribe();
+      await registry.register('service', { url: 'http://a:8080', metadata: {} });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('eventsSince()', () => {
+    it('should return the changes after an index', async () => {
+      await registry.register('service', { instanceId: 'a', url: 'http://a:8080', metadata: {} });
+      await registry.register('service', { instanceId: 'b', url: 'http://b:8080', metadata: {} });
+
+      expect(registry.currentIndex).toBe(2);
+      expect(registry.eventsSince(1)?.map((event) => event.instanceId)).toEqual(['b']);
+      expect(registry.eventsSince(2)).toEqual([]);
+    });
+
+    it('should return undefined for indexes the registry does not know', async () => {
+      await registry.register('service', { instanceId: 'a', url: 'http://a:8080', metadata: {} });
+
+      expect(registry.eventsSince(5)).toBeUndefined();
+    });
+
+    it('should return undefined once the changes are no longer buffered', async () => {
+      for (let i = 0; i < 1001; i++) {
+        await registry.register('service', { instanceId: 'a', url: 'http://a:8080', metadata: {} });
+      }
+
+      expect(registry.eventsSince(0)).toBeUndefined();
+      expect(registry.eventsSince(1)).toHaveLength(1000);
+    });
   });
 
   describe('count', () => {
-    it('should return the number of registered services', () => {
+    it('should return the number of registered services', async () => {
       expect(registry.count).toBe(0);
 
-      registry.register('service1', { url: 'http://service1:8080', metadata: {} });
+      await registry.register('service1', { url: 'http://service1:8080', metadata: {} });
       expect(registry.count).toBe(1);
 
-      registry.register('service2', { url: 'http://service2:8080', metadata: {} });
+      await registry.register('service2', { url: 'http://service2:8080', metadata: {} });
       expect(registry.count).toBe(2);
 
-      registry.delete('service1');
+      await registry.delete('service1');
       expect(registry.count).toBe(1);
     });
   });
+
+  describe('persistence', () => {
+    it('should write registrations through to the store', async () => {
+      const store = new MemoryStore();
+      registry = new ServiceRegistry(store);
+
+      await registry.register('test-service', { url: 'http://test:8080', metadata: {} });
+      await registry.register('other-service', { url: 'http://other:8080', metadata: {} });
+      await registry.delete('other-service');
+
+      const persisted = await store.load();
+      expect(Object.keys(persisted)).toEqual(['test-service']);
+      expect(persisted['test-service'][0].url).toBe('http://test:8080');
+    });
+
+    it('should restore registrations from the store on initialize', async () => {
+      const store = new MemoryStore();
+      const instance = {
+        instanceId: 'instance-1',
+        url: 'http://restored:8080',
+        metadata: { version: '1.0.0' },
+        lastHeartbeat: 500,
+      };
+      await store.save('restored-service', instance);
+
+      registry = new ServiceRegistry(store);
+      await registry.initialize();
+
+      expect(registry.count).toBe(1);
+      expect(registry.get('restored-service')).toEqual({
+        url: 'http://restored:8080',
+        healthCheckUrl: undefined,
+        metadata: { version: '1.0.0' },
+        lastHeartbeat: 500,
+        status: 'UP',
+        instances: [instance],
+      });
+    });
+
+    it('should give restored services a full period to send their next heartbeat', async () => {
+      const nowFn = vi.spyOn(Date, 'now');
+      const store = new MemoryStore();
+      await store.save('restored-service', {
+        instanceId: 'instance-1',
+        url: 'http://restored:8080',
+        metadata: {},
+        lastHeartbeat: 1000,
+      });
+
+      // The registry restarts long after the last heartbeat was recorded
+      nowFn.mockReturnValue(300000);
+      registry = new ServiceRegistry(store);
+      await registry.initialize();
+
+      nowFn.mockReturnValue(330000);
+      await registry.removeStaleServices(60);
+      expect(registry.get('restored-service')).toBeDefined();
+
+      nowFn.mockReturnValue(361000);
+      const removed = await registry.removeStaleServices(60);
+      expect(removed).toEqual([{ name: 'restored-service', instanceId: 'instance-1' }]);
+      expect(await store.load()).toEqual({});
+    });
+  });
 });
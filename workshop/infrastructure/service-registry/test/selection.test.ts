@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InstanceSelector } from '../src/selection';
+
+const instances = [{ instanceId: 'a' }, { instanceId: 'b' }, { instanceId: 'c' }];
+
+describe('InstanceSelector', () => {
+  it('should return undefined when there are no instances', () => {
+    const selector = new InstanceSelector();
+
+    expect(selector.select('test-service', [])).toBeUndefined();
+  });
+
+  describe('round-robin', () => {
+    it('should cycle through instances', () => {
+      const selector = new InstanceSelector('round-robin');
+
+      const picks = [1, 2, 3, 4].map(() => selector.select('test-service', instances)?.instanceId);
+
+      expect(picks).toEqual(['a', 'b', 'c', 'a']);
+    });
+
+    it('should keep a separate position per service', () => {
+      const selector = new InstanceSelector('round-robin');
+
+      selector.select('service-1', instances);
+      const pick = selector.select('service-2', instances);
+
+      expect(pick?.instanceId).toBe('a');
+    });
+  });
+
+  describe('random', () => {
+    it('should pick the instance at a random position', () => {
+      const selector = new InstanceSelector('random');
+      vi.spyOn(Math, 'random').mockReturnValue(0.7);
+
+      expect(selector.select('test-service', instances)?.instanceId).toBe('c');
+    });
+  });
+
+  describe('least-recently-failed', () => {
+    it('should avoid instances that recently failed', () => {
+      const selector = new InstanceSelector('least-recently-failed');
+      selector.recordFailure('test-service', 'a');
+      selector.recordFailure('test-service', 'b');
+
+      const picks = [1, 2].map(() => selector.select('test-service', instances)?.instanceId);
+
+      expect(picks).toEqual(['c', 'c']);
+    });
+
+    it('should prefer the instance that failed longest ago when all have failed', () => {
+      const selector = new InstanceSelector('least-recently-failed');
+      const nowFn = vi.spyOn(Date, 'now');
+
+      nowFn.mockReturnValue(1000);
+      selector.recordFailure('test-service', 'b');
+      nowFn.mockReturnValue(2000);
+      selector.recordFailure('test-service', 'a');
+      selector.recordFailure('test-service', 'c');
+
+      expect(selector.select('test-service', instances)?.instanceId).toBe('b');
+    });
+  });
+
+  describe('weights', () => {
+    const rollout = [
+      { instanceId: 'stable-1', label: 'stable', weight: 45 },
+      { instanceId: 'stable-2', label: 'stable', weight: 45 },
+      { instanceId: 'canary-1', label: 'canary', weight: 10 },
+    ];
+
+    it('should pick instances in proportion to their weight', () => {
+      const selector = new InstanceSelector('round-robin');
+      const random = vi.spyOn(Math, 'random');
+
+      // Releases are ordered by name, so canary covers the first 10%
+      random.mockReturnValue(0.05);
+      expect(selector.select('test-service', rollout)?.label).toBe('canary');
+      random.mockReturnValue(0.5);
+      expect(selector.select('test-service', rollout)?.label).toBe('stable');
+    });
+
+    it('should never pick an instance with weight 0', () => {
+      const selector = new InstanceSelector('round-robin');
+      const parked = [
+        { instanceId: 'a', weight: 0 },
+        { instanceId: 'b', weight: 1 },
+      ];
+
+      const picks = new Set(
+        [1, 2, 3, 4].map(() => selector.select('test-service', parked)?.instanceId)
+      );
+
+      expect(picks).toEqual(new Set(['b']));
+    });
+
+    it('should fall back to the strategy when every weight is 0', () => {
+      const selector = new InstanceSelector('round-robin');
+      const parked = instances.map((instance) => ({ ...instance, weight: 0 }));
+
+      expect(selector.select('test-service', parked)?.instanceId).toBe('a');
+    });
+
+    it('should keep a sticky key on the same release', () => {
+      const selector = new InstanceSelector('round-robin');
+      const keys = Array.from({ length: 50 }, (_, i) => `citizen-${i}`);
+      const releaseOf = (candidates: typeof rollout) =>
+        keys.map((key) => selector.select('test-service', candidates, key)?.label);
+
+      const before = releaseOf(rollout);
+      // Losing a stable replica with its weight moving to the other one keeps every key in place
+      const after = releaseOf([{ ...rollout[0], weight: 90 }, rollout[2]]);
+
+      expect(after).toEqual(before);
+      expect(before).toContain('canary');
+      expect(before).toContain('stable');
+    });
+
+    it('should group instances without a label by version', () => {
+      const selector = new InstanceSelector('round-robin');
+      const versions = [
+        { instanceId: 'a', version: '1.0.0' },
+        { instanceId: 'b', version: '2.0.0' },
+      ];
+
+      const picks = ['x', 'x', 'x'].map(
+        (key) => selector.select('test-service', versions, key)?.version
+      );
+
+      expect(new Set(picks).size).toBe(1);
+    });
+  });
+});
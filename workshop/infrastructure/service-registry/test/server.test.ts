@@ -1,15 +1,37 @@
 import request from 'supertest';
 import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import vm from 'vm';
 import { describe, it, expect, beforeAll, afterAll, vi, beforeEach } from 'vitest';
+import type { HistoryEntry, Instance } from '../src/generated';
 
 // Mock the common module
 vi.mock('@city-services/common', () => {
   return {
-    errorHandler: vi.fn((err: any, req: any, res: any, next: any) => next(err)),
-    requestLogger: vi.fn(() => (req: any, res: any, next: any) => next()),
+    errorHandler: vi.fn(
+      (err: unknown, req: express.Request, res: express.Response, next: express.NextFunction) =>
+        next(err)
+    ),
+    requestLogger: vi.fn(
+      () => (req: express.Request, res: express.Response, next: express.NextFunction) => next()
+    ),
   };
 });
 
+// A layer of the Express router, with the route it serves if any
+interface RouteLayer {
+  route?: { path: string | string[]; methods: Record<string, boolean> };
+}
+
+// Just enough of a DOM node to render the dashboard
+interface FakeElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: FakeElement[];
+  textContent: string;
+}
+
 describe('Service Registry Server', () => {
   let app: express.Application;
 
@@ -37,6 +59,167 @@ describe('Service Registry Server', () => {
     });
   });
 
+  describe('Metrics Endpoint', () => {
+    it('should serve metrics in the Prometheus text format', async () => {
+      await request(app)
+        .post('/register')
+        .send({ name: 'metrics-service', instanceId: 'm1', url: 'http://metrics:8080' });
+      await request(app).post('/heartbeat/metrics-service/m1');
+
+      const response = await request(app).get('/metrics');
+      await request(app).delete('/services/metrics-service');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/^text\/plain;/);
+      expect(response.headers['content-type']).toContain('version=0.0.4');
+      expect(response.text).toContain('registry_registrations_total{service="metrics-service"} 1');
+      expect(response.text).toContain(
+        'registry_instances{service="metrics-service",state="active",status="UNKNOWN"} 1'
+      );
+      expect(response.text).toContain(
+        'registry_heartbeat_age_seconds_count{service="metrics-service"} 1'
+      );
+      // Routes are labelled as documented in the spec
+      expect(response.text).toContain(
+        'registry_http_request_duration_seconds_count{method="POST",route="/heartbeat/{name}/{instanceId}",status="200"} 1'
+      );
+    });
+  });
+
+  describe('Dashboard', () => {
+    it('should serve a self-contained HTML page', async () => {
+      const response = await request(app).get('/dashboard');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/text\/html/);
+      expect(response.headers['content-security-policy']).toContain("default-src 'none'");
+      expect(response.text).toContain('<title>Service Registry</title>');
+      expect(response.text).not.toMatch(/<(script|link)[^>]+(src|href)=/);
+    });
+
+    it('should only link to http(s) instance URLs', async () => {
+      const response = await request(app).get('/dashboard');
+      const script = response.text.match(/<script>([\s\S]*)<\/script>/)![1];
+
+      // Just enough of a DOM to render the page
+      const element = (tag: string) => ({
+        tag,
+        attributes: {} as Record<string, string>,
+        children: [] as FakeElement[],
+        textContent: '',
+        setAttribute(name: string, value: string) {
+          this.attributes[name] = value;
+        },
+        appendChild(child: FakeElement) {
+          this.children.push(child);
+        },
+        addEventListener: () => undefined,
+      });
+      const elements: Record<string, FakeElement> = {};
+      const services = {
+        'test-service': {
+          status: 'UP',
+          instances: [
+            { instanceId: 'a', url: 'javascript:alert(document.cookie)', lastHeartbeat: 0 },
+            { instanceId: 'b', url: 'http://b:8080', lastHeartbeat: 0 },
+          ],
+        },
+      };
+      vm.runInNewContext(script, {
+        URL,
+        document: {
+          getElementById: (id: string) => (elements[id] ??= element('div')),
+          createElement: element,
+          createTextNode: (text: string) => ({ tag: '#text', textContent: text, children: [] }),
+        },
+        sessionStorage: { getItem: () => null, setItem: () => undefined },
+        fetch: async () => ({ ok: true, json: async () => services }),
+        setInterval: () => 0,
+        clearInterval: () => undefined,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      const links: FakeElement[] = [];
+      const collect = (node: FakeElement) => {
+        if (node.tag === 'a') links.push(node);
+        node.children.forEach(collect);
+      };
+      collect(elements.services);
+      expect(links.map((link) => link.attributes.href)).toEqual(['http://b:8080']);
+      expect(JSON.stringify(elements.services)).toContain('javascript:alert(document.cookie)');
+    });
+  });
+
+  describe('API Contract', () => {
+    it('should serve the OpenAPI spec as JSON', async () => {
+      const response = await request(app).get('/api-spec.json');
+
+      expect(response.status).toBe(200);
+      expect(response.body.openapi).toBe('3.1.0');
+      expect(response.body.paths).toHaveProperty('/register');
+    });
+
+    it('should serve the Swagger UI', async () => {
+      // Assets are relative to the trailing slash the static handler redirects to
+      const response = await request(app).get('/api-docs/');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/text\/html/);
+      expect(response.text).toContain('/api-spec.json');
+    });
+
+    it('should document every route', async () => {
+      const spec = (await request(app).get('/api-spec.json')).body;
+      const documented = new Set(
+        Object.entries(spec.paths).flatMap(([path, operations]) =>
+          Object.keys(operations as object).map((method) => `${method} ${path}`)
+        )
+      );
+
+      const routes: string[] = [];
+      // Express 4 keeps its routes on the private router
+      const router = (app as unknown as { _router: { stack: RouteLayer[] } })._router;
+      for (const layer of router.stack) {
+        if (!layer.route) continue;
+        const paths = ([] as string[]).concat(layer.route.path);
+        for (const path of paths) {
+          if (path.startsWith('/api-')) continue;
+          // Express' optional parameters are separate paths in the spec
+          const variants = path.endsWith('?')
+            ? [path.replace(/\/:\w+\?$/, ''), path.slice(0, -1)]
+            : [path];
+          for (const variant of variants) {
+            for (const method of Object.keys(layer.route.methods)) {
+              routes.push(`${method} ${variant.replace(/:(\w+)/g, '{$1}')}`);
+            }
+          }
+        }
+      }
+
+      expect(routes.length).toBeGreaterThan(0);
+      expect(routes.filter((route) => !documented.has(route))).toEqual([]);
+    });
+
+    it('should reject requests that do not match the spec', async () => {
+      const response = await request(app)
+        .post('/register')
+        .send({ name: 'contract-service', url: 'http://contract:8080', ttl: 'forever' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        error: 'bad_request',
+        message: 'request/body/ttl must be number',
+      });
+    });
+
+    it('should answer unknown routes in the registry error format', async () => {
+      const response = await request(app).get('/unknown');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toHaveProperty('error', 'not_found');
+    });
+  });
+
   describe('Service Registration', () => {
     const testService = {
       name: 'test-service',
@@ -61,6 +244,34 @@ describe('Service Registry Server', () => {
       expect(response.body).toHaveProperty('status', 'registered');
     });
 
+    it('should return the granted lease', async () => {
+      const response = await request(app)
+        .post('/register')
+        .send({ ...testService, ttl: 90 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.lease.ttl).toBe(90);
+      expect(Date.parse(response.body.lease.expiresAt)).toBeGreaterThan(Date.now());
+    });
+
+    it('should reject an invalid TTL', async () => {
+      const response = await request(app)
+        .post('/register')
+        .send({ ...testService, ttl: -5 });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'bad_request');
+    });
+
+    it('should only accept http(s) URLs', async () => {
+      const response = await request(app)
+        .post('/register')
+        .send({ ...testService, url: 'javascript:alert(document.cookie)' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'bad_request');
+    });
+
     it('should require service name and URL', async () => {
       const response = await request(app).post('/register').send({ name: 'incomplete-service' });
 
@@ -152,6 +363,332 @@ describe('Service Registry Server', () => {
     });
   });
 
+  describe('Service Queries', () => {
+    beforeAll(async () => {
+      await request(app)
+        .post('/register')
+        .send({
+          name: 'query-police',
+          instanceId: 'v1',
+          url: 'http://police-v1:8080',
+          version: '1.4.0',
+          tags: ['emergency'],
+          metadata: { region: 'north' },
+        });
+      await request(app)
+        .post('/register')
+        .send({
+          name: 'query-police',
+          instanceId: 'v2',
+          url: 'http://police-v2:8080',
+          version: '2.1.0',
+          tags: ['emergency'],
+          metadata: { region: 'south' },
+        });
+    });
+
+    afterAll(async () => {
+      await request(app).delete('/services/query-police');
+    });
+
+    it('should filter services by tag and metadata', async () => {
+      const response = await request(app).get('/services?tag=emergency&metadata.region=south');
+
+      expect(response.status).toBe(200);
+      expect(Object.keys(response.body)).toEqual(['query-police']);
+      expect(response.body['query-police'].instances.map((i: Instance) => i.instanceId)).toEqual([
+        'v2',
+      ]);
+    });
+
+    it('should filter instances by version range', async () => {
+      const response = await request(app)
+        .get('/services/query-police/instances')
+        .query({ version: '^1.0.0' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0]).toMatchObject({ instanceId: 'v1', version: '1.4.0' });
+    });
+
+    it('should return 404 when no instance of the service matches', async () => {
+      const response = await request(app).get('/services/query-police?version=^3.0.0');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should reject an invalid version range', async () => {
+      const response = await request(app).get('/services?version=latest-and-greatest');
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'bad_request');
+    });
+
+    it('should take instances out of rotation with a lifecycle state', async () => {
+      const update = await request(app)
+        .put('/services/query-police/instances/v1')
+        .send({ state: 'draining' });
+      const active = await request(app).get('/services/query-police/instances?state=active');
+      const all = await request(app).get('/services/query-police/instances');
+
+      expect(update.status).toBe(200);
+      expect(active.body.map((i: Instance) => i.instanceId)).toEqual(['v2']);
+      expect(all.body.find((i: Instance) => i.instanceId === 'v1').state).toBe('draining');
+
+      await request(app).put('/services/query-police/instances/v1').send({ state: 'active' });
+    });
+
+    it('should reject unknown lifecycle states', async () => {
+      const update = await request(app)
+        .put('/services/query-police/instances/v1')
+        .send({ state: 'retired' });
+      const query = await request(app).get('/services?state=retired');
+
+      expect(update.status).toBe(400);
+      expect(query.status).toBe(400);
+      expect(query.body.message).toBe(
+        "Invalid state 'retired', expected one of: active, draining, maintenance"
+      );
+    });
+
+    it('should reject registrations with an invalid version or tags', async () => {
+      const badVersion = await request(app)
+        .post('/register')
+        .send({ name: 'query-bad', url: 'http://bad:8080', version: 'two' });
+      const badTags = await request(app)
+        .post('/register')
+        .send({ name: 'query-bad', url: 'http://bad:8080', tags: 'emergency' });
+
+      expect(badVersion.status).toBe(400);
+      expect(badVersion.body.message).toBe("Version 'two' is not a valid semantic version");
+      expect(badTags.status).toBe(400);
+      expect(badTags.body).toEqual({
+        error: 'bad_request',
+        message: 'request/body/tags must be array',
+      });
+    });
+  });
+
+  describe('Instance Health', () => {
+    const serviceName = 'probed-service';
+
+    afterEach(async () => {
+      await request(app).delete(`/services/${serviceName}`);
+    });
+
+    it('should expose probed instance health and the combined service status', async () => {
+      const { registry } = await import('../src/server');
+      await request(app).post('/register').send({
+        name: serviceName,
+        instanceId: 'probed-1',
+        url: 'http://probed-1:8080',
+        healthCheckUrl: 'http://probed-1:8080/health',
+      });
+      registry.setHealth(serviceName, 'probed-1', {
+        status: 'DOWN',
+        consecutiveFailures: 3,
+        lastProbe: { ok: false, checkedAt: Date.now(), latencyMs: 12, statusCode: 503 },
+      });
+
+      const response = await request(app).get(`/services/${serviceName}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('DOWN');
+      expect(response.body.instances[0].health).toMatchObject({
+        status: 'DOWN',
+        consecutiveFailures: 3,
+      });
+    });
+  });
+
+  describe('Watch Stream', () => {
+    const serviceName = 'watched-service';
+    let server: Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+      server = app.listen(0);
+      await new Promise((resolve) => server.once('listening', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    afterEach(async () => {
+      await request(app).delete(`/services/${serviceName}`);
+    });
+
+    // Read SSE messages from the stream until the expected number has arrived
+    const readEvents = async (url: string, count: number, headers: Record<string, string> = {}) => {
+      const controller = new AbortController();
+      const response = await fetch(url, { headers, signal: controller.signal });
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      const events: { type: string; data: unknown }[] = [];
+      let buffer = '';
+
+      const onConnected = async (action: () => Promise<void>) => {
+        await action();
+        while (events.length < count) {
+          const { value } = await reader.read();
+          buffer += decoder.decode(value, { stream: true });
+          const messages = buffer.split('\n\n');
+          buffer = messages.pop()!;
+          for (const message of messages) {
+            const type = /^event: (.*)$/m.exec(message)![1];
+            const data = JSON.parse(/^data: (.*)$/m.exec(message)![1]);
+            events.push({ type, data });
+          }
+        }
+        controller.abort();
+        return events;
+      };
+
+      return { response, onConnected };
+    };
+
+    it('should start with a snapshot and stream changes', async () => {
+      await request(app)
+        .post('/register')
+        .send({ name: serviceName, instanceId: 'w-1', url: 'http://w-1:8080' });
+
+      const stream = await readEvents(`${baseUrl}/services/watch?service=${serviceName}`, 4);
+      expect(stream.response.headers.get('content-type')).toContain('text/event-stream');
+
+      const events = await stream.onConnected(async () => {
+        await request(app).post('/register').send({ name: 'other', url: 'http://other:8080' });
+        await request(app)
+          .post('/register')
+          .send({ name: serviceName, instanceId: 'w-2', url: 'http://w-2:8080' });
+        await request(app)
+          .put(`/services/${serviceName}/instances/w-2`)
+          .send({ metadata: { version: '2' } });
+        await request(app).delete(`/services/${serviceName}/instances/w-1`);
+        await request(app).delete('/services/other');
+      });
+
+      expect(events.map((event) => event.type)).toEqual([
+        'snapshot',
+        'registered',
+        'updated',
+        'deregistered',
+      ]);
+      const snapshot = events[0].data as { services: Record<string, Instance[]> };
+      expect(snapshot.services[serviceName].map((i) => i.instanceId)).toEqual(['w-1']);
+      expect(events[1].data).toMatchObject({ name: serviceName, instanceId: 'w-2' });
+    });
+
+    it('should replay missed changes when resuming with Last-Event-ID', async () => {
+      const { registry } = await import('../src/server');
+      const since = registry.currentIndex;
+      await request(app)
+        .post('/register')
+        .send({ name: serviceName, instanceId: 'w-1', url: 'http://w-1:8080' });
+
+      const stream = await readEvents(`${baseUrl}/services/watch?service=${serviceName}`, 1, {
+        'Last-Event-ID': String(since),
+      });
+      const events = await stream.onConnected(async () => undefined);
+
+      expect(events).toEqual([
+        { type: 'registered', data: expect.objectContaining({ index: since + 1 }) },
+      ]);
+    });
+  });
+
+  describe('Multiple Instances', () => {
+    const serviceName = 'replicated-service';
+    const replicas = [
+      { name: serviceName, instanceId: 'replica-1', url: 'http://replica-1:8080' },
+      { name: serviceName, instanceId: 'replica-2', url: 'http://replica-2:8080' },
+    ];
+
+    beforeEach(async () => {
+      for (const replica of replicas) {
+        await request(app).post('/register').send(replica);
+      }
+    });
+
+    afterEach(async () => {
+      await request(app).delete(`/services/${serviceName}`);
+    });
+
+    it('should return the instance ID on registration', async () => {
+      const response = await request(app)
+        .post('/register')
+        .send({ name: serviceName, url: 'http://replica-3:8080' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.instanceId).toEqual(expect.any(String));
+    });
+
+    it('should keep every instance registered under the service name', async () => {
+      const response = await request(app).get(`/services/${serviceName}/instances`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.map((i: Instance) => i.instanceId)).toEqual(['replica-1', 'replica-2']);
+
+      const serviceResponse = await request(app).get(`/services/${serviceName}`);
+      expect(serviceResponse.body.instances).toHaveLength(2);
+    });
+
+    it('should retrieve a single instance', async () => {
+      const response = await request(app).get(`/services/${serviceName}/instances/replica-2`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        instanceId: 'replica-2',
+        url: 'http://replica-2:8080',
+      });
+    });
+
+    it('should return 404 for instances of a non-existent service', async () => {
+      const response = await request(app).get('/services/non-existent-service/instances');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toHaveProperty('error', 'not_found');
+    });
+
+    it('should record a heartbeat for a single instance', async () => {
+      const response = await request(app).post(`/heartbeat/${serviceName}/replica-1`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('status', 'ok');
+    });
+
+    it('should return 404 for heartbeat to non-existent instance', async () => {
+      const response = await request(app).post(`/heartbeat/${serviceName}/unknown-replica`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.message).toContain("Instance 'unknown-replica'");
+    });
+
+    it('should update a single instance', async () => {
+      const response = await request(app)
+        .put(`/services/${serviceName}/instances/replica-1`)
+        .send({ metadata: { zone: 'north' } });
+
+      expect(response.status).toBe(200);
+
+      const instances = (await request(app).get(`/services/${serviceName}/instances`)).body;
+      expect(instances[0].metadata).toEqual({ zone: 'north' });
+      expect(instances[1].metadata).toEqual({});
+    });
+
+    it('should delete a single instance', async () => {
+      const response = await request(app).delete(`/services/${serviceName}/instances/replica-1`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('status', 'deleted');
+
+      const instances = (await request(app).get(`/services/${serviceName}/instances`)).body;
+      expect(instances.map((i: Instance) => i.instanceId)).toEqual(['replica-2']);
+    });
+  });
+
   describe('Heartbeat Management', () => {
     const testService = {
       name: 'heartbeat-test-service',
@@ -183,6 +720,20 @@ describe('Service Registry Server', () => {
       expect(getResponse.status).toBe(200);
     });
 
+    it('should return the renewed lease for an instance heartbeat', async () => {
+      const registered = await request(app)
+        .post('/register')
+        .send({ ...testService, instanceId: 'leased' });
+
+      const response = await request(app).post(`/heartbeat/${testService.name}/leased`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.lease.ttl).toBe(registered.body.lease.ttl);
+      expect(Date.parse(response.body.lease.expiresAt)).toBeGreaterThanOrEqual(
+        Date.parse(registered.body.lease.expiresAt)
+      );
+    });
+
     it('should return 404 for heartbeat to non-existent service', async () => {
       const response = await request(app).post('/heartbeat/non-existent-service');
 
@@ -191,6 +742,224 @@ describe('Service Registry Server', () => {
     });
   });
 
+  describe('Service History', () => {
+    it('should keep the history of a service after it was deleted', async () => {
+      await request(app)
+        .post('/register')
+        .send({ name: 'history-service', instanceId: 'history-1', url: 'http://a:8080' });
+      await request(app)
+        .put('/services/history-service/instances/history-1')
+        .send({ url: 'http://b:8080' });
+      await request(app).delete('/services/history-service');
+
+      const response = await request(app).get('/services/history-service/history');
+
+      expect(response.status).toBe(200);
+      expect(response.body.map((entry: HistoryEntry) => entry.type)).toEqual([
+        'registered',
+        'updated',
+        'deregistered',
+      ]);
+      expect(response.body[1].instance.url).toBe('http://b:8080');
+    });
+
+    it('should return 404 for a service that never registered', async () => {
+      const response = await request(app).get('/services/unknown-service/history');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toHaveProperty('error', 'not_found');
+    });
+  });
+
+  describe('Dependency Graph', () => {
+    beforeEach(async () => {
+      await request(app)
+        .post('/register')
+        .send({
+          name: 'graph-service',
+          instanceId: 'graph-1',
+          url: 'http://graph:8080',
+          dependencies: ['graph-missing-service'],
+        });
+    });
+
+    it('should return the graph as JSON', async () => {
+      const response = await request(app).get('/graph');
+
+      expect(response.status).toBe(200);
+      expect(response.body.edges).toContainEqual({
+        from: 'graph-service',
+        to: 'graph-missing-service',
+      });
+      expect(response.body.warnings).toContainEqual(
+        expect.objectContaining({ type: 'unregistered', dependency: 'graph-missing-service' })
+      );
+    });
+
+    it('should return the graph as DOT when asked for', async () => {
+      const byQuery = await request(app).get('/graph?format=dot');
+      const byAccept = await request(app).get('/graph').set('Accept', 'text/vnd.graphviz');
+
+      for (const response of [byQuery, byAccept]) {
+        expect(response.status).toBe(200);
+        expect(response.headers['content-type']).toMatch(/text\/vnd\.graphviz/);
+        expect(response.text).toContain('"graph-service" -> "graph-missing-service" [color=red];');
+      }
+    });
+
+    it('should reject an unknown format', async () => {
+      const response = await request(app).get('/graph?format=png');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('API Catalog', () => {
+    const apiSpec = (version: string, paths: Record<string, object>) => ({
+      openapi: '3.1.0',
+      info: { title: 'Catalog Service API', version },
+      paths,
+    });
+
+    afterEach(async () => {
+      await request(app).delete('/services/catalog-service');
+    });
+
+    it('should publish a spec sent with the registration', async () => {
+      const registered = await request(app)
+        .post('/register')
+        .send({
+          name: 'catalog-service',
+          url: 'http://catalog:8080',
+          apiSpec: apiSpec('1.0.0', { '/items': { get: { operationId: 'listItems' } } }),
+        });
+      const catalog = await request(app).get('/catalog');
+      const spec = await request(app).get('/catalog/catalog-service/versions/latest');
+
+      expect(registered.status).toBe(201);
+      expect(catalog.body).toContainEqual(
+        expect.objectContaining({
+          name: 'catalog-service',
+          latest: '1.0.0',
+          versions: [expect.objectContaining({ version: '1.0.0', operations: 1 })],
+        })
+      );
+      expect(spec.status).toBe(200);
+      expect(spec.body.paths).toHaveProperty('/items');
+    });
+
+    it('should reject an invalid spec without registering', async () => {
+      const response = await request(app)
+        .post('/register')
+        .send({
+          name: 'catalog-service',
+          url: 'http://catalog:8080',
+          apiSpec: { openapi: '2.0', info: {}, paths: {} },
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toMatch(/must be an OpenAPI 3 document/);
+      expect((await request(app).get('/services/catalog-service')).status).toBe(404);
+    });
+
+    it('should only publish the spec once the instance is registered', async () => {
+      const { registry } = await import('../src/server');
+      vi.spyOn(registry, 'register').mockRejectedValueOnce(new Error('Store unavailable'));
+
+      const response = await request(app)
+        .post('/register')
+        .send({
+          name: 'failing-service',
+          url: 'http://catalog:8080',
+          apiSpec: apiSpec('1.0.0', {}),
+        });
+
+      expect(response.status).toBe(500);
+      expect((await request(app).get('/catalog/failing-service')).status).toBe(404);
+    });
+
+    it('should report the operations changed by an update', async () => {
+      await request(app)
+        .post('/register')
+        .send({
+          name: 'catalog-service',
+          url: 'http://catalog:8080',
+          apiSpec: apiSpec('1.1.0', { '/items': { get: { operationId: 'listItems' } } }),
+        });
+      await request(app)
+        .put('/services/catalog-service')
+        .send({
+          version: '2.0.0',
+          apiSpec: apiSpec('2.0.0', { '/orders': { post: { operationId: 'placeOrder' } } }),
+        });
+
+      const response = await request(app).get('/catalog/catalog-service/diff?from=1.1.0');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        from: '1.1.0',
+        to: 'latest',
+        added: [{ method: 'POST', path: '/orders', operationId: 'placeOrder' }],
+        removed: [{ method: 'GET', path: '/items', operationId: 'listItems' }],
+        changed: [],
+      });
+    });
+
+    it('should return 404 for unknown versions', async () => {
+      const unknownService = await request(app).get('/catalog/unknown-service');
+      const unknownVersion = await request(app).get('/catalog/unknown-service/diff?from=1.0.0');
+
+      expect(unknownService.status).toBe(404);
+      expect(unknownVersion.status).toBe(404);
+      expect(unknownVersion.body.message).toBe(
+        "Version '1.0.0' of the API of 'unknown-service' not found"
+      );
+    });
+
+    it('should fetch the spec from a URL relative to the instance', async () => {
+      // The registry serves its own spec, so it registers as the service here
+      const server = app.listen(0);
+      await new Promise((resolve) => server.once('listening', resolve));
+      const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      await request(app)
+        .post('/register')
+        .send({ name: 'fetched-service', url, apiSpecUrl: '/api-spec.json' });
+      await vi.waitFor(async () => {
+        const response = await request(app).get('/catalog/fetched-service');
+        expect(response.body.versions).toEqual([
+          expect.objectContaining({
+            version: '1.0.0',
+            title: 'Service Registry API',
+            source: `${url}/api-spec.json`,
+          }),
+        ]);
+      });
+
+      await request(app).delete('/services/fetched-service');
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should serve a Swagger UI combining the published specs', async () => {
+      await request(app)
+        .post('/register')
+        .send({
+          name: 'catalog-service',
+          url: 'http://catalog:8080',
+          apiSpec: apiSpec('3.0.0', {}),
+        });
+
+      const response = await request(app).get('/api-docs/catalog');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/text\/html/);
+      expect(response.text).toContain(
+        '{"name":"catalog-service 3.0.0","url":"/catalog/catalog-service/versions/3.0.0"}'
+      );
+    });
+  });
+
   describe('Service Deletion', () => {
     const testService = {
       name: 'delete-test-service',
@@ -0,0 +1,313 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Mock the pg driver so the Postgres store can be tested without a database
+const mockQuery = vi.fn();
+const mockEnd = vi.fn();
+vi.mock('pg', () => {
+  return {
+    Pool: vi.fn(function () {
+      return { query: mockQuery, end: mockEnd };
+    }),
+  };
+});
+
+import { Pool } from 'pg';
+import { createStore, FileStore, MemoryStore, PostgresStore } from '../src/storage';
+import type { PublishedSpec } from '../src/catalog';
+import { StorageConfig } from '../src/config';
+import { ServiceInstance } from '../src/types';
+
+const instance = (instanceId: string, url: string, lastHeartbeat = 1000): ServiceInstance => ({
+  instanceId,
+  url,
+  metadata: { version: '1.0.0' },
+  lastHeartbeat,
+});
+
+const apiSpec = (version: string): PublishedSpec => ({
+  version,
+  publishedAt: 1000,
+  operations: 0,
+  spec: { openapi: '3.1.0', info: { version }, paths: {} },
+});
+
+describe('Registry Storage', () => {
+  describe('MemoryStore', () => {
+    it('should save, load and remove instances', async () => {
+      const store = new MemoryStore();
+
+      await store.save('service-1', instance('a', 'http://service-1a:8080'));
+      await store.save('service-1', instance('b', 'http://service-1b:8080'));
+      await store.save('service-2', instance('a', 'http://service-2:8080'));
+      await store.remove('service-1', 'a');
+
+      expect(await store.load()).toEqual({
+        'service-1': [instance('b', 'http://service-1b:8080')],
+        'service-2': [instance('a', 'http://service-2:8080')],
+      });
+    });
+
+    it('should save, load and remove API specs', async () => {
+      const store = new MemoryStore();
+
+      await store.saveSpec('service-1', apiSpec('1.0.0'));
+      await store.saveSpec('service-1', apiSpec('2.0.0'));
+      await store.removeSpec('service-1', '1.0.0');
+
+      expect(await store.loadSpecs()).toEqual({ 'service-1': [apiSpec('2.0.0')] });
+      expect(await store.load()).toEqual({});
+    });
+  });
+
+  describe('FileStore', () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'registry-store-'));
+      filePath = path.join(tempDir, 'nested', 'registry.log');
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should start empty when the log does not exist', async () => {
+      const store = new FileStore(filePath);
+
+      expect(await store.load()).toEqual({});
+    });
+
+    it('should persist changes across store instances', async () => {
+      const store = new FileStore(filePath);
+      await store.load();
+      await store.save('service-1', instance('a', 'http://service-1a:8080'));
+      await store.save('service-1', instance('b', 'http://service-1b:8080'));
+      await store.save('service-2', instance('a', 'http://service-2:8080'));
+      await store.save('service-1', instance('a', 'http://service-1a:8080', 5000));
+      await store.remove('service-1', 'b');
+      await store.close();
+
+      const reopened = new FileStore(filePath);
+      expect(await reopened.load()).toEqual({
+        'service-1': [instance('a', 'http://service-1a:8080', 5000)],
+        'service-2': [instance('a', 'http://service-2:8080')],
+      });
+    });
+
+    it('should persist API specs next to the instances', async () => {
+      const store = new FileStore(filePath);
+      await store.load();
+      await store.save('service-1', instance('a', 'http://service-1:8080'));
+      await store.saveSpec('service-1', apiSpec('1.0.0'));
+      await store.saveSpec('service-1', apiSpec('2.0.0'));
+      await store.removeSpec('service-1', '1.0.0');
+      await store.close();
+
+      const reopened = new FileStore(filePath);
+      expect(await reopened.loadSpecs()).toEqual({ 'service-1': [apiSpec('2.0.0')] });
+      expect(await reopened.load()).toEqual({
+        'service-1': [instance('a', 'http://service-1:8080')],
+      });
+
+      // Compacted to one line per instance and spec
+      const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+      expect(lines.map((line) => JSON.parse(line).op)).toEqual(['put', 'put-spec']);
+    });
+
+    it('should append changes as JSON lines', async () => {
+      const store = new FileStore(filePath);
+      await store.load();
+      await store.save('service-1', instance('a', 'http://service-1:8080'));
+      await store.remove('service-1', 'a');
+
+      const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+      expect(lines.map((line) => JSON.parse(line))).toEqual([
+        { op: 'put', name: 'service-1', instance: instance('a', 'http://service-1:8080') },
+        { op: 'delete', name: 'service-1', instanceId: 'a' },
+      ]);
+    });
+
+    it('should compact the log on load', async () => {
+      const store = new FileStore(filePath);
+      await store.load();
+      for (let i = 0; i < 5; i++) {
+        await store.save('service-1', instance('a', 'http://service-1:8080', i));
+      }
+
+      await new FileStore(filePath).load();
+
+      const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0]).instance.lastHeartbeat).toBe(4);
+    });
+
+    it('should compact the log once it exceeds the threshold', async () => {
+      const store = new FileStore(filePath, 3);
+      await store.load();
+      for (let i = 0; i < 5; i++) {
+        await store.save('service-1', instance('a', 'http://service-1:8080', i));
+      }
+
+      const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+      expect(lines.length).toBeLessThanOrEqual(4);
+    });
+
+    it('should ignore a torn last line', async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(
+        filePath,
+        `${JSON.stringify({
+          op: 'put',
+          name: 'service-1',
+          instance: instance('a', 'http://service-1:8080'),
+        })}\n{"op":"put","na`
+      );
+
+      const store = new FileStore(filePath);
+      expect(await store.load()).toEqual({
+        'service-1': [instance('a', 'http://service-1:8080')],
+      });
+    });
+  });
+
+  describe('PostgresStore', () => {
+    beforeEach(() => {
+      mockQuery.mockResolvedValue({ rows: [] });
+      mockEnd.mockResolvedValue(undefined);
+    });
+
+    it('should create the table and load rows', async () => {
+      const store = new PostgresStore({ connectionString: 'postgres://localhost/test' });
+      mockQuery.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({
+        rows: [
+          { name: 'service-1', info: instance('a', 'http://service-1a:8080') },
+          { name: 'service-1', info: instance('b', 'http://service-1b:8080') },
+        ],
+      });
+
+      const services = await store.load();
+
+      expect(mockQuery.mock.calls[0][0]).toContain('CREATE TABLE IF NOT EXISTS registry_services');
+      expect(mockQuery.mock.calls[0][0]).toContain('PRIMARY KEY (name, instance_id)');
+      expect(mockQuery.mock.calls[1][0]).toContain('SELECT name, info FROM registry_services');
+      expect(services).toEqual({
+        'service-1': [
+          instance('a', 'http://service-1a:8080'),
+          instance('b', 'http://service-1b:8080'),
+        ],
+      });
+    });
+
+    it('should upsert an instance on save', async () => {
+      const store = new PostgresStore({ table: 'custom_services' });
+
+      await store.save('service-1', instance('a', 'http://service-1:8080'));
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('INSERT INTO custom_services');
+      expect(sql).toContain('ON CONFLICT (name, instance_id) DO UPDATE');
+      expect(params).toEqual([
+        'service-1',
+        'a',
+        JSON.stringify(instance('a', 'http://service-1:8080')),
+      ]);
+    });
+
+    it('should delete an instance on remove', async () => {
+      const store = new PostgresStore();
+
+      await store.remove('service-1', 'a');
+
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        'DELETE FROM registry_services WHERE name = $1 AND instance_id = $2',
+        ['service-1', 'a']
+      );
+    });
+
+    it('should keep API specs in their own table', async () => {
+      const store = new PostgresStore({ table: 'custom_services' });
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ name: 'service-1', info: apiSpec('1.0.0') }] });
+
+      expect(await store.loadSpecs()).toEqual({ 'service-1': [apiSpec('1.0.0')] });
+      await store.saveSpec('service-1', apiSpec('2.0.0'));
+      await store.removeSpec('service-1', '1.0.0');
+
+      expect(mockQuery.mock.calls[0][0]).toContain(
+        'CREATE TABLE IF NOT EXISTS custom_services_specs'
+      );
+      expect(mockQuery.mock.calls[1][0]).toContain('SELECT name, info FROM custom_services_specs');
+      const [sql, params] = mockQuery.mock.calls[2];
+      expect(sql).toContain('INSERT INTO custom_services_specs');
+      expect(sql).toContain('ON CONFLICT (name, version) DO UPDATE');
+      expect(params).toEqual(['service-1', '2.0.0', JSON.stringify(apiSpec('2.0.0'))]);
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        'DELETE FROM custom_services_specs WHERE name = $1 AND version = $2',
+        ['service-1', '1.0.0']
+      );
+    });
+
+    it('should only create the table once', async () => {
+      const store = new PostgresStore();
+
+      await store.save('service-1', instance('a', 'http://service-1:8080'));
+      await store.save('service-2', instance('a', 'http://service-2:8080'));
+
+      const createCalls = mockQuery.mock.calls.filter(([sql]) => sql.includes('CREATE TABLE'));
+      expect(createCalls).toHaveLength(1);
+    });
+
+    it('should end the pool on close', async () => {
+      const store = new PostgresStore();
+
+      await store.close();
+
+      expect(mockEnd).toHaveBeenCalled();
+    });
+
+    it('should reject unsafe table names', () => {
+      expect(() => new PostgresStore({ table: 'services; DROP TABLE users' })).toThrow(
+        'Invalid registry table name'
+      );
+    });
+  });
+
+  describe('createStore()', () => {
+    const baseConfig: StorageConfig = {
+      type: 'memory',
+      filePath: '/tmp/registry.log',
+      postgres: {
+        host: 'db',
+        port: 5432,
+        user: 'postgres',
+        password: 'secret',
+        database: 'service_registry',
+        table: 'registry_services',
+      },
+    };
+
+    it('should create a memory store by default', () => {
+      expect(createStore(baseConfig)).toBeInstanceOf(MemoryStore);
+    });
+
+    it('should create a file store', () => {
+      expect(createStore({ ...baseConfig, type: 'file' })).toBeInstanceOf(FileStore);
+    });
+
+    it('should create a postgres store from connection settings', () => {
+      expect(createStore({ ...baseConfig, type: 'postgres' })).toBeInstanceOf(PostgresStore);
+      expect(Pool).toHaveBeenLastCalledWith({
+        host: 'db',
+        port: 5432,
+        user: 'postgres',
+        password: 'secret',
+        database: 'service_registry',
+      });
+    });
+  });
+});
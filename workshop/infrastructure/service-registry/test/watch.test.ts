@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ServiceWatcher } from '../src/watch';
+
+// Mock fetch API
+const originalFetch = global.fetch;
+const mockFetch = vi.fn();
+
+// A response whose body can be fed chunk by chunk, like a live SSE stream
+const streamResponse = () => {
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const body = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+  });
+  const encoder = new TextEncoder();
+
+  return {
+    response: { ok: true, status: 200, body },
+    push: (type: string, data: { index?: number; [field: string]: unknown }, id = data.index) =>
+      controller.enqueue(
+        encoder.encode(`id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`)
+      ),
+    raw: (text: string) => controller.enqueue(encoder.encode(text)),
+    close: () => controller.close(),
+  };
+};
+
+const instance = (instanceId: string) => ({
+  instanceId,
+  url: `http://${instanceId}:8080`,
+  metadata: {},
+  lastHeartbeat: 1000,
+});
+
+// Let the watcher read what has been pushed so far
+const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('ServiceWatcher', () => {
+  let watcher: ServiceWatcher;
+
+  beforeEach(() => {
+    global.fetch = mockFetch;
+    watcher = new ServiceWatcher('http://registry:3000', 'other-service', 20);
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    global.fetch = originalFetch;
+  });
+
+  it('should request the watch stream for the service', async () => {
+    const stream = streamResponse();
+    mockFetch.mockResolvedValueOnce(stream.response);
+
+    watcher.start();
+    await flush();
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'http://registry:3000/services/watch?service=other-service',
+      expect.objectContaining({ headers: { Accept: 'text/event-stream' } })
+    );
+  });
+
+  it('should fill the cache from the snapshot and apply changes', async () => {
+    const stream = streamResponse();
+    mockFetch.mockResolvedValueOnce(stream.response);
+    const callback = vi.fn();
+    watcher.subscribe(callback);
+
+    watcher.start();
+    stream.push('snapshot', { index: 3, services: { 'other-service': [instance('a')] } });
+    await flush();
+
+    expect(watcher.isSynced).toBe(true);
+    expect(watcher.instances).toEqual([instance('a')]);
+
+    const base = { name: 'other-service', timestamp: 1000 };
+    stream.push('registered', { ...base, index: 4, instanceId: 'b', instance: instance('b') });
+    stream.push('evicted', { ...base, index: 5, instanceId: 'a', instance: instance('a') });
+    await flush();
+
+    expect(watcher.instances).toEqual([instance('b')]);
+    expect(callback.mock.calls.map(([instances, event]) => [instances.length, event.type])).toEqual(
+      [
+        [1, 'snapshot'],
+        [2, 'registered'],
+        [1, 'evicted'],
+      ]
+    );
+  });
+
+  it('should follow every service when no service name is given', async () => {
+    const stream = streamResponse();
+    mockFetch.mockResolvedValueOnce(stream.response);
+    const all = new ServiceWatcher('http://registry:3000', undefined, 20);
+    const callback = vi.fn();
+    all.subscribe(callback);
+
+    all.start();
+    stream.push('snapshot', {
+      index: 3,
+      services: { 'other-service': [instance('a')], 'third-service': [instance('a')] },
+    });
+    stream.push('registered', {
+      name: 'third-service',
+      index: 4,
+      instanceId: 'b',
+      instance: instance('b'),
+      timestamp: 1000,
+    });
+    await flush();
+    all.stop();
+
+    expect(mockFetch.mock.calls[0][0]).toBe('http://registry:3000/services/watch');
+    // Instances of different services may share an ID
+    expect(all.instances).toEqual([instance('a'), instance('a'), instance('b')]);
+    expect(callback).toHaveBeenLastCalledWith(
+      all.instances,
+      expect.objectContaining({ type: 'registered', name: 'third-service' })
+    );
+  });
+
+  it('should handle messages split across chunks and ignore keep-alives', async () => {
+    const stream = streamResponse();
+    mockFetch.mockResolvedValueOnce(stream.response);
+
+    watcher.start();
+    stream.raw(': keep-alive\n\nid: 1\nevent: snapshot\ndata: {"index":1,"serv');
+    await flush();
+    expect(watcher.isSynced).toBe(false);
+
+    stream.raw('ices":{"other-service":[]}}\n\n');
+    await flush();
+    expect(watcher.isSynced).toBe(true);
+  });
+
+  it('should resume from the last seen index after the stream drops', async () => {
+    const first = streamResponse();
+    const second = streamResponse();
+    mockFetch.mockResolvedValueOnce(first.response).mockResolvedValueOnce(second.response);
+
+    watcher.start();
+    first.push('snapshot', { index: 7, services: { 'other-service': [instance('a')] } });
+    first.close();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[1][1].headers).toEqual({
+      Accept: 'text/event-stream',
+      'Last-Event-ID': '7',
+    });
+    // The cache is kept while reconnecting
+    expect(watcher.instances).toEqual([instance('a')]);
+  });
+
+  it('should report not synced while the stream is down', async () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const first = streamResponse();
+    const second = streamResponse();
+    mockFetch
+      .mockResolvedValueOnce(first.response)
+      .mockResolvedValueOnce({ ok: false, status: 503 })
+      .mockResolvedValueOnce(second.response);
+
+    watcher.start();
+    first.push('snapshot', { index: 7, services: { 'other-service': [instance('a')] } });
+    await flush();
+    expect(watcher.isSynced).toBe(true);
+
+    first.close();
+    await flush();
+    expect(watcher.isSynced).toBe(false);
+
+    // Back once the resumed stream is accepted
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(consoleErrorSpy).toHaveBeenCalledTimes(1);
+    expect(watcher.isSynced).toBe(true);
+  });
+
+  it('should retry when the registry is unreachable', async () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const stream = streamResponse();
+    mockFetch
+      .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+      .mockResolvedValueOnce(stream.response);
+
+    watcher.start();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      "Lost watch stream for service 'other-service':",
+      expect.any(Error)
+    );
+  });
+
+  it('should stop reconnecting once stopped', async () => {
+    const stream = streamResponse();
+    mockFetch.mockResolvedValue(stream.response);
+
+    watcher.start();
+    await flush();
+    watcher.stop();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -27,6 +27,10 @@ export default defineConfig({
   resolve: {
     alias: {
       '@city-services/common': path.resolve(__dirname, './test/__mocks__/@city-services/common.ts'),
+      '@city-services/event-bus': path.resolve(
+        __dirname,
+        './test/__mocks__/@city-services/event-bus.ts'
+      ),
     },
   },
 });
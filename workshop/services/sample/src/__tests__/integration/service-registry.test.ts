@@ -20,6 +20,8 @@ describe('Service Registry Integration Tests', () => {
   beforeEach(() => {
     // Clear all nock interceptors
     nock.cleanAll();
+    // Forget cached lookups so every test sees its own mocked registry response
+    serviceRegistry.clearCache();
   });
 
   afterAll(() => {
@@ -131,7 +133,7 @@ describe('Service Registry Integration Tests', () => {
     it('should unregister service successfully', async () => {
       // Mock service registry unregister endpoint
       nock(config.serviceRegistry.url)
-        .delete(`/services/${config.serviceName}`)
+        .delete(`/services/${config.serviceName}/instances/${serviceRegistry.instanceId}`)
         .reply(200, {
           status: 'deleted',
           timestamp: new Date().toISOString()
@@ -153,7 +155,7 @@ describe('Service Registry Integration Tests', () => {
 
       // Mock service registry unregister endpoint with error
       nock(config.serviceRegistry.url)
-        .delete(`/services/${config.serviceName}`)
+        .delete(`/services/${config.serviceName}/instances/${serviceRegistry.instanceId}`)
         .reply(500, { error: 'Internal Server Error' });
 
       const result = await serviceRegistry.unregister();